@@ -1,5 +1,5 @@
 import React, { useState } from "react";
-import { Switch, Route } from "wouter";
+import { Switch, Route, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -11,12 +11,20 @@ import AuditFlags from "@/pages/audit-flags";
 import ReportBuilder from "@/pages/report-builder";
 import BenchmarkSettings from "@/pages/benchmark-settings";
 import NetworkTopologyPage from "@/pages/network-topology";
+import ResiliencyReportPage from "@/pages/resiliency-report";
 import Optimization from "@/pages/optimization";
 import NotFound from "@/pages/not-found";
 import ProjectLanding from "@/pages/project-landing";
+import AuthPage from "@/pages/auth-page";
+import UserManagement from "@/pages/user-management";
+import ShareLinkPage from "@/pages/share-link";
 import Sidebar from "@/components/layout/sidebar";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { isClient } from "@shared/permissions";
 
 function Router() {
+  const { user, isLoading } = useAuth();
+  const [location, setLocation] = useLocation();
   const [currentProjectId, setCurrentProjectId] = useState<string | null>(() => {
     // Initialize from localStorage
     return localStorage.getItem('currentProjectId');
@@ -33,26 +41,69 @@ function Router() {
     localStorage.removeItem('currentProjectId');
   };
 
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  // Client share links sign the visitor in to the shared project
+  const shareMatch = location.match(/^\/share\/([^/]+)$/);
+  if (shareMatch) {
+    return (
+      <ShareLinkPage
+        token={shareMatch[1]}
+        onRedeemed={(sharedUser) => {
+          if (sharedUser.sharedProjectId) handleSelectProject(sharedUser.sharedProjectId);
+          setLocation('/');
+        }}
+      />
+    );
+  }
+
+  // Nothing is reachable without a session
+  if (!user) {
+    return <AuthPage />;
+  }
+
+  // Share-link sessions are locked to their project
+  const projectId = user.sharedProjectId ?? currentProjectId;
+
   // Check if we have a current project or should show landing page
-  if (!currentProjectId) {
+  if (!projectId) {
     return <ProjectLanding onSelectProject={handleSelectProject} />;
   }
 
   return (
     <div className="flex min-h-screen">
-      <Sidebar onBackToProjects={handleBackToProjects} currentProjectId={currentProjectId} />
+      <Sidebar onBackToProjects={handleBackToProjects} currentProjectId={projectId} />
       <main className="flex-1">
-        <Switch>
-          <Route path="/" component={Dashboard} />
-          <Route path="/inventory" component={Inventory} />
-          <Route path="/sites" component={Sites} />
-          <Route path="/optimization" component={Optimization} />
-          <Route path="/audit-flags" component={AuditFlags} />
-          <Route path="/report-builder" component={ReportBuilder} />
-          <Route path="/benchmark-settings" component={BenchmarkSettings} />
-          <Route path="/network-topology" component={NetworkTopologyPage} />
-          <Route component={NotFound} />
-        </Switch>
+        {isClient(user) ? (
+          // The client portal is read-only: dashboard, topology and reports
+          <Switch>
+            <Route path="/" component={Dashboard} />
+            <Route path="/network-topology" component={NetworkTopologyPage} />
+            <Route path="/resiliency-report" component={ResiliencyReportPage} />
+            <Route path="/report-builder" component={ReportBuilder} />
+            <Route component={NotFound} />
+          </Switch>
+        ) : (
+          <Switch>
+            <Route path="/" component={Dashboard} />
+            <Route path="/inventory" component={Inventory} />
+            <Route path="/sites" component={Sites} />
+            <Route path="/optimization" component={Optimization} />
+            <Route path="/audit-flags" component={AuditFlags} />
+            <Route path="/report-builder" component={ReportBuilder} />
+            <Route path="/benchmark-settings" component={BenchmarkSettings} />
+            <Route path="/network-topology" component={NetworkTopologyPage} />
+            <Route path="/resiliency-report" component={ResiliencyReportPage} />
+            <Route path="/users" component={UserManagement} />
+            <Route component={NotFound} />
+          </Switch>
+        )}
       </main>
     </div>
   );
@@ -61,10 +112,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -8,8 +8,12 @@ import {
   ChevronRight 
 } from "lucide-react";
 
-export default function QuickActions() {
-  const actions = [
+interface QuickActionsProps {
+  onExportExcel?: () => void;
+}
+
+export default function QuickActions({ onExportExcel }: QuickActionsProps = {}) {
+  const actions: { icon: typeof Flag; title: string; iconColor: string; onClick?: () => void }[] = [
     {
       icon: Flag,
       title: "Flag High Cost Circuits",
@@ -29,6 +33,7 @@ export default function QuickActions() {
       icon: Download,
       title: "Export to Excel",
       iconColor: "text-muted-foreground",
+      onClick: onExportExcel,
     },
   ];
 
@@ -59,6 +64,7 @@ export default function QuickActions() {
               key={action.title}
               variant="outline"
               className="w-full justify-between text-left h-auto p-4"
+              onClick={action.onClick}
             >
               <div className="flex items-center space-x-3">
                 <action.icon className={`w-5 h-5 ${action.iconColor}`} />
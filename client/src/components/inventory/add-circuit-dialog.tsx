@@ -170,6 +170,7 @@ export default function AddCircuitDialog({ open, onClose, initialSiteName, templ
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/circuits"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sites"] });
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
       form.reset();
       onClose();
@@ -1,4 +1,4 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   Table,
@@ -29,6 +29,8 @@ import { apiRequest } from "@/lib/queryClient";
 import CircuitEditDialog from "./circuit-edit-dialog";
 import AddCircuitDialog from "./add-circuit-dialog";
 import { Circuit } from "@shared/schema";
+import { applyCircuitView, type CircuitSortField, type CircuitView } from "@shared/circuit-export";
+import { usePermissions } from "@/hooks/use-permissions";
 
 // Define a type for the filters if it's not already defined elsewhere
 interface CircuitFilters {
@@ -44,10 +46,14 @@ interface CircuitFilters {
   optimizationStatus?: string;
 }
 
-export default function CircuitTable() {
+interface CircuitTableProps {
+  onViewChange?: (view: CircuitView) => void; // Lets the page export what the table shows
+}
+
+export default function CircuitTable({ onViewChange }: CircuitTableProps = {}) {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCircuits, setSelectedCircuits] = useState<string[]>([]);
-  const [sortField, setSortField] = useState<string>("");
+  const [sortField, setSortField] = useState<CircuitSortField>();
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("asc");
   const [editingCircuit, setEditingCircuit] = useState<Circuit | null>(null);
   const [showAddDialog, setShowAddDialog] = useState(false);
@@ -65,6 +71,7 @@ export default function CircuitTable() {
       : null;
     return projectIdFromPath || localStorage.getItem('currentProjectId');
   }, []);
+  const { canEditProject } = usePermissions(currentProjectId);
 
   const { data: circuits = [], isLoading } = useQuery<Circuit[]>({
     queryKey: ["/api/circuits", searchQuery, currentProjectId], // Include currentProjectId in queryKey
@@ -85,6 +92,10 @@ export default function CircuitTable() {
     enabled: !!currentProjectId, // Only enable the query if currentProjectId is available
   });
 
+  useEffect(() => {
+    onViewChange?.({ search: searchQuery, sortField, sortDirection, ids: selectedCircuits });
+  }, [onViewChange, searchQuery, sortField, sortDirection, selectedCircuits]);
+
   const bulkUpdateMutation = useMutation({
     mutationFn: async ({ ids, updates }: { ids: string[], updates: any }) => {
       // Assume the bulk update endpoint also respects projectId if provided
@@ -178,7 +189,7 @@ export default function CircuitTable() {
     }
   };
 
-  const handleSort = (field: string) => {
+  const handleSort = (field: CircuitSortField) => {
     if (sortField === field) {
       setSortDirection(prev => prev === "asc" ? "desc" : "asc");
     } else {
@@ -264,32 +275,8 @@ export default function CircuitTable() {
     return <div className="flex items-center justify-center h-64">Loading circuits...</div>;
   }
 
-  // Filter circuits based on search query
-  const filteredCircuits = circuits.filter(circuit =>
-    circuit.siteName?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    circuit.carrier?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    circuit.locationType?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    circuit.serviceType?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    circuit.circuitCategory?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    circuit.circuitId?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    circuit.bandwidth?.toLowerCase().includes(searchQuery.toLowerCase())
-  );
-
-  // Sorting logic
-  const sortedCircuits = [...filteredCircuits].sort((a, b) => {
-    if (!sortField) return 0;
-
-    const aValue = String(a[sortField as keyof Circuit] || '').toLowerCase();
-    const bValue = String(b[sortField as keyof Circuit] || '').toLowerCase();
-
-    if (aValue < bValue) {
-      return sortDirection === "asc" ? -1 : 1;
-    }
-    if (aValue > bValue) {
-      return sortDirection === "asc" ? 1 : -1;
-    }
-    return 0;
-  });
+  // Searched and sorted the same way as circuit exports
+  const sortedCircuits = applyCircuitView(circuits, { search: searchQuery, sortField, sortDirection });
 
 
   return (
@@ -314,20 +301,24 @@ export default function CircuitTable() {
               <Filter className="w-4 h-4 mr-2" />
               Filter
             </Button>
-            <Button
-              onClick={handleBulkUpdate}
-              disabled={selectedCircuits.length === 0}
-            >
-              <Edit className="w-4 h-4 mr-2" />
-              Bulk Edit ({selectedCircuits.length})
-            </Button>
-            <Button
-              onClick={handleAddNewCircuit}
-              variant="default"
-            >
-              <Plus className="w-4 h-4 mr-2" />
-              Add Circuit
-            </Button>
+            {canEditProject && (
+              <>
+                <Button
+                  onClick={handleBulkUpdate}
+                  disabled={selectedCircuits.length === 0}
+                >
+                  <Edit className="w-4 h-4 mr-2" />
+                  Bulk Edit ({selectedCircuits.length})
+                </Button>
+                <Button
+                  onClick={handleAddNewCircuit}
+                  variant="default"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Circuit
+                </Button>
+              </>
+            )}
           </div>
         </div>
       </CardHeader>
@@ -448,23 +439,27 @@ export default function CircuitTable() {
                   <TableCell className="font-mono text-sm">{circuit.circuitId}</TableCell>
                   <TableCell className="text-right">
                     <div className="flex items-center justify-end space-x-2">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleAddCircuitToSite(circuit)}
-                        title="Add another circuit to this site"
-                        data-testid={`button-add-to-site-${circuit.id}`}
-                      >
-                        <Plus className="w-4 h-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleEditCircuit(circuit)}
-                        data-testid={`button-edit-circuit-${circuit.id}`}
-                      >
-                        <Edit className="w-4 h-4" />
-                      </Button>
+                      {canEditProject && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleAddCircuitToSite(circuit)}
+                            title="Add another circuit to this site"
+                            data-testid={`button-add-to-site-${circuit.id}`}
+                          >
+                            <Plus className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEditCircuit(circuit)}
+                            data-testid={`button-edit-circuit-${circuit.id}`}
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                        </>
+                      )}
                       <Button variant="ghost" size="sm">
                         <MoreVertical className="w-4 h-4" />
                       </Button>
@@ -487,7 +482,7 @@ export default function CircuitTable() {
       </CardContent>
 
       {/* Circuit Edit Dialog */}
-      {editingCircuit && (
+      {canEditProject && editingCircuit && (
         <CircuitEditDialog
           circuit={editingCircuit}
           open={!!editingCircuit}
@@ -498,15 +493,17 @@ export default function CircuitTable() {
       )}
 
       {/* Add Circuit Dialog */}
-      <AddCircuitDialog
-        open={showAddDialog}
-        onClose={() => {
-          setShowAddDialog(false);
-          setTemplateCircuit(null);
-        }}
-        initialSiteName={selectedSiteForAdd}
-        templateCircuit={templateCircuit}
-      />
+      {canEditProject && (
+        <AddCircuitDialog
+          open={showAddDialog}
+          onClose={() => {
+            setShowAddDialog(false);
+            setTemplateCircuit(null);
+          }}
+          initialSiteName={selectedSiteForAdd}
+          templateCircuit={templateCircuit}
+        />
+      )}
     </Card>
   );
 }
\ No newline at end of file
@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Save } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { circuitImportFields, type CircuitImportFieldKey, type ColumnMapping } from "@shared/circuit-import";
+import type { ImportMappingProfile, ImportMappingScope } from "@shared/schema";
+
+// Sheets, columns and first rows of an uploaded import file
+export interface ImportInspection {
+  fileName: string;
+  sheets: string[];
+  sheet: string | null;
+  headers: string[];
+  rowCount: number;
+  sampleRows: Record<string, string>[];
+}
+
+interface ColumnMappingProps {
+  inspection: ImportInspection;
+  mapping: ColumnMapping;
+  onMappingChange: (mapping: ColumnMapping) => void;
+  onSheetChange: (sheet: string) => void;
+  profiles: ImportMappingProfile[];
+  profileId: string | null;
+  onProfileChange: (profile: ImportMappingProfile | null) => void;
+  clientName?: string;
+}
+
+const NOT_MAPPED = "none";
+
+const scopeLabels: Record<ImportMappingScope, string> = { client: "Client", carrier: "Carrier" };
+
+const isClientProfile = (profile: ImportMappingProfile, clientName?: string) =>
+  profile.scope === "client" && !!clientName && profile.scopeName.toLowerCase() === clientName.toLowerCase();
+
+// The saved profile that fits a file best: every column it maps is in the
+// file, the client's own profiles first, then the one mapping the most fields
+export function bestMappingProfile(profiles: ImportMappingProfile[], headers: string[], clientName?: string) {
+  return profiles
+    .filter(profile => {
+      const columns = Object.values(profile.mapping);
+      return columns.length > 0 && columns.every(column => headers.includes(column));
+    })
+    .sort((a, b) =>
+      Number(isClientProfile(b, clientName)) - Number(isClientProfile(a, clientName)) ||
+      Object.keys(b.mapping).length - Object.keys(a.mapping).length
+    )[0];
+}
+
+// Matches each circuit field to a column of the file, and saves the result
+// as a profile for the client or carrier
+export default function ColumnMappingStep({
+  inspection,
+  mapping,
+  onMappingChange,
+  onSheetChange,
+  profiles,
+  profileId,
+  onProfileChange,
+  clientName,
+}: ColumnMappingProps) {
+  const { toast } = useToast();
+  const selectedProfile = profiles.find(profile => profile.id === profileId);
+  const [profileName, setProfileName] = useState(selectedProfile?.name ?? "");
+  const [scope, setScope] = useState<ImportMappingScope>(selectedProfile?.scope as ImportMappingScope ?? "client");
+  const [scopeName, setScopeName] = useState(selectedProfile?.scopeName ?? clientName ?? "");
+
+  const sampleValue = (key: CircuitImportFieldKey) => {
+    const column = mapping[key];
+    return column ? inspection.sampleRows.find(row => row[column])?.[column] : undefined;
+  };
+
+  const saveProfileMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/import-mapping-profiles", {
+        name: profileName,
+        scope,
+        scopeName,
+        mapping,
+      });
+      return response.json() as Promise<ImportMappingProfile>;
+    },
+    onSuccess: (profile) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-mapping-profiles"] });
+      onProfileChange(profile);
+      toast({ title: "Mapping Saved", description: `"${profile.name}" will be offered for ${profile.scopeName} imports.` });
+    },
+    onError: () => {
+      toast({ title: "Save Failed", description: "The mapping profile could not be saved.", variant: "destructive" });
+    },
+  });
+
+  const changeScope = (value: ImportMappingScope) => {
+    setScope(value);
+    setScopeName(value === "client" ? clientName ?? "" : sampleValue("carrier") ?? "");
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="text-sm">
+          <div className="font-medium text-foreground">{inspection.fileName}</div>
+          <div className="text-muted-foreground">{inspection.rowCount} rows, {inspection.headers.length} columns</div>
+        </div>
+        {inspection.sheets.length > 1 && (
+          <div className="w-48">
+            <label className="text-xs text-muted-foreground">Sheet</label>
+            <Select value={inspection.sheet ?? undefined} onValueChange={onSheetChange}>
+              <SelectTrigger className="h-8" data-testid="select-import-sheet">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {inspection.sheets.map(sheet => (
+                  <SelectItem key={sheet} value={sheet}>{sheet}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="w-64">
+          <label className="text-xs text-muted-foreground">Mapping profile</label>
+          <Select
+            value={profileId ?? NOT_MAPPED}
+            onValueChange={(value) => onProfileChange(profiles.find(profile => profile.id === value) ?? null)}
+          >
+            <SelectTrigger className="h-8" data-testid="select-mapping-profile">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NOT_MAPPED}>Match by column names</SelectItem>
+              {profiles.map(profile => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.name} ({scopeLabels[profile.scope as ImportMappingScope]}: {profile.scopeName})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="max-h-80 overflow-y-auto border rounded">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Circuit Field</TableHead>
+              <TableHead className="w-56">Column</TableHead>
+              <TableHead>First Value</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {circuitImportFields.map(field => (
+              <TableRow key={field.key}>
+                <TableCell className="text-sm">
+                  {field.label}
+                  {"required" in field && <span className="text-destructive"> *</span>}
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={mapping[field.key] ?? NOT_MAPPED}
+                    onValueChange={(value) => {
+                      const { [field.key]: _, ...rest } = mapping;
+                      onMappingChange(value === NOT_MAPPED ? rest : { ...rest, [field.key]: value });
+                    }}
+                  >
+                    <SelectTrigger
+                      className={`h-8 ${"required" in field && !mapping[field.key] ? "border-destructive" : ""}`}
+                      data-testid={`select-column-${field.key}`}
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not imported</SelectItem>
+                      {inspection.headers.map(header => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground truncate max-w-[12rem]">
+                  {sampleValue(field.key) ?? "—"}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Save Profile */}
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="flex-1 min-w-[10rem]">
+          <label className="text-xs text-muted-foreground">Save mapping as</label>
+          <Input
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder="Profile name"
+            className="h-8"
+            data-testid="input-profile-name"
+          />
+        </div>
+        <div className="w-28">
+          <label className="text-xs text-muted-foreground">For</label>
+          <Select value={scope} onValueChange={(value) => changeScope(value as ImportMappingScope)}>
+            <SelectTrigger className="h-8" data-testid="select-profile-scope">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(scopeLabels) as ImportMappingScope[]).map(value => (
+                <SelectItem key={value} value={value}>{scopeLabels[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex-1 min-w-[10rem]">
+          <label className="text-xs text-muted-foreground">{scopeLabels[scope]} name</label>
+          <Input
+            value={scopeName}
+            onChange={(e) => setScopeName(e.target.value)}
+            className="h-8"
+            data-testid="input-profile-scope-name"
+          />
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => saveProfileMutation.mutate()}
+          disabled={!profileName.trim() || !scopeName.trim() || saveProfileMutation.isPending}
+          data-testid="button-save-profile"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
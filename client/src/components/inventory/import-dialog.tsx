@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,10 +12,15 @@ import {
   CheckCircle, 
   AlertTriangle,
   Download,
+  Eye,
   X
 } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import ColumnMappingStep, { bestMappingProfile, type ImportInspection } from "./column-mapping";
+import ImportPreviewStep from "./import-preview";
+import ImportHistory from "./import-history";
+import { suggestColumnMapping, missingRequiredFields, type ColumnMapping, type ImportMode, type ImportPreview } from "@shared/circuit-import";
+import type { ImportMappingProfile, Project } from "@shared/schema";
 
 interface ImportDialogProps {
   isOpen: boolean;
@@ -25,6 +30,10 @@ interface ImportDialogProps {
 
 interface ImportResult {
   success: number;
+  created: number;
+  updated: number;
+  sitesCreated: number;
+  flagged: number;
   errors: Array<{
     row: number;
     message: string;
@@ -32,15 +41,127 @@ interface ImportResult {
   }>;
 }
 
+// Error message from a failed upload's JSON response
+const responseError = async (response: Response, fallback: string) => {
+  const body = await response.json().catch(() => null);
+  return new Error(body?.message ?? fallback);
+};
+
 export default function ImportDialog({ isOpen, onClose, projectId }: ImportDialogProps) {
   const [file, setFile] = useState<File | null>(null);
   const [dragActive, setDragActive] = useState(false);
   const [importResult, setImportResult] = useState<ImportResult | null>(null);
   const [uploadProgress, setUploadProgress] = useState(0);
+  // Column mapping step, once the file has been read
+  const [inspection, setInspection] = useState<ImportInspection | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [profileId, setProfileId] = useState<string | null>(null);
+  // Preview step: what the import would do with the mapping
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mode, setMode] = useState<ImportMode>("update");
+  const [skipErrors, setSkipErrors] = useState(false);
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: project } = useQuery<Project>({
+    queryKey: ["/api/projects", projectId],
+    enabled: isOpen && !!projectId,
+  });
+
+  const { data: profiles = [] } = useQuery<ImportMappingProfile[]>({
+    queryKey: ["/api/import-mapping-profiles"],
+    enabled: isOpen,
+  });
+
+  const uploadForm = (upload: File, sheet?: string | null) => {
+    const formData = new FormData();
+    formData.append("file", upload);
+    if (projectId) {
+      formData.append("projectId", projectId);
+    }
+    if (sheet) {
+      formData.append("sheet", sheet);
+    }
+    return formData;
+  };
+
+  // Reads the file's sheets and columns, and maps them with the best saved
+  // profile or by their names
+  const inspectMutation = useMutation({
+    mutationFn: async ({ upload, sheet }: { upload: File; sheet?: string }): Promise<ImportInspection> => {
+      const response = await fetch("/api/circuits/import/inspect", {
+        method: "POST",
+        body: uploadForm(upload, sheet),
+      });
+      if (!response.ok) {
+        throw await responseError(response, "The file could not be read");
+      }
+      return response.json();
+    },
+    onSuccess: (result) => {
+      const profile = bestMappingProfile(profiles, result.headers, project?.clientName);
+      setInspection(result);
+      setProfileId(profile?.id ?? null);
+      setMapping(suggestColumnMapping(result.headers, profile?.mapping));
+    },
+    onError: (error: Error) => {
+      setFile(null);
+      toast({
+        title: "Unreadable File",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const chooseFile = (upload: File) => {
+    setFile(upload);
+    inspectMutation.mutate({ upload });
+  };
+
+  const applyProfile = (profile: ImportMappingProfile | null) => {
+    setProfileId(profile?.id ?? null);
+    if (inspection) setMapping(suggestColumnMapping(inspection.headers, profile?.mapping));
+  };
+
+  const missingFields = missingRequiredFields(mapping);
+
+  const importForm = (options: { mode: ImportMode; dryRun?: boolean; skipErrors?: boolean }) => {
+    const formData = uploadForm(file!, inspection!.sheet);
+    formData.append("mapping", JSON.stringify(mapping));
+    formData.append("mode", options.mode);
+    if (options.dryRun) formData.append("dryRun", "true");
+    if (options.skipErrors) formData.append("skipErrors", "true");
+    return formData;
+  };
+
+  // Checks every row with the current mapping and mode without saving anything
+  const previewMutation = useMutation({
+    mutationFn: async (previewMode: ImportMode): Promise<ImportPreview> => {
+      const response = await fetch("/api/circuits/import", {
+        method: "POST",
+        body: importForm({ mode: previewMode, dryRun: true }),
+      });
+      if (!response.ok) {
+        throw await responseError(response, "The file could not be checked");
+      }
+      return response.json();
+    },
+    onSuccess: (result) => {
+      setPreview(result);
+      setMode(result.mode);
+      setSkipErrors(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Preview Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const importMutation = useMutation({
     mutationFn: async (formData: FormData) => {
       const response = await fetch("/api/circuits/import", {
@@ -49,7 +170,7 @@ export default function ImportDialog({ isOpen, onClose, projectId }: ImportDialo
       });
       
       if (!response.ok) {
-        throw new Error("Import failed");
+        throw await responseError(response, "There was an error importing the file.");
       }
       
       return response.json();
@@ -57,27 +178,30 @@ export default function ImportDialog({ isOpen, onClose, projectId }: ImportDialo
     onSuccess: (result: ImportResult) => {
       setImportResult(result);
       queryClient.invalidateQueries({ queryKey: ["/api/circuits"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sites"] });
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
       
       if (result.success > 0) {
         toast({
           title: "Import Successful",
-          description: `Successfully imported ${result.success} circuits.`,
+          description: result.sitesCreated > 0
+            ? `Successfully imported ${result.success} circuits and added ${result.sitesCreated} new sites.`
+            : `Successfully imported ${result.success} circuits.`,
         });
       }
       
       if (result.errors.length > 0) {
         toast({
-          title: "Import Warnings",
-          description: `${result.errors.length} rows had errors.`,
+          title: "Rows Left Out",
+          description: `${result.errors.length} rows with errors were not imported.`,
           variant: "destructive",
         });
       }
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Import Failed", 
-        description: "There was an error importing the file.",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -99,24 +223,20 @@ export default function ImportDialog({ isOpen, onClose, projectId }: ImportDialo
     setDragActive(false);
     
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      setFile(e.dataTransfer.files[0]);
+      chooseFile(e.dataTransfer.files[0]);
     }
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      setFile(e.target.files[0]);
+      chooseFile(e.target.files[0]);
     }
   };
 
   const handleImport = () => {
-    if (!file) return;
+    if (!file || !inspection) return;
     
-    const formData = new FormData();
-    formData.append("file", file);
-    if (projectId) {
-      formData.append("projectId", projectId);
-    }
+    const formData = importForm({ mode, skipErrors });
     
     // Simulate upload progress
     setUploadProgress(0);
@@ -136,13 +256,13 @@ export default function ImportDialog({ isOpen, onClose, projectId }: ImportDialo
   const handleDownloadTemplate = () => {
     // Create CSV template with different circuit types
     const csvContent = `Site Name,Carrier,Location Type,Service Type,Circuit Category,A Location,Z Location,Bandwidth,Bandwidth Mbps,Monthly Cost,Contract Term,Contract End Date,Status,Circuit ID,Notes
-Dallas Branch,Comcast,Branch,Broadband,Internet,,100 Mbps,100,299.00,24 months,2025-12-31,active,CIR-PUB-001,Internet broadband service
-New York HQ,AT&T,Corporate,Dedicated Internet,Internet,,500 Mbps,500,1250.00,36 months,2025-06-30,active,CIR-PUB-002,Dedicated internet access
-Remote Office,Verizon,Branch,LTE,Internet,,50 Mbps,50,150.00,24 months,2025-08-15,active,CIR-PUB-003,LTE cellular backup
-Mountain Site,HughesNet,Branch,Satellite,Internet,,25 Mbps,25,199.00,24 months,2025-09-30,active,CIR-PUB-004,Satellite internet for remote location
-AWS US-East,Amazon,Cloud,Direct Connect,Private,,500 Mbps,500,950.00,12 months,2025-12-31,active,CIR-CLD-001,AWS Direct Connect
-Corporate HQ,AT&T,Corporate,MPLS,Private,,100 Mbps,100,1850.00,36 months,2025-12-31,active,CIR-PRI-001,MPLS private network
-Branch Network,Verizon,Branch,VPLS,Private,,200 Mbps,200,2100.00,24 months,2025-07-15,active,CIR-PRI-002,VPLS ethernet service
+Dallas Branch,Comcast,Branch,Broadband,Internet,,,100 Mbps,100,299.00,24 months,2025-12-31,active,CIR-PUB-001,Internet broadband service
+New York HQ,AT&T,Corporate,Dedicated Internet,Internet,,,500 Mbps,500,1250.00,36 months,2025-06-30,active,CIR-PUB-002,Dedicated internet access
+Remote Office,Verizon,Branch,LTE,Internet,,,50 Mbps,50,150.00,24 months,2025-08-15,active,CIR-PUB-003,LTE cellular backup
+Mountain Site,HughesNet,Branch,Satellite,Internet,,,25 Mbps,25,199.00,24 months,2025-09-30,active,CIR-PUB-004,Satellite internet for remote location
+AWS US-East,Amazon,Cloud,Direct Connect,Private,,,500 Mbps,500,950.00,12 months,2025-12-31,active,CIR-CLD-001,AWS Direct Connect
+Corporate HQ,AT&T,Corporate,MPLS,Private,,,100 Mbps,100,1850.00,36 months,2025-12-31,active,CIR-PRI-001,MPLS private network
+Branch Network,Verizon,Branch,VPLS,Private,,,200 Mbps,200,2100.00,24 months,2025-07-15,active,CIR-PRI-002,VPLS ethernet service
 Primary DC,Lumen,Data Center,Private Line,Point-to-Point,Primary DC,DR Site,1000 Mbps,1000,3500.00,60 months,2026-01-31,active,CIR-P2P-001,Point-to-point fiber between data centers
 Main Office,Zayo,Corporate,Dark Fiber,Point-to-Point,Main Office,Backup Site,10000 Mbps,10000,2500.00,120 months,2028-03-15,active,CIR-P2P-002,Dark fiber point-to-point connection`;
     
@@ -159,12 +279,18 @@ Main Office,Zayo,Corporate,Dark Fiber,Point-to-Point,Main Office,Backup Site,100
     setFile(null);
     setImportResult(null);
     setUploadProgress(0);
+    setInspection(null);
+    setMapping({});
+    setProfileId(null);
+    setPreview(null);
+    setMode("update");
+    setSkipErrors(false);
     onClose();
   };
 
   return (
     <Dialog open={isOpen} onOpenChange={resetDialog}>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className={inspection && !importResult ? "max-w-4xl" : "max-w-2xl"}>
         <DialogHeader>
           <DialogTitle className="flex items-center space-x-2">
             <Upload className="w-5 h-5" />
@@ -192,7 +318,7 @@ Main Office,Zayo,Corporate,Dark Fiber,Point-to-Point,Main Office,Backup Site,100
           </Card>
 
           {/* File Upload Area */}
-          {!importResult && (
+          {!importResult && !inspection && (
             <div
               className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
                 dragActive
@@ -213,7 +339,7 @@ Main Office,Zayo,Corporate,Dark Fiber,Point-to-Point,Main Office,Backup Site,100
                   <div>
                     <p className="font-medium text-foreground">{file.name}</p>
                     <p className="text-sm text-muted-foreground">
-                      {(file.size / 1024).toFixed(1)} KB
+                      {inspectMutation.isPending ? "Reading columns..." : `${(file.size / 1024).toFixed(1)} KB`}
                     </p>
                   </div>
                 ) : (
@@ -244,6 +370,35 @@ Main Office,Zayo,Corporate,Dark Fiber,Point-to-Point,Main Office,Backup Site,100
             </div>
           )}
 
+          {/* Past imports, which can be rolled back */}
+          {!importResult && !inspection && projectId && <ImportHistory projectId={projectId} />}
+
+          {/* Column Mapping */}
+          {!importResult && !preview && inspection && file && (
+            <ColumnMappingStep
+              key={profileId ?? "none"}
+              inspection={inspection}
+              mapping={mapping}
+              onMappingChange={setMapping}
+              onSheetChange={(sheet) => inspectMutation.mutate({ upload: file, sheet })}
+              profiles={profiles}
+              profileId={profileId}
+              onProfileChange={applyProfile}
+              clientName={project?.clientName}
+            />
+          )}
+
+          {/* Import Preview */}
+          {!importResult && preview && (
+            <ImportPreviewStep
+              preview={preview}
+              onModeChange={(previewMode) => previewMutation.mutate(previewMode)}
+              isRefreshing={previewMutation.isPending}
+              skipErrors={skipErrors}
+              onSkipErrorsChange={setSkipErrors}
+            />
+          )}
+
           {/* Upload Progress */}
           {importMutation.isPending && (
             <div className="space-y-2">
@@ -267,7 +422,9 @@ Main Office,Zayo,Corporate,Dark Fiber,Point-to-Point,Main Office,Backup Site,100
                 <Alert className="border-success/20 bg-success/5">
                   <CheckCircle className="w-4 h-4 text-success" />
                   <AlertDescription className="text-success">
-                    Successfully imported {importResult.success} circuits
+                    Created {importResult.created} and updated {importResult.updated} circuits
+                    {importResult.sitesCreated > 0 && `, and added ${importResult.sitesCreated} new sites`}
+                    {importResult.flagged > 0 && `. ${importResult.flagged} circuits missing from the file were flagged for review`}
                   </AlertDescription>
                 </Alert>
               )}
@@ -276,7 +433,7 @@ Main Office,Zayo,Corporate,Dark Fiber,Point-to-Point,Main Office,Backup Site,100
                 <Alert className="border-destructive/20 bg-destructive/5">
                   <AlertTriangle className="w-4 h-4 text-destructive" />
                   <AlertDescription className="text-destructive">
-                    {importResult.errors.length} rows had errors:
+                    {importResult.errors.length} rows with errors were left out:
                     <div className="mt-2 max-h-32 overflow-y-auto">
                       {importResult.errors.slice(0, 5).map((error, index) => (
                         <div key={index} className="text-xs">
@@ -301,14 +458,43 @@ Main Office,Zayo,Corporate,Dark Fiber,Point-to-Point,Main Office,Backup Site,100
               <X className="w-4 h-4 mr-2" />
               {importResult ? 'Close' : 'Cancel'}
             </Button>
-            {!importResult && file && (
+            {!importResult && inspection && !preview && (
+              <Button variant="outline" onClick={() => {
+                setFile(null);
+                setInspection(null);
+              }}>
+                Choose Another File
+              </Button>
+            )}
+            {!importResult && inspection && !preview && (
+              <Button 
+                onClick={() => previewMutation.mutate(mode)} 
+                disabled={previewMutation.isPending || inspectMutation.isPending || missingFields.length > 0}
+                title={missingFields.length > 0 ? `Map ${missingFields.map(field => field.label).join(", ")} first` : undefined}
+                data-testid="button-preview-import"
+              >
+                <Eye className="w-4 h-4 mr-2" />
+                {previewMutation.isPending ? "Checking Rows..." : "Preview Import"}
+              </Button>
+            )}
+            {!importResult && preview && (
+              <Button variant="outline" onClick={() => setPreview(null)} disabled={importMutation.isPending}>
+                Back to Mapping
+              </Button>
+            )}
+            {!importResult && preview && (
               <Button 
                 onClick={handleImport} 
-                disabled={importMutation.isPending}
+                disabled={
+                  importMutation.isPending ||
+                  previewMutation.isPending ||
+                  preview.summary.create + preview.summary.update + preview.summary.missing === 0 ||
+                  (preview.summary.error > 0 && !skipErrors)
+                }
                 data-testid="button-import"
               >
                 <Upload className="w-4 h-4 mr-2" />
-                Import Circuits
+                Import {preview.summary.create + preview.summary.update} Circuits
               </Button>
             )}
           </div>
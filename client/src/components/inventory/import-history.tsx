@@ -0,0 +1,100 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { History, Undo2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { importModeLabels, type ImportMode } from "@shared/circuit-import";
+import type { ImportBatch } from "@shared/schema";
+
+type ImportBatchWithUsers = ImportBatch & {
+  createdByName: string | null;
+  rolledBackByName: string | null;
+};
+
+interface ImportHistoryProps {
+  projectId: string;
+}
+
+const formatDate = (date: Date | string | null) => (date ? new Date(date).toLocaleString() : "");
+
+// The project's past imports, newest first, each of which can be rolled back
+// as a whole: its new circuits and sites removed and its updates reverted
+export default function ImportHistory({ projectId }: ImportHistoryProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: batches = [] } = useQuery<ImportBatchWithUsers[]>({
+    queryKey: ["/api/projects", projectId, "import-batches"],
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (batch: ImportBatchWithUsers) => {
+      const response = await fetch(`/api/import-batches/${batch.id}/rollback`, {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message ?? "The import could not be rolled back");
+      }
+      return batch;
+    },
+    onSuccess: (batch) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/circuits"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sites"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/audit-flags"] });
+      toast({ title: "Import Rolled Back", description: `The changes from ${batch.fileName} have been undone.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Rollback Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (batches.length === 0) return null;
+
+  return (
+    <div className="space-y-2" data-testid="import-history">
+      <h4 className="flex items-center font-medium text-foreground">
+        <History className="w-4 h-4 mr-2" />
+        Import History
+      </h4>
+      <div className="max-h-56 overflow-y-auto border rounded divide-y">
+        {batches.map(batch => (
+          <div key={batch.id} className="flex items-center justify-between gap-3 p-3" data-testid={`import-batch-${batch.id}`}>
+            <div className="min-w-0 text-sm">
+              <div className="flex items-center gap-2">
+                <span className="font-medium truncate">{batch.fileName}</span>
+                <Badge variant="outline" className="text-xs">{importModeLabels[batch.mode as ImportMode] ?? batch.mode}</Badge>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {formatDate(batch.createdAt)}{batch.createdByName && ` by ${batch.createdByName}`} · {batch.createdCircuitIds.length} created
+                · {batch.updatedCircuits.length} updated
+                {batch.createdSiteIds.length > 0 && ` · ${batch.createdSiteIds.length} new sites`}
+                {batch.flagIds.length > 0 && ` · ${batch.flagIds.length} flagged`}
+              </div>
+            </div>
+            {batch.rolledBackAt ? (
+              <span className="text-xs text-muted-foreground text-right shrink-0">
+                Rolled back {formatDate(batch.rolledBackAt)}
+                {batch.rolledBackByName && ` by ${batch.rolledBackByName}`}
+              </span>
+            ) : (
+              <Button
+                size="sm"
+                variant="outline"
+                className="shrink-0"
+                onClick={() => rollbackMutation.mutate(batch)}
+                disabled={rollbackMutation.isPending}
+                data-testid={`button-rollback-${batch.id}`}
+              >
+                <Undo2 className="w-4 h-4 mr-2" />
+                Roll Back
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle } from "lucide-react";
+import { importModes, importModeLabels, type ImportMode, type ImportPreview, type ImportRowAction } from "@shared/circuit-import";
+
+interface ImportPreviewProps {
+  preview: ImportPreview;
+  onModeChange: (mode: ImportMode) => void;
+  isRefreshing: boolean;
+  skipErrors: boolean;
+  onSkipErrorsChange: (skip: boolean) => void;
+}
+
+const actionBadges: Record<ImportRowAction, { label: string; className: string }> = {
+  create: { label: "Create", className: "bg-success/10 text-success border-success/20" },
+  update: { label: "Update", className: "bg-primary/10 text-primary border-primary/20" },
+  unchanged: { label: "Unchanged", className: "bg-neutral-100 text-muted-foreground" },
+  skip: { label: "Skip", className: "bg-neutral-100 text-muted-foreground" },
+  error: { label: "Error", className: "bg-destructive/10 text-destructive border-destructive/20" },
+};
+
+const modeDescriptions: Record<ImportMode, string> = {
+  create: "Circuits already in the project are skipped.",
+  update: "Circuits already in the project are updated to match the file.",
+  sync: "Circuits are updated to match the file, and ones the file doesn't list are flagged for review.",
+};
+
+// What the import will do to each row, shown before anything is saved:
+// the fields each update changes, likely duplicate circuit IDs, and the
+// circuits a full sync will flag. Rows with errors can be left out.
+export default function ImportPreviewStep({ preview, onModeChange, isRefreshing, skipErrors, onSkipErrorsChange }: ImportPreviewProps) {
+  const [action, setAction] = useState<ImportRowAction | null>(null);
+  const rows = action ? preview.rows.filter(row => row.action === action) : preview.rows;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="w-48">
+          <label className="text-xs text-muted-foreground">Import mode</label>
+          <Select value={preview.mode} onValueChange={(value) => onModeChange(value as ImportMode)} disabled={isRefreshing}>
+            <SelectTrigger className="h-8" data-testid="select-import-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {importModes.map(mode => (
+                <SelectItem key={mode} value={mode}>{importModeLabels[mode]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-sm text-muted-foreground pb-1.5">{modeDescriptions[preview.mode]}</p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {(Object.keys(actionBadges) as ImportRowAction[])
+          .filter(key => preview.summary[key] > 0)
+          .map(key => (
+            <Badge
+              key={key}
+              variant="outline"
+              className={`cursor-pointer ${actionBadges[key].className} ${action && action !== key ? "opacity-50" : ""}`}
+              onClick={() => setAction(action === key ? null : key)}
+              data-testid={`badge-preview-${key}`}
+            >
+              {preview.summary[key]} {actionBadges[key].label}
+            </Badge>
+          ))}
+        {preview.summary.newSites > 0 && (
+          <span className="text-muted-foreground">{preview.summary.newSites} new sites will be added</span>
+        )}
+      </div>
+
+      <div className="max-h-80 overflow-y-auto border rounded">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-14">Row</TableHead>
+              <TableHead className="w-24">Action</TableHead>
+              <TableHead>Circuit ID</TableHead>
+              <TableHead>Site</TableHead>
+              <TableHead>Carrier</TableHead>
+              <TableHead>Service</TableHead>
+              <TableHead>Bandwidth</TableHead>
+              <TableHead className="text-right">Monthly Cost</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.row} className="align-top" data-testid={`row-preview-${row.row}`}>
+                <TableCell className="text-sm text-muted-foreground">{row.row}</TableCell>
+                <TableCell>
+                  <Badge variant="outline" className={actionBadges[row.action].className}>
+                    {actionBadges[row.action].label}
+                  </Badge>
+                </TableCell>
+                {row.action === "error" ? (
+                  <TableCell colSpan={6} className="text-sm">
+                    <span className="font-medium">{row.circuitId || "—"}</span>
+                    <ul className="text-xs text-destructive list-disc pl-4">
+                      {row.errors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                  </TableCell>
+                ) : (
+                  <>
+                    <TableCell className="text-sm">
+                      <span className="font-medium">{row.circuitId}</span>
+                      {row.warnings.map(warning => (
+                        <div key={warning} className="flex items-center text-xs text-warning">
+                          <AlertTriangle className="w-3 h-3 mr-1 shrink-0" />
+                          {warning}
+                        </div>
+                      ))}
+                      {row.changes.length > 0 && (
+                        <ul className="mt-1 text-xs text-muted-foreground">
+                          {row.changes.map(change => (
+                            <li key={change.field}>
+                              {change.label}: <span className="line-through">{change.from || "empty"}</span> → <span className="text-foreground">{change.to || "empty"}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {row.siteName}
+                      {row.newSite && <span className="text-xs text-muted-foreground"> (new)</span>}
+                    </TableCell>
+                    <TableCell className="text-sm">{row.carrier}</TableCell>
+                    <TableCell className="text-sm">{row.serviceType || "—"}</TableCell>
+                    <TableCell className="text-sm">{row.bandwidth || "—"}</TableCell>
+                    <TableCell className="text-sm text-right">${parseFloat(row.monthlyCost).toLocaleString()}</TableCell>
+                  </>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {preview.missing.length > 0 && (
+        <div className="border rounded p-3 space-y-1" data-testid="import-missing-circuits">
+          <div className="text-sm font-medium">
+            {preview.missing.length} circuits in the project are not in the file and will be flagged for review
+          </div>
+          <div className="max-h-24 overflow-y-auto text-xs text-muted-foreground">
+            {preview.missing.map(circuit => (
+              <div key={circuit.id}>{circuit.circuitId} · {circuit.siteName} · {circuit.carrier}</div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {preview.summary.error > 0 && (
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="skip-import-errors"
+            checked={skipErrors}
+            onCheckedChange={(checked) => onSkipErrorsChange(checked === true)}
+            data-testid="checkbox-skip-errors"
+          />
+          <label htmlFor="skip-import-errors" className="text-sm">
+            Import the other rows and leave out the {preview.summary.error} with errors
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
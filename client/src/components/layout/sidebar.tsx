@@ -12,25 +12,38 @@ import {
   Share2,
   TrendingUp,
   ArrowLeft,
-  FolderOpen
+  FolderOpen,
+  Users,
+  ShieldAlert
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { canManageUsers, isClient } from "@shared/permissions";
 
 
 const navigation = [
-  { name: "Dashboard", href: "/", icon: BarChart3 },
+  { name: "Dashboard", href: "/", icon: BarChart3, clientPortal: true },
   { name: "Inventory", href: "/inventory", icon: Database },
   { name: "Sites", href: "/sites", icon: MapPin },
   { name: "Optimization", href: "/optimization", icon: TrendingUp },
-  { name: "Network Topology", href: "/network-topology", icon: Share2 },
+  { name: "Network Topology", href: "/network-topology", icon: Share2, clientPortal: true },
+  { name: "Resiliency", href: "/resiliency-report", icon: ShieldAlert, clientPortal: true },
   { name: "Audit Flags", href: "/audit-flags", icon: Flag, badge: "3" },
-  { name: "Report Builder", href: "/report-builder", icon: FileText },
+  { name: "Report Builder", href: "/report-builder", icon: FileText, clientPortal: true },
   { name: "Benchmark Settings", href: "/benchmark-settings", icon: Settings },
+  { name: "Users", href: "/users", icon: Users, adminOnly: true },
 ];
 
 export default function Sidebar({ currentProjectId, onBackToProjects }) {
   const [location] = useLocation();
+  const { user, logoutMutation } = useAuth();
 
+  const initials = (user?.name || user?.username || "")
+    .split(/\s+/)
+    .map(part => part[0])
+    .join("")
+    .slice(0, 2)
+    .toUpperCase();
 
   const getProjectIdFromPath = () => {
     const pathParts = window.location.pathname.split('/');
@@ -51,7 +64,7 @@ export default function Sidebar({ currentProjectId, onBackToProjects }) {
   };
 
   return (
-    <aside className="w-60 bg-white border-r border-neutral-200 flex flex-col">
+    <aside className="w-60 bg-white border-r border-neutral-200 flex flex-col print:hidden">
       {/* Brand Header */}
       <div className="p-6 border-b border-neutral-200">
         <div className="flex items-center space-x-3 mb-3">
@@ -74,45 +87,50 @@ export default function Sidebar({ currentProjectId, onBackToProjects }) {
           </div>
         </div>
 
-        {/* Back to Projects Button */}
-        <button
-          onClick={onBackToProjects}
-          className="flex items-center space-x-2 text-sm text-muted-foreground hover:text-foreground transition-colors w-full"
-        >
-          <ArrowLeft className="w-4 h-4" />
-          <span>Back to Projects</span>
-        </button>
+        {/* Back to Projects Button (share-link sessions only have one project) */}
+        {!user?.sharedProjectId && (
+          <button
+            onClick={onBackToProjects}
+            className="flex items-center space-x-2 text-sm text-muted-foreground hover:text-foreground transition-colors w-full"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            <span>Back to Projects</span>
+          </button>
+        )}
       </div>
 
       {/* Navigation Menu */}
       <nav className="flex-1 p-4">
         <ul className="space-y-2">
-          {navigation.map((item) => {
-            const isActive = location === item.href ||
-                             (item.href === '/network-topology' && location && location.includes('/network-topology'));
-            return (
-              <li key={item.name}>
-                <Link href={item.href}>
-                  <div
-                    className={cn(
-                      "flex items-center space-x-3 px-3 py-2 rounded-lg font-medium transition-colors cursor-pointer",
-                      isActive
-                        ? "bg-primary/10 text-primary"
-                        : "text-muted-foreground hover:bg-muted hover:text-foreground"
-                    )}
-                  >
-                    <item.icon className="w-5 h-5" />
-                    <span>{item.name}</span>
-                    {item.badge && (
-                      <span className="ml-auto bg-accent text-white text-xs px-2 py-1 rounded-full">
-                        {item.badge}
-                      </span>
-                    )}
-                  </div>
-                </Link>
-              </li>
-            );
-          })}
+          {navigation
+            .filter(item => !item.adminOnly || canManageUsers(user))
+            .filter(item => item.clientPortal || !isClient(user))
+            .map((item) => {
+              const isActive = location === item.href ||
+                               (item.href === '/network-topology' && location && location.includes('/network-topology'));
+              return (
+                <li key={item.name}>
+                  <Link href={item.href}>
+                    <div
+                      className={cn(
+                        "flex items-center space-x-3 px-3 py-2 rounded-lg font-medium transition-colors cursor-pointer",
+                        isActive
+                          ? "bg-primary/10 text-primary"
+                          : "text-muted-foreground hover:bg-muted hover:text-foreground"
+                      )}
+                    >
+                      <item.icon className="w-5 h-5" />
+                      <span>{item.name}</span>
+                      {item.badge && (
+                        <span className="ml-auto bg-accent text-white text-xs px-2 py-1 rounded-full">
+                          {item.badge}
+                        </span>
+                      )}
+                    </div>
+                  </Link>
+                </li>
+              );
+            })}
         </ul>
       </nav>
 
@@ -120,13 +138,19 @@ export default function Sidebar({ currentProjectId, onBackToProjects }) {
       <div className="p-4 border-t border-neutral-200">
         <div className="flex items-center space-x-3">
           <div className="w-8 h-8 bg-primary rounded-full flex items-center justify-center">
-            <span className="text-white text-sm font-medium">JD</span>
+            <span className="text-white text-sm font-medium">{initials}</span>
           </div>
           <div className="flex-1">
-            <p className="text-sm font-medium text-foreground">John Doe</p>
-            <p className="text-xs text-muted-foreground">Senior Consultant</p>
+            <p className="text-sm font-medium text-foreground">{user?.name}</p>
+            <p className="text-xs text-muted-foreground capitalize">{user?.role}</p>
           </div>
-          <button className="text-muted-foreground hover:text-foreground">
+          <button
+            className="text-muted-foreground hover:text-foreground"
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+            title="Sign out"
+            data-testid="button-logout"
+          >
             <LogOut className="w-4 h-4" />
           </button>
         </div>
@@ -15,6 +15,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { z } from 'zod';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import type { TopologyConnection } from '@shared/schema';
+import { connectionTypeForService } from '@shared/topology';
 
 const addConnectionSchema = z.object({
   circuitId: z.string().min(1, 'Circuit ID is required'),
@@ -29,6 +31,11 @@ const addConnectionSchema = z.object({
   notes: z.string().optional(),
 });
 
+// Proposed connections are not circuits yet, so they have no circuit ID
+const proposedConnectionSchema = addConnectionSchema.extend({
+  circuitId: z.string(),
+});
+
 type AddConnectionForm = z.infer<typeof addConnectionSchema>;
 
 interface Site {
@@ -43,18 +50,25 @@ interface AddConnectionDialogProps {
   onClose: () => void;
   selectedSite?: Site | null;
   connectionType?: string;
+  projectId: string;
+  wanCloudId?: string; // WAN cloud the connection was started from
+  // Set on proposed designs: the connection is added to the design instead of the circuit inventory
+  onAddProposedConnection?: (connection: Omit<TopologyConnection, 'id' | 'siteId'>) => void;
 }
 
 export default function AddConnectionDialog({ 
   open, 
   onClose, 
   selectedSite,
-  connectionType 
+  connectionType,
+  projectId,
+  wanCloudId,
+  onAddProposedConnection
 }: AddConnectionDialogProps) {
   const queryClient = useQueryClient();
   
   const form = useForm<AddConnectionForm>({
-    resolver: zodResolver(addConnectionSchema),
+    resolver: zodResolver(onAddProposedConnection ? proposedConnectionSchema : addConnectionSchema),
     defaultValues: {
       circuitId: '',
       serviceType: '',
@@ -113,7 +127,8 @@ export default function AddConnectionDialog({
         body: JSON.stringify({
           ...data,
           siteName: selectedSite?.name || '',
-          projectId: 'project-1',
+          projectId,
+          wanCloudId: wanCloudId ?? null,
           monthlyCost: parseFloat(data.monthlyCost),
           // Extract bandwidth numeric value
           bandwidthMbps: (() => {
@@ -143,6 +158,19 @@ export default function AddConnectionDialog({
   });
 
   const onSubmit = (data: AddConnectionForm) => {
+    if (onAddProposedConnection) {
+      onAddProposedConnection({
+        type: data.zLocation ? 'point-to-point' : connectionTypeForService(data.serviceType),
+        bandwidth: data.bandwidth,
+        provider: data.carrier,
+        pointToPointEndpoint: data.zLocation || undefined,
+        cloudId: wanCloudId,
+        monthlyCost: parseFloat(data.monthlyCost),
+      });
+      form.reset();
+      onClose();
+      return;
+    }
     addConnectionMutation.mutate(data);
   };
 
@@ -175,25 +203,29 @@ export default function AddConnectionDialog({
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Add Connection to {selectedSite.name}</DialogTitle>
+          <DialogTitle>
+            {onAddProposedConnection ? 'Add Proposed Connection to' : 'Add Connection to'} {selectedSite.name}
+          </DialogTitle>
         </DialogHeader>
 
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
             <div className="grid grid-cols-2 gap-4">
-              <FormField
-                control={form.control}
-                name="circuitId"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Circuit ID</FormLabel>
-                    <FormControl>
-                      <Input {...field} placeholder="e.g. CKT-001" data-testid="input-circuit-id" />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              {!onAddProposedConnection && (
+                <FormField
+                  control={form.control}
+                  name="circuitId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Circuit ID</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="e.g. CKT-001" data-testid="input-circuit-id" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
 
               <FormField
                 control={form.control}
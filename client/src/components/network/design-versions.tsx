@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Trash2 } from "lucide-react";
+import type { TopologyDesign } from "@shared/schema";
+
+interface DesignVersionsProps {
+  designs: TopologyDesign[];
+  activeDesign: TopologyDesign;
+  onSelect: (designId: string) => void;
+  onClone?: (name: string) => void;
+  onDelete?: (design: TopologyDesign) => void;
+}
+
+// Suggests "Proposal A", "Proposal B", ... skipping names already in use
+const nextProposalName = (designs: TopologyDesign[]) => {
+  const names = new Set(designs.map(design => design.name.toLowerCase()));
+  for (let i = 0; i < 26; i++) {
+    const name = `Proposal ${String.fromCharCode(65 + i)}`;
+    if (!names.has(name.toLowerCase())) return name;
+  }
+  return `Proposal ${designs.length}`;
+};
+
+// Version picker for the network topology page: switch between the current
+// state and proposed designs, clone the open design and delete proposals
+export default function DesignVersions({ designs, activeDesign, onSelect, onClone, onDelete }: DesignVersionsProps) {
+  const [showCloneDialog, setShowCloneDialog] = useState(false);
+  const [cloneName, setCloneName] = useState("");
+
+  const openCloneDialog = () => {
+    setCloneName(nextProposalName(designs));
+    setShowCloneDialog(true);
+  };
+
+  const handleClone = () => {
+    if (!onClone || !cloneName.trim()) return;
+    onClone(cloneName.trim());
+    setShowCloneDialog(false);
+  };
+
+  const handleDelete = () => {
+    if (!onDelete) return;
+    if (confirm(`Delete the "${activeDesign.name}" design? Its layout, clouds and connections will be lost.`)) {
+      onDelete(activeDesign);
+    }
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Select value={activeDesign.id} onValueChange={onSelect}>
+        <SelectTrigger className="w-52 h-9" data-testid="select-design-version">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {designs.map(design => (
+            <SelectItem key={design.id} value={design.id}>
+              {design.name}{design.kind === 'current' && ' (as-is)'}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {onClone && (
+        <Button variant="outline" size="sm" onClick={openCloneDialog} title="Clone this design" data-testid="button-clone-design">
+          <Copy className="h-4 w-4 mr-2" />
+          Clone
+        </Button>
+      )}
+      {onDelete && activeDesign.kind === 'proposed' && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+          onClick={handleDelete}
+          title="Delete this design"
+          data-testid="button-delete-design"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+
+      <Dialog open={showCloneDialog} onOpenChange={setShowCloneDialog}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Clone "{activeDesign.name}"</DialogTitle>
+            <DialogDescription>
+              {activeDesign.kind === 'current'
+                ? 'The new design starts from the current circuit inventory. Changes to it do not affect the inventory.'
+                : 'The new design starts with this design\'s layout, clouds and connections.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="design-name">Design name</Label>
+            <Input
+              id="design-name"
+              value={cloneName}
+              onChange={(e) => setCloneName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleClone()}
+              data-testid="input-design-name"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCloneDialog(false)}>Cancel</Button>
+            <Button onClick={handleClone} disabled={!cloneName.trim()} data-testid="button-confirm-clone-design">
+              Clone
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
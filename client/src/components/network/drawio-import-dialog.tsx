@@ -0,0 +1,329 @@
+import { useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { parseDrawio, cloudTypeForLabel, type TopologyDiagram, type DiagramNode } from "@/lib/topology-diagram";
+import { connectionTypeForCloud, connectionTypeForService } from "@shared/topology";
+import type { Circuit, Site, TopologyDesign, TopologyImport, WanCloud } from "@shared/schema";
+
+interface DrawioImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  design: TopologyDesign;
+  sites: Site[];
+  circuits: Circuit[];
+  clouds: WanCloud[];
+  onImported: (design: TopologyDesign) => void;
+}
+
+interface ImportResult {
+  design: TopologyDesign;
+  createdSites: number;
+  createdClouds: number;
+  importedConnections: number;
+  skippedConnections: number;
+}
+
+// What a diagram shape becomes: an existing site or cloud, a new one, or nothing
+type ShapeMapping = 'ignore' | 'new-site' | 'new-cloud' | `site:${string}` | `cloud:${string}`;
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const compact = (value: string) => value.toLowerCase().replace(/\s+/g, '');
+
+const bandwidthPattern = /\d+(?:\.\d+)?\s*[kmgt]bps/i;
+
+// "100 Mbps\nAT&T" -> bandwidth and carrier
+const parseConnectionLabel = (label: string) => ({
+  bandwidth: label.match(bandwidthPattern)?.[0] ?? '',
+  provider: label.split('\n').map(line => line.replace(bandwidthPattern, '').trim()).find(Boolean),
+});
+
+const siteCategoryForLabel = (label: string) => {
+  const text = label.toLowerCase();
+  if (/data ?cent|\bdc\b|colo/.test(text)) return 'Data Center';
+  if (/\bhq\b|headquarters|corporate/.test(text)) return 'Corporate';
+  if (/\baws\b|azure|\bgcp\b|cloud/.test(text)) return 'Cloud';
+  return 'Branch';
+};
+
+const proposeMapping = (node: DiagramNode, sites: Site[], clouds: WanCloud[]): ShapeMapping => {
+  const site = sites.find(existing => sameName(existing.name, node.label));
+  if (site) return `site:${site.id}`;
+  const cloud = clouds.find(existing => sameName(existing.name, node.label));
+  if (cloud) return `cloud:${cloud.id}`;
+  if (node.kind === 'site') return 'new-site';
+  const type = cloudTypeForLabel(node.label);
+  const cloudOfType = type ? clouds.find(existing => existing.type === type) : undefined;
+  return cloudOfType ? `cloud:${cloudOfType.id}` : 'new-cloud';
+};
+
+// Diagram coordinates spread over the canvas, keeping a margin at the edges
+const normalizedPositions = (nodes: DiagramNode[]) => {
+  const xs = nodes.map(node => node.x);
+  const ys = nodes.map(node => node.y);
+  const scale = (value: number, min: number, max: number) =>
+    max === min ? 0.5 : 0.1 + ((value - min) / (max - min)) * 0.8;
+  return new Map(nodes.map(node => [node.id, {
+    x: scale(node.x, Math.min(...xs), Math.max(...xs)),
+    y: scale(node.y, Math.min(...ys), Math.max(...ys)),
+  }]));
+};
+
+// Circuit at a site that a connector stands for: its circuit id or its
+// carrier and bandwidth appear in the label, or it is the site's only
+// circuit of the cloud's type
+const matchCircuit = (label: string, siteCircuits: Circuit[], cloudType: string | undefined) => {
+  const text = compact(label);
+  return siteCircuits.find(circuit => text.includes(compact(circuit.circuitId)))
+    ?? siteCircuits.find(circuit => text.includes(compact(circuit.carrier)) && text.includes(compact(circuit.bandwidth)))
+    ?? (() => {
+      if (!cloudType) return undefined;
+      const ofType = siteCircuits.filter(circuit =>
+        connectionTypeForService(circuit.serviceType, circuit.circuitCategory) === connectionTypeForCloud(cloudType)
+      );
+      return ofType.length === 1 ? ofType[0] : undefined;
+    })();
+};
+
+// Reads a draw.io diagram, proposes what each shape is in the project and
+// loads the result into the open design
+export default function DrawioImportDialog({ open, onOpenChange, design, sites, circuits, clouds, onImported }: DrawioImportDialogProps) {
+  const { toast } = useToast();
+  const [diagram, setDiagram] = useState<TopologyDiagram | null>(null);
+  const [mappings, setMappings] = useState<Record<string, ShapeMapping>>({});
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const reset = () => {
+    setDiagram(null);
+    setMappings({});
+    setParseError(null);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) reset();
+    onOpenChange(isOpen);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const parsed = await parseDrawio(await file.text());
+      if (parsed.nodes.length === 0) {
+        setParseError('The diagram has no labelled shapes to import.');
+        return;
+      }
+      setDiagram(parsed);
+      setMappings(Object.fromEntries(parsed.nodes.map(node => [node.id, proposeMapping(node, sites, clouds)])));
+      setParseError(null);
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : 'The file could not be read.');
+    }
+  };
+
+  const importData = useMemo((): TopologyImport | null => {
+    if (!diagram) return null;
+    const positions = normalizedPositions(diagram.nodes);
+    const nodesById = new Map(diagram.nodes.map(node => [node.id, node]));
+    const result: TopologyImport = { sites: [], clouds: [], connections: [] };
+
+    diagram.nodes.forEach(node => {
+      const mapping = mappings[node.id];
+      const position = positions.get(node.id)!;
+      if (mapping === 'new-site' || mapping?.startsWith('site:')) {
+        const siteId = mapping.startsWith('site:') ? mapping.slice(5) : undefined;
+        const name = node.label.split('\n')[0];
+        result.sites.push({ ref: node.id, siteId, name, category: siteCategoryForLabel(node.label), ...position });
+      } else if (mapping === 'new-cloud' || mapping?.startsWith('cloud:')) {
+        const existing = mapping.startsWith('cloud:') ? clouds.find(cloud => cloud.id === mapping.slice(6)) : undefined;
+        result.clouds.push({
+          ref: node.id,
+          cloudId: existing?.id,
+          name: existing?.name ?? node.label.replace(/\n/g, ' '),
+          type: existing?.type ?? cloudTypeForLabel(node.label) ?? 'Internet',
+          color: node.color,
+          ...position,
+        });
+      }
+    });
+
+    const siteRefs = new Map(result.sites.map(site => [site.ref, site]));
+    const cloudRefs = new Map(result.clouds.map(cloud => [cloud.ref, cloud]));
+    const matchedCircuits = new Set<string>();
+
+    diagram.edges.forEach(edge => {
+      const [siteEnd, otherEnd] = siteRefs.has(edge.source) ? [edge.source, edge.target] : [edge.target, edge.source];
+      const site = siteRefs.get(siteEnd);
+      if (!site || !nodesById.has(otherEnd)) return;
+      const cloud = cloudRefs.get(otherEnd);
+      const endpointSite = siteRefs.get(otherEnd);
+      if (!cloud && !endpointSite) return;
+
+      const siteCircuits = site.siteId
+        ? circuits.filter(circuit => circuit.siteId === site.siteId && !matchedCircuits.has(circuit.id))
+        : [];
+      const circuit = matchCircuit(edge.label, siteCircuits, cloud?.type);
+      if (circuit) matchedCircuits.add(circuit.id);
+
+      result.connections.push({
+        siteRef: site.ref,
+        cloudRef: cloud?.ref,
+        endpointSiteRef: endpointSite?.ref,
+        circuitId: circuit?.id,
+        ...parseConnectionLabel(edge.label),
+      });
+    });
+
+    return result;
+  }, [diagram, mappings, sites, clouds, circuits]);
+
+  const importMutation = useMutation({
+    mutationFn: async (data: TopologyImport) => {
+      const res = await apiRequest('POST', `/api/topology-designs/${design.id}/import`, data);
+      return (await res.json()) as ImportResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/topology-designs', design.id, 'wan-clouds'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', design.projectId, 'sites'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', design.projectId, 'circuits'] });
+      onImported(result.design);
+      toast({
+        title: 'Diagram Imported',
+        description: `${result.importedConnections} connections imported, ${result.createdSites} new sites and ${result.createdClouds} new WAN clouds.` +
+          (result.skippedConnections > 0 ? ` ${result.skippedConnections} connections were skipped.` : ''),
+      });
+      handleOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Import failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const circuitsById = new Map(circuits.map(circuit => [circuit.id, circuit]));
+  const nodeLabel = (ref: string) => diagram?.nodes.find(node => node.id === ref)?.label.replace(/\n/g, ' ') ?? ref;
+
+  const connectionStatus = (connection: TopologyImport['connections'][number]) => {
+    const circuit = connection.circuitId ? circuitsById.get(connection.circuitId) : undefined;
+    if (circuit) return { label: circuit.circuitId, variant: 'secondary' as const };
+    if (design.kind === 'proposed') return { label: 'New connection', variant: 'outline' as const };
+    return { label: 'Skipped: no matching circuit', variant: 'destructive' as const };
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import draw.io Diagram</DialogTitle>
+          <DialogDescription>
+            Shapes are placed on "{design.name}" at their positions in the diagram. Shapes whose labels match a site or
+            WAN cloud are linked to it; the rest can be added as new sites or clouds.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!diagram ? (
+          <div className="space-y-3">
+            <Input
+              type="file"
+              accept=".drawio,.xml"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              data-testid="input-drawio-file"
+            />
+            {parseError && (
+              <div className="flex items-center text-sm text-red-600">
+                <AlertCircle className="h-4 w-4 mr-2" />
+                {parseError}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Shapes ({diagram.nodes.length})</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Shape</TableHead>
+                    <TableHead className="w-64">Import as</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {diagram.nodes.map(node => (
+                    <TableRow key={node.id}>
+                      <TableCell className="text-sm">{node.label.replace(/\n/g, ' ')}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={mappings[node.id]}
+                          onValueChange={(value) => setMappings(prev => ({ ...prev, [node.id]: value as ShapeMapping }))}
+                        >
+                          <SelectTrigger className="h-8" data-testid={`select-shape-mapping-${node.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="new-site">New site</SelectItem>
+                            <SelectItem value="new-cloud">New WAN cloud</SelectItem>
+                            <SelectItem value="ignore">Don't import</SelectItem>
+                            {sites.map(site => (
+                              <SelectItem key={site.id} value={`site:${site.id}`}>Site: {site.name}</SelectItem>
+                            ))}
+                            {clouds.map(cloud => (
+                              <SelectItem key={cloud.id} value={`cloud:${cloud.id}`}>Cloud: {cloud.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">
+                Connections ({importData?.connections.length ?? 0} of {diagram.edges.length})
+              </h3>
+              {design.kind === 'current' && (
+                <p className="text-xs text-gray-500 mb-2">
+                  The current design shows the circuit inventory, so only connectors that match an existing circuit are
+                  imported. Clone a proposal to import new connections.
+                </p>
+              )}
+              <div className="space-y-1">
+                {importData?.connections.map((connection, index) => {
+                  const status = connectionStatus(connection);
+                  return (
+                    <div key={index} className="flex items-center justify-between text-sm border rounded px-2 py-1">
+                      <span>
+                        {nodeLabel(connection.siteRef)} → {nodeLabel(connection.cloudRef ?? connection.endpointSiteRef ?? '')}
+                        {connection.bandwidth && <span className="text-gray-500"> • {connection.bandwidth}</span>}
+                        {connection.provider && <span className="text-gray-500"> • {connection.provider}</span>}
+                      </span>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {diagram && <Button variant="outline" onClick={reset}>Choose Another File</Button>}
+          <Button
+            onClick={() => importData && importMutation.mutate(importData)}
+            disabled={!importData || importMutation.isPending}
+            data-testid="button-confirm-drawio-import"
+          >
+            {importMutation.isPending ? 'Importing...' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,7 @@
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { X } from "lucide-react";
 
 interface Site {
   id: string;
@@ -12,6 +13,7 @@ interface Site {
 }
 
 interface Connection {
+  id?: string;
   type: string;
   bandwidth: string;
   provider?: string;
@@ -23,9 +25,11 @@ interface SiteListProps {
   sites: Site[];
   selectedSite: Site | null;
   onSelectSite: (site: Site | null) => void;
+  // Proposed designs only; lists every connection of the selected site with a remove button
+  onRemoveConnection?: (site: Site, connection: Connection) => void;
 }
 
-const SiteList = ({ sites, selectedSite, onSelectSite }: SiteListProps) => {
+const SiteList = ({ sites, selectedSite, onSelectSite, onRemoveConnection }: SiteListProps) => {
   // Get site icon based on category
   const getSiteIcon = (category: string) => {
     switch (category) {
@@ -70,6 +74,8 @@ const SiteList = ({ sites, selectedSite, onSelectSite }: SiteListProps) => {
       <div className="space-y-2">
         {sortedSites.map((site) => {
           const isSelected = selectedSite?.id === site.id;
+          const canRemoveConnections = isSelected && !!onRemoveConnection;
+          const visibleConnections = canRemoveConnections ? site.connections : site.connections.slice(0, 3);
           
           return (
             <Card
@@ -109,7 +115,7 @@ const SiteList = ({ sites, selectedSite, onSelectSite }: SiteListProps) => {
                   
                   {site.connections.length > 0 && (
                     <div className="space-y-1">
-                      {site.connections.slice(0, 3).map((connection, idx) => (
+                      {visibleConnections.map((connection, idx) => (
                         <div key={idx} className="flex items-center justify-between text-xs">
                           <div className="flex items-center space-x-2">
                             <Badge 
@@ -122,15 +128,31 @@ const SiteList = ({ sites, selectedSite, onSelectSite }: SiteListProps) => {
                               {connection.bandwidth}
                             </span>
                           </div>
-                          {connection.provider && (
-                            <span className="text-gray-500 text-xs truncate max-w-20">
-                              {connection.provider}
-                            </span>
-                          )}
+                          <div className="flex items-center space-x-1">
+                            {connection.provider && (
+                              <span className="text-gray-500 text-xs truncate max-w-20">
+                                {connection.provider}
+                              </span>
+                            )}
+                            {canRemoveConnections && (
+                              <button
+                                type="button"
+                                className="text-gray-400 hover:text-red-600"
+                                title="Remove from this design"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onRemoveConnection(site, connection);
+                                }}
+                                data-testid={`button-remove-connection-${connection.id ?? idx}`}
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            )}
+                          </div>
                         </div>
                       ))}
                       
-                      {site.connections.length > 3 && (
+                      {!canRemoveConnections && site.connections.length > 3 && (
                         <div className="text-xs text-gray-500 text-center pt-1">
                           +{site.connections.length - 3} more
                         </div>
@@ -0,0 +1,357 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Columns2, Layers, X } from "lucide-react";
+import type { Circuit, TopologyConnection, TopologyDesign, WanCloud } from "@shared/schema";
+import { diffTopologies, targetCloudFor, type ConnectionDiff, type TopologyChange, type TopologySnapshot } from "@shared/topology";
+
+export interface ComparisonSite {
+  id: string;
+  name: string;
+  coordinates: { x: number; y: number };
+  connections: (Omit<TopologyConnection, 'id' | 'siteId'> & { id?: string })[];
+}
+
+interface TopologyComparisonProps {
+  designs: TopologyDesign[];
+  initialProposedId: string;
+  circuits: Circuit[];
+  // Sites of a design, positioned as saved with it
+  sitesFor: (design: TopologyDesign) => ComparisonSite[];
+  onClose: () => void;
+}
+
+type ComparisonMode = 'side-by-side' | 'overlay';
+type DiffSide = 'base' | 'proposed';
+
+const changeColors: Record<TopologyChange, string> = {
+  added: '#16a34a',
+  removed: '#dc2626',
+  changed: '#d97706',
+  unchanged: '#9ca3af',
+};
+
+const changeLabels: Record<TopologyChange, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+  unchanged: 'Unchanged',
+};
+
+const fieldLabels: Record<string, string> = {
+  type: 'type',
+  bandwidth: 'bandwidth',
+  provider: 'carrier',
+  endpoint: 'endpoint',
+  cloud: 'WAN cloud',
+  cost: 'cost',
+};
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+const formatDelta = (value: number) => `${value > 0 ? '+' : value < 0 ? '-' : ''}${formatCurrency(Math.abs(value))}`;
+
+const CANVAS_WIDTH = 1000;
+const CANVAS_HEIGHT = 640;
+
+const snapshotOf = (sites: ComparisonSite[], clouds: WanCloud[]): TopologySnapshot => ({
+  siteIds: sites.map(site => site.id),
+  connections: sites.flatMap(site =>
+    site.connections.map((connection, index) => ({ ...connection, id: connection.id ?? `${site.id}-${index}`, siteId: site.id }))
+  ),
+  clouds,
+});
+
+interface DiffCanvasProps {
+  title?: string;
+  sites: ComparisonSite[];
+  siteChanges: Record<string, TopologyChange>;
+  clouds: WanCloud[];
+  connections: { diff: ConnectionDiff; side: DiffSide }[];
+  cloudsBySide: Record<DiffSide, WanCloud[]>;
+}
+
+// Simplified, read-only drawing of a design with each connection and site
+// colored by how it changed
+function DiffCanvas({ title, sites, siteChanges, clouds, connections, cloudsBySide }: DiffCanvasProps) {
+  const sitesById = new Map(sites.map(site => [site.id, site]));
+  const sitesByName = new Map(sites.map(site => [site.name.toLowerCase(), site]));
+  const point = (position: { x: number; y: number }) => ({ x: position.x * CANVAS_WIDTH, y: position.y * CANVAS_HEIGHT });
+
+  // Clouds are matched by name across designs so overlays share one cloud
+  const cloudPosition = (cloud: WanCloud) =>
+    clouds.find(c => c.id === cloud.id) ?? clouds.find(c => c.name === cloud.name) ?? cloud;
+
+  const usedClouds = new Map<string, WanCloud>();
+  const lines = connections.flatMap(({ diff, side }, index) => {
+    const connection = side === 'base' ? diff.base : diff.proposed;
+    const site = sitesById.get(diff.siteId);
+    if (!connection || !site) return [];
+
+    let target: { x: number; y: number } | null = null;
+    if (connection.type === 'point-to-point' && connection.pointToPointEndpoint) {
+      const endpoint = sitesByName.get(connection.pointToPointEndpoint.toLowerCase());
+      if (endpoint) target = point(endpoint.coordinates);
+    } else {
+      const cloud = targetCloudFor(connection, cloudsBySide[side]);
+      if (cloud) {
+        const position = cloudPosition(cloud);
+        usedClouds.set(position.name, position);
+        target = point(position);
+      }
+    }
+    if (!target) return [];
+
+    const from = point(site.coordinates);
+    return [(
+      <line
+        key={`${diff.siteId}-${connection.id}-${side}-${index}`}
+        x1={from.x}
+        y1={from.y}
+        x2={target.x}
+        y2={target.y}
+        stroke={changeColors[diff.change]}
+        strokeWidth={diff.change === 'unchanged' ? 1.5 : 3}
+        strokeDasharray={diff.change === 'removed' ? '8 6' : undefined}
+        opacity={diff.change === 'unchanged' ? 0.6 : 0.9}
+      >
+        <title>{`${changeLabels[diff.change]}: ${connection.type.toUpperCase()} ${connection.bandwidth}${connection.provider ? ` (${connection.provider})` : ''}`}</title>
+      </line>
+    )];
+  });
+
+  return (
+    <div className="flex-1 flex flex-col min-w-0 border border-gray-200 rounded-md bg-white">
+      {title && (
+        <div className="px-3 py-2 border-b border-gray-200 text-sm font-medium text-gray-900">{title}</div>
+      )}
+      <svg viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`} className="w-full h-full" preserveAspectRatio="xMidYMid meet">
+        {lines}
+        {Array.from(usedClouds.values()).map(cloud => {
+          const { x, y } = point(cloud);
+          return (
+            <g key={cloud.id}>
+              <ellipse cx={x} cy={y} rx={70} ry={28} fill={cloud.color} fillOpacity={0.15} stroke={cloud.color} strokeWidth={2} />
+              <text x={x} y={y + 4} textAnchor="middle" fontSize={13} fill="#374151">{cloud.name}</text>
+            </g>
+          );
+        })}
+        {sites.map(site => {
+          const { x, y } = point(site.coordinates);
+          const change = siteChanges[site.id] ?? 'unchanged';
+          return (
+            <g key={site.id} opacity={change === 'removed' ? 0.6 : 1}>
+              <circle
+                cx={x}
+                cy={y}
+                r={change === 'unchanged' ? 9 : 12}
+                fill="#ffffff"
+                stroke={changeColors[change]}
+                strokeWidth={change === 'unchanged' ? 2 : 4}
+              />
+              <text x={x} y={y + 28} textAnchor="middle" fontSize={12} fill="#111827">{site.name}</text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
+
+// Compares two design versions side by side or overlaid, with the connection
+// and site changes and the monthly cost delta between them
+export default function TopologyComparison({ designs, initialProposedId, circuits, sitesFor, onClose }: TopologyComparisonProps) {
+  const currentDesign = designs.find(design => design.kind === 'current') ?? designs[0];
+  const [baseId, setBaseId] = useState(currentDesign.id);
+  const [proposedId, setProposedId] = useState(
+    initialProposedId !== currentDesign.id
+      ? initialProposedId
+      : designs.find(design => design.id !== currentDesign.id)?.id ?? currentDesign.id
+  );
+  const [mode, setMode] = useState<ComparisonMode>('side-by-side');
+
+  const baseDesign = designs.find(design => design.id === baseId) ?? currentDesign;
+  const proposedDesign = designs.find(design => design.id === proposedId) ?? currentDesign;
+
+  const { data: baseClouds = [] } = useQuery<WanCloud[]>({
+    queryKey: ['/api/topology-designs', baseDesign.id, 'wan-clouds'],
+  });
+  const { data: proposedClouds = [] } = useQuery<WanCloud[]>({
+    queryKey: ['/api/topology-designs', proposedDesign.id, 'wan-clouds'],
+  });
+
+  const baseSites = useMemo(() => sitesFor(baseDesign), [sitesFor, baseDesign]);
+  const proposedSites = useMemo(() => sitesFor(proposedDesign), [sitesFor, proposedDesign]);
+
+  const diff = useMemo(
+    () => diffTopologies(snapshotOf(baseSites, baseClouds), snapshotOf(proposedSites, proposedClouds), circuits),
+    [baseSites, proposedSites, baseClouds, proposedClouds, circuits]
+  );
+
+  const siteNames = new Map([...baseSites, ...proposedSites].map(site => [site.id, site.name]));
+  const changes = diff.connections.filter(connection => connection.change !== 'unchanged');
+  const costDelta = diff.proposedMonthlyCost - diff.baseMonthlyCost;
+  const cloudsBySide = { base: baseClouds, proposed: proposedClouds };
+
+  // Removed connections are drawn from the base design, everything else from the proposal
+  const baseLines = diff.connections
+    .filter(connection => connection.base)
+    .map(connection => ({ diff: connection, side: 'base' as const }));
+  const proposedLines = diff.connections
+    .filter(connection => connection.proposed)
+    .map(connection => ({ diff: connection, side: 'proposed' as const }));
+  const overlayLines = diff.connections.map(connection => ({
+    diff: connection,
+    side: connection.proposed ? 'proposed' as const : 'base' as const,
+  }));
+
+  // Overlay positions sites as in the proposal, with removed sites where they were
+  const overlaySites = [
+    ...proposedSites,
+    ...baseSites.filter(site => !proposedSites.some(proposed => proposed.id === site.id)),
+  ];
+
+  const designSelect = (value: string, onChange: (id: string) => void, testId: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-44 h-8" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {designs.map(design => (
+          <SelectItem key={design.id} value={design.id}>{design.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const describeConnection = (connection?: Omit<TopologyConnection, 'siteId'>) =>
+    connection ? `${connection.type.toUpperCase()} ${connection.bandwidth}${connection.provider ? ` • ${connection.provider}` : ''}` : '';
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex-shrink-0 flex items-center justify-between px-4 py-2 bg-white border-b border-gray-200">
+        <div className="flex items-center space-x-2 text-sm">
+          {designSelect(baseId, setBaseId, 'select-compare-base')}
+          <span className="text-gray-500">vs.</span>
+          {designSelect(proposedId, setProposedId, 'select-compare-proposed')}
+          <div className="flex items-center ml-2 border border-gray-200 rounded-md">
+            <Button
+              variant={mode === 'side-by-side' ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setMode('side-by-side')}
+              title="Side by side"
+            >
+              <Columns2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant={mode === 'overlay' ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setMode('overlay')}
+              title="Overlay"
+            >
+              <Layers className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="flex items-center space-x-4 text-sm">
+          <span className="text-gray-600">
+            {formatCurrency(diff.baseMonthlyCost)}/mo → {formatCurrency(diff.proposedMonthlyCost)}/mo
+          </span>
+          <span
+            className={`font-semibold ${costDelta > 0 ? 'text-red-600' : costDelta < 0 ? 'text-green-600' : 'text-gray-700'}`}
+            data-testid="text-compare-cost-delta"
+          >
+            {formatDelta(costDelta)}/mo
+            {diff.baseMonthlyCost > 0 && ` (${costDelta > 0 ? '+' : ''}${((costDelta / diff.baseMonthlyCost) * 100).toFixed(1)}%)`}
+          </span>
+          <Button variant="ghost" size="sm" onClick={onClose} title="Close comparison" data-testid="button-close-comparison">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        <div className="flex-1 flex gap-3 p-3 min-w-0">
+          {mode === 'side-by-side' ? (
+            <>
+              <DiffCanvas
+                title={baseDesign.name}
+                sites={baseSites}
+                siteChanges={Object.fromEntries(Object.entries(diff.sites).filter(([, change]) => change !== 'added'))}
+                clouds={baseClouds}
+                connections={baseLines.filter(line => line.diff.change !== 'added')}
+                cloudsBySide={cloudsBySide}
+              />
+              <DiffCanvas
+                title={proposedDesign.name}
+                sites={proposedSites}
+                siteChanges={Object.fromEntries(Object.entries(diff.sites).filter(([, change]) => change !== 'removed'))}
+                clouds={proposedClouds}
+                connections={proposedLines}
+                cloudsBySide={cloudsBySide}
+              />
+            </>
+          ) : (
+            <DiffCanvas
+              sites={overlaySites}
+              siteChanges={diff.sites}
+              clouds={proposedClouds}
+              connections={overlayLines}
+              cloudsBySide={cloudsBySide}
+            />
+          )}
+        </div>
+
+        <div className="w-72 flex-shrink-0 bg-white border-l border-gray-200 flex flex-col">
+          <div className="p-3 border-b border-gray-200">
+            <h2 className="text-sm font-medium text-gray-900">Changes ({changes.length})</h2>
+            <div className="flex flex-wrap gap-2 mt-2">
+              {(['added', 'removed', 'changed'] as const).map(change => (
+                <span key={change} className="flex items-center text-xs text-gray-600">
+                  <span className="inline-block w-3 h-1 mr-1 rounded" style={{ backgroundColor: changeColors[change] }} />
+                  {changeLabels[change]} ({diff.connections.filter(connection => connection.change === change).length})
+                </span>
+              ))}
+            </div>
+          </div>
+          <ScrollArea className="flex-1">
+            <div className="p-3 space-y-2">
+              {changes.length === 0 && (
+                <p className="text-xs text-gray-500 text-center py-4">The two designs have the same connections.</p>
+              )}
+              {changes.map((connection, index) => (
+                <div key={`${connection.siteId}-${index}`} className="border border-gray-200 rounded-md p-2 text-xs">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-gray-900 truncate">{siteNames.get(connection.siteId) ?? connection.siteId}</span>
+                    <Badge
+                      variant="outline"
+                      className="text-xs"
+                      style={{ color: changeColors[connection.change], borderColor: changeColors[connection.change] }}
+                    >
+                      {changeLabels[connection.change]}
+                    </Badge>
+                  </div>
+                  <p className="text-gray-600 mt-1">{describeConnection(connection.proposed ?? connection.base)}</p>
+                  {connection.change === 'changed' && connection.changedFields.length > 0 && (
+                    <p className="text-gray-500 mt-1">
+                      Was {describeConnection(connection.base)}; changed {connection.changedFields.map(field => fieldLabels[field] ?? field).join(', ')}
+                    </p>
+                  )}
+                  {connection.costDelta !== 0 && (
+                    <p className={`mt-1 font-medium ${connection.costDelta > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatDelta(connection.costDelta)}/mo
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useMemo } from 'react';
+import { usOutline, worldLand, type LngLat } from '@/lib/basemap';
+import { fitProjection, geoPath, greatCirclePoints, type MapProjectionKind } from '@/lib/map-projection';
+
+export type MapLineStyle = 'straight' | 'great-circle';
+
+export interface MapSiteMarker {
+  id: string;
+  name: string;
+  color: string;
+  location: LngLat;
+  dimmed?: boolean; // Faded out by the viewer's filters
+}
+
+export interface MapCloudMarker {
+  id: string;
+  name: string;
+  color: string;
+  location: LngLat;
+  dimmed?: boolean;
+}
+
+export interface MapPopMarker {
+  id: string;
+  name: string;
+  location: LngLat;
+}
+
+export interface MapLink {
+  id: string;
+  from: LngLat;
+  to: LngLat;
+  color: string;
+  dashed?: boolean;
+  highlighted?: boolean;
+  dimmed?: boolean;
+}
+
+interface TopologyMapLayerProps {
+  width: number;
+  height: number;
+  projection: MapProjectionKind;
+  bounds: [LngLat, LngLat];
+  lineStyle: MapLineStyle;
+  sites: MapSiteMarker[];
+  clouds: MapCloudMarker[];
+  pops: MapPopMarker[];
+  links: MapLink[];
+  selectedSiteId?: string;
+  onSelectSite?: (siteId: string) => void;
+  onHoverSite?: (siteId: string | null) => void;
+}
+
+const GRATICULE_STEP = 10;
+const DIMMED_OPACITY = 0.15;
+
+// Sites, clouds and Megaport POPs at their real locations over a basemap.
+// Rendered inside the viewer's svg so pan, zoom and image export apply.
+export default function TopologyMapLayer({
+  width,
+  height,
+  projection: kind,
+  bounds,
+  lineStyle,
+  sites,
+  clouds,
+  pops,
+  links,
+  selectedSiteId,
+  onSelectSite,
+  onHoverSite,
+}: TopologyMapLayerProps) {
+  const projection = useMemo(() => fitProjection(kind, bounds, width, height), [kind, bounds, width, height]);
+
+  const basemap = useMemo(() => {
+    // The conic projection is centred on the US and tears on the far side of the
+    // globe, so it only draws land in the western hemisphere
+    const land = kind === 'albers' ? worldLand.filter(({ ring }) => ring.every(([lng]) => lng < -10)) : worldLand;
+
+    const [[west, south], [east, north]] = bounds;
+    const lngFrom = Math.max(-180, Math.floor(west / GRATICULE_STEP) * GRATICULE_STEP - GRATICULE_STEP);
+    const lngTo = Math.min(180, Math.ceil(east / GRATICULE_STEP) * GRATICULE_STEP + GRATICULE_STEP);
+    const latFrom = Math.max(-80, Math.floor(south / GRATICULE_STEP) * GRATICULE_STEP - GRATICULE_STEP);
+    const latTo = Math.min(80, Math.ceil(north / GRATICULE_STEP) * GRATICULE_STEP + GRATICULE_STEP);
+    const graticule: LngLat[][] = [];
+    for (let lng = lngFrom; lng <= lngTo; lng += GRATICULE_STEP) {
+      graticule.push(Array.from({ length: (latTo - latFrom) / 2 + 1 }, (_, i): LngLat => [lng, latFrom + i * 2]));
+    }
+    for (let lat = latFrom; lat <= latTo; lat += GRATICULE_STEP) {
+      graticule.push(Array.from({ length: (lngTo - lngFrom) / 2 + 1 }, (_, i): LngLat => [lngFrom + i * 2, lat]));
+    }
+
+    return {
+      land: land.map(({ name, ring }) => ({ name, path: geoPath(ring, projection, true) })),
+      us: geoPath(usOutline, projection, true),
+      graticule: graticule.map(line => geoPath(line, projection)),
+    };
+  }, [kind, bounds, projection]);
+
+  const linkPath = (link: MapLink) => lineStyle === 'great-circle'
+    ? geoPath(greatCirclePoints(link.from, link.to), projection)
+    : geoPath([link.from, link.to], projection);
+
+  return (
+    <g data-testid="topology-map">
+      {/* Basemap; clicks fall through to the canvas so it still pans */}
+      <g style={{ pointerEvents: 'none' }}>
+        <rect width={width} height={height} fill="#eff6ff" />
+        {basemap.graticule.map((path, index) => (
+          <path key={`graticule-${index}`} d={path} fill="none" stroke="#dbeafe" strokeWidth="1" />
+        ))}
+        {basemap.land.map(({ name, path }) => (
+          <path key={name} d={path} fill="#f8fafc" stroke="#cbd5e1" strokeWidth="1" />
+        ))}
+        <path d={basemap.us} fill="#f1f5f9" stroke="#94a3b8" strokeWidth="1.5" />
+      </g>
+
+      {links.map(link => (
+        <path
+          key={link.id}
+          d={linkPath(link)}
+          fill="none"
+          stroke={link.color}
+          strokeWidth={link.highlighted ? 3 : 1.5}
+          strokeOpacity={link.highlighted ? 1 : 0.6}
+          strokeDasharray={link.dashed ? '5,5' : undefined}
+          opacity={link.dimmed ? DIMMED_OPACITY : undefined}
+          style={{ pointerEvents: 'none' }}
+        />
+      ))}
+
+      {clouds.map(cloud => {
+        const { x, y } = projection.project(cloud.location);
+        return (
+          <g key={cloud.id} opacity={cloud.dimmed ? DIMMED_OPACITY : undefined} style={{ pointerEvents: 'none' }}>
+            <circle cx={x} cy={y} r={16} fill={cloud.color} fillOpacity="0.15" stroke={cloud.color} strokeWidth="2" />
+            <text x={x} y={y - 22} textAnchor="middle" fontSize="11" fontWeight="600" fill={cloud.color}>
+              {cloud.name}
+            </text>
+          </g>
+        );
+      })}
+
+      {pops.map(pop => {
+        const { x, y } = projection.project(pop.location);
+        return (
+          <g key={pop.id} style={{ pointerEvents: 'none' }}>
+            <rect x={x - 6} y={y - 6} width={12} height={12} transform={`rotate(45 ${x} ${y})`} fill="#f97316" stroke="white" strokeWidth="1.5" />
+            <text x={x} y={y + 20} textAnchor="middle" fontSize="10" fill="#c2410c">
+              Megaport {pop.name}
+            </text>
+          </g>
+        );
+      })}
+
+      {sites.map(site => {
+        const { x, y } = projection.project(site.location);
+        const isSelected = site.id === selectedSiteId;
+        return (
+          <g
+            key={site.id}
+            opacity={site.dimmed ? DIMMED_OPACITY : undefined}
+            style={{ cursor: 'pointer' }}
+            onClick={() => onSelectSite?.(site.id)}
+            onMouseEnter={() => onHoverSite?.(site.id)}
+            onMouseLeave={() => onHoverSite?.(null)}
+            data-testid={`map-site-${site.id}`}
+          >
+            <circle cx={x} cy={y} r={isSelected ? 10 : 7} fill={site.color} stroke={isSelected ? '#111827' : 'white'} strokeWidth="2" />
+            <text x={x} y={y + (isSelected ? 24 : 20)} textAnchor="middle" fontSize="11" fontWeight="600" fill="#374151" style={{ pointerEvents: 'none' }}>
+              {site.name}
+            </text>
+          </g>
+        );
+      })}
+    </g>
+  );
+}
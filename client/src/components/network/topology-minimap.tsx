@@ -0,0 +1,89 @@
+import { useRef } from 'react';
+
+export interface MinimapNode {
+  id: string;
+  x: number;
+  y: number;
+  color: string;
+  dimmed?: boolean;
+}
+
+interface TopologyMinimapProps {
+  width: number; // Canvas size the nodes and viewport are measured in
+  height: number;
+  sites: MinimapNode[];
+  clouds: MinimapNode[];
+  viewport: { x: number; y: number; width: number; height: number };
+  onNavigate: (point: { x: number; y: number }) => void; // Centres the view on a canvas point
+}
+
+const MINIMAP_WIDTH = 200;
+
+// Overview of the whole canvas with the visible area outlined. Clicking or
+// dragging on it moves the view there.
+export default function TopologyMinimap({ width, height, sites, clouds, viewport, onNavigate }: TopologyMinimapProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const isDragging = useRef(false);
+  const scale = MINIMAP_WIDTH / Math.max(width, 1);
+  const minimapHeight = Math.round(height * scale);
+
+  const navigate = (e: React.MouseEvent) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    onNavigate({ x: (e.clientX - rect.left) / scale, y: (e.clientY - rect.top) / scale });
+  };
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-lg shadow-lg border border-gray-200 p-1">
+      <svg
+        ref={svgRef}
+        width={MINIMAP_WIDTH}
+        height={minimapHeight}
+        className="cursor-pointer"
+        onMouseDown={(e) => {
+          isDragging.current = true;
+          navigate(e);
+        }}
+        onMouseMove={(e) => isDragging.current && navigate(e)}
+        onMouseUp={() => { isDragging.current = false; }}
+        onMouseLeave={() => { isDragging.current = false; }}
+        data-testid="topology-minimap"
+      >
+        <rect width={MINIMAP_WIDTH} height={minimapHeight} fill="#f9fafb" />
+        {clouds.map(cloud => (
+          <circle
+            key={cloud.id}
+            cx={cloud.x * scale}
+            cy={cloud.y * scale}
+            r={5}
+            fill={cloud.color}
+            fillOpacity={cloud.dimmed ? 0.1 : 0.3}
+            stroke={cloud.color}
+            strokeOpacity={cloud.dimmed ? 0.2 : 1}
+          />
+        ))}
+        {sites.map(site => (
+          <circle
+            key={site.id}
+            cx={site.x * scale}
+            cy={site.y * scale}
+            r={2.5}
+            fill={site.color}
+            opacity={site.dimmed ? 0.2 : 1}
+          />
+        ))}
+        <rect
+          x={viewport.x * scale}
+          y={viewport.y * scale}
+          width={viewport.width * scale}
+          height={viewport.height * scale}
+          fill="#3b82f6"
+          fillOpacity="0.08"
+          stroke="#3b82f6"
+          strokeWidth="1.5"
+          style={{ pointerEvents: 'none' }}
+        />
+      </svg>
+    </div>
+  );
+}
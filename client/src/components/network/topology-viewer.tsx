@@ -1,6 +1,7 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Building2, Server, Database, Cloud, Edit3, Save, AlertCircle, Settings, Zap, ZoomIn, ZoomOut, CheckCircle, ChevronDown, ChevronUp, MapPin } from 'lucide-react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Building2, Server, Database, Cloud, Edit3, Save, AlertCircle, Settings, Zap, ZoomIn, ZoomOut, CheckCircle, ChevronDown, ChevronUp, MapPin, Download, Undo2, Redo2, LayoutGrid, Map as MapIcon, ShieldAlert, Search, Filter, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
@@ -9,16 +10,30 @@ import SiteEditDialog from './site-edit-dialog';
 import WANCloudEditDialog from './wan-cloud-edit-dialog';
 import AddWANCloudDialog from './add-wan-cloud-dialog';
 import AddMegaportOnrampDialog from './add-megaport-onramp-dialog';
-
-import { Site } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import type { UndoHistory } from '@/hooks/use-undo-history';
+import { renderTopologyExport, exportFileName, downloadBlob, type TopologyExportFormat } from '@/lib/topology-export';
+import { computeTopologyLayout, topologyLayouts, type TopologyLayoutKind, type LayoutSite } from '@/lib/topology-layout';
+import { mapRegions, megaportPopLocations, boundsAround, geoCentroid, fitProjection, type MapProjectionKind } from '@/lib/map-projection';
+import type { LngLat } from '@/lib/basemap';
+import TopologyMapLayer, { type MapLineStyle, type MapLink, type MapCloudMarker } from './topology-map-layer';
+import TopologyMinimap from './topology-minimap';
+import { renderTopologyDiagram, type TopologyDiagram, type TopologyDiagramFormat, type DiagramNode, type DiagramEdge } from '@/lib/topology-diagram';
+
+import { Site, defaultWanClouds, type TopologyDesign, type InsertTopologyDesign, type WanCloud } from '@shared/schema';
+import { targetCloudFor } from '@shared/topology';
+import { tracePaths, pathNodeKey } from '@/lib/topology-paths';
+import { failureScenarios, simulateFailure, failsConnection, failureKindLabels, type FailureKind, type FailureScenario } from '@shared/resiliency';
 
 // Use the exact same Site interface as the parent component
 interface Connection {
+  id?: string; // Circuit or proposed connection id
   type: string;
   bandwidth: string;
   provider?: string;
   pointToPointEndpoint?: string;
   customProvider?: string;
+  cloudId?: string; // WAN cloud the circuit is linked to, if any
 }
 
 // Local interface for sites with connections (extends the shared Site type)
@@ -35,6 +50,16 @@ interface MegaportPOP {
   isCustom?: boolean;
 }
 
+// View settings the viewer owns; the page adds the name, site positions and proposed connections
+export type TopologyViewSettings = Omit<InsertTopologyDesign, 'name' | 'sitePositions' | 'connections'>;
+
+const defaultConnectionVisibility = {
+  siteToCloud: true,        // Site-to-WAN cloud connections
+  mplsMesh: true,           // MPLS mesh (site-to-site) connections - enabled by default
+  bandwidthLabels: true,    // Bandwidth labels on connections
+  pointToPoint: true        // Point-to-point connections
+};
+
 interface TopologyViewerProps {
   sites: SiteWithConnections[];
   selectedSite?: SiteWithConnections | null;
@@ -42,12 +67,20 @@ interface TopologyViewerProps {
   onUpdateSiteCoordinates: (siteId: string, coordinates: { x: number; y: number }) => void;
   onUpdateSite?: (siteId: string, updates: Partial<Site>) => void;
   onDeleteSite?: (siteId: string) => void;
-  onSaveDesign?: () => void;
+  onRestoreSite?: (siteId: string) => void; // Puts back a deleted site on undo
+  onSaveDesign?: (settings: TopologyViewSettings) => void;
   onUpdateWANCloud?: (cloudId: string, updates: Partial<WANCloud>) => void;
   onDeleteWANCloud?: (cloudId: string) => void;
-  onAddConnection?: (siteId: string, connectionType?: string) => void;
-  onAddWANCloud?: (cloud: Omit<WANCloud, 'id'>) => void;
-  customClouds?: WANCloud[];
+  onAddConnection?: (siteId: string, connectionType?: string, cloudId?: string) => void;
+  // Resolves to the new cloud's id. When re-creating a deleted cloud on undo,
+  // replacesCloudId is the deleted cloud so its links can be restored.
+  onAddWANCloud?: (cloud: Omit<WANCloud, 'id'>, replacesCloudId?: string) => Promise<string | undefined>;
+  clouds?: WanCloud[]; // The project's WAN clouds; the built-in defaults are shown when omitted
+  savedDesign?: TopologyDesign | null; // Restores cloud visibility and custom onramps
+  readOnly?: boolean; // View, pan and zoom only (client portal)
+  exportName?: string; // Base file name for SVG, PNG and PDF exports
+  history?: UndoHistory; // Records moves, edits, additions and deletions for undo/redo
+  onOpenResiliencyReport?: () => void; // Opens the printable single-point-of-failure report
 }
 
 interface WANCloud {
@@ -66,12 +99,18 @@ export default function TopologyViewer({
   onUpdateSiteCoordinates,
   onUpdateSite,
   onDeleteSite,
+  onRestoreSite,
   onSaveDesign,
   onUpdateWANCloud,
   onDeleteWANCloud,
   onAddConnection,
   onAddWANCloud,
-  customClouds = []
+  clouds,
+  savedDesign,
+  readOnly = false,
+  exportName = 'network-topology',
+  history,
+  onOpenResiliencyReport
 }: TopologyViewerProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const [isDragging, setIsDragging] = useState<string | null>(null);
@@ -92,23 +131,25 @@ export default function TopologyViewer({
   const [editingWANCloud, setEditingWANCloud] = useState<WANCloud | null>(null);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [showSaveIndicator, setShowSaveIndicator] = useState(false);
-  const [hiddenClouds, setHiddenClouds] = useState<Set<string>>(new Set());
-  const [connectionVisibility, setConnectionVisibility] = useState({
-    siteToCloud: true,        // Site-to-WAN cloud connections
-    mplsMesh: true,           // MPLS mesh (site-to-site) connections - enabled by default
-    bandwidthLabels: true,    // Bandwidth labels on connections
-    pointToPoint: true        // Point-to-point connections
-  });
+  const [hiddenClouds, setHiddenClouds] = useState<Set<string>>(() => new Set(savedDesign?.hiddenClouds ?? []));
+  const [connectionVisibility, setConnectionVisibility] = useState(
+    savedDesign?.connectionVisibility ?? defaultConnectionVisibility
+  );
 
   // Individual WAN cloud visibility controls
   const [cloudVisibility, setCloudVisibility] = useState<Record<string, boolean>>({
-    internet: true,
-    mpls: true,
-    'azure-hub': true,
-    'aws-hub': true,
-    'gcp-hub': true,
-    megaport: true
+    ...savedDesign?.cloudVisibility
   });
+
+  // Normalized positions of clouds moved since the clouds were loaded, so they survive canvas resizes
+  const savedCloudPositions = useRef<Record<string, { x: number; y: number }>>({});
+  // Normalized position of the site or cloud being dragged when the drag started
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+  // Deleted clouds come back with a new id on undo; earlier history entries
+  // still refer to the old one
+  const cloudIdAliases = useRef<Record<string, string>>({});
+  const dimensionsRef = useRef(dimensions);
+  dimensionsRef.current = dimensions;
   const [showAddCloudDialog, setShowAddCloudDialog] = useState(false);
   const [showOptimizationQuestionnaire, setShowOptimizationQuestionnaire] = useState(false);
 
@@ -125,11 +166,40 @@ export default function TopologyViewer({
   const [popDistanceThreshold, setPopDistanceThreshold] = useState(1500); // 500-2500 miles, acceptable distance for site-to-POP connections
   const [showHeatMap, setShowHeatMap] = useState(false);
 
+  // Geographic map view: sites at their real latitude/longitude over a basemap
+  const [isMapView, setIsMapView] = useState(false);
+  const [mapRegionId, setMapRegionId] = useState('us'); // A mapRegions id, or 'sites' to fit the located sites
+  const [mapLineStyle, setMapLineStyle] = useState<MapLineStyle>('straight');
+  const [showMapPOPs, setShowMapPOPs] = useState(true);
+
+  // Failure simulation: the circuit, carrier, cloud or POP taken down, if any
+  const [failureKind, setFailureKind] = useState<FailureKind>('circuit');
+  const [failureScenario, setFailureScenario] = useState<FailureScenario | null>(null);
+
+  // Path tracing between two sites or clouds, as pathNodeKey values
+  const [pathEnds, setPathEnds] = useState<{ from: string | null; to: string | null }>({ from: null, to: null });
+  const [activePathIndex, setActivePathIndex] = useState(0);
+
+  // Search and filters for large topologies. Filters dim or hide sites,
+  // clouds and connections that don't match; the search centres on a match.
+  const [searchQuery, setSearchQuery] = useState('');
+  const [focusedNodeKey, setFocusedNodeKey] = useState<string | null>(null);
+  const [filters, setFilters] = useState({ category: '', carrier: '', state: '', region: '', connectionType: '' });
+  const [filterMode, setFilterMode] = useState<'dim' | 'hide'>('dim');
+  const [showMinimap, setShowMinimap] = useState(true);
+  const [exportingFormat, setExportingFormat] = useState<TopologyExportFormat | TopologyDiagramFormat | null>(null);
+  const { toast } = useToast();
+
   // Collapsible panel states
   const [collapsedPanels, setCollapsedPanels] = useState({
     viewControls: false,
     connectionLines: false,
-    optimization: false
+    optimization: false,
+    layout: true,
+    failures: true,
+    paths: true,
+    filters: true,
+    export: true
   });
   const [heatMapData, setHeatMapData] = useState<{
     sites: { id: string; name: string; x: number; y: number; nearestPOP: string; distance: number; efficiency: number }[];
@@ -138,14 +208,10 @@ export default function TopologyViewer({
 
   // Base WAN cloud definitions - positions will be overridden by cloudPositions state
   // In optimization view, clouds are positioned above the Megaport ring
-  const baseWanClouds: WANCloud[] = [
-    { id: 'internet', type: 'Internet', name: 'Internet WAN', x: 0.35, y: 0.5, color: '#3b82f6' },
-    { id: 'mpls', type: 'MPLS', name: 'MPLS WAN', x: 0.65, y: 0.5, color: '#8b5cf6' },
-    { id: 'azure-hub', type: 'Azure', name: 'Azure ExpressRoute', x: 0.25, y: 0.15, color: '#0078d4' },
-    { id: 'aws-hub', type: 'AWS', name: 'AWS Direct Connect', x: 0.1, y: 0.15, color: '#ff9900' },
-    { id: 'gcp-hub', type: 'GCP', name: 'Google Cloud', x: 0.5, y: 0.15, color: '#4285f4' },
-    { id: 'megaport', type: 'NaaS', name: 'Megaport NaaS', x: 0.5, y: 0.5, color: '#f97316' }
-  ];
+  const baseWanClouds: WANCloud[] = clouds
+    ? clouds.filter(cloud => cloud.isDefault)
+    : defaultWanClouds.map(({ key, ...cloud }) => ({ ...cloud, id: key }));
+  const customClouds: WANCloud[] = clouds ? clouds.filter(cloud => !cloud.isDefault) : [];
 
   // Define center coordinates for optimization view
   const centerX = dimensions.width * 0.5;
@@ -206,7 +272,13 @@ export default function TopologyViewer({
       name: 'Miami', 
       address: '36 NE 2nd Street, Miami, FL 33132',
       x: 0.85, y: 0.95, active: false, isCustom: false 
-    }
+    },
+    ...(savedDesign?.customOnramps ?? []).map(onramp => ({
+      ...onramp,
+      address: onramp.address ?? '',
+      active: false,
+      isCustom: true
+    }))
   ]);
 
   // State for managing custom Megaport onramp dialog
@@ -1259,9 +1331,10 @@ export default function TopologyViewer({
 
     [...baseWanClouds, ...customClouds].forEach(cloud => {
       // Convert normalized coordinates to pixels for initial positions
+      const position = savedCloudPositions.current[cloud.id] ?? cloud;
       positions[cloud.id] = {
-        x: cloud.x * dimensions.width,
-        y: cloud.y * dimensions.height
+        x: position.x * dimensions.width,
+        y: position.y * dimensions.height
       };
 
       // Initialize visibility for all clouds (including custom ones)
@@ -1276,7 +1349,7 @@ export default function TopologyViewer({
     if (Object.keys(visibility).length > 0) {
       setCloudVisibility(prev => ({ ...prev, ...visibility }));
     }
-  }, [dimensions, customClouds.length, cloudVisibility]);
+  }, [dimensions, clouds, cloudVisibility]);
 
   // Update canvas dimensions
   useEffect(() => {
@@ -1313,48 +1386,72 @@ export default function TopologyViewer({
   };
 
   // Determine which cloud a connection should target
-  const getTargetCloud = (connection: Connection): WANCloud | null => {
-    const type = connection.type.toLowerCase();
-    const provider = connection.provider?.toLowerCase() || '';
-
-    // AWS Direct Connect connections
-    if (type.includes('aws') || type.includes('direct connect') || provider.includes('aws')) {
-      return wanClouds.find(c => c.type === 'AWS') || null;
-    }
-
-    // Azure ExpressRoute connections
-    if (type.includes('azure') || type.includes('expressroute') || provider.includes('azure')) {
-      return wanClouds.find(c => c.type === 'Azure') || null;
-    }
-
-    // Google Cloud connections
-    if (type.includes('gcp') || type.includes('google') || provider.includes('google')) {
-      return wanClouds.find(c => c.type === 'GCP') || null;
-    }
-
-    // MPLS connections - primary hub
-    if (type.includes('mpls') || type.includes('vpls')) {
-      return wanClouds.find(c => c.type === 'MPLS') || null;
-    }
+  const getTargetCloud = (connection: Connection): WANCloud | null => targetCloudFor(connection, wanClouds);
+
+  // Sites the simulated failure cuts off from all (isolated) or some (degraded)
+  // of their data centers and clouds. Cloud positions play no part, so drags
+  // don't rerun it.
+  const failureImpact = useMemo(
+    () => failureScenario ? simulateFailure({ sites, clouds: allClouds }, failureScenario) : null,
+    [failureScenario, sites, clouds]
+  );
+  const failureOptions = collapsedPanels.failures
+    ? []
+    : failureScenarios({ sites, clouds: allClouds }).filter(scenario => scenario.kind === failureKind);
+  const failureStatus = new Map(failureImpact?.sites.map(site => [site.siteId, site.status]) ?? []);
+  const failureColors = { isolated: '#dc2626', degraded: '#f59e0b' };
+  const isFailedConnection = (site: SiteWithConnections, connection: Connection, index: number) =>
+    !!failureScenario && failsConnection(failureScenario, site, connection, index, allClouds);
+
+  // Routes between the two traced ends, fastest first
+  const tracedPaths = useMemo(
+    () => pathEnds.from && pathEnds.to
+      ? tracePaths({
+          sites,
+          clouds: allClouds,
+          pops: megaportPOPs.map(pop => ({ id: pop.id, name: pop.name, location: megaportPopLocations[pop.id] })),
+        }, pathEnds.from, pathEnds.to)
+      : [],
+    [pathEnds, sites, clouds, megaportPOPs]
+  );
+  const activePath = tracedPaths[activePathIndex] ?? null;
+  const isTracingPath = !collapsedPanels.paths;
+
+  // While the Path Tracing panel is open, clicking sites and clouds picks the
+  // ends: the first click starts a new trace, the second finishes it
+  const pickPathEnd = (key: string) => {
+    setActivePathIndex(0);
+    setPathEnds(ends => !ends.from || ends.to ? { from: key, to: null } : { from: ends.from, to: key });
+  };
 
-    // Internet connections - primary hub
-    if (type.includes('internet') || type.includes('broadband') || type.includes('lte') || 
-        type.includes('satellite') || type.includes('dedicated internet')) {
-      return wanClouds.find(c => c.type === 'Internet') || null;
-    }
+  // Undo/redo commands. Positions are normalized so they still apply after a canvas resize.
+  const currentCloudId = (cloudId: string) => {
+    let id = cloudId;
+    while (cloudIdAliases.current[id]) id = cloudIdAliases.current[id];
+    return id;
+  };
 
-    // Megaport/SD-WAN connections
-    if (type.includes('megaport') || type.includes('sd-wan') || type.includes('naas')) {
-      return wanClouds.find(c => c.type === 'NaaS') || null;
+  const applySiteCoordinates = useCallback((siteId: string, coordinates: { x: number; y: number }) => {
+    onUpdateSiteCoordinates(siteId, coordinates);
+    setHasUnsavedChanges(true);
+  }, [onUpdateSiteCoordinates]);
+
+  const applyCloudUpdate = useCallback((cloudId: string, updates: Partial<WANCloud>) => {
+    onUpdateWANCloud?.(cloudId, updates);
+    if (updates.x !== undefined && updates.y !== undefined) {
+      const position = { x: updates.x, y: updates.y };
+      const { width, height } = dimensionsRef.current;
+      savedCloudPositions.current[cloudId] = position;
+      setCloudPositions(prev => ({
+        ...prev,
+        [cloudId]: { x: position.x * width, y: position.y * height }
+      }));
     }
-
-    // Default to Internet for unknown types
-    return wanClouds.find(c => c.type === 'Internet') || null;
-  };
+  }, [onUpdateWANCloud]);
 
   // Drag handlers for sites - only enabled in normal view
   const handleMouseDown = useCallback((siteId: string) => (e: React.MouseEvent) => {
-    if (isOptimizationView) return; // Disable dragging in optimization view
+    if (isOptimizationView || readOnly) return; // Disable dragging in optimization view and read-only mode
 
     e.preventDefault();
     e.stopPropagation();
@@ -1378,11 +1475,14 @@ export default function TopologyViewer({
       });
     }
 
+    dragStart.current = sites.find(site => site.id === siteId)?.coordinates ?? null;
     setIsDragging(siteId);
-  }, [sitePositions, panOffset, zoom, isOptimizationView]);
+  }, [sites, sitePositions, panOffset, zoom, isOptimizationView, readOnly]);
 
   // Drag handlers for WAN clouds
   const handleCloudMouseDown = useCallback((cloudId: string) => (e: React.MouseEvent) => {
+    if (readOnly) return;
+
     e.preventDefault();
     e.stopPropagation();
 
@@ -1405,8 +1505,9 @@ export default function TopologyViewer({
       });
     }
 
+    dragStart.current = cloudPos ? { x: cloudPos.x / dimensions.width, y: cloudPos.y / dimensions.height } : null;
     setIsDraggingCloud(cloudId);
-  }, [cloudPositions, panOffset, zoom]);
+  }, [cloudPositions, panOffset, zoom, dimensions, readOnly]);
 
   const updatePanPosition = useCallback((deltaX: number, deltaY: number) => {
     // Batch updates to avoid multiple renders
@@ -1493,10 +1594,12 @@ export default function TopologyViewer({
           [isDraggingCloud]: { x: constrainedX, y: constrainedY }
         }));
 
-        onUpdateWANCloud?.(isDraggingCloud, {
+        const position = {
           x: constrainedX / dimensions.width,
           y: constrainedY / dimensions.height
-        });
+        };
+        savedCloudPositions.current[isDraggingCloud] = position;
+        onUpdateWANCloud?.(isDraggingCloud, position);
 
         setHasUnsavedChanges(true);
       }
@@ -1519,6 +1622,36 @@ export default function TopologyViewer({
   const handleMouseUp = useCallback(() => {
     const wasPanning = isPanning;
 
+    // A finished drag becomes one history entry, however many moves it took
+    const from = dragStart.current;
+    dragStart.current = null;
+    if (history && from && isDragging) {
+      const siteId = isDragging;
+      const site = sites.find(site => site.id === siteId);
+      const to = site?.coordinates;
+      if (site && to && (to.x !== from.x || to.y !== from.y)) {
+        history.push({
+          label: `Move ${site.name}`,
+          undo: () => applySiteCoordinates(siteId, from),
+          redo: () => applySiteCoordinates(siteId, to),
+        });
+      }
+    } else if (history && from && isDraggingCloud && cloudPositions[isDraggingCloud]) {
+      const cloudId = isDraggingCloud;
+      const to = { x: cloudPositions[cloudId].x / dimensions.width, y: cloudPositions[cloudId].y / dimensions.height };
+      if (to.x !== from.x || to.y !== from.y) {
+        const apply = (position: { x: number; y: number }) => {
+          applyCloudUpdate(currentCloudId(cloudId), position);
+          setHasUnsavedChanges(true);
+        };
+        history.push({
+          label: `Move ${wanClouds.find(cloud => cloud.id === cloudId)?.name ?? 'WAN cloud'}`,
+          undo: () => apply(from),
+          redo: () => apply(to),
+        });
+      }
+    }
+
     setIsDragging(null);
     setIsDraggingCloud(null);
     setIsPanning(false);
@@ -1528,7 +1661,7 @@ export default function TopologyViewer({
     if (wasPanning) {
       applyPanMomentum();
     }
-  }, [isPanning, applyPanMomentum]);
+  }, [isPanning, applyPanMomentum, history, isDragging, isDraggingCloud, sites, cloudPositions, dimensions, wanClouds, applySiteCoordinates, applyCloudUpdate]);
 
   // Pan functionality - only start panning if not clicking on a site or cloud
   const handleCanvasMouseDown = useCallback((e: React.MouseEvent) => {
@@ -1559,6 +1692,159 @@ export default function TopologyViewer({
     setPanOffset({ x: 0, y: 0 });
   }, []);
 
+  // Sites, clouds, Megaport POPs and connections as currently laid out, as
+  // editable shapes for draw.io and Visio. Point-to-point circuits join their
+  // two sites directly.
+  const buildTopologyDiagram = (): TopologyDiagram => {
+    const nodes: DiagramNode[] = [];
+    const edges: DiagramEdge[] = [];
+    const placedSites = sites.filter(site => sitePositions[site.id]);
+    const siteIdsByName = new Map(placedSites.map(site => [site.name.toLowerCase(), site.id]));
+
+    placedSites.forEach(site => {
+      const position = sitePositions[site.id];
+      nodes.push({ id: site.id, kind: 'site', label: site.name, x: position.x, y: position.y, color: getSiteColor(site.category) });
+    });
+
+    if (isOptimizationView) {
+      const ringPOPs = getMegaportRingPositions();
+      ringPOPs.forEach(pop => {
+        nodes.push({
+          id: pop.id,
+          kind: 'pop',
+          label: `Megaport ${pop.name}`,
+          x: pop.x * dimensions.width,
+          y: pop.y * dimensions.height,
+          color: pop.isCustom ? '#10b981' : '#f97316',
+        });
+      });
+      placedSites.forEach(site => {
+        const { nearestPOP, minRealDistance } = findNearestPOP(site, ringPOPs);
+        if (!nearestPOP || minRealDistance > popDistanceThreshold) return;
+        edges.push({
+          id: `${site.id}-${nearestPOP.id}`,
+          source: site.id,
+          target: nearestPOP.id,
+          label: `${Math.round(minRealDistance)} mi`,
+          color: '#f97316',
+        });
+      });
+      return { name: exportName, nodes, edges };
+    }
+
+    const visibleClouds = getActiveClouds().filter(cloud => cloudVisibility[cloud.id]);
+    visibleClouds.forEach(cloud => {
+      nodes.push({ id: cloud.id, kind: 'cloud', label: cloud.name, x: cloud.x * dimensions.width, y: cloud.y * dimensions.height, color: cloud.color });
+    });
+
+    placedSites.forEach(site => {
+      site.connections.forEach((connection, index) => {
+        const label = [connection.bandwidth, connection.customProvider || connection.provider].filter(Boolean).join('\n');
+        const endpointSiteId = connection.type === 'point-to-point' && connection.pointToPointEndpoint
+          ? siteIdsByName.get(connection.pointToPointEndpoint.toLowerCase())
+          : undefined;
+
+        if (endpointSiteId) {
+          if (connectionVisibility.pointToPoint) {
+            edges.push({ id: `${site.id}-p2p-${index}`, source: site.id, target: endpointSiteId, label, color: '#6b7280' });
+          }
+          return;
+        }
+
+        const targetCloud = getTargetCloud(connection);
+        if (!connectionVisibility.siteToCloud || !targetCloud || !visibleClouds.some(cloud => cloud.id === targetCloud.id)) return;
+        edges.push({
+          id: `${site.id}-${targetCloud.id}-${index}`,
+          source: site.id,
+          target: targetCloud.id,
+          label,
+          color: targetCloud.color,
+          dashed: targetCloud.type === 'Internet',
+        });
+      });
+    });
+
+    return { name: exportName, nodes, edges };
+  };
+
+  // Rearranges the sites (and, except geographically, the visible clouds) in
+  // one step that a single undo reverses
+  const handleApplyLayout = (kind: TopologyLayoutKind) => {
+    const visibleClouds = getActiveClouds().filter(cloud => cloudVisibility[cloud.id]);
+    const siteIdsByName = new Map(sites.map(site => [site.name.toLowerCase(), site.id]));
+    const layoutSites: LayoutSite[] = sites.map(site => ({
+      id: site.id,
+      category: site.category,
+      position: site.coordinates ?? { x: 0.5, y: 0.5 },
+      latitude: site.latitude,
+      longitude: site.longitude,
+      cloudIds: Array.from(new Set(site.connections
+        .map(connection => getTargetCloud(connection)?.id)
+        .filter((id): id is string => !!id))),
+      siteIds: site.connections
+        .map(connection => connection.type === 'point-to-point' && connection.pointToPointEndpoint
+          ? siteIdsByName.get(connection.pointToPointEndpoint.toLowerCase())
+          : undefined)
+        .filter((id): id is string => !!id),
+    }));
+
+    const layout = computeTopologyLayout(kind, {
+      sites: layoutSites,
+      clouds: visibleClouds.map(cloud => ({
+        id: cloud.id,
+        position: { x: cloud.x, y: cloud.y },
+        radius: cloud.type === 'Internet' || cloud.type === 'MPLS' ? 60 : 45,
+      })),
+      width: dimensions.width,
+      height: dimensions.height,
+      hubId: selectedSite?.id,
+    });
+
+    const before = {
+      sites: Object.fromEntries(layoutSites.map(site => [site.id, site.position])),
+      clouds: Object.fromEntries(visibleClouds
+        .filter(cloud => layout.clouds[cloud.id])
+        .map(cloud => [cloud.id, { x: cloud.x, y: cloud.y }])),
+    };
+    const apply = (positions: typeof layout) => {
+      Object.entries(positions.sites).forEach(([siteId, coordinates]) => onUpdateSiteCoordinates(siteId, coordinates));
+      Object.entries(positions.clouds).forEach(([cloudId, position]) => applyCloudUpdate(currentCloudId(cloudId), position));
+      setHasUnsavedChanges(true);
+    };
+
+    apply(layout);
+    history?.push({
+      label: `${topologyLayouts.find(option => option.kind === kind)?.label} layout`,
+      undo: () => apply(before),
+      redo: () => apply(layout),
+    });
+  };
+
+  // Exports exactly what is on screen: the rendered svg already reflects hidden
+  // clouds, connection toggles and the optimization view, cropped to the current zoom and pan
+  const handleExport = async (format: TopologyExportFormat | TopologyDiagramFormat) => {
+    const svg = svgRef.current;
+    const viewport = svg?.parentElement?.getBoundingClientRect();
+    if (!svg || !viewport) return;
+
+    setExportingFormat(format);
+    try {
+      const blob = format === 'drawio' || format === 'vsdx'
+        ? renderTopologyDiagram(buildTopologyDiagram(), format)
+        : await renderTopologyExport(svg, { zoom, panOffset, width: viewport.width, height: viewport.height }, format);
+      downloadBlob(blob, exportFileName(exportName, format));
+    } catch (error) {
+      console.error('Topology export error:', error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "The diagram could not be exported.",
+        variant: "destructive",
+      });
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
   // Cleanup animation frames on unmount
   useEffect(() => {
     return () => {
@@ -1575,31 +1861,64 @@ export default function TopologyViewer({
 
   const handleSaveSite = useCallback((siteId: string, updates: Partial<Site>) => {
     if (onUpdateSite) {
+      const site = sites.find(site => site.id === siteId);
       onUpdateSite(siteId, updates);
       setHasUnsavedChanges(true);
+
+      if (history && site) {
+        const previous = Object.fromEntries(
+          Object.keys(updates).map(key => [key, site[key as keyof Site]])
+        ) as Partial<Site>;
+        const apply = (values: Partial<Site>) => {
+          onUpdateSite(siteId, values);
+          setHasUnsavedChanges(true);
+        };
+        history.push({
+          label: `Edit ${site.name}`,
+          undo: () => apply(previous),
+          redo: () => apply(updates),
+        });
+      }
     }
-  }, [onUpdateSite]);
+  }, [onUpdateSite, sites, history]);
 
   const handleDeleteSite = useCallback((siteId: string) => {
     if (onDeleteSite) {
+      const site = sites.find(site => site.id === siteId);
       onDeleteSite(siteId);
+
+      if (history && site && onRestoreSite) {
+        history.push({
+          label: `Delete ${site.name}`,
+          undo: () => onRestoreSite(siteId),
+          redo: () => onDeleteSite(siteId),
+        });
+      }
     }
     setEditingSite(null);
-  }, [onDeleteSite]);
+  }, [onDeleteSite, onRestoreSite, sites, history]);
 
   const handleSaveDesign = useCallback(() => {
     if (onSaveDesign) {
-      onSaveDesign();
+      onSaveDesign({
+        hiddenClouds: Array.from(hiddenClouds),
+        cloudVisibility,
+        connectionVisibility,
+        customOnramps: megaportPOPs
+          .filter(pop => pop.isCustom)
+          .map(({ id, name, address, x, y }) => ({ id, name, address, x, y }))
+      });
       setHasUnsavedChanges(false);
       setShowSaveIndicator(true);
       setTimeout(() => setShowSaveIndicator(false), 2000);
     }
-  }, [onSaveDesign]);
+  }, [onSaveDesign, hiddenClouds, cloudVisibility, connectionVisibility, megaportPOPs]);
 
   // Double-click to edit site
   const handleSiteDoubleClick = useCallback((site: Site) => {
+    if (readOnly) return;
     handleEditSite(site);
-  }, [handleEditSite]);
+  }, [handleEditSite, readOnly]);
 
   // Handle WAN cloud editing
   const handleEditWANCloud = useCallback((cloud: WANCloud) => {
@@ -1608,39 +1927,99 @@ export default function TopologyViewer({
 
   const handleSaveWANCloud = useCallback((cloudId: string, updates: Partial<WANCloud>) => {
     if (onUpdateWANCloud) {
-      onUpdateWANCloud(cloudId, updates);
-      setHasUnsavedChanges(true);
+      const cloud = wanClouds.find(cloud => cloud.id === cloudId);
+      applyCloudUpdate(cloudId, updates);
+
+      if (history && cloud) {
+        const previous = Object.fromEntries(
+          Object.keys(updates).map(key => [key, cloud[key as keyof WANCloud]])
+        ) as Partial<WANCloud>;
+        history.push({
+          label: `Edit ${cloud.name}`,
+          undo: () => applyCloudUpdate(currentCloudId(cloudId), previous),
+          redo: () => applyCloudUpdate(currentCloudId(cloudId), updates),
+        });
+      }
     }
-  }, [onUpdateWANCloud]);
+  }, [onUpdateWANCloud, applyCloudUpdate, wanClouds, history]);
+
+  // Re-creates a cloud removed by an undo or redo, so later entries that
+  // name the old id reach the new cloud
+  const restoreWANCloud = useCallback(async (cloud: WANCloud) => {
+    if (!onAddWANCloud) return;
+    const { id, ...details } = cloud;
+    const replacedId = currentCloudId(id);
+    const newId = await onAddWANCloud(details, replacedId);
+    if (newId) {
+      cloudIdAliases.current[replacedId] = newId;
+    }
+  }, [onAddWANCloud]);
 
   const handleDeleteWANCloud = useCallback((cloudId: string) => {
     if (onDeleteWANCloud) {
+      const cloud = wanClouds.find(cloud => cloud.id === cloudId);
       onDeleteWANCloud(cloudId);
-      setHasUnsavedChanges(true);
+
+      if (history && cloud && onAddWANCloud) {
+        const { id, type, name, x, y, color } = cloud;
+        history.push({
+          label: `Delete ${name}`,
+          undo: () => restoreWANCloud({ id, type, name, x, y, color }),
+          redo: () => onDeleteWANCloud(currentCloudId(id)),
+        });
+      }
     }
-  }, [onDeleteWANCloud]);
+  }, [onDeleteWANCloud, onAddWANCloud, restoreWANCloud, wanClouds, history]);
 
-  const handleHideWANCloud = useCallback((cloudId: string) => {
+  const handleAddWANCloud = useCallback(async (cloud: Omit<WANCloud, 'id'>) => {
+    if (!onAddWANCloud) return;
+    const id = await onAddWANCloud(cloud);
+    setHasUnsavedChanges(true);
+
+    if (history && id && onDeleteWANCloud) {
+      history.push({
+        label: `Add ${cloud.name}`,
+        undo: () => onDeleteWANCloud(currentCloudId(id)),
+        redo: () => restoreWANCloud({ ...cloud, id }),
+      });
+    }
+  }, [onAddWANCloud, onDeleteWANCloud, restoreWANCloud, history]);
+
+  const setCloudHidden = useCallback((cloudId: string, hidden: boolean) => {
     setHiddenClouds(prev => {
       const newSet = new Set(prev);
-      newSet.add(cloudId);
+      if (hidden) {
+        newSet.add(cloudId);
+      } else {
+        newSet.delete(cloudId);
+      }
       return newSet;
     });
     setHasUnsavedChanges(true);
   }, []);
 
+  const handleHideWANCloud = useCallback((cloudId: string) => {
+    setCloudHidden(cloudId, true);
+    history?.push({
+      label: `Hide ${wanClouds.find(cloud => cloud.id === cloudId)?.name ?? 'WAN cloud'}`,
+      undo: () => setCloudHidden(currentCloudId(cloudId), false),
+      redo: () => setCloudHidden(currentCloudId(cloudId), true),
+    });
+  }, [setCloudHidden, wanClouds, history]);
+
   const handleWANCloudClick = useCallback((cloud: WANCloud) => {
     // If a site is selected and user clicks a WAN cloud, offer to add connection
     if (selectedSite && onAddConnection) {
       const connectionType = cloud.type.toLowerCase();
-      onAddConnection(selectedSite.id, connectionType);
+      onAddConnection(selectedSite.id, connectionType, cloud.id);
     }
   }, [selectedSite, onAddConnection]);
 
   // Double-click to edit WAN cloud
   const handleWANCloudDoubleClick = useCallback((cloud: WANCloud) => {
+    if (readOnly) return;
     handleEditWANCloud(cloud);
-  }, [handleEditWANCloud]);
+  }, [handleEditWANCloud, readOnly]);
 
   // Handle adding custom Megaport onramp
   const handleAddMegaportOnramp = useCallback((onramp: {
@@ -1660,15 +2039,65 @@ export default function TopologyViewer({
       isCustom: true
     };
 
-    setMegaportPOPs(prev => [...prev, newOnramp]);
-    setHasUnsavedChanges(true);
-  }, []);
+    const add = () => {
+      setMegaportPOPs(prev => [...prev, newOnramp]);
+      setHasUnsavedChanges(true);
+    };
+    add();
+    history?.push({
+      label: `Add ${newOnramp.name} onramp`,
+      undo: () => {
+        setMegaportPOPs(prev => prev.filter(pop => pop.id !== newOnramp.id));
+        setHasUnsavedChanges(true);
+      },
+      redo: add,
+    });
+  }, [history]);
 
   // Handle removing custom Megaport onramp
   const handleRemoveMegaportOnramp = useCallback((onrampId: string) => {
-    setMegaportPOPs(prev => prev.filter(pop => pop.id !== onrampId));
-    setHasUnsavedChanges(true);
-  }, []);
+    const index = megaportPOPs.findIndex(pop => pop.id === onrampId);
+    const onramp = megaportPOPs[index];
+
+    const remove = () => {
+      setMegaportPOPs(prev => prev.filter(pop => pop.id !== onrampId));
+      setHasUnsavedChanges(true);
+    };
+    remove();
+    if (onramp) {
+      history?.push({
+        label: `Remove ${onramp.name} onramp`,
+        undo: () => {
+          setMegaportPOPs(prev => [...prev.slice(0, index), onramp, ...prev.slice(index)]);
+          setHasUnsavedChanges(true);
+        },
+        redo: remove,
+      });
+    }
+  }, [megaportPOPs, history]);
+
+  // Ctrl+Z undoes, Ctrl+Shift+Z or Ctrl+Y redoes; typing in a field keeps the browser's own undo
+  useEffect(() => {
+    if (!history || readOnly) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        history.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        history.redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history, readOnly]);
 
   // Get active clouds (show clouds that have connections OR are custom added clouds, and aren't hidden)
   const getActiveClouds = (): WANCloud[] => {
@@ -1691,6 +2120,135 @@ export default function TopologyViewer({
     });
   };
 
+  // Projection and area the map view shows: the chosen region, or a box
+  // around the located sites
+  const getMapFrame = (): { kind: MapProjectionKind; bounds: [LngLat, LngLat] } => {
+    const locations = sites
+      .filter(site => site.latitude != null && site.longitude != null)
+      .map((site): LngLat => [site.longitude!, site.latitude!]);
+    const region = mapRegions.find(region => region.id === mapRegionId) ?? mapRegions[0];
+    const siteBounds = mapRegionId === 'sites' ? boundsAround(locations) : null;
+    if (!siteBounds) return { kind: region.projection, bounds: region.bounds };
+
+    const [usWest, usSouth] = mapRegions[0].bounds[0];
+    const [usEast, usNorth] = mapRegions[0].bounds[1];
+    const sitesInUS = locations.every(([lng, lat]) => lng >= usWest && lng <= usEast && lat >= usSouth && lat <= usNorth);
+    return { kind: sitesInUS ? 'albers' : 'equal-earth', bounds: siteBounds };
+  };
+
+  // Render the map view. Clouds have no location of their own, so each is
+  // drawn at the centre of the sites connected to it.
+  const renderMap = () => {
+    const locatedSites = sites.filter(site => site.latitude != null && site.longitude != null);
+    const locations = new Map<string, LngLat>(locatedSites.map(site => [site.id, [site.longitude!, site.latitude!]]));
+    const siteIdsByName = new Map(locatedSites.map(site => [site.name.toLowerCase(), site.id]));
+    const isHighlighted = (...siteIds: string[]) => siteIds.some(id => id === hoveredSite || id === selectedSite?.id);
+    // Non-matching markers and links are faded, or left out when filters hide them
+    const isShown = (matches: boolean) => filterOpacity(matches) !== null;
+
+    const cloudSites = new Map<string, string[]>();
+    locatedSites.forEach(site => site.connections.forEach(connection => {
+      const cloud = getTargetCloud(connection);
+      if (cloud && !cloudSites.get(cloud.id)?.includes(site.id)) {
+        cloudSites.set(cloud.id, [...(cloudSites.get(cloud.id) ?? []), site.id]);
+      }
+    }));
+    const mapClouds: (MapCloudMarker & { type: string })[] = getActiveClouds()
+      .filter(cloud => cloudVisibility[cloud.id] && cloudSites.has(cloud.id) && isShown(cloudMatchesFilters(cloud.id)))
+      .map(cloud => ({
+        id: cloud.id,
+        name: cloud.name,
+        color: cloud.color,
+        type: cloud.type,
+        location: geoCentroid(cloudSites.get(cloud.id)!.map(siteId => locations.get(siteId)!)),
+        dimmed: !cloudMatchesFilters(cloud.id),
+      }));
+
+    const links: MapLink[] = [];
+    if (connectionVisibility.siteToCloud) {
+      mapClouds.forEach(cloud => cloudSites.get(cloud.id)!.forEach(siteId => {
+        const matches = matchingSiteIds.has(siteId) && locatedSites.find(site => site.id === siteId)!.connections
+          .some(connection => connectionMatchesFilters(connection) && getTargetCloud(connection)?.id === cloud.id);
+        if (!isShown(matches)) return;
+        links.push({
+          id: `map-${siteId}-${cloud.id}`,
+          from: locations.get(siteId)!,
+          to: cloud.location,
+          color: cloud.color,
+          dashed: cloud.type === 'Internet',
+          highlighted: isHighlighted(siteId),
+          dimmed: !matches,
+        });
+      }));
+    }
+    if (connectionVisibility.pointToPoint) {
+      locatedSites.forEach(site => site.connections.forEach((connection, index) => {
+        const endpointId = connection.type === 'point-to-point' && connection.pointToPointEndpoint
+          ? siteIdsByName.get(connection.pointToPointEndpoint.toLowerCase())
+          : undefined;
+        if (!endpointId || endpointId === site.id) return;
+        const matches = matchingSiteIds.has(site.id) && matchingSiteIds.has(endpointId) && connectionMatchesFilters(connection);
+        if (!isShown(matches)) return;
+        links.push({
+          id: `map-p2p-${site.id}-${index}`,
+          from: locations.get(site.id)!,
+          to: locations.get(endpointId)!,
+          color: '#6b7280',
+          highlighted: isHighlighted(site.id, endpointId),
+          dimmed: !matches,
+        });
+      }));
+    }
+    if (connectionVisibility.mplsMesh) {
+      const mplsSites = locatedSites.filter(site => site.connections.some(conn => conn.type.toLowerCase().includes('mpls')));
+      mplsSites.forEach((siteA, indexA) => mplsSites.slice(indexA + 1).forEach(siteB => {
+        const matches = meshMatchesFilters(siteA, siteB);
+        if (!isShown(matches)) return;
+        links.push({
+          id: `map-mpls-${siteA.id}-${siteB.id}`,
+          from: locations.get(siteA.id)!,
+          to: locations.get(siteB.id)!,
+          color: '#8b5cf6',
+          dashed: true,
+          highlighted: isHighlighted(siteA.id, siteB.id),
+          dimmed: !matches,
+        });
+      }));
+    }
+
+    const frame = getMapFrame();
+
+    return (
+      <TopologyMapLayer
+        width={dimensions.width}
+        height={dimensions.height}
+        projection={frame.kind}
+        bounds={frame.bounds}
+        lineStyle={mapLineStyle}
+        sites={locatedSites.filter(site => isShown(matchingSiteIds.has(site.id))).map(site => ({
+          id: site.id,
+          name: site.name,
+          color: failureStatus.has(site.id) ? failureColors[failureStatus.get(site.id)!] : getSiteColor(site.category),
+          location: locations.get(site.id)!,
+          dimmed: !matchingSiteIds.has(site.id),
+        }))}
+        clouds={mapClouds}
+        pops={showMapPOPs
+          ? megaportPOPs
+              .filter(pop => megaportPopLocations[pop.id])
+              .map(pop => ({ id: pop.id, name: pop.name, location: megaportPopLocations[pop.id] }))
+          : []}
+        links={links}
+        selectedSiteId={selectedSite?.id}
+        onSelectSite={(siteId) => {
+          onSelectSite?.(sites.find(site => site.id === siteId) ?? null);
+          if (isTracingPath) pickPathEnd(pathNodeKey('site', siteId));
+        }}
+        onHoverSite={setHoveredSite}
+      />
+    );
+  };
+
   // Render connection lines
   const renderConnections = () => {
     const connections: React.ReactElement[] = [];
@@ -1712,6 +2270,8 @@ export default function TopologyViewer({
 
           const posB = sitePositions[siteB.id];
           if (!posB) return;
+          const opacity = filterOpacity(meshMatchesFilters(siteA, siteB));
+          if (opacity === null) return;
 
           const isHighlighted = hoveredSite === siteA.id || hoveredSite === siteB.id ||
                                selectedSite?.id === siteA.id || selectedSite?.id === siteB.id;
@@ -1727,6 +2287,7 @@ export default function TopologyViewer({
               strokeWidth={isHighlighted ? "2" : "1"}
               strokeOpacity={isHighlighted ? 0.8 : 0.4}
               strokeDasharray="3,3"
+              opacity={opacity}
             />
           );
         });
@@ -1745,6 +2306,8 @@ export default function TopologyViewer({
 
           // Check if this specific cloud is visible
           if (!cloudVisibility[targetCloud.id]) return;
+          const opacity = filterOpacity(matchingSiteIds.has(site.id) && connectionMatchesFilters(connection));
+          if (opacity === null) return;
 
           const cloudCenterX = targetCloud.x * dimensions.width;
           const cloudCenterY = targetCloud.y * dimensions.height;
@@ -1758,6 +2321,7 @@ export default function TopologyViewer({
           // Create unique key using site ID, cloud ID, connection type, and index to avoid duplicates
           const connectionId = `conn-${site.id}-${targetCloud.id}-${connection.type.replace(/[^a-zA-Z0-9]/g, '')}-${index}`;
           const isHighlighted = hoveredSite === site.id || selectedSite?.id === site.id;
+          const isFailed = isFailedConnection(site, connection, index);
 
           connections.push(
             <line
@@ -1766,10 +2330,11 @@ export default function TopologyViewer({
               y1={sitePos.y}
               x2={cloudEdgeX}
               y2={cloudEdgeY}
-              stroke={targetCloud.color}
-              strokeWidth={isHighlighted ? "3" : "2"}
-              strokeOpacity={isHighlighted ? 1 : 0.6}
-              strokeDasharray={targetCloud.type === 'Internet' ? '5,5' : '0'}
+              stroke={isFailed ? failureColors.isolated : targetCloud.color}
+              strokeWidth={isHighlighted || isFailed ? "3" : "2"}
+              strokeOpacity={isHighlighted || isFailed ? 1 : 0.6}
+              strokeDasharray={isFailed ? '2,6' : targetCloud.type === 'Internet' ? '5,5' : '0'}
+              opacity={opacity}
             />
           );
 
@@ -1779,7 +2344,7 @@ export default function TopologyViewer({
             const midY = (sitePos.y + cloudEdgeY) / 2;
 
             connections.push(
-              <g key={`label-${connectionId}-${connection.bandwidth}-${Date.now()}`}>
+              <g key={`label-${connectionId}-${connection.bandwidth}-${Date.now()}`} opacity={opacity}>
                 <rect
                   x={midX - 20}
                   y={midY - 8}
@@ -1810,10 +2375,63 @@ export default function TopologyViewer({
     return connections;
   };
 
+  // Nearest POP on the Megaport ring and its distance in miles
+  const findNearestPOP = (site: SiteWithConnections, pops: MegaportPOP[]) => {
+    let nearestPOP: MegaportPOP | null = null;
+    let minRealDistance = Infinity;
+
+    pops.forEach(pop => {
+      const realDistance = calculateRealDistance(site, pop);
+      if (realDistance < minRealDistance) {
+        minRealDistance = realDistance;
+        nearestPOP = pop;
+      }
+    });
+
+    return { nearestPOP: nearestPOP as MegaportPOP | null, minRealDistance };
+  };
+
+  // The chosen traced path over the connections, with its two ends ringed.
+  // POPs are not drawn outside the optimization view, so the line skips them.
+  const renderTracedPath = () => {
+    const nodePoint = (key: string | null) => {
+      const [kind, ...rest] = key?.split(':') ?? [];
+      const id = rest.join(':');
+      if (kind === 'site') return sitePositions[id];
+      const cloud = kind === 'cloud' ? getActiveClouds().find(c => c.id === id && cloudVisibility[c.id]) : undefined;
+      return cloud ? { x: cloud.x * dimensions.width, y: cloud.y * dimensions.height } : undefined;
+    };
+    const points = activePath
+      ? activePath.nodes.map(node => nodePoint(node.key)).filter((point): point is { x: number; y: number } => !!point)
+      : [];
+    const ends = [pathEnds.from, pathEnds.to].map(nodePoint);
+
+    return (
+      <g style={{ pointerEvents: 'none' }} data-testid="traced-path">
+        {points.length > 1 && (
+          <polyline
+            points={points.map(({ x, y }) => `${x},${y}`).join(' ')}
+            fill="none"
+            stroke="#0ea5e9"
+            strokeWidth="8"
+            strokeOpacity="0.4"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        )}
+        {ends.map((point, index) => point && (
+          <circle key={index} cx={point.x} cy={point.y} r="34" fill="none" stroke="#0ea5e9" strokeWidth="3" strokeDasharray="6,4" />
+        ))}
+      </g>
+    );
+  };
+
   // Render WAN clouds
   const renderClouds = () => {
     return getActiveClouds().map(cloud => {
       if (hiddenClouds.has(cloud.id) || !cloudVisibility[cloud.id]) return null;
+      const opacity = filterOpacity(cloudMatchesFilters(cloud.id));
+      if (opacity === null) return null;
       const x = cloud.x * dimensions.width;
       const y = cloud.y * dimensions.height;
 
@@ -1824,9 +2442,10 @@ export default function TopologyViewer({
       return (
         <g 
           key={cloud.id}
+          opacity={opacity}
           style={{ cursor: isDraggingCloud === cloud.id ? 'grabbing' : 'grab' }}
           onDoubleClick={() => handleWANCloudDoubleClick(cloud)}
-          onClick={() => handleWANCloudClick(cloud)}
+          onClick={() => isTracingPath ? pickPathEnd(pathNodeKey('cloud', cloud.id)) : handleWANCloudClick(cloud)}
           onMouseDown={handleCloudMouseDown(cloud.id)}
         >
           {/* Cloud shape with gradient */}
@@ -1928,8 +2547,9 @@ export default function TopologyViewer({
       "Northeast": { lonRange: [-80, -66], states: ["NY", "NJ", "PA", "CT", "RI", "MA", "VT", "NH", "ME", "MD", "DE", "DC"], priority: 8 }
     };
 
-    // Extract approximate longitude from site names using geographic mapping
+    // Longitude from the validated address, otherwise approximated from the site name
     const getApproxLongitude = (site: SiteWithConnections): number => {
+      if (site.longitude != null) return site.longitude;
       const name = site.name.toLowerCase();
       const cityLongitudes: Record<string, number> = {
         'seattle': -122.3, 'portland': -122.7, 'san francisco': -122.4, 'los angeles': -118.2,
@@ -1953,8 +2573,9 @@ export default function TopologyViewer({
       return -98; // Default central US
     };
 
-    // Extract state from site name
+    // State from the site's address, otherwise extracted from the site name
     const getStateFromName = (site: SiteWithConnections): string => {
+      if (site.state) return site.state.trim().toUpperCase();
       const name = site.name.toLowerCase();
       const stateMapping: Record<string, string> = {
         'seattle': 'WA', 'portland': 'OR', 'san francisco': 'CA', 'los angeles': 'CA',
@@ -1972,11 +2593,12 @@ export default function TopologyViewer({
 
     // Group sites by state first
     const sitesByState: Record<string, SiteWithConnections[]> = {};
+    const longitudes = new Map<string, number>();
+    const states = new Map<string, string>();
     sites.forEach(site => {
       const state = getStateFromName(site);
-      const lon = getApproxLongitude(site);
-      (site as any).longitude = lon;
-      (site as any).state = state;
+      longitudes.set(site.id, getApproxLongitude(site));
+      states.set(site.id, state);
 
       if (!sitesByState[state]) sitesByState[state] = [];
       sitesByState[state].push(site);
@@ -2007,19 +2629,19 @@ export default function TopologyViewer({
       if (regionSites.length === 0) return;
 
       // Calculate average longitude for west-to-east ordering
-      const avgLon = regionSites.reduce((sum, site) => sum + ((site as any).longitude || -98), 0) / regionSites.length;
+      const avgLon = regionSites.reduce((sum, site) => sum + longitudes.get(site.id)!, 0) / regionSites.length;
 
       // Apply intelligent naming based on site distribution
       let finalName = region;
 
       // Special case: If all sites are in one state, use state name
-      const uniqueStates = Array.from(new Set(regionSites.map(s => (s as any).state).filter(Boolean)));
+      const uniqueStates = Array.from(new Set(regionSites.map(s => states.get(s.id)).filter(Boolean)));
       if (uniqueStates.length === 1 && uniqueStates[0]) {
         const stateNames: Record<string, string> = {
           "CA": "California", "TX": "Texas", "NY": "New York", "FL": "Florida",
           "WA": "Washington", "OR": "Oregon", "IL": "Illinois", "OH": "Ohio"
         };
-        finalName = stateNames[uniqueStates[0]] || uniqueStates[0];
+        finalName = stateNames[uniqueStates[0]!] || uniqueStates[0]!;
       }
 
       // Special case: Multiple related regions
@@ -2029,7 +2651,7 @@ export default function TopologyViewer({
 
       clusters.push({
         regionName: finalName,
-        sites: regionSites.sort((a, b) => ((a as any).longitude || -98) - ((b as any).longitude || -98)), // Sort west to east within region
+        sites: regionSites.sort((a, b) => longitudes.get(a.id)! - longitudes.get(b.id)!), // Sort west to east within region
         avgLon
       });
     });
@@ -2038,6 +2660,149 @@ export default function TopologyViewer({
     return clusters.sort((a, b) => a.avgLon - b.avgLon);
   }, []);
 
+  // Region cluster each site falls in, for the region filter
+  const siteRegions = useMemo(() => {
+    const regions = new Map<string, string>();
+    getRegionalClusters(sites).forEach(cluster => cluster.sites.forEach(site => regions.set(site.id, cluster.regionName)));
+    return regions;
+  }, [sites, getRegionalClusters]);
+
+  const connectionCarrier = (connection: Connection) => connection.customProvider || connection.provider || '';
+  const siteState = (site: SiteWithConnections) => site.state?.trim().toUpperCase() ?? '';
+
+  // Values each filter offers, taken from the topology itself
+  const filterOptions = useMemo(() => {
+    const unique = (values: string[]) => Array.from(new Set(values.filter(Boolean))).sort();
+    const connections = sites.flatMap(site => site.connections);
+    return {
+      category: unique(sites.map(site => site.category)),
+      carrier: unique(connections.map(connectionCarrier)),
+      state: unique(sites.map(siteState)),
+      region: unique(Array.from(siteRegions.values())),
+      connectionType: unique(connections.map(connection => connection.type)),
+    };
+  }, [sites, siteRegions]);
+
+  const hasActiveFilters = Object.values(filters).some(Boolean);
+  const connectionMatchesFilters = (connection: Connection) =>
+    (!filters.carrier || connectionCarrier(connection) === filters.carrier) &&
+    (!filters.connectionType || connection.type === filters.connectionType);
+  const matchingSiteIds = new Set(sites
+    .filter(site =>
+      (!filters.category || site.category === filters.category) &&
+      (!filters.state || siteState(site) === filters.state) &&
+      (!filters.region || siteRegions.get(site.id) === filters.region) &&
+      (!(filters.carrier || filters.connectionType) || site.connections.some(connectionMatchesFilters)))
+    .map(site => site.id));
+  // A cloud matches when a matching site reaches it over a matching connection
+  const cloudMatchesFilters = (cloudId: string) => !hasActiveFilters || sites.some(site =>
+    matchingSiteIds.has(site.id) &&
+    site.connections.some(connection => connectionMatchesFilters(connection) && getTargetCloud(connection)?.id === cloudId)
+  );
+  // MPLS mesh lines match when both sites have a matching MPLS circuit
+  const meshMatchesFilters = (...meshSites: SiteWithConnections[]) => meshSites.every(site =>
+    matchingSiteIds.has(site.id) &&
+    site.connections.some(connection => connection.type.toLowerCase().includes('mpls') && connectionMatchesFilters(connection))
+  );
+  // Opacity of an element given whether it matches the filters; null when it is hidden
+  const filterOpacity = (matches: boolean) => matches ? 1 : filterMode === 'dim' ? 0.15 : null;
+
+  // Sites, clouds and POPs whose name matches the search
+  const searchResults = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return [];
+    return [
+      ...sites.map(site => ({ key: pathNodeKey('site', site.id), name: site.name, detail: site.category })),
+      ...getActiveClouds().map(cloud => ({ key: pathNodeKey('cloud', cloud.id), name: cloud.name, detail: `${cloud.type} cloud` })),
+      ...megaportPOPs.map(pop => ({ key: pathNodeKey('pop', pop.id), name: `Megaport ${pop.name}`, detail: 'Megaport POP' })),
+    ]
+      .filter(result => result.name.toLowerCase().includes(query))
+      .slice(0, 8);
+  }, [searchQuery, sites, clouds, hiddenClouds, megaportPOPs]);
+
+  // Where a site, cloud or POP is drawn in the current view, in canvas pixels
+  const nodePoint = (key: string): { x: number; y: number } | undefined => {
+    const [kind, ...rest] = key.split(':');
+    const id = rest.join(':');
+    const location = (site: SiteWithConnections): LngLat | undefined =>
+      site.latitude != null && site.longitude != null ? [site.longitude, site.latitude] : undefined;
+
+    if (isMapView) {
+      const frame = getMapFrame();
+      const projection = fitProjection(frame.kind, frame.bounds, dimensions.width, dimensions.height);
+      if (kind === 'pop') return megaportPopLocations[id] && projection.project(megaportPopLocations[id]);
+      const located = sites
+        .filter(site => kind === 'site'
+          ? site.id === id
+          : site.connections.some(connection => getTargetCloud(connection)?.id === id))
+        .map(location)
+        .filter((point): point is LngLat => !!point);
+      return located.length ? projection.project(geoCentroid(located)) : undefined;
+    }
+
+    if (kind === 'site') return sitePositions[id];
+    if (isOptimizationView) {
+      const pop = kind === 'pop' ? getMegaportRingPositions().find(pop => pop.id === id) : undefined;
+      return pop && { x: pop.x * dimensions.width, y: pop.y * dimensions.height };
+    }
+    if (kind === 'cloud') {
+      const cloud = getActiveClouds().find(cloud => cloud.id === id && cloudVisibility[cloud.id]);
+      return cloud && { x: cloud.x * dimensions.width, y: cloud.y * dimensions.height };
+    }
+    // POPs aren't drawn in the normal view, so centre on the sites homed on them
+    const popName = megaportPOPs.find(pop => pop.id === id)?.name.toLowerCase();
+    const homed = sites
+      .filter(site => popName && site.nearestMegaportPop?.toLowerCase().includes(popName))
+      .map(site => sitePositions[site.id])
+      .filter(Boolean);
+    if (!homed.length) return undefined;
+    return {
+      x: homed.reduce((sum, point) => sum + point.x, 0) / homed.length,
+      y: homed.reduce((sum, point) => sum + point.y, 0) / homed.length,
+    };
+  };
+
+  // Pans so a canvas point sits in the middle of the view
+  const centreOn = useCallback((point: { x: number; y: number }, newZoom: number) => {
+    setZoom(newZoom);
+    setPanOffset({
+      x: dimensions.width / 2 - point.x * newZoom,
+      y: dimensions.height / 2 - point.y * newZoom,
+    });
+  }, [dimensions]);
+
+  const focusOn = (result: { key: string; name: string }) => {
+    const point = nodePoint(result.key);
+    if (!point) {
+      toast({ title: 'Not shown in this view', description: `${result.name} has no position in the current view.` });
+      return;
+    }
+    centreOn(point, Math.max(zoom, 1.8));
+    setFocusedNodeKey(result.key);
+    setSearchQuery('');
+    const [kind, ...rest] = result.key.split(':');
+    if (kind === 'site') onSelectSite?.(sites.find(site => site.id === rest.join(':')) ?? null);
+  };
+
+  // Pulsing ring around the last search match
+  const renderFocus = () => {
+    const point = focusedNodeKey ? nodePoint(focusedNodeKey) : undefined;
+    if (!point) return null;
+    return (
+      <circle
+        cx={point.x}
+        cy={point.y}
+        r="40"
+        fill="none"
+        stroke="#2563eb"
+        strokeWidth="3"
+        className="animate-pulse"
+        style={{ pointerEvents: 'none' }}
+        data-testid="search-focus"
+      />
+    );
+  };
+
   // Initialize optimization layout positions with proper geographic spread like US map
   useEffect(() => {
     if (!isOptimizationView || !sites.length || dimensions.width === 0) return;
@@ -2765,16 +3530,7 @@ export default function TopologyViewer({
           if (!sitePos) return null;
 
           // Find nearest POP for connection rendering
-          let nearestPOP: MegaportPOP | null = null;
-          let minRealDistance = Infinity;
-
-          ringPOPs.forEach(pop => {
-            const realDistance = calculateRealDistance(site, pop);
-            if (realDistance < minRealDistance) {
-              minRealDistance = realDistance;
-              nearestPOP = pop;
-            }
-          });
+          const { nearestPOP, minRealDistance } = findNearestPOP(site, ringPOPs);
 
           const IconComponent = getSiteIcon(site.category);
           const siteColor = getSiteColor(site.category);
@@ -2911,17 +3667,39 @@ export default function TopologyViewer({
       const siteColor = getSiteColor(site.category);
       const isSelected = selectedSite?.id === site.id;
       const isHovered = hoveredSite === site.id;
+      const failure = failureStatus.get(site.id);
+      const opacity = filterOpacity(matchingSiteIds.has(site.id));
+      if (opacity === null) return null;
 
       return (
         <g
           key={site.id}
+          opacity={opacity}
           style={{ cursor: isOptimizationView ? 'default' : (isDragging === site.id ? 'grabbing' : 'grab') }}
           onMouseDown={isOptimizationView ? undefined : handleMouseDown(site.id)}
           onMouseEnter={() => setHoveredSite(site.id)}
           onMouseLeave={() => setHoveredSite(null)}
-          onClick={() => onSelectSite?.(site)}
+          onClick={() => {
+            onSelectSite?.(site);
+            if (isTracingPath) pickPathEnd(pathNodeKey('site', site.id));
+          }}
           onDoubleClick={() => handleSiteDoubleClick(site)}
         >
+          {/* Ring around sites the simulated failure isolates or degrades */}
+          {failure && (
+            <circle
+              cx={position.x}
+              cy={position.y}
+              r={isSelected ? 35 : 29}
+              fill={failureColors[failure]}
+              fillOpacity="0.15"
+              stroke={failureColors[failure]}
+              strokeWidth="3"
+              strokeDasharray={failure === 'degraded' ? '6,3' : undefined}
+              data-testid={`failure-ring-${site.id}`}
+            />
+          )}
+
           {/* Site background - prettier with gradient */}
           <circle
             cx={position.x}
@@ -3046,14 +3824,98 @@ export default function TopologyViewer({
           />
 
           {/* Render in layers: connections first, then clouds, then optimization, then sites, then heat map */}
-          {!isOptimizationView && renderConnections()}
-          {!isOptimizationView && renderClouds()}
+          {isMapView && renderMap()}
+          {!isOptimizationView && !isMapView && renderConnections()}
+          {!isOptimizationView && !isMapView && renderTracedPath()}
+          {!isOptimizationView && !isMapView && renderClouds()}
           {isOptimizationView && renderFlattenedOptimization()}
-          {!isOptimizationView && renderSites()}
-          {renderHeatMapOverlay()}
+          {!isOptimizationView && !isMapView && renderSites()}
+          {renderFocus()}
+          {!isMapView && renderHeatMapOverlay()}
         </svg>
       </div>
 
+      {/* Search */}
+      <div className="absolute top-4 left-4 w-72">
+        <div className="relative bg-white/90 backdrop-blur-sm rounded-lg shadow-lg border border-gray-200">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && searchResults[0]) focusOn(searchResults[0]);
+              if (e.key === 'Escape') setSearchQuery('');
+            }}
+            placeholder="Search sites, clouds and POPs"
+            className="pl-9 pr-8 h-9 text-sm border-0 bg-transparent"
+            data-testid="input-topology-search"
+          />
+          {(searchQuery || focusedNodeKey) && (
+            <button
+              onClick={() => {
+                setSearchQuery('');
+                setFocusedNodeKey(null);
+              }}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-1 hover:bg-gray-100 rounded"
+              data-testid="button-clear-search"
+            >
+              <X className="h-3 w-3 text-gray-500" />
+            </button>
+          )}
+        </div>
+        {searchQuery.trim() && (
+          <div className="mt-1 bg-white rounded-lg shadow-lg border border-gray-200 py-1" data-testid="list-search-results">
+            {searchResults.length === 0 ? (
+              <p className="px-3 py-2 text-xs text-gray-500">No sites, clouds or POPs match</p>
+            ) : searchResults.map(result => (
+              <button
+                key={result.key}
+                onClick={() => focusOn(result)}
+                className="w-full px-3 py-1.5 text-left hover:bg-gray-50"
+                data-testid={`button-search-result-${result.key}`}
+              >
+                <div className="text-sm text-gray-800">{result.name}</div>
+                <div className="text-xs text-gray-500">{result.detail}</div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Minimap */}
+      {showMinimap && !isMapView && dimensions.width > 0 && (
+        <div className="absolute bottom-4 left-4">
+          <TopologyMinimap
+            width={dimensions.width}
+            height={dimensions.height}
+            sites={sites
+              .filter(site => sitePositions[site.id] && filterOpacity(matchingSiteIds.has(site.id)) !== null)
+              .map(site => ({
+                id: site.id,
+                ...sitePositions[site.id],
+                color: getSiteColor(site.category),
+                dimmed: !matchingSiteIds.has(site.id),
+              }))}
+            clouds={isOptimizationView ? [] : getActiveClouds()
+              .filter(cloud => cloudVisibility[cloud.id] && filterOpacity(cloudMatchesFilters(cloud.id)) !== null)
+              .map(cloud => ({
+                id: cloud.id,
+                x: cloud.x * dimensions.width,
+                y: cloud.y * dimensions.height,
+                color: cloud.color,
+                dimmed: !cloudMatchesFilters(cloud.id),
+              }))}
+            viewport={{
+              x: -panOffset.x / zoom,
+              y: -panOffset.y / zoom,
+              width: dimensions.width / zoom,
+              height: dimensions.height / zoom,
+            }}
+            onNavigate={(point) => centreOn(point, zoom)}
+          />
+        </div>
+      )}
+
       {/* Controls Panel */}
       <div className="absolute top-4 right-4 space-y-3">
         {/* Save Design Button */}
@@ -3069,6 +3931,30 @@ export default function TopologyViewer({
                 <Save className="h-4 w-4 mr-1" />
                 {hasUnsavedChanges ? 'Save Changes' : 'Save Design'}
               </Button>
+              {history && (
+                <>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => history.undo()}
+                    disabled={!history.canUndo}
+                    title={history.undoLabel ? `Undo: ${history.undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}
+                    data-testid="button-undo"
+                  >
+                    <Undo2 className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => history.redo()}
+                    disabled={!history.canRedo}
+                    title={history.redoLabel ? `Redo: ${history.redoLabel} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'}
+                    data-testid="button-redo"
+                  >
+                    <Redo2 className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
               {showSaveIndicator && (
                 <span className="text-green-600 text-xs font-medium">Saved!</span>
               )}
@@ -3143,6 +4029,118 @@ export default function TopologyViewer({
             >
               Reset View
             </Button>
+            {!isMapView && (
+              <label className="flex items-center space-x-2 text-xs">
+                <input
+                  type="checkbox"
+                  checked={showMinimap}
+                  onChange={(e) => setShowMinimap(e.target.checked)}
+                  className="rounded text-blue-600 focus:ring-blue-500"
+                  data-testid="checkbox-minimap"
+                />
+                <span>Minimap</span>
+              </label>
+            )}
+            </div>
+          )}
+        </div>
+
+        {/* Auto Layout Controls */}
+        {!readOnly && (
+          <div className="bg-white/90 backdrop-blur-sm rounded-lg shadow-lg border border-gray-200">
+            <div className="p-3">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-gray-700">Auto Layout</span>
+                <button
+                  onClick={() => togglePanel('layout')}
+                  className="p-1 hover:bg-gray-100 rounded"
+                  data-testid="button-toggle-layout"
+                >
+                  {collapsedPanels.layout ? 
+                    <ChevronDown className="h-3 w-3 text-gray-500" /> : 
+                    <ChevronUp className="h-3 w-3 text-gray-500" />
+                  }
+                </button>
+              </div>
+            </div>
+            {!collapsedPanels.layout && (
+              <div className="px-3 pb-3 space-y-2">
+                <div className="grid grid-cols-2 gap-1">
+                  {topologyLayouts.map(({ kind, label }) => (
+                    <Button
+                      key={kind}
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleApplyLayout(kind)}
+                      disabled={isOptimizationView || isMapView || sites.length === 0}
+                      className="px-2 py-1 text-xs"
+                      data-testid={`button-layout-${kind}`}
+                    >
+                      <LayoutGrid className="h-3 w-3 mr-1" />
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {selectedSite ? `Radial centres on ${selectedSite.name}` : 'Radial centres on the selected site, or the main hub'}
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Export Controls */}
+        <div className="bg-white/90 backdrop-blur-sm rounded-lg shadow-lg border border-gray-200">
+          <div className="p-3">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-gray-700">Export</span>
+              <button
+                onClick={() => togglePanel('export')}
+                className="p-1 hover:bg-gray-100 rounded"
+                data-testid="button-toggle-export"
+              >
+                {collapsedPanels.export ? 
+                  <ChevronDown className="h-3 w-3 text-gray-500" /> : 
+                  <ChevronUp className="h-3 w-3 text-gray-500" />
+                }
+              </button>
+            </div>
+          </div>
+          {!collapsedPanels.export && (
+            <div className="px-3 pb-3 space-y-2">
+              <div className="flex items-center space-x-1">
+                {(['svg', 'png', 'pdf'] as const).map(format => (
+                  <Button
+                    key={format}
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleExport(format)}
+                    disabled={exportingFormat !== null}
+                    className="px-2 py-1 text-xs"
+                    data-testid={`button-export-${format}`}
+                  >
+                    <Download className="h-3 w-3 mr-1" />
+                    {exportingFormat === format ? '...' : format.toUpperCase()}
+                  </Button>
+                ))}
+              </div>
+              <div className="flex items-center space-x-1">
+                {([['drawio', 'draw.io'], ['vsdx', 'Visio']] as const).map(([format, label]) => (
+                  <Button
+                    key={format}
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleExport(format)}
+                    disabled={exportingFormat !== null}
+                    className="px-2 py-1 text-xs"
+                    data-testid={`button-export-${format}`}
+                  >
+                    <Download className="h-3 w-3 mr-1" />
+                    {exportingFormat === format ? '...' : label}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">Images export the current view; draw.io and Visio export editable shapes</p>
             </div>
           )}
         </div>
@@ -3236,6 +4234,295 @@ export default function TopologyViewer({
           )}
         </div>
 
+        {/* Map View Toggle */}
+        <div className="bg-white/90 backdrop-blur-sm rounded-lg p-3 shadow-lg border border-gray-200">
+          <Button
+            size="sm"
+            onClick={() => {
+              if (!isMapView) {
+                setIsOptimizationView(false);
+                setOptimizationAnswers(null);
+              }
+              setIsMapView(!isMapView);
+            }}
+            className={`w-full ${isMapView
+              ? 'bg-blue-500 hover:bg-blue-600 text-white'
+              : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+            }`}
+            data-testid="button-map-view"
+          >
+            <MapIcon className="h-4 w-4 mr-2" />
+            {isMapView ? 'Exit Map View' : 'Map View'}
+          </Button>
+          {isMapView && (
+            <div className="mt-3 space-y-2">
+              <select
+                value={mapRegionId}
+                onChange={(e) => setMapRegionId(e.target.value)}
+                className="w-full rounded border border-gray-300 bg-white px-2 py-1 text-xs"
+                data-testid="select-map-region"
+              >
+                {mapRegions.map(region => (
+                  <option key={region.id} value={region.id}>{region.label}</option>
+                ))}
+                <option value="sites">Fit to sites</option>
+              </select>
+              <div className="flex items-center space-x-1">
+                {([['straight', 'Straight'], ['great-circle', 'Great circle']] as const).map(([style, label]) => (
+                  <Button
+                    key={style}
+                    size="sm"
+                    variant={mapLineStyle === style ? 'secondary' : 'outline'}
+                    onClick={() => setMapLineStyle(style)}
+                    className="flex-1 px-2 py-1 text-xs"
+                    data-testid={`button-map-lines-${style}`}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              <label className="flex items-center space-x-2 text-xs">
+                <input
+                  type="checkbox"
+                  checked={showMapPOPs}
+                  onChange={(e) => setShowMapPOPs(e.target.checked)}
+                  className="rounded text-orange-600 focus:ring-orange-500"
+                  data-testid="checkbox-map-pops"
+                />
+                <span>Megaport POPs</span>
+              </label>
+              {sites.some(site => site.latitude == null || site.longitude == null) && (
+                <p className="text-xs text-gray-500">
+                  {sites.filter(site => site.latitude == null || site.longitude == null).length} site(s) without a validated address are not shown
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Failure Simulation */}
+        <div className="bg-white/90 backdrop-blur-sm rounded-lg shadow-lg border border-gray-200">
+          <div className="p-3">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-gray-700">Failure Simulation</span>
+              <button
+                onClick={() => togglePanel('failures')}
+                className="p-1 hover:bg-gray-100 rounded"
+                data-testid="button-toggle-failures"
+              >
+                {collapsedPanels.failures ?
+                  <ChevronDown className="h-3 w-3 text-gray-500" /> :
+                  <ChevronUp className="h-3 w-3 text-gray-500" />
+                }
+              </button>
+            </div>
+          </div>
+          {!collapsedPanels.failures && (
+            <div className="px-3 pb-3 space-y-2">
+              <select
+                value={failureKind}
+                onChange={(e) => {
+                  setFailureKind(e.target.value as FailureKind);
+                  setFailureScenario(null);
+                }}
+                className="w-full rounded border border-gray-300 bg-white px-2 py-1 text-xs"
+                data-testid="select-failure-kind"
+              >
+                {(Object.keys(failureKindLabels) as FailureKind[]).map(kind => (
+                  <option key={kind} value={kind}>{failureKindLabels[kind]}</option>
+                ))}
+              </select>
+              <select
+                value={failureScenario?.id ?? ''}
+                onChange={(e) => setFailureScenario(failureOptions.find(scenario => scenario.id === e.target.value) ?? null)}
+                className="w-full rounded border border-gray-300 bg-white px-2 py-1 text-xs"
+                data-testid="select-failure-element"
+              >
+                <option value="">Nothing fails</option>
+                {failureOptions.map(scenario => (
+                  <option key={scenario.id} value={scenario.id}>{scenario.label}</option>
+                ))}
+              </select>
+              {failureImpact && (
+                <div className="space-y-1 text-xs" data-testid="text-failure-impact">
+                  {failureImpact.sites.length === 0 ? (
+                    <p className="text-green-700">Every site keeps its data centers and clouds</p>
+                  ) : (
+                    (['isolated', 'degraded'] as const).map(status => {
+                      const affected = failureImpact.sites.filter(site => site.status === status);
+                      if (affected.length === 0) return null;
+                      return (
+                        <div key={status}>
+                          <span className="font-medium" style={{ color: failureColors[status] }}>
+                            {affected.length} {status}:
+                          </span>{' '}
+                          <span className="text-gray-600">
+                            {affected.map(impact => sites.find(site => site.id === impact.siteId)?.name ?? impact.siteId).join(', ')}
+                          </span>
+                        </div>
+                      );
+                    })
+                  )}
+                </div>
+              )}
+              {onOpenResiliencyReport && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={onOpenResiliencyReport}
+                  className="w-full text-xs"
+                  data-testid="button-resiliency-report"
+                >
+                  <ShieldAlert className="h-3 w-3 mr-1" />
+                  Single Point of Failure Report
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Path Tracing */}
+        <div className="bg-white/90 backdrop-blur-sm rounded-lg shadow-lg border border-gray-200 w-64">
+          <div className="p-3">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-gray-700">Path Tracing</span>
+              <button
+                onClick={() => togglePanel('paths')}
+                className="p-1 hover:bg-gray-100 rounded"
+                data-testid="button-toggle-paths"
+              >
+                {collapsedPanels.paths ?
+                  <ChevronDown className="h-3 w-3 text-gray-500" /> :
+                  <ChevronUp className="h-3 w-3 text-gray-500" />
+                }
+              </button>
+            </div>
+          </div>
+          {isTracingPath && (
+            <div className="px-3 pb-3 space-y-2">
+              {(['from', 'to'] as const).map(end => (
+                <select
+                  key={end}
+                  value={pathEnds[end] ?? ''}
+                  onChange={(e) => {
+                    setActivePathIndex(0);
+                    setPathEnds(ends => ({ ...ends, [end]: e.target.value || null }));
+                  }}
+                  className="w-full rounded border border-gray-300 bg-white px-2 py-1 text-xs"
+                  data-testid={`select-path-${end}`}
+                >
+                  <option value="">{end === 'from' ? 'From...' : 'To...'}</option>
+                  <optgroup label="Sites">
+                    {sites.map(site => (
+                      <option key={site.id} value={pathNodeKey('site', site.id)}>{site.name}</option>
+                    ))}
+                  </optgroup>
+                  <optgroup label="WAN clouds">
+                    {getActiveClouds().map(cloud => (
+                      <option key={cloud.id} value={pathNodeKey('cloud', cloud.id)}>{cloud.name}</option>
+                    ))}
+                  </optgroup>
+                </select>
+              ))}
+              {!pathEnds.from || !pathEnds.to ? (
+                <p className="text-xs text-gray-500">Pick two sites or clouds here, or click them on the canvas</p>
+              ) : tracedPaths.length === 0 ? (
+                <p className="text-xs text-gray-500">No path connects these two</p>
+              ) : (
+                <div className="space-y-1 max-h-64 overflow-y-auto">
+                  {tracedPaths.map((path, index) => (
+                    <button
+                      key={index}
+                      onClick={() => setActivePathIndex(index)}
+                      className={`w-full rounded border p-2 text-left text-xs ${index === activePathIndex
+                        ? 'border-sky-400 bg-sky-50'
+                        : 'border-gray-200 hover:bg-gray-50'
+                      }`}
+                      data-testid={`button-path-${index}`}
+                    >
+                      <div className="font-medium text-gray-800">{path.nodes.map(node => node.name).join(' → ')}</div>
+                      <div className="text-gray-500">
+                        {path.carriers.join(', ') || 'Carrier unknown'} • {path.narrowestBandwidth ?? 'bandwidth unknown'} narrowest • ~{path.latencyMs} ms RTT
+                      </div>
+                    </button>
+                  ))}
+                  <p className="text-xs text-gray-400">Latency is estimated from distance and the networks crossed</p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white/90 backdrop-blur-sm rounded-lg shadow-lg border border-gray-200 w-64">
+          <div className="p-3">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-gray-700 flex items-center">
+                <Filter className="h-3 w-3 mr-1" />
+                Filters{hasActiveFilters && ` (${matchingSiteIds.size} of ${sites.length} sites)`}
+              </span>
+              <button
+                onClick={() => togglePanel('filters')}
+                className="p-1 hover:bg-gray-100 rounded"
+                data-testid="button-toggle-filters"
+              >
+                {collapsedPanels.filters ?
+                  <ChevronDown className="h-3 w-3 text-gray-500" /> :
+                  <ChevronUp className="h-3 w-3 text-gray-500" />
+                }
+              </button>
+            </div>
+          </div>
+          {!collapsedPanels.filters && (
+            <div className="px-3 pb-3 space-y-2">
+              {([
+                ['category', 'All categories'],
+                ['carrier', 'All carriers'],
+                ['state', 'All states'],
+                ['region', 'All regions'],
+                ['connectionType', 'All connection types'],
+              ] as const).map(([filter, allLabel]) => (
+                <select
+                  key={filter}
+                  value={filters[filter]}
+                  onChange={(e) => setFilters(current => ({ ...current, [filter]: e.target.value }))}
+                  className="w-full rounded border border-gray-300 bg-white px-2 py-1 text-xs"
+                  data-testid={`select-filter-${filter}`}
+                >
+                  <option value="">{allLabel}</option>
+                  {filterOptions[filter].map(value => (
+                    <option key={value} value={value}>{value}</option>
+                  ))}
+                </select>
+              ))}
+              <div className="flex items-center space-x-1">
+                {([['dim', 'Dim others'], ['hide', 'Hide others']] as const).map(([mode, label]) => (
+                  <Button
+                    key={mode}
+                    size="sm"
+                    variant={filterMode === mode ? 'secondary' : 'outline'}
+                    onClick={() => setFilterMode(mode)}
+                    className="flex-1 px-2 py-1 text-xs"
+                    data-testid={`button-filter-mode-${mode}`}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setFilters({ category: '', carrier: '', state: '', region: '', connectionType: '' })}
+                disabled={!hasActiveFilters}
+                className="w-full text-xs"
+                data-testid="button-clear-filters"
+              >
+                Clear Filters
+              </Button>
+            </div>
+          )}
+        </div>
+
         {/* Network Optimization Toggle */}
         <div className="bg-white/90 backdrop-blur-sm rounded-lg p-3 shadow-lg border border-gray-200">
           <Button
@@ -3256,6 +4543,7 @@ export default function TopologyViewer({
                 };
                 setOptimizationAnswers(defaultAnswers);
                 setIsOptimizationView(true);
+                setIsMapView(false);
               }
             }}
             className={`w-full ${isOptimizationView 
@@ -3495,17 +4783,19 @@ export default function TopologyViewer({
         )}
 
         {/* Add Megaport Onramp Button */}
-        <div className="bg-white/90 backdrop-blur-sm rounded-lg p-3 shadow-lg border border-gray-200">
-          <Button
-            size="sm"
-            onClick={() => setShowAddOnrampDialog(true)}
-            className="bg-orange-500 hover:bg-orange-600 text-white"
-            data-testid="button-add-megaport-onramp"
-          >
-            <MapPin className="h-4 w-4 mr-1" />
-            Add Megaport Onramp
-          </Button>
-        </div>
+        {!readOnly && (
+          <div className="bg-white/90 backdrop-blur-sm rounded-lg p-3 shadow-lg border border-gray-200">
+            <Button
+              size="sm"
+              onClick={() => setShowAddOnrampDialog(true)}
+              className="bg-orange-500 hover:bg-orange-600 text-white"
+              data-testid="button-add-megaport-onramp"
+            >
+              <MapPin className="h-4 w-4 mr-1" />
+              Add Megaport Onramp
+            </Button>
+          </div>
+        )}
 
         {/* Legend */}
         <div className="bg-white/90 backdrop-blur-sm rounded-lg p-4 shadow-lg border border-gray-200">
@@ -3636,10 +4926,7 @@ export default function TopologyViewer({
       <AddWANCloudDialog
         open={showAddCloudDialog}
         onClose={() => setShowAddCloudDialog(false)}
-        onAdd={(cloud) => {
-          onAddWANCloud?.(cloud);
-          setHasUnsavedChanges(true);
-        }}
+        onAdd={handleAddWANCloud}
       />
 
       {/* Add Megaport Onramp Dialog */}
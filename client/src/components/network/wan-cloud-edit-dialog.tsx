@@ -85,7 +85,7 @@ export default function WANCloudEditDialog({
   const handleDelete = () => {
     if (!cloud || !onDelete) return;
     
-    if (confirm(`Are you sure you want to remove the "${cloud.name}" WAN cloud? This will hide it from the topology view.`)) {
+    if (confirm(`Are you sure you want to remove the "${cloud.name}" WAN cloud? Circuits connected to it will fall back to the cloud matching their service type.`)) {
       onDelete(cloud.id);
       onClose();
     }
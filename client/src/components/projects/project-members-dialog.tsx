@@ -0,0 +1,280 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Trash2, UserPlus, Link2, Copy } from "lucide-react";
+import { projectMemberRoles, type ProjectMember, type ProjectMemberRole, type ProjectShareLink } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { AuthUser } from "@/hooks/use-auth";
+
+type MemberWithUser = ProjectMember & { name: string; username: string };
+type ShareLinkWithUrl = ProjectShareLink & { token: string; url: string };
+
+const shareLinkExpiryOptions = [7, 30, 90];
+
+interface ProjectMembersDialogProps {
+  projectId: string;
+  projectName: string;
+  assignedTo?: string | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+export default function ProjectMembersDialog({ projectId, projectName, assignedTo, open, onClose }: ProjectMembersDialogProps) {
+  const [inviteUserId, setInviteUserId] = useState("");
+  const [inviteRole, setInviteRole] = useState<ProjectMemberRole>("viewer");
+  const [linkLabel, setLinkLabel] = useState("");
+  const [linkExpiryDays, setLinkExpiryDays] = useState("30");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const membersKey = ['/api/projects', projectId, 'members'];
+  const shareLinksKey = ['/api/projects', projectId, 'share-links'];
+
+  const { data: members = [], isLoading } = useQuery<MemberWithUser[]>({
+    queryKey: membersKey,
+    enabled: open,
+  });
+
+  const { data: users = [] } = useQuery<AuthUser[]>({
+    queryKey: ['/api/users'],
+    enabled: open,
+  });
+
+  const { data: shareLinks = [] } = useQuery<ShareLinkWithUrl[]>({
+    queryKey: shareLinksKey,
+    enabled: open,
+  });
+
+  const invitableUsers = users.filter(user => !members.some(member => member.userId === user.id));
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', `/api/projects/${projectId}/members`, { userId: inviteUserId, role: inviteRole });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+      setInviteUserId("");
+      setInviteRole("viewer");
+      toast({ title: "Member Added", description: "The project has been shared." });
+    },
+    onError,
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: ProjectMemberRole }) => {
+      await apiRequest('PATCH', `/api/projects/${projectId}/members/${userId}`, { role });
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: membersKey }),
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest('DELETE', `/api/projects/${projectId}/members/${userId}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: membersKey }),
+    onError,
+  });
+
+  const createLinkMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/projects/${projectId}/share-links`, {
+        label: linkLabel.trim() || undefined,
+        expiresInDays: parseInt(linkExpiryDays),
+      });
+      return (await res.json()) as ShareLinkWithUrl;
+    },
+    onSuccess: (link) => {
+      queryClient.invalidateQueries({ queryKey: shareLinksKey });
+      setLinkLabel("");
+      copyLink(link);
+    },
+    onError,
+  });
+
+  const revokeLinkMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      await apiRequest('DELETE', `/api/projects/${projectId}/share-links/${linkId}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: shareLinksKey }),
+    onError,
+  });
+
+  const copyLink = (link: ShareLinkWithUrl) => {
+    navigator.clipboard.writeText(`${window.location.origin}${link.url}`)
+      .then(() => toast({ title: "Link Copied", description: "Share it with your client for read-only access." }))
+      .catch(() => toast({ title: "Copy Failed", description: `${window.location.origin}${link.url}`, variant: "destructive" }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share "{projectName}"</DialogTitle>
+          <DialogDescription>
+            Owners can share the project, editors can change its data and viewers can only read it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading members...</p>
+            ) : (
+              members.map(member => {
+                const isAssignee = member.userId === assignedTo;
+                return (
+                  <div key={member.userId} className="flex items-center justify-between py-1">
+                    <div>
+                      <p className="text-sm font-medium text-foreground">{member.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {member.username}{isAssignee && ' • Assigned consultant'}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {isAssignee ? (
+                        <Badge variant="secondary" className="capitalize">{member.role}</Badge>
+                      ) : (
+                        <>
+                          <Select
+                            value={member.role}
+                            onValueChange={(role) => updateRoleMutation.mutate({ userId: member.userId, role: role as ProjectMemberRole })}
+                          >
+                            <SelectTrigger className="w-28 h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {projectMemberRoles.map(role => (
+                                <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                            onClick={() => removeMutation.mutate(member.userId)}
+                            data-testid={`button-remove-member-${member.userId}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+
+          {invitableUsers.length > 0 && (
+            <div className="pt-4 border-t border-neutral-200 space-y-2">
+              <Label>Add a team member</Label>
+              <div className="flex items-center gap-2">
+                <Select value={inviteUserId} onValueChange={setInviteUserId}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Select user" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {invitableUsers.map(user => (
+                      <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as ProjectMemberRole)}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {projectMemberRoles.map(role => (
+                      <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={() => inviteMutation.mutate()}
+                  disabled={!inviteUserId || inviteMutation.isPending}
+                  data-testid="button-invite-member"
+                >
+                  <UserPlus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="pt-4 border-t border-neutral-200 space-y-2">
+            <Label>Client links</Label>
+            <p className="text-xs text-muted-foreground">
+              Anyone with a link can view the dashboard, network topology and reports until it expires. Internal notes and flags stay hidden.
+            </p>
+            {shareLinks.map(link => {
+              const isExpired = new Date(link.expiresAt).getTime() <= Date.now();
+              return (
+                <div key={link.id} className="flex items-center justify-between py-1">
+                  <div>
+                    <p className="text-sm font-medium text-foreground">{link.label || 'Client link'}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {isExpired ? 'Expired' : 'Expires'} {new Date(link.expiresAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {!isExpired && (
+                      <Button variant="ghost" size="sm" onClick={() => copyLink(link)} title="Copy link">
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      onClick={() => revokeLinkMutation.mutate(link.id)}
+                      title="Revoke link"
+                      data-testid={`button-revoke-share-link-${link.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+            <div className="flex items-center gap-2">
+              <Input
+                value={linkLabel}
+                onChange={(e) => setLinkLabel(e.target.value)}
+                placeholder="Label (e.g. Acme IT team)"
+                className="flex-1"
+              />
+              <Select value={linkExpiryDays} onValueChange={setLinkExpiryDays}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {shareLinkExpiryOptions.map(days => (
+                    <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => createLinkMutation.mutate()}
+                disabled={createLinkMutation.isPending}
+                title="Create and copy link"
+                data-testid="button-create-share-link"
+              >
+                <Link2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
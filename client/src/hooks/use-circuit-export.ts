@@ -0,0 +1,42 @@
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { downloadBlob } from "@/lib/topology-export";
+import type { CircuitExportFormat, CircuitView } from "@shared/circuit-export";
+
+const formatLabels: Record<CircuitExportFormat, string> = { csv: "CSV", xlsx: "Excel" };
+
+// Downloads the project's circuits as CSV or Excel. The server builds the
+// file from the given view, so it holds what the circuit table shows.
+export function useCircuitExport(projectId: string | null | undefined) {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ format, view = {} }: { format: CircuitExportFormat; view?: CircuitView }) => {
+      const response = await fetch(`/api/projects/${projectId}/circuits/export`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ format, ...view }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message ?? "The circuits could not be exported");
+      }
+
+      const fileName = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `circuits.${format}`;
+      downloadBlob(await response.blob(), fileName);
+      return { format, selected: view.ids?.length ?? 0 };
+    },
+    onSuccess: ({ format, selected }) => {
+      toast({
+        title: "Export Complete",
+        description: selected > 0
+          ? `${selected} selected circuits exported to ${formatLabels[format]}.`
+          : `Circuits exported to ${formatLabels[format]}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Export Failed", description: error.message, variant: "destructive" });
+    },
+  });
+}
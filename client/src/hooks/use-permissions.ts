@@ -0,0 +1,38 @@
+import { useQuery } from "@tanstack/react-query";
+import type { ProjectWithAccess } from "@shared/schema";
+import {
+  isAdmin,
+  isClient,
+  canCreateProject,
+  canViewInternalData,
+  canEditProject,
+  canManageProjectMembers,
+  canDeleteProject,
+  canManageUsers,
+  canEditBenchmarkSettings,
+} from "@shared/permissions";
+import { useAuth } from "@/hooks/use-auth";
+
+// What the signed-in user may do, optionally in the context of one project.
+// The server enforces the same rules; this only hides actions in the UI.
+export function usePermissions(projectId?: string | null) {
+  const { user } = useAuth();
+
+  const { data: project } = useQuery<ProjectWithAccess>({
+    queryKey: ['/api/projects', projectId],
+    enabled: !!projectId,
+  });
+
+  return {
+    isAdmin: isAdmin(user),
+    isClient: isClient(user),
+    canCreateProject: canCreateProject(user),
+    canViewInternalData: canViewInternalData(user),
+    projectRole: project?.accessRole ?? null,
+    canEditProject: canEditProject(project?.accessRole),
+    canManageProjectMembers: canManageProjectMembers(project?.accessRole),
+    canDeleteProject: canDeleteProject(user),
+    canManageUsers: canManageUsers(user),
+    canEditBenchmarkSettings: canEditBenchmarkSettings(user),
+  };
+}
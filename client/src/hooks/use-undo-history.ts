@@ -0,0 +1,75 @@
+import { useCallback, useRef, useState } from "react";
+
+// One reversible change. Either direction may be async when it saves to the server.
+export interface HistoryEntry {
+  label: string;
+  undo: () => void | Promise<void>;
+  redo: () => void | Promise<void>;
+}
+
+const HISTORY_LIMIT = 100;
+
+// Undo/redo stacks for an editor. Entries are pushed once their change has
+// been made; a new change clears the redo stack. Saving does not touch the
+// history, so changes can still be undone after a save.
+export function useUndoHistory() {
+  const [undoStack, setUndoStack] = useState<HistoryEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<HistoryEntry[]>([]);
+  const isApplying = useRef(false);
+
+  const push = useCallback((entry: HistoryEntry) => {
+    setUndoStack(prev => [...prev.slice(-(HISTORY_LIMIT - 1)), entry]);
+    setRedoStack([]);
+  }, []);
+
+  const undo = useCallback(async () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry || isApplying.current) return;
+    isApplying.current = true;
+    setUndoStack(prev => prev.slice(0, -1));
+    try {
+      await entry.undo();
+      setRedoStack(prev => [...prev, entry]);
+    } catch (error) {
+      // Nothing changed, so the entry can still be undone
+      console.error('Undo failed:', error);
+      setUndoStack(prev => [...prev, entry]);
+    } finally {
+      isApplying.current = false;
+    }
+  }, [undoStack]);
+
+  const redo = useCallback(async () => {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry || isApplying.current) return;
+    isApplying.current = true;
+    setRedoStack(prev => prev.slice(0, -1));
+    try {
+      await entry.redo();
+      setUndoStack(prev => [...prev, entry]);
+    } catch (error) {
+      console.error('Redo failed:', error);
+      setRedoStack(prev => [...prev, entry]);
+    } finally {
+      isApplying.current = false;
+    }
+  }, [redoStack]);
+
+  const clear = useCallback(() => {
+    setUndoStack([]);
+    setRedoStack([]);
+  }, []);
+
+  return {
+    push,
+    undo,
+    redo,
+    clear,
+    canUndo: undoStack.length > 0,
+    canRedo: redoStack.length > 0,
+    undoLabel: undoStack[undoStack.length - 1]?.label,
+    redoLabel: redoStack[redoStack.length - 1]?.label,
+  };
+}
+
+export type UndoHistory = ReturnType<typeof useUndoHistory>;
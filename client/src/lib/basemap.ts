@@ -0,0 +1,205 @@
+// Simplified coastlines for the topology map, bundled so the map works
+// offline. Rings are [longitude, latitude] and are accurate to roughly half
+// a degree: enough to place sites, not a survey.
+export type LngLat = [number, number];
+
+export interface LandOutline {
+  name: string;
+  ring: LngLat[];
+}
+
+// Contiguous United States; the US-Canada border runs through the Great Lakes
+export const usOutline: LngLat[] = [
+  [-122.75, 49.0], [-95.15, 49.0], [-95.15, 49.38], [-94.8, 49.3], [-93.0, 48.6], [-91.4, 48.05],
+  [-89.6, 48.0], [-88.4, 48.3], [-84.8, 46.9], [-83.6, 46.1], [-82.5, 45.3], [-82.1, 43.0],
+  [-83.1, 42.3], [-82.9, 41.7], [-78.9, 42.9], [-79.1, 43.3], [-76.3, 43.9], [-74.7, 45.0],
+  [-71.5, 45.0], [-70.8, 45.4], [-70.0, 46.7], [-69.2, 47.45], [-67.8, 47.1], [-67.8, 45.7],
+  [-67.0, 44.8], [-68.0, 44.4], [-70.0, 43.7], [-70.7, 42.9], [-70.5, 41.8], [-69.95, 41.7],
+  [-70.6, 41.5], [-71.9, 41.3], [-73.6, 40.9], [-74.0, 40.6], [-74.0, 40.0], [-74.9, 38.95],
+  [-75.1, 38.4], [-75.6, 37.9], [-76.0, 37.0], [-75.9, 36.6], [-75.5, 35.2], [-76.6, 34.7],
+  [-77.9, 33.9], [-79.2, 33.2], [-80.9, 32.0], [-81.4, 30.7], [-81.0, 29.5], [-80.5, 28.4],
+  [-80.0, 26.8], [-80.1, 25.8], [-80.4, 25.2], [-81.1, 25.1], [-81.8, 26.1], [-82.7, 27.5],
+  [-82.8, 28.6], [-83.7, 29.9], [-84.4, 29.9], [-85.4, 29.7], [-86.5, 30.4], [-88.0, 30.3],
+  [-89.4, 30.2], [-89.6, 29.3], [-90.5, 29.1], [-91.8, 29.5], [-93.8, 29.7], [-94.8, 29.3],
+  [-96.6, 28.3], [-97.4, 27.3], [-97.2, 25.95], [-99.1, 26.5], [-99.5, 27.5], [-100.3, 28.3],
+  [-101.4, 29.8], [-102.4, 29.8], [-103.1, 29.0], [-104.5, 29.6], [-104.7, 30.3], [-106.5, 31.8],
+  [-108.2, 31.8], [-108.2, 31.33], [-111.1, 31.33], [-114.8, 32.5], [-117.1, 32.5], [-117.3, 33.2],
+  [-118.4, 33.8], [-119.2, 34.2], [-120.6, 34.6], [-120.9, 35.5], [-121.9, 36.6], [-122.5, 37.8],
+  [-123.0, 38.3], [-123.7, 39.0], [-123.8, 39.8], [-124.4, 40.4], [-124.2, 41.9], [-124.5, 42.8],
+  [-124.1, 44.0], [-123.9, 46.2], [-124.1, 46.9], [-124.7, 48.4], [-123.2, 48.2], [-122.75, 49.0],
+];
+
+export const worldLand: LandOutline[] = [
+  {
+    name: 'North America',
+    ring: [
+      [-168, 65.6], [-164, 68.9], [-156.6, 71.3], [-141, 69.7], [-128, 70.1], [-115, 68.9], [-106, 68.8],
+      [-95, 71.9], [-90, 68.4], [-82, 69.0], [-82, 62.5], [-94, 61], [-92.5, 57], [-85, 55.3], [-80, 51.5],
+      [-78.9, 56.2], [-77.2, 60.1], [-78, 62.3], [-71, 61.1], [-64.5, 60.3], [-61.5, 56.0], [-57, 52],
+      [-55.7, 49.9], [-59.5, 47.6], [-64.5, 46.2], [-66, 43.8], [-67, 44.8], [-70.5, 41.8], [-74, 40.5],
+      [-75.5, 35.2], [-81, 31.5], [-80.1, 25.8], [-81.8, 26.1], [-84.3, 30], [-89.5, 30.2], [-94.8, 29.3],
+      [-97.4, 26], [-97.8, 22.2], [-95, 18.6], [-91, 18.8], [-90.4, 21], [-87, 21.5], [-87.5, 18.5],
+      [-88.3, 16], [-83.2, 15], [-83.6, 11], [-81.7, 9], [-79.5, 9.6], [-77.3, 8.5], [-78.4, 7.8],
+      [-80.5, 7.5], [-84.8, 9.6], [-85.9, 11.2], [-87.6, 13.2], [-91.4, 13.9], [-94.2, 16.1], [-96.5, 15.7],
+      [-101.1, 17.6], [-105.4, 20.5], [-105.6, 23.0], [-109.4, 23.2], [-112.2, 24.8], [-114.2, 28.1],
+      [-116.7, 31.7], [-117.1, 32.5], [-120.6, 34.6], [-122.5, 37.8], [-124.3, 40.4], [-124.1, 46.9],
+      [-124.7, 48.4], [-127.9, 50.9], [-130.5, 54.5], [-133.9, 57.9], [-137.5, 58.8], [-146, 60.5],
+      [-152, 59.1], [-157, 57.5], [-162.5, 54.9], [-158, 58.6], [-162, 60], [-165.2, 62.5], [-164.5, 64.5],
+      [-168, 65.6],
+    ],
+  },
+  {
+    name: 'Baffin Island',
+    ring: [[-80, 73.5], [-70, 71], [-62, 66.5], [-65, 63], [-71, 62.8], [-78, 64.4], [-75, 68.5], [-80, 69.8], [-80, 73.5]],
+  },
+  {
+    name: 'Greenland',
+    ring: [
+      [-73, 78.2], [-60, 82], [-32, 83.6], [-18, 81.5], [-12, 79.8], [-19, 75], [-22, 70.3], [-32, 68],
+      [-40, 65], [-43, 60], [-48, 61.3], [-51, 64.5], [-54, 68], [-55, 71.5], [-66, 76], [-73, 78.2],
+    ],
+  },
+  {
+    name: 'Cuba',
+    ring: [[-84.9, 21.9], [-82, 23.1], [-77.1, 21.7], [-74.2, 20.2], [-77.7, 19.9], [-80.8, 21.7], [-84.9, 21.9]],
+  },
+  {
+    name: 'Hispaniola',
+    ring: [[-74.4, 18.5], [-72.8, 19.9], [-68.4, 18.6], [-71.4, 17.6], [-74.4, 18.5]],
+  },
+  {
+    name: 'South America',
+    ring: [
+      [-77.3, 8.5], [-72, 11.8], [-66, 10.6], [-61, 10.6], [-57, 6], [-52, 4.5], [-50, 1.8], [-48.5, -0.8],
+      [-44, -2.5], [-38, -3.8], [-35, -6], [-35, -9], [-39, -14], [-39.2, -17.8], [-41, -22], [-45, -23.8],
+      [-48.6, -26], [-50.5, -30], [-53.5, -34], [-57.5, -38.2], [-62, -39], [-65, -42], [-67.5, -46],
+      [-66, -47.9], [-69, -51], [-68.5, -52.5], [-70, -55], [-74, -53], [-75.5, -48], [-74, -43],
+      [-73.4, -37], [-71.5, -32], [-70.5, -25], [-70.2, -18.5], [-75, -15.5], [-79.6, -8], [-81.2, -5.5],
+      [-80.1, -2], [-80, 1], [-78.9, 2.5], [-77.4, 4], [-77.3, 8.5],
+    ],
+  },
+  {
+    name: 'Iceland',
+    ring: [[-22.5, 63.9], [-24, 65.4], [-22, 66.4], [-16.5, 66.5], [-13.6, 65.1], [-18.7, 63.4], [-22.5, 63.9]],
+  },
+  {
+    name: 'Great Britain',
+    ring: [
+      [-5.7, 50.1], [-3, 50.7], [1.4, 51.2], [1.7, 52.7], [0.2, 53.5], [-1.6, 55.5], [-2, 57.6], [-3.1, 58.6],
+      [-5, 58.6], [-6.2, 56.7], [-5, 55.8], [-3.2, 54.9], [-3.1, 53.4], [-4.6, 53.2], [-4.3, 52.3],
+      [-5.2, 51.7], [-3.2, 51.3], [-5.7, 50.1],
+    ],
+  },
+  {
+    name: 'Ireland',
+    ring: [[-6, 52.1], [-6.2, 53.9], [-5.9, 54.6], [-7.3, 55.3], [-8.5, 54.7], [-10, 54.2], [-9.3, 53.2], [-10.3, 51.9], [-8.2, 51.8], [-6, 52.1]],
+  },
+  {
+    name: 'Africa',
+    ring: [
+      [-17, 21], [-17.5, 14.7], [-16.7, 12.4], [-13.4, 9.3], [-11, 6.8], [-7.5, 4.4], [-2, 4.8], [2.5, 6.3],
+      [6, 4.3], [9.8, 2.5], [9, -1], [11.8, -5], [13.2, -9], [11.8, -17], [14.5, -22.5], [16.5, -28.6],
+      [18.4, -34], [20, -34.8], [25.6, -34], [30, -31.3], [32.8, -26.5], [35.5, -24], [35.2, -21.3],
+      [34.8, -19.7], [40.5, -15.5], [40.5, -10.5], [39.2, -6.5], [40.1, -3], [42, -0.5], [44.8, 1.8],
+      [48, 5], [51.2, 10.5], [51.3, 11.8], [44.5, 10.4], [43.3, 12.6], [39.5, 15.5], [37.2, 20.8],
+      [35.5, 23.9], [33.9, 27.3], [32.5, 29.9], [31, 31.6], [25, 31.7], [20, 32], [19.8, 30.3], [15.5, 31.5],
+      [11.3, 33.2], [10.2, 36.8], [3, 36.9], [-1.8, 35], [-5.9, 35.8], [-6.8, 34], [-9.8, 31.4],
+      [-9.7, 29.9], [-13, 27.6], [-17, 21],
+    ],
+  },
+  {
+    name: 'Madagascar',
+    ring: [[49.3, -12], [50.5, -15.5], [47.1, -24.9], [45.2, -25.5], [43.6, -21.8], [44.4, -16.2], [47.5, -14.7], [49.3, -12]],
+  },
+  {
+    name: 'Eurasia',
+    ring: [
+      [-5.6, 36], [-9, 37], [-9.3, 43.2], [-1.5, 43.5], [-1.2, 46], [-4.6, 48.5], [-1, 49.4], [1.6, 50.9],
+      [4.6, 52.5], [5.7, 53.4], [8.6, 53.9], [8.5, 57.1], [10.5, 57.7], [10.6, 54.4], [14.5, 54],
+      [19.5, 54.4], [21.2, 55.7], [21, 56.8], [23.5, 59.4], [29.7, 59.9], [25, 60.3], [21.4, 60.6],
+      [25, 65], [22.2, 65.8], [17.5, 62.5], [19, 59.9], [16.5, 57.2], [14, 55.4], [12.6, 56.2], [11, 58.9],
+      [8, 58.1], [5.5, 59], [5, 62], [10, 64], [14, 67.5], [18, 69.8], [25, 71.1], [31, 70], [33, 69.3],
+      [41, 67.3], [44, 68.3], [53, 68.8], [60, 69.8], [69, 73], [80, 72.6], [87, 75], [100, 78],
+      [105, 77.6], [113, 73.6], [127, 73.5], [140, 72.5], [150, 71.5], [160, 70], [170, 70], [179.9, 68.9],
+      [179.9, 65], [178, 62.5], [172, 60.5], [163, 59.9], [163.5, 56.5], [158.5, 51.5], [156.5, 57.5],
+      [152, 59.2], [143, 59.3], [137, 54], [140.5, 48.5], [135, 43.5], [130.5, 42.5], [129.5, 36],
+      [126.5, 34.5], [126.3, 37.7], [125, 39.5], [121.5, 39], [121, 40.9], [117.8, 39], [119.3, 37.1],
+      [122.5, 37], [120.3, 36], [119.2, 34.5], [121.9, 31], [122, 29.8], [119.5, 25.5], [116.5, 22.9],
+      [113.5, 22.2], [110.5, 21.2], [108.5, 21.6], [106.6, 20], [105.7, 18.7], [108.8, 15.4], [109.2, 12],
+      [106.8, 10.4], [105, 8.6], [104.8, 10.3], [103, 10.6], [100.9, 12.7], [100, 13.5], [99.2, 10],
+      [100.4, 7.2], [103.5, 4.3], [104.2, 1.4], [101.3, 2.8], [100.4, 5.3], [98.3, 7.8], [98.5, 13.2],
+      [97.6, 16.5], [94.4, 16], [94.3, 18.8], [92.3, 20.7], [91.8, 22.3], [90.3, 21.8], [88, 21.6],
+      [86.9, 20.8], [85, 19.3], [82.3, 16.6], [80.3, 15.5], [80, 13], [79.9, 10.3], [77.5, 8.1], [76.3, 9.9],
+      [74.8, 12.8], [73.3, 16.9], [72.8, 19.2], [72.6, 21.3], [70.2, 22.6], [68.5, 23.6], [66.6, 25.4],
+      [62, 25.1], [57.3, 25.8], [59.8, 22.5], [57.8, 19], [55, 17], [52.2, 15.6], [48.7, 14], [45, 12.8],
+      [43.4, 12.7], [42.6, 15.2], [41.2, 18.7], [39.1, 21.5], [37.3, 24.7], [35.1, 28], [34.9, 29.5],
+      [34.2, 31.3], [34.9, 32.8], [35.8, 34.9], [36, 36.6], [32.5, 36.1], [29.5, 36.3], [27.3, 37.5],
+      [26.5, 39.6], [26.2, 40.8], [24, 38.2], [22.9, 36.4], [21.1, 37.8], [19.4, 40.4], [18.5, 42.4],
+      [15.2, 44.2], [13.6, 45.7], [12.3, 45.4], [12.6, 44], [14.1, 42.1], [16.9, 41.1], [18.5, 40.1],
+      [16.5, 38.4], [15.6, 38], [15.7, 40], [12.6, 41.5], [10.5, 42.9], [8.8, 44.4], [6.6, 43.1],
+      [4.3, 43.4], [3.1, 42.4], [0.8, 41.0], [-0.3, 39.4], [0.2, 38.7], [-0.8, 37.6], [-2.1, 36.7],
+      [-4.4, 36.7], [-5.6, 36],
+    ],
+  },
+  {
+    name: 'Sri Lanka',
+    ring: [[79.8, 8], [80.2, 9.8], [81.8, 7.5], [80.6, 5.9], [79.8, 8]],
+  },
+  {
+    name: 'Japan',
+    ring: [
+      [130.9, 31.3], [131.5, 33.5], [135, 33.5], [140, 35.1], [141, 38.3], [141.5, 41.4], [140, 40.6],
+      [139.8, 38], [136.8, 37.3], [133, 35.5], [130.9, 34.3], [129.7, 33.1], [130.2, 31.3], [130.9, 31.3],
+    ],
+  },
+  {
+    name: 'Hokkaido',
+    ring: [[140, 41.5], [141.5, 42.5], [145.5, 43.3], [144.5, 44], [141.7, 45.4], [141.2, 43.2], [140, 41.5]],
+  },
+  {
+    name: 'Taiwan',
+    ring: [[120.1, 23], [121.9, 25], [121.6, 22], [120.1, 23]],
+  },
+  {
+    name: 'Philippines',
+    ring: [
+      [120.6, 18.5], [122.3, 18.4], [122.2, 16.3], [124, 12.6], [125.5, 9.8], [126.5, 7.2], [125.3, 5.8],
+      [122, 6.9], [123.6, 8.7], [122.3, 11.1], [120.8, 13.8], [119.9, 16.1], [120.6, 18.5],
+    ],
+  },
+  {
+    name: 'Sumatra',
+    ring: [[95.3, 5.5], [98.3, 4], [104, -2], [106, -5.8], [104.5, -5.9], [101, -2.5], [98.5, 0.5], [95.3, 5.5]],
+  },
+  {
+    name: 'Borneo',
+    ring: [[109, 1.5], [111, 1.7], [115.5, 4.8], [119.2, 5.4], [117.6, 1], [116, -3.7], [110.2, -2.9], [109, 1.5]],
+  },
+  {
+    name: 'Java',
+    ring: [[105.2, -6.8], [108, -6.2], [112.6, -6.9], [114.6, -8.7], [110, -8.1], [105.2, -6.8]],
+  },
+  {
+    name: 'New Guinea',
+    ring: [[131, -1.5], [138, -1.6], [141, -2.6], [145.8, -5.3], [150, -10.3], [146.3, -8.2], [143.5, -9], [141, -9.1], [138, -8.4], [134, -3.9], [131, -1.5]],
+  },
+  {
+    name: 'Australia',
+    ring: [
+      [113.6, -22.5], [114.2, -26.3], [115, -34.3], [118, -35], [123.5, -33.9], [129, -31.7], [131.2, -31.5],
+      [134.2, -32.7], [137.8, -35.6], [138.5, -34.8], [140, -37.9], [144, -38.4], [146.4, -39.1],
+      [150, -37.5], [151.3, -33.8], [153.6, -28.4], [153, -25.2], [150.8, -22.6], [146.3, -18.8],
+      [145.3, -14.9], [142.5, -10.7], [141.6, -12.8], [141.6, -16.5], [140.8, -17.4], [139.2, -17.3],
+      [135.9, -15], [136.8, -12.3], [132.6, -11.5], [130.2, -12.9], [129.4, -14.9], [125.6, -14.5],
+      [122.2, -17.8], [121, -19.6], [117, -20.7], [113.6, -22.5],
+    ],
+  },
+  {
+    name: 'New Zealand North Island',
+    ring: [[172.7, -34.4], [174.9, -36.9], [178.5, -37.7], [177, -39.3], [175.2, -41.6], [174.6, -41.3], [173.8, -39.2], [174.6, -37.1], [172.7, -34.4]],
+  },
+  {
+    name: 'New Zealand South Island',
+    ring: [[172.7, -40.5], [174.3, -41.7], [173, -43.9], [171.2, -44.5], [169.3, -46.6], [166.5, -46], [168, -44], [170.5, -43], [172.7, -40.5]],
+  },
+];
@@ -0,0 +1,159 @@
+import type { LngLat } from './basemap';
+
+// Albers equal-area conic for US regions, Equal Earth for wider views
+export type MapProjectionKind = 'albers' | 'equal-earth';
+
+export interface MapRegion {
+  id: string;
+  label: string;
+  projection: MapProjectionKind;
+  bounds: [LngLat, LngLat]; // South-west and north-east corners
+}
+
+export const mapRegions: MapRegion[] = [
+  { id: 'us', label: 'United States', projection: 'albers', bounds: [[-125, 24], [-66.5, 49.5]] },
+  { id: 'us-west', label: 'US West', projection: 'albers', bounds: [[-125, 31], [-102, 49.5]] },
+  { id: 'us-central', label: 'US Central', projection: 'albers', bounds: [[-106, 25.5], [-84, 49.5]] },
+  { id: 'us-east', label: 'US East', projection: 'albers', bounds: [[-92, 24.5], [-66.5, 47.5]] },
+  { id: 'north-america', label: 'North America', projection: 'equal-earth', bounds: [[-170, 7], [-50, 72]] },
+  { id: 'europe', label: 'Europe', projection: 'equal-earth', bounds: [[-12, 35], [35, 65]] },
+  { id: 'world', label: 'World', projection: 'equal-earth', bounds: [[-180, -58], [180, 84]] },
+];
+
+// Megaport facilities behind the default POPs, by POP id
+export const megaportPopLocations: Record<string, LngLat> = {
+  'megapop-sea': [-122.3388, 47.6145], // 2001 6th Avenue, Seattle
+  'megapop-sfo': [-122.3900, 37.7897], // 365 Main Street, San Francisco
+  'megapop-lax': [-118.2565, 34.0473], // 600 West 7th Street, Los Angeles
+  'megapop-dal': [-96.7937, 32.7993], // 2323 Bryan Street, Dallas
+  'megapop-hou': [-95.4540, 30.0420], // 2626 Spring Cypress Road, Spring
+  'megapop-chi': [-87.6186, 41.8535], // 350 East Cermak Road, Chicago
+  'megapop-res': [-77.3570, 38.9510], // 12100 Sunrise Valley Drive, Reston
+  'megapop-nyc': [-74.0080, 40.7380], // 600 Hudson Street, New York
+  'megapop-mia': [-80.1930, 25.7753], // 36 NE 2nd Street, Miami
+};
+
+const radians = Math.PI / 180;
+
+// Unprojected coordinates on the unit sphere, y pointing north
+const albers = (() => {
+  const [parallel1, parallel2, originLat, originLng] = [29.5 * radians, 45.5 * radians, 37.5 * radians, -96];
+  const n = (Math.sin(parallel1) + Math.sin(parallel2)) / 2;
+  const c = Math.cos(parallel1) ** 2 + 2 * n * Math.sin(parallel1);
+  const rho0 = Math.sqrt(c - 2 * n * Math.sin(originLat)) / n;
+  return ([lng, lat]: LngLat): [number, number] => {
+    const lambda = ((((lng - originLng) % 360) + 540) % 360 - 180) * radians;
+    const rho = Math.sqrt(c - 2 * n * Math.sin(lat * radians)) / n;
+    const theta = n * lambda;
+    return [rho * Math.sin(theta), rho0 - rho * Math.cos(theta)];
+  };
+})();
+
+const equalEarth = ([lng, lat]: LngLat): [number, number] => {
+  const [a1, a2, a3, a4] = [1.340264, -0.081106, 0.000893, 0.003796];
+  const theta = Math.asin((Math.sqrt(3) / 2) * Math.sin(lat * radians));
+  const theta2 = theta * theta;
+  const theta6 = theta2 * theta2 * theta2;
+  const x = (2 * Math.sqrt(3) * lng * radians * Math.cos(theta)) /
+    (3 * (a1 + 3 * a2 * theta2 + theta6 * (7 * a3 + 9 * a4 * theta2)));
+  const y = theta * (a1 + a2 * theta2 + theta6 * (a3 + a4 * theta2));
+  return [x, y];
+};
+
+const rawProjections: Record<MapProjectionKind, (point: LngLat) => [number, number]> = {
+  'albers': albers,
+  'equal-earth': equalEarth,
+};
+
+export interface MapProjection {
+  kind: MapProjectionKind;
+  project: (point: LngLat) => { x: number; y: number };
+}
+
+// Scales a projection so the bounds fill a width x height canvas
+export function fitProjection(kind: MapProjectionKind, bounds: [LngLat, LngLat], width: number, height: number, padding = 40): MapProjection {
+  const raw = rawProjections[kind];
+  const [[west, south], [east, north]] = bounds;
+
+  // Conic projections curve the parallels, so the whole edge of the box is sampled
+  const samples: [number, number][] = [];
+  for (let step = 0; step <= 20; step++) {
+    const lng = west + (east - west) * step / 20;
+    const lat = south + (north - south) * step / 20;
+    samples.push(raw([lng, south]), raw([lng, north]), raw([west, lat]), raw([east, lat]));
+  }
+  const xs = samples.map(([x]) => x);
+  const ys = samples.map(([, y]) => y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const scale = Math.min(
+    (width - 2 * padding) / Math.max(maxX - minX, 1e-6),
+    (height - 2 * padding) / Math.max(maxY - minY, 1e-6)
+  );
+  const offsetX = width / 2 - ((minX + maxX) / 2) * scale;
+  const offsetY = height / 2 + ((minY + maxY) / 2) * scale;
+
+  return {
+    kind,
+    project: (point: LngLat) => {
+      const [x, y] = raw(point);
+      return { x: offsetX + x * scale, y: offsetY - y * scale };
+    },
+  };
+}
+
+// Smallest box around the given points, padded, for zooming to the sites on the map
+export function boundsAround(points: LngLat[], paddingDegrees = 2): [LngLat, LngLat] | null {
+  if (points.length === 0) return null;
+  const lngs = points.map(([lng]) => lng);
+  const lats = points.map(([, lat]) => lat);
+  return [
+    [Math.max(-180, Math.min(...lngs) - paddingDegrees), Math.max(-85, Math.min(...lats) - paddingDegrees)],
+    [Math.min(180, Math.max(...lngs) + paddingDegrees), Math.min(85, Math.max(...lats) + paddingDegrees)],
+  ];
+}
+
+const toVector = ([lng, lat]: LngLat): [number, number, number] => [
+  Math.cos(lat * radians) * Math.cos(lng * radians),
+  Math.cos(lat * radians) * Math.sin(lng * radians),
+  Math.sin(lat * radians),
+];
+
+const toLngLat = ([x, y, z]: [number, number, number]): LngLat => [
+  Math.atan2(y, x) / radians,
+  Math.atan2(z, Math.hypot(x, y)) / radians,
+];
+
+// Points along the shortest route over the globe, about one per two degrees of arc
+export function greatCirclePoints(from: LngLat, to: LngLat): LngLat[] {
+  const a = toVector(from);
+  const b = toVector(to);
+  const angle = Math.acos(Math.max(-1, Math.min(1, a[0] * b[0] + a[1] * b[1] + a[2] * b[2])));
+  if (angle < 1e-6) return [from, to];
+
+  const segments = Math.max(2, Math.ceil(angle / radians / 2));
+  return Array.from({ length: segments + 1 }, (_, index) => {
+    const t = index / segments;
+    const wa = Math.sin((1 - t) * angle) / Math.sin(angle);
+    const wb = Math.sin(t * angle) / Math.sin(angle);
+    return toLngLat([wa * a[0] + wb * b[0], wa * a[1] + wb * b[1], wa * a[2] + wb * b[2]]);
+  });
+}
+
+// Centre of a set of points on the globe
+export function geoCentroid(points: LngLat[]): LngLat {
+  const sum = points.map(toVector).reduce(
+    (total, vector) => [total[0] + vector[0], total[1] + vector[1], total[2] + vector[2]] as [number, number, number],
+    [0, 0, 0] as [number, number, number]
+  );
+  return toLngLat(sum);
+}
+
+// SVG path through the points. Lines that cross the antimeridian break
+// there rather than streaking across the whole map.
+export function geoPath(points: LngLat[], projection: MapProjection, closed = false): string {
+  return points.map((point, index) => {
+    const { x, y } = projection.project(point);
+    const jumps = index > 0 && Math.abs(point[0] - points[index - 1][0]) > 180;
+    return `${index === 0 || jumps ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join('') + (closed ? 'Z' : '');
+}
@@ -0,0 +1,418 @@
+import { createZip } from './zip';
+
+export type TopologyDiagramFormat = 'drawio' | 'vsdx';
+
+export type DiagramNodeKind = 'site' | 'cloud' | 'pop';
+
+// Editable diagram of a topology design, in canvas pixels. Node positions
+// are centres, as the viewer draws them.
+export interface DiagramNode {
+  id: string;
+  kind: DiagramNodeKind;
+  label: string;
+  x: number;
+  y: number;
+  color: string;
+}
+
+export interface DiagramEdge {
+  id: string;
+  source: string;
+  target: string;
+  label: string;
+  color: string;
+  dashed?: boolean;
+}
+
+export interface TopologyDiagram {
+  name: string;
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+}
+
+const nodeSizes: Record<DiagramNodeKind, { width: number; height: number }> = {
+  site: { width: 140, height: 50 },
+  cloud: { width: 150, height: 90 },
+  pop: { width: 80, height: 80 },
+};
+
+const PADDING = 40;
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/\n/g, '&#xa;');
+
+// Top-left corners of every node, shifted so the diagram starts at the padding
+const layoutNodes = (diagram: TopologyDiagram) => {
+  const left = Math.min(...diagram.nodes.map(node => node.x - nodeSizes[node.kind].width / 2));
+  const top = Math.min(...diagram.nodes.map(node => node.y - nodeSizes[node.kind].height / 2));
+  const placed = diagram.nodes.map(node => {
+    const { width, height } = nodeSizes[node.kind];
+    return {
+      ...node,
+      width,
+      height,
+      left: Math.round(node.x - width / 2 - left + PADDING),
+      top: Math.round(node.y - height / 2 - top + PADDING),
+    };
+  });
+  const width = Math.max(0, ...placed.map(node => node.left + node.width)) + PADDING;
+  const height = Math.max(0, ...placed.map(node => node.top + node.height)) + PADDING;
+  return { nodes: placed, width, height };
+};
+
+// Node kind is kept in the style so diagrams exported here can be read back
+const drawioNodeStyle = (node: DiagramNode) => {
+  switch (node.kind) {
+    case 'site':
+      return `rounded=1;whiteSpace=wrap;fillColor=${node.color};strokeColor=none;fontColor=#ffffff;fontStyle=1;topologyKind=site;`;
+    case 'cloud':
+      return `ellipse;shape=cloud;whiteSpace=wrap;fillColor=#ffffff;strokeColor=${node.color};strokeWidth=2;fontColor=${node.color};fontStyle=1;topologyKind=cloud;`;
+    case 'pop':
+      return `ellipse;whiteSpace=wrap;fillColor=${node.color};strokeColor=#ffffff;strokeWidth=2;fontColor=#ffffff;fontSize=10;topologyKind=pop;`;
+  }
+};
+
+// draw.io / diagrams.net file (uncompressed mxGraph XML)
+export function toDrawioXml(diagram: TopologyDiagram): string {
+  const { nodes, width, height } = layoutNodes(diagram);
+  const cells: string[] = ['<mxCell id="0"/>', '<mxCell id="1" parent="0"/>'];
+
+  nodes.forEach(node => {
+    cells.push(
+      `<mxCell id="${escapeXml(node.id)}" value="${escapeXml(node.label)}" style="${drawioNodeStyle(node)}" vertex="1" parent="1">` +
+      `<mxGeometry x="${node.left}" y="${node.top}" width="${node.width}" height="${node.height}" as="geometry"/></mxCell>`
+    );
+  });
+
+  diagram.edges.forEach(edge => {
+    const style = `endArrow=none;html=0;strokeColor=${edge.color};strokeWidth=2;fontSize=10;labelBackgroundColor=#ffffff;${edge.dashed ? 'dashed=1;' : ''}topologyKind=connection;`;
+    cells.push(
+      `<mxCell id="${escapeXml(edge.id)}" value="${escapeXml(edge.label)}" style="${style}" edge="1" parent="1" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">` +
+      '<mxGeometry relative="1" as="geometry"/></mxCell>'
+    );
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<mxfile host="Circuit Audit" type="device">`,
+    `<diagram id="topology" name="${escapeXml(diagram.name)}">`,
+    `<mxGraphModel grid="1" gridSize="10" guides="1" connect="1" arrows="1" page="1" pageWidth="${width}" pageHeight="${height}">`,
+    `<root>${cells.join('')}</root>`,
+    '</mxGraphModel>',
+    '</diagram>',
+    '</mxfile>',
+  ].join('\n');
+}
+
+const VISIO_NS = 'http://schemas.microsoft.com/office/visio/2012/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const PIXELS_PER_INCH = 96;
+
+const cell = (name: string, value: string | number, formula?: string) =>
+  `<Cell N="${name}" V="${value}"${formula ? ` F="${escapeXml(formula)}"` : ''}/>`;
+
+const inches = (pixels: number) => Number((pixels / PIXELS_PER_INCH).toFixed(4));
+
+const visioGeometry = (kind: DiagramNodeKind, width: number, height: number) => {
+  if (kind === 'site') {
+    return '<Section N="Geometry" IX="0">' +
+      `<Row T="RelMoveTo" IX="1">${cell('X', 0)}${cell('Y', 0)}</Row>` +
+      `<Row T="RelLineTo" IX="2">${cell('X', 1)}${cell('Y', 0)}</Row>` +
+      `<Row T="RelLineTo" IX="3">${cell('X', 1)}${cell('Y', 1)}</Row>` +
+      `<Row T="RelLineTo" IX="4">${cell('X', 0)}${cell('Y', 1)}</Row>` +
+      `<Row T="RelLineTo" IX="5">${cell('X', 0)}${cell('Y', 0)}</Row>` +
+      '</Section>';
+  }
+  return '<Section N="Geometry" IX="0">' +
+    `<Row T="Ellipse" IX="1">${cell('X', width / 2)}${cell('Y', height / 2)}${cell('A', width)}${cell('B', height / 2)}${cell('C', width / 2)}${cell('D', height)}</Row>` +
+    '</Section>';
+};
+
+// Single-page Visio drawing. Connectors are glued to the shapes they join,
+// so moving a site in Visio keeps its links attached.
+export function toVsdx(diagram: TopologyDiagram): Blob {
+  const layout = layoutNodes(diagram);
+  const pageWidth = inches(layout.width);
+  const pageHeight = inches(layout.height);
+  const shapeIds = new Map<string, number>();
+  const centres = new Map<string, { x: number; y: number }>();
+  const shapes: string[] = [];
+  const connects: string[] = [];
+  let nextId = 1;
+
+  layout.nodes.forEach(node => {
+    const id = nextId++;
+    const width = inches(node.width);
+    const height = inches(node.height);
+    const pinX = inches(node.left + node.width / 2);
+    const pinY = Number((pageHeight - inches(node.top + node.height / 2)).toFixed(4));
+    shapeIds.set(node.id, id);
+    centres.set(node.id, { x: pinX, y: pinY });
+
+    const isSite = node.kind === 'site';
+    shapes.push(
+      `<Shape ID="${id}" NameU="${node.kind}.${id}" Name="${escapeXml(node.label)}" Type="Shape" LineStyle="0" FillStyle="0" TextStyle="0">` +
+      cell('PinX', pinX) + cell('PinY', pinY) + cell('Width', width) + cell('Height', height) +
+      cell('LocPinX', width / 2, 'Width*0.5') + cell('LocPinY', height / 2, 'Height*0.5') +
+      cell('FillForegnd', isSite || node.kind === 'pop' ? node.color : '#ffffff') +
+      cell('LineColor', isSite ? node.color : node.kind === 'pop' ? '#ffffff' : node.color) +
+      cell('LineWeight', 0.0208) +
+      (isSite ? cell('Rounding', 0.0833) : '') +
+      `<Section N="Character"><Row IX="0">${cell('Color', isSite || node.kind === 'pop' ? '#ffffff' : node.color)}${cell('Size', node.kind === 'pop' ? 0.1111 : 0.125)}${cell('Style', 1)}</Row></Section>` +
+      visioGeometry(node.kind, width, height) +
+      `<Text>${escapeXml(node.label)}</Text>` +
+      '</Shape>'
+    );
+  });
+
+  diagram.edges.forEach(edge => {
+    const sourceId = shapeIds.get(edge.source);
+    const targetId = shapeIds.get(edge.target);
+    const begin = centres.get(edge.source);
+    const end = centres.get(edge.target);
+    if (!sourceId || !targetId || !begin || !end) return;
+
+    const id = nextId++;
+    const length = Math.hypot(end.x - begin.x, end.y - begin.y);
+    const angle = Math.atan2(end.y - begin.y, end.x - begin.x);
+    shapes.push(
+      `<Shape ID="${id}" NameU="Dynamic connector.${id}" Name="Dynamic connector.${id}" Type="Shape" LineStyle="0" FillStyle="0" TextStyle="0">` +
+      cell('PinX', (begin.x + end.x) / 2, 'GUARD((BeginX+EndX)/2)') +
+      cell('PinY', (begin.y + end.y) / 2, 'GUARD((BeginY+EndY)/2)') +
+      cell('Width', length, 'GUARD(SQRT((EndX-BeginX)^2+(EndY-BeginY)^2))') +
+      cell('Height', 0) +
+      cell('LocPinX', length / 2, 'GUARD(Width*0.5)') +
+      cell('LocPinY', 0, 'GUARD(Height*0.5)') +
+      cell('Angle', angle, 'GUARD(ATAN2(EndY-BeginY,EndX-BeginX))') +
+      cell('BeginX', begin.x) + cell('BeginY', begin.y) +
+      cell('EndX', end.x) + cell('EndY', end.y) +
+      cell('ObjType', 2) +
+      cell('LineColor', edge.color) +
+      cell('LineWeight', 0.0208) +
+      cell('LinePattern', edge.dashed ? 2 : 1) +
+      cell('TxtAngle', 0, '-Angle') +
+      `<Section N="Character"><Row IX="0">${cell('Color', '#374151')}${cell('Size', 0.1111)}</Row></Section>` +
+      '<Section N="Geometry" IX="0">' +
+      `<Row T="MoveTo" IX="1">${cell('X', 0)}${cell('Y', 0)}</Row>` +
+      `<Row T="LineTo" IX="2">${cell('X', length, 'Width')}${cell('Y', 0)}</Row>` +
+      '</Section>' +
+      `<Text>${escapeXml(edge.label)}</Text>` +
+      '</Shape>'
+    );
+    connects.push(
+      `<Connect FromSheet="${id}" FromCell="BeginX" FromPart="9" ToSheet="${sourceId}" ToCell="PinX" ToPart="3"/>`,
+      `<Connect FromSheet="${id}" FromCell="EndX" FromPart="12" ToSheet="${targetId}" ToCell="PinX" ToPart="3"/>`
+    );
+  });
+
+  const xml = (body: string) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`;
+
+  return createZip([
+    {
+      path: '[Content_Types].xml',
+      data: xml(
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/visio/document.xml" ContentType="application/vnd.ms-visio.drawing.main+xml"/>' +
+        '<Override PartName="/visio/pages/pages.xml" ContentType="application/vnd.ms-visio.pages+xml"/>' +
+        '<Override PartName="/visio/pages/page1.xml" ContentType="application/vnd.ms-visio.page+xml"/>' +
+        '</Types>'
+      ),
+    },
+    {
+      path: '_rels/.rels',
+      data: xml(
+        `<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">` +
+        '<Relationship Id="rId1" Type="http://schemas.microsoft.com/visio/2010/relationships/document" Target="visio/document.xml"/>' +
+        '</Relationships>'
+      ),
+    },
+    {
+      path: 'visio/document.xml',
+      data: xml(
+        `<VisioDocument xmlns="${VISIO_NS}" xmlns:r="${RELATIONSHIPS_NS}" xml:space="preserve">` +
+        '<StyleSheets><StyleSheet ID="0" NameU="No Style" Name="No Style">' +
+        cell('LineWeight', 0.0104) + cell('LineColor', 0) + cell('LinePattern', 1) +
+        cell('FillForegnd', 1) + cell('FillPattern', 1) +
+        '<Section N="Character"><Row IX="0">' + cell('Font', 'Calibri') + cell('Color', 0) + cell('Size', 0.1111) + '</Row></Section>' +
+        '</StyleSheet></StyleSheets>' +
+        '</VisioDocument>'
+      ),
+    },
+    {
+      path: 'visio/_rels/document.xml.rels',
+      data: xml(
+        `<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">` +
+        '<Relationship Id="rId1" Type="http://schemas.microsoft.com/visio/2010/relationships/pages" Target="pages/pages.xml"/>' +
+        '</Relationships>'
+      ),
+    },
+    {
+      path: 'visio/pages/pages.xml',
+      data: xml(
+        `<Pages xmlns="${VISIO_NS}" xmlns:r="${RELATIONSHIPS_NS}" xml:space="preserve">` +
+        `<Page ID="0" NameU="${escapeXml(diagram.name)}" Name="${escapeXml(diagram.name)}">` +
+        `<PageSheet LineStyle="0" FillStyle="0" TextStyle="0">${cell('PageWidth', pageWidth)}${cell('PageHeight', pageHeight)}${cell('PageScale', 1)}${cell('DrawingScale', 1)}</PageSheet>` +
+        '<Rel r:id="rId1"/>' +
+        '</Page></Pages>'
+      ),
+    },
+    {
+      path: 'visio/pages/_rels/pages.xml.rels',
+      data: xml(
+        `<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">` +
+        '<Relationship Id="rId1" Type="http://schemas.microsoft.com/visio/2010/relationships/page" Target="page1.xml"/>' +
+        '</Relationships>'
+      ),
+    },
+    {
+      path: 'visio/pages/page1.xml',
+      data: xml(
+        `<PageContents xmlns="${VISIO_NS}" xmlns:r="${RELATIONSHIPS_NS}" xml:space="preserve">` +
+        `<Shapes>${shapes.join('')}</Shapes>` +
+        (connects.length > 0 ? `<Connects>${connects.join('')}</Connects>` : '') +
+        '</PageContents>'
+      ),
+    },
+  ], 'application/vnd.ms-visio.drawing');
+}
+
+export function renderTopologyDiagram(diagram: TopologyDiagram, format: TopologyDiagramFormat): Blob {
+  if (format === 'vsdx') return toVsdx(diagram);
+  return new Blob([toDrawioXml(diagram)], { type: 'application/xml' });
+}
+
+// Cloud type a shape label points to, e.g. "AT&T MPLS" or "AWS Direct Connect"
+export function cloudTypeForLabel(label: string): string | null {
+  const text = label.toLowerCase();
+  if (/\baws\b|amazon|direct connect/.test(text)) return 'AWS';
+  if (/azure|expressroute/.test(text)) return 'Azure';
+  if (/\bgcp\b|google/.test(text)) return 'GCP';
+  if (/megaport|\bnaas\b|sd-?wan/.test(text)) return 'NaaS';
+  if (/\bmpls\b|\bvpls\b/.test(text)) return 'MPLS';
+  if (/internet|broadband|\bisp\b|\blte\b/.test(text)) return 'Internet';
+  return null;
+}
+
+const styleValue = (style: string, key: string) =>
+  style.split(';').find(part => part.startsWith(`${key}=`))?.slice(key.length + 1);
+
+// Labels with html=1 carry markup; keep the text with line breaks
+const plainLabel = (value: string) => {
+  if (!/[<&]/.test(value)) return value.trim();
+  const html = value.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(div|p)>/gi, '\n');
+  const text = new DOMParser().parseFromString(html, 'text/html').body.textContent ?? '';
+  return text.split('\n').map(line => line.trim()).filter(Boolean).join('\n');
+};
+
+// draw.io saves each page compressed unless told otherwise: base64 of raw
+// deflate of the URI-encoded model
+const inflateDiagram = async (data: string) => {
+  const bytes = Uint8Array.from(atob(data.trim()), char => char.charCodeAt(0));
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return decodeURIComponent(await new Response(stream).text());
+};
+
+const graphModelOf = async (document: Document): Promise<Element | null> => {
+  const root = document.documentElement;
+  if (root.nodeName === 'mxGraphModel') return root;
+  const diagram = root.getElementsByTagName('diagram')[0];
+  if (!diagram) return null;
+  const model = diagram.getElementsByTagName('mxGraphModel')[0];
+  if (model) return model;
+  const inflated = await inflateDiagram(diagram.textContent ?? '');
+  return new DOMParser().parseFromString(inflated, 'application/xml').documentElement;
+};
+
+// Reads the first page of a draw.io file. Shapes exported by toDrawioXml keep
+// their kind; other shapes are guessed from their style and label.
+export async function parseDrawio(xml: string): Promise<TopologyDiagram> {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid XML');
+  }
+  const model = await graphModelOf(document);
+  if (!model || model.nodeName !== 'mxGraphModel') {
+    throw new Error('No draw.io diagram found in the file');
+  }
+
+  // Cells with custom properties are wrapped in <object> or <UserObject>,
+  // which then hold the id and label
+  const cells = Array.from(model.getElementsByTagName('mxCell')).map(cell => {
+    const wrapper = cell.parentElement && cell.parentElement.nodeName !== 'root' ? cell.parentElement : null;
+    const geometry = cell.getElementsByTagName('mxGeometry')[0];
+    return {
+      id: wrapper?.getAttribute('id') ?? cell.getAttribute('id') ?? '',
+      label: plainLabel(wrapper?.getAttribute('label') ?? cell.getAttribute('value') ?? ''),
+      style: cell.getAttribute('style') ?? '',
+      parent: cell.getAttribute('parent'),
+      isVertex: cell.getAttribute('vertex') === '1',
+      isEdge: cell.getAttribute('edge') === '1',
+      source: cell.getAttribute('source'),
+      target: cell.getAttribute('target'),
+      x: Number(geometry?.getAttribute('x') ?? 0),
+      y: Number(geometry?.getAttribute('y') ?? 0),
+      width: Number(geometry?.getAttribute('width') ?? 0),
+      height: Number(geometry?.getAttribute('height') ?? 0),
+    };
+  });
+  const cellsById = new Map(cells.map(cell => [cell.id, cell]));
+
+  // Children of groups and containers are positioned relative to them
+  const origin = (parentId: string | null): { x: number; y: number } => {
+    const parent = parentId ? cellsById.get(parentId) : undefined;
+    if (!parent?.isVertex) return { x: 0, y: 0 };
+    const offset = origin(parent.parent);
+    return { x: offset.x + parent.x, y: offset.y + parent.y };
+  };
+
+  const edgeLabels = new Map<string, string[]>();
+  const nodes: DiagramNode[] = [];
+
+  cells.filter(cell => cell.isVertex).forEach(cell => {
+    // Labels placed on a connector are child cells of the edge
+    const parent = cell.parent ? cellsById.get(cell.parent) : undefined;
+    if (parent?.isEdge) {
+      if (cell.label) edgeLabels.set(parent.id, [...(edgeLabels.get(parent.id) ?? []), cell.label]);
+      return;
+    }
+    if (cell.style.startsWith('text;') || styleValue(cell.style, 'shape') === 'partialRectangle') return;
+    if (!cell.label) return;
+
+    const savedKind = styleValue(cell.style, 'topologyKind');
+    const kind: DiagramNodeKind = savedKind && savedKind in nodeSizes
+      ? savedKind as DiagramNodeKind
+      : /cloud/i.test(cell.style) || cloudTypeForLabel(cell.label) !== null ? 'cloud' : 'site';
+    const color = styleValue(cell.style, kind === 'cloud' ? 'strokeColor' : 'fillColor');
+    const offset = origin(cell.parent);
+    nodes.push({
+      id: cell.id,
+      kind,
+      label: cell.label,
+      x: offset.x + cell.x + cell.width / 2,
+      y: offset.y + cell.y + cell.height / 2,
+      color: color && color.startsWith('#') ? color : '#3b82f6',
+    });
+  });
+
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const edges: DiagramEdge[] = cells
+    .filter(cell => cell.isEdge && cell.source && cell.target && nodeIds.has(cell.source) && nodeIds.has(cell.target))
+    .map(cell => ({
+      id: cell.id,
+      source: cell.source!,
+      target: cell.target!,
+      label: [cell.label, ...(edgeLabels.get(cell.id) ?? [])].filter(Boolean).join('\n'),
+      color: styleValue(cell.style, 'strokeColor') ?? '#6b7280',
+      dashed: styleValue(cell.style, 'dashed') === '1',
+    }));
+
+  const name = document.documentElement.getElementsByTagName('diagram')[0]?.getAttribute('name') ?? 'Imported diagram';
+  return { name, nodes, edges };
+}
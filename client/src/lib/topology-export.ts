@@ -0,0 +1,184 @@
+export type TopologyExportFormat = 'svg' | 'png' | 'pdf';
+
+// The part of the canvas on screen: the viewer pans and zooms the whole svg
+// with a CSS transform, so exports crop to the same window instead
+export interface TopologyExportView {
+  zoom: number;
+  panOffset: { x: number; y: number };
+  width: number;
+  height: number;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const PNG_PIXEL_RATIO = 3;
+const PDF_PIXEL_RATIO = 2;
+const MAX_CANVAS_SIZE = 8192;
+
+// Styles Tailwind classes and inherited CSS contribute to the diagram. They
+// are written inline so the exported file renders the same on its own.
+const inlinedProperties = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray',
+  'stroke-linecap', 'stroke-linejoin', 'opacity', 'color', 'display', 'visibility',
+  'font-family', 'font-size', 'font-weight', 'text-anchor', 'dominant-baseline',
+];
+
+const inlineComputedStyles = (source: SVGSVGElement, target: SVGSVGElement) => {
+  const sourceElements = Array.from(source.querySelectorAll('*'));
+  const targetElements = Array.from(target.querySelectorAll('*'));
+  sourceElements.forEach((element, index) => {
+    const copy = targetElements[index];
+    const computed = window.getComputedStyle(element);
+    const style = inlinedProperties
+      .map(property => `${property}:${computed.getPropertyValue(property)}`)
+      .join(';');
+    copy.setAttribute('style', style);
+    copy.removeAttribute('class');
+  });
+};
+
+// Site and cloud icons are lucide svgs wrapped in foreignObject, which many
+// viewers and canvas rendering do not support; lift them out as nested svgs
+const replaceForeignObjects = (svg: SVGSVGElement) => {
+  svg.querySelectorAll('foreignObject').forEach(foreignObject => {
+    const icon = foreignObject.querySelector('svg');
+    if (icon) {
+      ['x', 'y', 'width', 'height'].forEach(attribute => {
+        icon.setAttribute(attribute, foreignObject.getAttribute(attribute) ?? '0');
+      });
+      foreignObject.replaceWith(icon);
+    } else {
+      foreignObject.remove();
+    }
+  });
+};
+
+// Standalone SVG markup of what the viewer currently shows
+export function serializeTopologySvg(svg: SVGSVGElement, view: TopologyExportView): string {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  inlineComputedStyles(svg, clone);
+  replaceForeignObjects(clone);
+
+  const x = -view.panOffset.x / view.zoom;
+  const y = -view.panOffset.y / view.zoom;
+  const width = view.width / view.zoom;
+  const height = view.height / view.zoom;
+
+  clone.removeAttribute('style');
+  clone.removeAttribute('class');
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('width', String(Math.round(view.width)));
+  clone.setAttribute('height', String(Math.round(view.height)));
+  clone.setAttribute('viewBox', `${x} ${y} ${width} ${height}`);
+
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('x', String(x));
+  background.setAttribute('y', String(y));
+  background.setAttribute('width', String(width));
+  background.setAttribute('height', String(height));
+  background.setAttribute('fill', '#ffffff');
+  clone.insertBefore(background, clone.firstChild);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(clone)}`;
+}
+
+const loadImage = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Failed to render the topology diagram'));
+  image.src = url;
+});
+
+const renderToCanvas = async (markup: string, view: TopologyExportView, pixelRatio: number) => {
+  const ratio = Math.min(pixelRatio, MAX_CANVAS_SIZE / Math.max(view.width, view.height));
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }));
+  try {
+    const image = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(view.width * ratio);
+    canvas.height = Math.round(view.height * ratio);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available in this browser');
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode the topology image')), type, quality);
+  });
+
+// Minimal single-page PDF with the diagram as a full-page JPEG image. The
+// page is sized to the diagram at 72dpi so it drops into decks unscaled.
+const jpegToPdf = (jpeg: Uint8Array, imageWidth: number, imageHeight: number, pageWidth: number, pageHeight: number): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  const pageSize = `${pageWidth.toFixed(2)} ${pageHeight.toFixed(2)}`;
+  const content = `q ${pageWidth.toFixed(2)} 0 0 ${pageHeight.toFixed(2)} 0 0 cm /Im0 Do Q`;
+  const objects: (string | Uint8Array)[][] = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageSize}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`],
+    [
+      `<< /Type /XObject /Subtype /Image /Width ${imageWidth} /Height ${imageHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`,
+      jpeg,
+      '\nendstream',
+    ],
+    [`<< /Length ${content.length} >>\nstream\n${content}\nendstream`],
+  ];
+
+  write('%PDF-1.4\n');
+  objects.forEach((parts, index) => {
+    offsets.push(length);
+    write(`${index + 1} 0 obj\n`);
+    parts.forEach(part => write(part));
+    write('\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
+
+export async function renderTopologyExport(svg: SVGSVGElement, view: TopologyExportView, format: TopologyExportFormat): Promise<Blob> {
+  const markup = serializeTopologySvg(svg, view);
+  if (format === 'svg') {
+    return new Blob([markup], { type: 'image/svg+xml;charset=utf-8' });
+  }
+
+  if (format === 'png') {
+    return canvasToBlob(await renderToCanvas(markup, view, PNG_PIXEL_RATIO), 'image/png');
+  }
+
+  const canvas = await renderToCanvas(markup, view, PDF_PIXEL_RATIO);
+  const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+  return jpegToPdf(jpeg, canvas.width, canvas.height, view.width * 0.75, view.height * 0.75);
+}
+
+// File name safe version of a design or project name
+export const exportFileName = (name: string, extension: string) =>
+  `${name.trim().replace(/[^a-z0-9-_]+/gi, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'network-topology'}.${extension}`;
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
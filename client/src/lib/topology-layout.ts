@@ -0,0 +1,380 @@
+export type TopologyLayoutKind = 'force-directed' | 'hierarchical' | 'radial' | 'geographic';
+
+export const topologyLayouts: { kind: TopologyLayoutKind; label: string }[] = [
+  { kind: 'force-directed', label: 'Force-directed' },
+  { kind: 'hierarchical', label: 'Hierarchical' },
+  { kind: 'radial', label: 'Radial' },
+  { kind: 'geographic', label: 'Geographic' },
+];
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Positions in and out are normalized to the canvas, like site coordinates
+export interface LayoutSite {
+  id: string;
+  category: string;
+  position: Point;
+  latitude?: number | null;
+  longitude?: number | null;
+  cloudIds: string[]; // Clouds the site's connections are drawn to
+  siteIds: string[]; // Sites joined by point-to-point circuits
+}
+
+export interface LayoutCloud {
+  id: string;
+  position: Point;
+  radius: number; // Drawn radius in pixels
+}
+
+export interface TopologyLayoutInput {
+  sites: LayoutSite[];
+  clouds: LayoutCloud[];
+  width: number;
+  height: number;
+  hubId?: string; // Centre of the radial layout; the best connected hub site otherwise
+}
+
+// New positions; clouds are left out when the layout keeps them where they are
+export interface TopologyLayout {
+  sites: Record<string, Point>;
+  clouds: Record<string, Point>;
+}
+
+// Map lat/long onto the continental US, the same box sites are placed in when loaded
+export const convertGeoToCanvas = (latitude: number, longitude: number) => {
+  // US bounds for better positioning
+  const minLat = 24.396308; // Southern tip of Florida
+  const maxLat = 49.384358; // Northern border
+  const minLng = -125.0;    // West coast
+  const maxLng = -66.93457; // East coast
+
+  // Normalize coordinates to 0-1 range with padding
+  const normalizedLng = (longitude - minLng) / (maxLng - minLng);
+  const normalizedLat = 1 - (latitude - minLat) / (maxLat - minLat); // Flip Y axis
+
+  // Add padding and constrain to viewport
+  const padding = 0.1;
+  const x = padding + normalizedLng * (1 - 2 * padding);
+  const y = padding + normalizedLat * (1 - 2 * padding);
+
+  return {
+    x: Math.max(0.05, Math.min(0.95, x)),
+    y: Math.max(0.05, Math.min(0.95, y))
+  };
+};
+
+// Room a site needs including its name and category labels, and the gap kept around clouds
+const SITE_RADIUS = 55;
+const CLOUD_PADDING = 25;
+// Drags stop 60px from the edge; layouts keep a little further in
+const MARGIN = 70;
+
+const HUB_CATEGORIES = new Set(['Corporate', 'Data Center', 'Cloud']);
+
+interface LayoutNode extends Point {
+  id: string;
+  radius: number;
+  fixed?: boolean;
+  home?: Point; // Pulled back towards this point while overlaps are pushed apart
+}
+
+const clampToCanvas = (point: Point, width: number, height: number): Point => ({
+  x: Math.max(MARGIN, Math.min(width - MARGIN, point.x)),
+  y: Math.max(MARGIN, Math.min(height - MARGIN, point.y)),
+});
+
+const toPixels = (point: Point, width: number, height: number): Point => ({ x: point.x * width, y: point.y * height });
+
+const toResult = (siteNodes: LayoutNode[], cloudNodes: LayoutNode[], width: number, height: number): TopologyLayout => {
+  const normalize = (nodes: LayoutNode[]) => Object.fromEntries(nodes.map(node => {
+    const point = clampToCanvas(node, width, height);
+    return [node.id, { x: point.x / width, y: point.y / height }];
+  }));
+  return { sites: normalize(siteNodes), clouds: normalize(cloudNodes) };
+};
+
+const siteDegree = (site: LayoutSite) => site.cloudIds.length + site.siteIds.length;
+
+// Pushes overlapping nodes apart until every pair clears the sum of their radii.
+// Fixed nodes only push; nodes with a home drift back towards it.
+const resolveCollisions = (nodes: LayoutNode[], width: number, height: number, iterations = 150) => {
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    let moved = false;
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const a = nodes[i];
+        const b = nodes[j];
+        if (a.fixed && b.fixed) continue;
+        let dx = b.x - a.x;
+        let dy = b.y - a.y;
+        let distance = Math.hypot(dx, dy);
+        const minDistance = a.radius + b.radius;
+        if (distance >= minDistance) continue;
+
+        // Nodes on the same spot separate in a direction that depends on their order
+        if (distance < 0.01) {
+          const angle = (i * 7 + j * 13) % 360 * Math.PI / 180;
+          dx = Math.cos(angle);
+          dy = Math.sin(angle);
+          distance = 1;
+        }
+        const push = (minDistance - distance) / distance;
+        const share = a.fixed || b.fixed ? 1 : 0.5;
+        if (!a.fixed) {
+          a.x -= dx * push * share;
+          a.y -= dy * push * share;
+        }
+        if (!b.fixed) {
+          b.x += dx * push * share;
+          b.y += dy * push * share;
+        }
+        moved = true;
+      }
+    }
+
+    nodes.forEach(node => {
+      if (node.fixed) return;
+      // The pull home stops halfway so the last passes leave no overlaps
+      if (node.home && iteration < iterations / 2) {
+        node.x += (node.home.x - node.x) * 0.05;
+        node.y += (node.home.y - node.y) * 0.05;
+      }
+      Object.assign(node, clampToCanvas(node, width, height));
+    });
+    if (!moved) break;
+  }
+};
+
+// Evenly spaced x positions for a row of nodes centred on the canvas
+const spreadRow = (count: number, width: number, preferredSpacing: number) => {
+  const available = width - 2 * MARGIN;
+  const spacing = count > 1 ? Math.min(preferredSpacing, available / (count - 1)) : 0;
+  const start = width / 2 - spacing * (count - 1) / 2;
+  return Array.from({ length: count }, (_, index) => start + index * spacing);
+};
+
+// Fruchterman-Reingold: connected nodes attract, all nodes repel, and the
+// result is scaled to fill the canvas
+function forceDirectedLayout({ sites, clouds, width, height }: TopologyLayoutInput): TopologyLayout {
+  const nodes: LayoutNode[] = [
+    ...clouds.map(cloud => ({ id: cloud.id, radius: cloud.radius + CLOUD_PADDING, ...toPixels(cloud.position, width, height) })),
+    ...sites.map(site => ({ id: site.id, radius: SITE_RADIUS, ...toPixels(site.position, width, height) })),
+  ];
+  if (nodes.length === 0) return { sites: {}, clouds: {} };
+
+  const indexById = new Map(nodes.map((node, index) => [node.id, index]));
+  const edges: [number, number][] = [];
+  sites.forEach(site => {
+    const source = indexById.get(site.id)!;
+    [...site.cloudIds, ...site.siteIds].forEach(targetId => {
+      const target = indexById.get(targetId);
+      if (target !== undefined && target !== source) edges.push([source, target]);
+    });
+  });
+
+  // Start from the current layout, nudged so nodes sharing a spot can separate
+  nodes.forEach((node, index) => {
+    node.x += Math.cos(index * 2.4) * 5;
+    node.y += Math.sin(index * 2.4) * 5;
+  });
+
+  const area = (width - 2 * MARGIN) * (height - 2 * MARGIN);
+  const k = Math.sqrt(area / nodes.length) * 0.8;
+  const iterations = 300;
+  let temperature = width / 10;
+  const centre = { x: width / 2, y: height / 2 };
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const displacement = nodes.map(() => ({ x: 0, y: 0 }));
+
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const dx = nodes[i].x - nodes[j].x;
+        const dy = nodes[i].y - nodes[j].y;
+        const distance = Math.max(Math.hypot(dx, dy), 0.01);
+        const force = (k * k) / distance;
+        displacement[i].x += (dx / distance) * force;
+        displacement[i].y += (dy / distance) * force;
+        displacement[j].x -= (dx / distance) * force;
+        displacement[j].y -= (dy / distance) * force;
+      }
+    }
+
+    edges.forEach(([source, target]) => {
+      const dx = nodes[source].x - nodes[target].x;
+      const dy = nodes[source].y - nodes[target].y;
+      const distance = Math.max(Math.hypot(dx, dy), 0.01);
+      const force = (distance * distance) / k;
+      displacement[source].x -= (dx / distance) * force;
+      displacement[source].y -= (dy / distance) * force;
+      displacement[target].x += (dx / distance) * force;
+      displacement[target].y += (dy / distance) * force;
+    });
+
+    nodes.forEach((node, index) => {
+      // Light gravity keeps unconnected sites from drifting off
+      displacement[index].x += (centre.x - node.x) * 0.1;
+      displacement[index].y += (centre.y - node.y) * 0.1;
+      const length = Math.max(Math.hypot(displacement[index].x, displacement[index].y), 0.01);
+      const step = Math.min(length, temperature);
+      node.x += (displacement[index].x / length) * step;
+      node.y += (displacement[index].y / length) * step;
+    });
+
+    temperature = Math.max(temperature * 0.98, 1);
+  }
+
+  // Fit the result to the canvas without distorting it
+  const minX = Math.min(...nodes.map(node => node.x));
+  const maxX = Math.max(...nodes.map(node => node.x));
+  const minY = Math.min(...nodes.map(node => node.y));
+  const maxY = Math.max(...nodes.map(node => node.y));
+  const scale = Math.min(
+    (width - 2 * MARGIN) / Math.max(maxX - minX, 1),
+    (height - 2 * MARGIN) / Math.max(maxY - minY, 1)
+  );
+  nodes.forEach(node => {
+    node.x = centre.x + (node.x - (minX + maxX) / 2) * scale;
+    node.y = centre.y + (node.y - (minY + maxY) / 2) * scale;
+  });
+  resolveCollisions(nodes, width, height);
+
+  return toResult(nodes.slice(clouds.length), nodes.slice(0, clouds.length), width, height);
+}
+
+// Clouds across the top, hub sites (corporate, data center and cloud) in the
+// middle and branches below, each row ordered under what it connects to
+function hierarchicalLayout({ sites, clouds, width, height }: TopologyLayoutInput): TopologyLayout {
+  const xById = new Map<string, number>();
+
+  const orderedClouds = [...clouds].sort((a, b) => a.position.x - b.position.x);
+  const cloudNodes: LayoutNode[] = [];
+  spreadRow(orderedClouds.length, width, 180).forEach((x, index) => {
+    const cloud = orderedClouds[index];
+    cloudNodes.push({ id: cloud.id, radius: cloud.radius + CLOUD_PADDING, x, y: height * 0.15, fixed: true });
+    xById.set(cloud.id, x);
+  });
+
+  // Average x of what a site connects to in the rows above; its own x otherwise
+  const barycentre = (site: LayoutSite) => {
+    const xs = [...site.cloudIds, ...site.siteIds]
+      .map(id => xById.get(id))
+      .filter((x): x is number => x !== undefined);
+    return xs.length > 0 ? xs.reduce((sum, x) => sum + x, 0) / xs.length : site.position.x * width;
+  };
+
+  const hubs = sites.filter(site => HUB_CATEGORIES.has(site.category));
+  const branches = sites.filter(site => !HUB_CATEGORIES.has(site.category));
+  const siteNodes: LayoutNode[] = [];
+
+  // Rows of up to rowCapacity sites, spread over the given vertical band
+  const placeTier = (tier: LayoutSite[], top: number, bottom: number) => {
+    const ordered = tier
+      .map(site => ({ site, key: barycentre(site) }))
+      .sort((a, b) => a.key - b.key)
+      .map(({ site }) => site);
+    const rowCapacity = Math.max(1, Math.floor((width - 2 * MARGIN) / (SITE_RADIUS * 2)) + 1);
+    const rows = Math.max(1, Math.ceil(ordered.length / rowCapacity));
+    const perRow = Math.ceil(ordered.length / rows);
+
+    for (let row = 0; row < rows; row++) {
+      const rowSites = ordered.slice(row * perRow, (row + 1) * perRow);
+      const y = rows === 1 ? (top + bottom) / 2 * height : (top + (bottom - top) * row / (rows - 1)) * height;
+      spreadRow(rowSites.length, width, 160).forEach((x, index) => {
+        siteNodes.push({ id: rowSites[index].id, radius: SITE_RADIUS, x, y });
+        xById.set(rowSites[index].id, x);
+      });
+    }
+  };
+
+  if (hubs.length > 0) {
+    placeTier(hubs, 0.38, 0.48);
+    placeTier(branches, 0.68, 0.9);
+  } else {
+    placeTier(branches, 0.5, 0.88);
+  }
+  resolveCollisions([...cloudNodes, ...siteNodes], width, height);
+
+  return toResult(siteNodes, cloudNodes, width, height);
+}
+
+// The hub in the centre, its clouds on an inner ring and the other sites
+// around the outside next to the cloud they connect to
+function radialLayout({ sites, clouds, width, height, hubId }: TopologyLayoutInput): TopologyLayout {
+  const centre = { x: width / 2, y: height / 2 };
+  const radiusX = width / 2 - MARGIN;
+  const radiusY = height / 2 - MARGIN;
+  const byDegree = [...sites].sort((a, b) => siteDegree(b) - siteDegree(a));
+  const hub = sites.find(site => site.id === hubId)
+    ?? byDegree.find(site => HUB_CATEGORIES.has(site.category))
+    ?? byDegree[0];
+
+  const angleOf = (point: Point) => Math.atan2(point.y * height - centre.y, point.x * width - centre.x);
+  const onEllipse = (angle: number, ring: number) => ({
+    x: centre.x + Math.cos(angle) * radiusX * ring,
+    y: centre.y + Math.sin(angle) * radiusY * ring,
+  });
+
+  const cloudAngles = new Map<string, number>();
+  const cloudNodes: LayoutNode[] = [...clouds]
+    .sort((a, b) => angleOf(a.position) - angleOf(b.position))
+    .map((cloud, index, ordered) => {
+      const angle = -Math.PI / 2 + (index / ordered.length) * 2 * Math.PI;
+      cloudAngles.set(cloud.id, angle);
+      return { id: cloud.id, radius: cloud.radius + CLOUD_PADDING, fixed: true, ...onEllipse(angle, 0.42) };
+    });
+
+  const siteNodes: LayoutNode[] = hub ? [{ id: hub.id, radius: SITE_RADIUS, fixed: true, ...centre }] : [];
+  const outer = sites
+    .filter(site => site.id !== hub?.id)
+    .map(site => {
+      const cloudAngle = site.cloudIds.map(id => cloudAngles.get(id)).find(angle => angle !== undefined);
+      return { site, angle: cloudAngle ?? angleOf(site.position) };
+    })
+    .sort((a, b) => a.angle - b.angle);
+
+  // Sites alternate between two outer rings once one ring is crowded
+  const circumference = Math.PI * (radiusX + radiusY);
+  const twoRings = outer.length > circumference / (SITE_RADIUS * 2);
+  outer.forEach(({ site }, index) => {
+    const angle = -Math.PI / 2 + (index / outer.length) * 2 * Math.PI;
+    const ring = twoRings && index % 2 === 1 ? 0.76 : 1;
+    siteNodes.push({ id: site.id, radius: SITE_RADIUS, ...onEllipse(angle, ring) });
+  });
+  resolveCollisions([...cloudNodes, ...siteNodes], width, height);
+
+  return toResult(siteNodes, cloudNodes, width, height);
+}
+
+// Sites at their real location (or where they are, without one), moved just
+// far enough apart not to overlap. Clouds stay put.
+function geographicLayout({ sites, clouds, width, height }: TopologyLayoutInput): TopologyLayout {
+  const cloudNodes: LayoutNode[] = clouds.map(cloud => ({
+    id: cloud.id,
+    radius: cloud.radius + CLOUD_PADDING,
+    fixed: true,
+    ...toPixels(cloud.position, width, height),
+  }));
+  const siteNodes: LayoutNode[] = sites.map(site => {
+    const position = site.latitude != null && site.longitude != null
+      ? convertGeoToCanvas(site.latitude, site.longitude)
+      : site.position;
+    const home = toPixels(position, width, height);
+    return { id: site.id, radius: SITE_RADIUS, home, ...home };
+  });
+  resolveCollisions([...cloudNodes, ...siteNodes], width, height, 300);
+
+  return { sites: toResult(siteNodes, [], width, height).sites, clouds: {} };
+}
+
+export function computeTopologyLayout(kind: TopologyLayoutKind, input: TopologyLayoutInput): TopologyLayout {
+  switch (kind) {
+    case 'force-directed': return forceDirectedLayout(input);
+    case 'hierarchical': return hierarchicalLayout(input);
+    case 'radial': return radialLayout(input);
+    case 'geographic': return geographicLayout(input);
+  }
+}
@@ -0,0 +1,252 @@
+import type { LngLat } from './basemap';
+import { targetCloudFor } from '@shared/topology';
+
+// Path tracing between two nodes of the topology: every route across WAN
+// clouds, Megaport POPs and point-to-point links, with the carriers used, the
+// narrowest bandwidth and a rough latency estimate
+
+export type PathNodeKind = 'site' | 'cloud' | 'pop';
+
+export interface PathNode {
+  key: string;
+  kind: PathNodeKind;
+  id: string;
+  name: string;
+  location?: LngLat;
+  cloudType?: string;
+  transit: boolean; // Traffic can pass through; branches only start or end a path
+}
+
+export type PathLinkKind = 'circuit' | 'point-to-point' | 'fabric' | 'onramp';
+
+export interface PathLink {
+  from: string;
+  to: string;
+  kind: PathLinkKind;
+  carrier?: string;
+  bandwidth?: string;
+}
+
+export interface TracedPath {
+  nodes: PathNode[];
+  links: PathLink[];
+  carriers: string[];
+  narrowestBandwidth: string | null; // null when no link on the path has a known bandwidth
+  latencyMs: number; // Estimated round trip
+}
+
+export interface PathSite {
+  id: string;
+  name: string;
+  category: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  nearestMegaportPop?: string | null;
+  connections: { type: string; bandwidth: string; provider?: string; customProvider?: string; cloudId?: string; pointToPointEndpoint?: string }[];
+}
+
+export interface PathGraphInput {
+  sites: PathSite[];
+  clouds: { id: string; name: string; type: string }[];
+  pops: { id: string; name: string; location?: LngLat }[];
+}
+
+export const pathNodeKey = (kind: PathNodeKind, id: string) => `${kind}:${id}`;
+
+const hubCategories = ['Corporate', 'Data Center', 'Cloud'];
+const hyperscalerCloudTypes = ['AWS', 'Azure', 'GCP'];
+
+// One-way delay added crossing each kind of network, in milliseconds
+const transitDelayMs: Record<string, number> = {
+  'Internet': 8,
+  'MPLS': 3,
+  'SD-WAN': 5,
+  'NaaS': 1,
+};
+const DEFAULT_CLOUD_DELAY_MS = 2;
+const POP_DELAY_MS = 0.5;
+const SITE_DELAY_MS = 0.5;
+// Light covers about 124 miles per millisecond in fiber, and fiber routes run
+// about half as long again as the straight line
+const MILES_PER_MS = 124;
+const ROUTE_FACTOR = 1.5;
+
+const MAX_HOPS = 8;
+const MAX_PATHS = 10;
+const MAX_CANDIDATES = 500;
+
+// Mbps in a bandwidth such as "100 Mbps" or "1 Gbps"
+export function parseBandwidthMbps(bandwidth: string): number | null {
+  const match = bandwidth.match(/(\d+(?:\.\d+)?)/);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  const unit = bandwidth.slice(match.index! + match[0].length).trim().toLowerCase();
+  if (unit.startsWith('t')) return value * 1_000_000;
+  if (unit.startsWith('g')) return value * 1000;
+  if (unit.startsWith('k')) return value / 1000;
+  return value;
+}
+
+const distanceMiles = ([lng1, lat1]: LngLat, [lng2, lat2]: LngLat) => {
+  const toRadians = Math.PI / 180;
+  const dLat = (lat2 - lat1) * toRadians;
+  const dLng = (lng2 - lng1) * toRadians;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * toRadians) * Math.cos(lat2 * toRadians) * Math.sin(dLng / 2) ** 2;
+  return 3959 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// The POP a site's NaaS circuits land on: the one named as its nearest
+// Megaport POP, otherwise the closest located one
+function homePop(site: PathSite, pops: PathGraphInput['pops']) {
+  const named = site.nearestMegaportPop?.toLowerCase();
+  const byName = named && pops.find(pop => named.includes(pop.name.toLowerCase()));
+  if (byName) return byName;
+  if (site.latitude == null || site.longitude == null) return undefined;
+  const location: LngLat = [site.longitude, site.latitude];
+  return pops
+    .filter(pop => pop.location)
+    .sort((a, b) => distanceMiles(location, a.location!) - distanceMiles(location, b.location!))[0];
+}
+
+function buildGraph(input: PathGraphInput) {
+  const nodes = new Map<string, PathNode>();
+  const links: PathLink[] = [];
+  const siteKeys = new Map<string, string>();
+
+  input.sites.forEach(site => {
+    const key = pathNodeKey('site', site.id);
+    nodes.set(key, {
+      key,
+      kind: 'site',
+      id: site.id,
+      name: site.name,
+      location: site.latitude != null && site.longitude != null ? [site.longitude, site.latitude] : undefined,
+      transit: hubCategories.includes(site.category),
+    });
+    siteKeys.set(site.name.toLowerCase(), key);
+  });
+  input.clouds.forEach(cloud => {
+    const key = pathNodeKey('cloud', cloud.id);
+    nodes.set(key, { key, kind: 'cloud', id: cloud.id, name: cloud.name, cloudType: cloud.type, transit: true });
+  });
+
+  const addPop = (pop: PathGraphInput['pops'][number]) => {
+    const key = pathNodeKey('pop', pop.id);
+    if (!nodes.has(key)) {
+      nodes.set(key, { key, kind: 'pop', id: pop.id, name: `Megaport ${pop.name}`, location: pop.location, transit: true });
+    }
+    return key;
+  };
+
+  input.sites.forEach(site => site.connections.forEach(connection => {
+    const from = pathNodeKey('site', site.id);
+    const link = { carrier: connection.customProvider || connection.provider, bandwidth: connection.bandwidth };
+    const endpoint = connection.type === 'point-to-point' && connection.pointToPointEndpoint
+      ? siteKeys.get(connection.pointToPointEndpoint.toLowerCase())
+      : undefined;
+    if (endpoint) {
+      if (endpoint !== from) links.push({ ...link, from, to: endpoint, kind: 'point-to-point' });
+      return;
+    }
+
+    const cloud = targetCloudFor(connection, input.clouds);
+    if (!cloud) return;
+    const cloudKey = pathNodeKey('cloud', cloud.id);
+    // NaaS circuits reach the Megaport fabric through the site's POP
+    const pop = cloud.type === 'NaaS' ? homePop(site, input.pops) : undefined;
+    if (pop) {
+      const popKey = addPop(pop);
+      links.push({ ...link, from, to: popKey, kind: 'circuit' });
+      if (!links.some(existing => existing.from === popKey && existing.to === cloudKey)) {
+        links.push({ from: popKey, to: cloudKey, kind: 'fabric', carrier: 'Megaport' });
+      }
+    } else {
+      links.push({ ...link, from, to: cloudKey, kind: 'circuit' });
+    }
+  }));
+
+  // The Megaport fabric reaches the hyperscalers through its cloud on-ramps
+  input.clouds.filter(cloud => cloud.type === 'NaaS').forEach(naas => {
+    input.clouds.filter(cloud => hyperscalerCloudTypes.includes(cloud.type)).forEach(cloud => {
+      links.push({ from: pathNodeKey('cloud', naas.id), to: pathNodeKey('cloud', cloud.id), kind: 'onramp', carrier: 'Megaport' });
+    });
+  });
+
+  return { nodes, links };
+}
+
+function estimateLatencyMs(nodes: PathNode[]): number {
+  let oneWay = 0;
+  let lastLocation: LngLat | undefined;
+  nodes.forEach((node, index) => {
+    if (node.location) {
+      if (lastLocation) oneWay += (distanceMiles(lastLocation, node.location) * ROUTE_FACTOR) / MILES_PER_MS;
+      lastLocation = node.location;
+    }
+    if (index === 0 || index === nodes.length - 1) return;
+    if (node.kind === 'cloud') oneWay += transitDelayMs[node.cloudType ?? ''] ?? DEFAULT_CLOUD_DELAY_MS;
+    else if (node.kind === 'pop') oneWay += POP_DELAY_MS;
+    else oneWay += SITE_DELAY_MS;
+  });
+  return Math.round(oneWay * 2 * 10) / 10;
+}
+
+function describePath(nodes: PathNode[], links: PathLink[]): TracedPath {
+  let narrowest: { bandwidth: string; mbps: number } | null = null;
+  for (const link of links) {
+    const mbps = link.bandwidth ? parseBandwidthMbps(link.bandwidth) : null;
+    if (mbps != null && (!narrowest || mbps < narrowest.mbps)) narrowest = { bandwidth: link.bandwidth!, mbps };
+  }
+  return {
+    nodes,
+    links,
+    carriers: Array.from(new Set(links.map(link => link.carrier).filter((carrier): carrier is string => !!carrier))),
+    narrowestBandwidth: narrowest?.bandwidth ?? null,
+    latencyMs: estimateLatencyMs(nodes),
+  };
+}
+
+// Routes between two nodes, fastest first. Parallel circuits between the
+// same nodes are separate routes, since they usually differ in carrier.
+export function tracePaths(input: PathGraphInput, fromKey: string, toKey: string): TracedPath[] {
+  if (fromKey === toKey) return [];
+  const { nodes, links } = buildGraph(input);
+  if (!nodes.has(fromKey) || !nodes.has(toKey)) return [];
+
+  const adjacent = new Map<string, { link: PathLink; next: string }[]>();
+  links.forEach(link => {
+    if (!adjacent.has(link.from)) adjacent.set(link.from, []);
+    if (!adjacent.has(link.to)) adjacent.set(link.to, []);
+    adjacent.get(link.from)!.push({ link, next: link.to });
+    adjacent.get(link.to)!.push({ link, next: link.from });
+  });
+
+  const found: TracedPath[] = [];
+  const visited = new Set([fromKey]);
+  const pathNodes = [nodes.get(fromKey)!];
+  const pathLinks: PathLink[] = [];
+
+  const walk = (key: string) => {
+    if (found.length >= MAX_CANDIDATES || pathLinks.length >= MAX_HOPS) return;
+    (adjacent.get(key) ?? []).forEach(({ link, next }) => {
+      if (visited.has(next)) return;
+      const node = nodes.get(next)!;
+      pathNodes.push(node);
+      pathLinks.push(link);
+      if (next === toKey) {
+        found.push(describePath([...pathNodes], [...pathLinks]));
+      } else if (node.transit) {
+        visited.add(next);
+        walk(next);
+        visited.delete(next);
+      }
+      pathNodes.pop();
+      pathLinks.pop();
+    });
+  };
+  walk(fromKey);
+
+  return found
+    .sort((a, b) => a.latencyMs - b.latencyMs || a.links.length - b.links.length)
+    .slice(0, MAX_PATHS);
+}
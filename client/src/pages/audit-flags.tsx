@@ -3,7 +3,7 @@ import TopBar from "@/components/layout/top-bar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { AlertTriangle, CheckCircle, Clock, Flag } from "lucide-react";
+import { AlertTriangle, CheckCircle, Clock, FileQuestion, Flag } from "lucide-react";
 import { AuditFlag } from "@shared/schema";
 
 export default function AuditFlags() {
@@ -35,6 +35,7 @@ export default function AuditFlags() {
       case "high-cost": return AlertTriangle;
       case "opportunity": return Flag;
       case "contract": return Clock;
+      case "missing-from-import": return FileQuestion;
       default: return AlertTriangle;
     }
   };
@@ -84,6 +85,11 @@ export default function AuditFlags() {
                         </div>
                       </div>
                       <div className="flex items-center space-x-2">
+                        {flag.isInternal && (
+                          <Badge variant="outline" className="bg-muted text-muted-foreground">
+                            Internal
+                          </Badge>
+                        )}
                         {getSeverityBadge(flag.severity)}
                         {flag.isResolved ? (
                           <Badge variant="outline" className="bg-success/10 text-success border-success/20">
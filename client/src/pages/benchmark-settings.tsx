@@ -1,14 +1,73 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import TopBar from "@/components/layout/top-bar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Settings, Save } from "lucide-react";
+import { Settings, Save, Lock } from "lucide-react";
+import type { BenchmarkSettings as BenchmarkSettingsData } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+
+type SettingsForm = Omit<BenchmarkSettingsData, 'id' | 'updatedBy' | 'updatedAt'>;
 
 export default function BenchmarkSettings() {
+  const { canEditBenchmarkSettings } = usePermissions();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<SettingsForm | null>(null);
+
+  const { data: settings, isLoading } = useQuery<BenchmarkSettingsData>({
+    queryKey: ["/api/benchmark-settings"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      const { id, updatedBy, updatedAt, ...rest } = settings;
+      setForm(rest);
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: SettingsForm) => {
+      const res = await apiRequest("PUT", "/api/benchmark-settings", data);
+      return res.json();
+    },
+    onSuccess: (updated: BenchmarkSettingsData) => {
+      queryClient.setQueryData(["/api/benchmark-settings"], updated);
+      toast({ title: "Settings Saved", description: "Benchmark settings have been updated." });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save benchmark settings.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSave = () => {
-    console.log("Save benchmark settings");
+    if (form) saveMutation.mutate(form);
+  };
+
+  const updateField = <K extends keyof SettingsForm>(field: K, value: SettingsForm[K]) => {
+    setForm(prev => prev ? { ...prev, [field]: value } : prev);
   };
 
+  if (isLoading || !form) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading benchmark settings...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const readOnly = !canEditBenchmarkSettings;
+
   return (
     <div className="h-full flex flex-col">
       <TopBar
@@ -18,6 +77,13 @@ export default function BenchmarkSettings() {
 
       <div className="flex-1 p-6 overflow-y-auto">
         <div className="max-w-3xl mx-auto space-y-6">
+          {readOnly && (
+            <div className="flex items-center space-x-2 text-sm text-muted-foreground bg-muted rounded-lg px-4 py-3">
+              <Lock className="w-4 h-4" />
+              <span>Only administrators can change benchmark settings.</span>
+            </div>
+          )}
+
           {/* Cost Thresholds */}
           <Card className="border-neutral-200">
             <CardHeader>
@@ -35,7 +101,9 @@ export default function BenchmarkSettings() {
                   <Input 
                     type="number"
                     step="0.01"
-                    defaultValue="10.00"
+                    value={form.highCostThreshold}
+                    onChange={(e) => updateField('highCostThreshold', e.target.value)}
+                    disabled={readOnly}
                     placeholder="Enter threshold..."
                   />
                   <p className="text-xs text-muted-foreground mt-1">
@@ -49,7 +117,9 @@ export default function BenchmarkSettings() {
                   <Input 
                     type="number"
                     step="0.01"
-                    defaultValue="5.00"
+                    value={form.excellentValueThreshold}
+                    onChange={(e) => updateField('excellentValueThreshold', e.target.value)}
+                    disabled={readOnly}
                     placeholder="Enter threshold..."
                   />
                   <p className="text-xs text-muted-foreground mt-1">
@@ -67,20 +137,19 @@ export default function BenchmarkSettings() {
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-4">
-                {[
-                  { service: "MPLS", benchmark: "8.50" },
-                  { service: "Ethernet", benchmark: "6.75" },
-                  { service: "Private Backbone", benchmark: "4.25" },
-                  { service: "Fiber", benchmark: "3.50" },
-                  { service: "Dark Fiber", benchmark: "1.25" },
-                ].map((item) => (
-                  <div key={item.service} className="flex items-center justify-between">
-                    <span className="text-sm font-medium text-foreground">{item.service}</span>
+                {Object.entries(form.serviceBenchmarks).map(([service, benchmark]) => (
+                  <div key={service} className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-foreground">{service}</span>
                     <div className="flex items-center space-x-2">
                       <Input 
                         type="number"
                         step="0.01"
-                        defaultValue={item.benchmark}
+                        value={benchmark}
+                        onChange={(e) => updateField('serviceBenchmarks', {
+                          ...form.serviceBenchmarks,
+                          [service]: parseFloat(e.target.value) || 0,
+                        })}
+                        disabled={readOnly}
                         className="w-24"
                       />
                       <span className="text-sm text-muted-foreground">$/Mbps</span>
@@ -102,9 +171,14 @@ export default function BenchmarkSettings() {
                   <label className="text-sm font-medium text-foreground mb-2 block">
                     Minimum Redundancy Requirement
                   </label>
-                  <select className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground">
+                  <select
+                    className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground"
+                    value={form.minimumRedundancy}
+                    onChange={(e) => updateField('minimumRedundancy', e.target.value)}
+                    disabled={readOnly}
+                  >
                     <option value="single">Single Circuit</option>
-                    <option value="dual" selected>Dual Circuit</option>
+                    <option value="dual">Dual Circuit</option>
                     <option value="triple">Triple Circuit</option>
                   </select>
                   <p className="text-xs text-muted-foreground mt-1">
@@ -118,7 +192,9 @@ export default function BenchmarkSettings() {
                   <Input 
                     type="number"
                     step="0.01"
-                    defaultValue="99.95"
+                    value={form.slaUptime}
+                    onChange={(e) => updateField('slaUptime', e.target.value)}
+                    disabled={readOnly}
                     placeholder="Enter percentage..."
                   />
                   <p className="text-xs text-muted-foreground mt-1">
@@ -131,10 +207,15 @@ export default function BenchmarkSettings() {
                   <label className="text-sm font-medium text-foreground mb-2 block">
                     Diverse Path Requirement
                   </label>
-                  <select className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground">
+                  <select
+                    className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground"
+                    value={form.diversePath}
+                    onChange={(e) => updateField('diversePath', e.target.value)}
+                    disabled={readOnly}
+                  >
                     <option value="none">Not Required</option>
                     <option value="preferred">Preferred</option>
-                    <option value="required" selected>Required</option>
+                    <option value="required">Required</option>
                   </select>
                   <p className="text-xs text-muted-foreground mt-1">
                     Physical path diversity requirements
@@ -146,7 +227,9 @@ export default function BenchmarkSettings() {
                   </label>
                   <Input 
                     type="number"
-                    defaultValue="4"
+                    value={form.mttrHours}
+                    onChange={(e) => updateField('mttrHours', parseInt(e.target.value) || 0)}
+                    disabled={readOnly}
                     placeholder="Enter hours..."
                   />
                   <p className="text-xs text-muted-foreground mt-1">
@@ -169,7 +252,9 @@ export default function BenchmarkSettings() {
                 </label>
                 <Input 
                   type="number"
-                  defaultValue="90"
+                  value={form.contractAlertDays}
+                  onChange={(e) => updateField('contractAlertDays', parseInt(e.target.value) || 0)}
+                  disabled={readOnly}
                   placeholder="Enter days..."
                 />
                 <p className="text-xs text-muted-foreground mt-1">
@@ -180,12 +265,14 @@ export default function BenchmarkSettings() {
           </Card>
 
           {/* Save Button */}
-          <div className="flex justify-end">
-            <Button onClick={handleSave}>
-              <Save className="w-4 h-4 mr-2" />
-              Save Settings
-            </Button>
-          </div>
+          {!readOnly && (
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={saveMutation.isPending}>
+                <Save className="w-4 h-4 mr-2" />
+                {saveMutation.isPending ? 'Saving...' : 'Save Settings'}
+              </Button>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -9,11 +9,16 @@ import ImportDialog from "@/components/inventory/import-dialog";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { TrendingUp, ArrowRight } from "lucide-react";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useCircuitExport } from "@/hooks/use-circuit-export";
+import type { CircuitView } from "@shared/circuit-export";
 
 export default function Dashboard() {
   // Get current project ID from localStorage
   const projectId = localStorage.getItem('currentProjectId') || "project-1";
   const [showImportDialog, setShowImportDialog] = useState(false);
+  const [circuitView, setCircuitView] = useState<CircuitView>({});
+  const { canEditProject, canViewInternalData } = usePermissions(projectId);
 
   const { data: metrics, isLoading } = useQuery({
     queryKey: ["/api/projects", projectId, "metrics"],
@@ -39,9 +44,10 @@ export default function Dashboard() {
     setShowImportDialog(true);
   };
 
+  const circuitExport = useCircuitExport(projectId);
+
   const handleExport = () => {
-    // TODO: Implement export functionality
-    console.log("Export report");
+    circuitExport.mutate({ format: "xlsx", view: circuitView });
   };
 
   const formatCurrency = (amount: number) => 
@@ -65,7 +71,7 @@ export default function Dashboard() {
       <TopBar
         title="Enterprise Network Audit - Acme Corp"
         subtitle={subtitle}
-        onImport={handleImport}
+        onImport={canEditProject ? handleImport : undefined}
         onExport={handleExport}
       />
 
@@ -109,19 +115,21 @@ export default function Dashboard() {
           </div>
         )}
 
-        <CircuitTable />
+        <CircuitTable onViewChange={setCircuitView} />
 
         <div className="mt-8 grid grid-cols-3 gap-6">
           <BenchmarkAnalysis />
-          <QuickActions />
+          {canViewInternalData && <QuickActions onExportExcel={handleExport} />}
         </div>
       </div>
 
-      <ImportDialog 
-        isOpen={showImportDialog}
-        onClose={() => setShowImportDialog(false)}
-        projectId={projectId}
-      />
+      {canEditProject && (
+        <ImportDialog 
+          isOpen={showImportDialog}
+          onClose={() => setShowImportDialog(false)}
+          projectId={projectId}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -2,11 +2,17 @@ import { useState, useMemo } from "react";
 import TopBar from "@/components/layout/top-bar";
 import CircuitTable from "@/components/inventory/circuit-table";
 import ImportDialog from "@/components/inventory/import-dialog";
-import AddCircuitDialog from "@/components/inventory/add-circuit-dialog";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Download, FileSpreadsheet, FileText, Upload } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useCircuitExport } from "@/hooks/use-circuit-export";
+import type { CircuitExportFormat, CircuitView } from "@shared/circuit-export";
 
 export default function Inventory() {
   const [showImportDialog, setShowImportDialog] = useState(false);
+  const [circuitView, setCircuitView] = useState<CircuitView>({});
   
   // Get current project ID from URL
   const currentProjectId = useMemo(() => {
@@ -16,6 +22,7 @@ export default function Inventory() {
       ? pathParts[projectIndex + 1]
       : 'demo-project-1'; // fallback to demo project
   }, []);
+  const { canEditProject } = usePermissions(currentProjectId);
 
   // Fetch project details
   const { data: project } = useQuery({
@@ -32,9 +39,10 @@ export default function Inventory() {
     setShowImportDialog(true);
   };
 
-  const handleExport = () => {
-    // TODO: Implement inventory export
-    console.log("Export inventory");
+  const circuitExport = useCircuitExport(currentProjectId);
+
+  const handleExport = (format: CircuitExportFormat) => {
+    circuitExport.mutate({ format, view: circuitView });
   };
 
   return (
@@ -48,14 +56,36 @@ export default function Inventory() {
             <p className="text-sm text-gray-600">Manage and analyze your telecom circuits</p>
           </div>
           <div className="flex items-center space-x-3">
-            <ImportDialog />
-            <AddCircuitDialog />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={circuitExport.isPending} data-testid="button-export-circuits">
+                  <Download className="w-4 h-4 mr-2" />
+                  {circuitView.ids?.length ? `Export ${circuitView.ids.length} Selected` : "Export"}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport("xlsx")} data-testid="menu-export-xlsx">
+                  <FileSpreadsheet className="w-4 h-4 mr-2" />
+                  Excel (.xlsx)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport("csv")} data-testid="menu-export-csv">
+                  <FileText className="w-4 h-4 mr-2" />
+                  CSV
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            {canEditProject && (
+              <Button variant="outline" onClick={handleImport} data-testid="button-open-import">
+                <Upload className="w-4 h-4 mr-2" />
+                Import Data
+              </Button>
+            )}
           </div>
         </div>
       </div>
 
       <div className="flex-1 p-6">
-        <CircuitTable />
+        <CircuitTable onViewChange={setCircuitView} />
       </div>
 
       <ImportDialog 
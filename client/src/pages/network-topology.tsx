@@ -1,12 +1,21 @@
-import { useState, useEffect, useMemo, useRef } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Network, Settings } from "lucide-react";
-import TopologyViewer from "@/components/network/topology-viewer";
+import { ArrowLeft, Network, Settings, GitCompare, Upload } from "lucide-react";
+import TopologyViewer, { type TopologyViewSettings } from "@/components/network/topology-viewer";
 import SiteList from "@/components/network/site-list";
 import AddConnectionDialog from "@/components/network/add-connection-dialog";
-import { Circuit } from "@shared/schema";
+import DesignVersions from "@/components/network/design-versions";
+import TopologyComparison from "@/components/network/topology-comparison";
+import DrawioImportDialog from "@/components/network/drawio-import-dialog";
+import { Circuit, type Site as ProjectSite, type TopologyDesign, type InsertTopologyDesign, type TopologyConnection, type WanCloud } from "@shared/schema";
+import { nameBasedSiteId, circuitConnection } from "@shared/topology";
+import { usePermissions } from "@/hooks/use-permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useUndoHistory } from "@/hooks/use-undo-history";
+import { convertGeoToCanvas } from "@/lib/topology-layout";
 
 interface Site {
   id: string;
@@ -15,24 +24,55 @@ interface Site {
   category: "Branch" | "Corporate" | "Data Center" | "Cloud";
   connections: Connection[];
   coordinates: { x: number; y: number };
+  latitude?: number | null;
+  longitude?: number | null;
+  state?: string | null;
+  nearestMegaportPop?: string | null;
 }
 
-interface WANCloud {
-  id: string;
-  type: string;
-  name: string;
-  x: number;
-  y: number;
-  color: string;
-}
+// Circuits and proposed connections as drawn; connections added elsewhere may lack ids
+type Connection = Omit<TopologyConnection, 'id' | 'siteId'> & { id?: string };
 
-interface Connection {
-  type: string;
-  bandwidth: string;
-  provider?: string;
-  pointToPointEndpoint?: string;
-  customProvider?: string;
-}
+type WANCloudUpdates = Partial<Pick<WanCloud, 'name' | 'type' | 'color' | 'x' | 'y'>>;
+
+// Designs used to be kept in the browser; they are read once so existing
+// layouts carry over, and dropped after the first save to the server
+const legacyDesignKey = (projectId: string) => `network-topology-design-${projectId}`;
+
+const loadLegacySitePositions = (projectId: string): Record<string, { x: number; y: number }> => {
+  try {
+    const designData = JSON.parse(localStorage.getItem(legacyDesignKey(projectId)) || 'null');
+    if (!Array.isArray(designData?.sites)) return {};
+    return Object.fromEntries(designData.sites.map((site: Site) => [site.id, site.coordinates]));
+  } catch (error) {
+    console.error('Failed to load saved design:', error);
+    return {};
+  }
+};
+
+// Positions saved with a design; a current design never saved on the server
+// falls back to the layout once kept in the browser
+const withSavedPositions = (sites: Site[], design: TopologyDesign): Site[] => {
+  const savedPositions = Object.keys(design.sitePositions).length === 0 && design.kind === 'current'
+    ? loadLegacySitePositions(design.projectId)
+    : design.sitePositions;
+  return sites.map(site => {
+    const coordinates = savedPositions[site.id] ?? savedPositions[nameBasedSiteId(design.projectId, site.name)];
+    return coordinates ? { ...site, coordinates } : site;
+  });
+};
+
+// Everything saved with a design, with the given changes applied
+const designPayload = (design: TopologyDesign, changes: Partial<InsertTopologyDesign>): InsertTopologyDesign => ({
+  name: design.name,
+  connections: design.connections,
+  sitePositions: design.sitePositions,
+  hiddenClouds: design.hiddenClouds,
+  cloudVisibility: design.cloudVisibility,
+  connectionVisibility: design.connectionVisibility,
+  customOnramps: design.customOnramps,
+  ...changes,
+});
 
 const NetworkTopologyPage = () => {
   const [sites, setSites] = useState<Site[]>([]);
@@ -41,7 +81,18 @@ const NetworkTopologyPage = () => {
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [showAddConnectionDialog, setShowAddConnectionDialog] = useState(false);
   const [connectionType, setConnectionType] = useState<string>("");
-  const [customClouds, setCustomClouds] = useState<WANCloud[]>([]);
+  const [connectionCloudId, setConnectionCloudId] = useState<string | undefined>();
+  // Cloud drags are kept until the design is saved rather than sent on every move
+  const [pendingCloudMoves, setPendingCloudMoves] = useState<Record<string, { x: number; y: number }>>({});
+  const [isComparing, setIsComparing] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  // Bumped when an import moves things on the open design, so the viewer reloads its layout
+  const [layoutVersion, setLayoutVersion] = useState(0);
+  // Undo/redo for the open design; kept across saves, cleared when another design opens
+  const history = useUndoHistory();
+  // Deleted sites, and the circuits linked to each deleted cloud, kept in case the delete is undone
+  const deletedSites = useRef<Record<string, Site>>({});
+  const deletedCloudLinks = useRef<Record<string, string[]>>({});
 
   // Get current project ID from URL with fallback
   const currentProjectId = useMemo(() => {
@@ -56,9 +107,119 @@ const NetworkTopologyPage = () => {
       }
     }
     
-    // Fallback to demo project if no project ID found
-    return 'demo-project-1';
+    // Fall back to the selected project, then the demo project
+    return localStorage.getItem('currentProjectId') || 'demo-project-1';
   }, []);
+  const { canEditProject, isClient } = usePermissions(currentProjectId);
+  const { toast } = useToast();
+  const designsQueryKey = ['/api/projects', currentProjectId, 'topology-designs'];
+
+  // Design versions, current state first; the current state opens by default
+  const { data: designs = [], isLoading: designLoading } = useQuery<TopologyDesign[]>({
+    queryKey: designsQueryKey,
+    enabled: !!currentProjectId
+  });
+  const [activeDesignId, setActiveDesignId] = useState<string | null>(null);
+  const activeDesign = designs.find(design => design.id === activeDesignId) ?? designs[0];
+
+  // Saves go out one at a time, in order, and show in the cache straight away,
+  // so a change made while an earlier save is in flight builds on it and the
+  // last save sent is the one the server keeps
+  const saveDesignMutation = useMutation({
+    mutationKey: ['save-topology-design'],
+    scope: { id: 'save-topology-design' },
+    mutationFn: async ({ designId, design }: { designId: string; design: InsertTopologyDesign }) => {
+      const res = await apiRequest('PUT', `/api/topology-designs/${designId}`, design);
+      return (await res.json()) as TopologyDesign;
+    },
+    onMutate: async ({ designId, design }) => {
+      await queryClient.cancelQueries({ queryKey: designsQueryKey });
+      queryClient.setQueryData<TopologyDesign[]>(designsQueryKey, prev =>
+        prev?.map(existing => existing.id === designId ? { ...existing, ...design } : existing)
+      );
+    },
+    onSuccess: (design) => {
+      // Later saves already in the cache stay there until they are sent too
+      if (queryClient.isMutating({ mutationKey: ['save-topology-design'] }) <= 1) {
+        queryClient.setQueryData<TopologyDesign[]>(designsQueryKey, prev =>
+          prev?.map(existing => existing.id === design.id ? design : existing)
+        );
+      }
+      localStorage.removeItem(legacyDesignKey(currentProjectId));
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: designsQueryKey });
+      toast({ title: 'Failed to save design', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const cloneDesignMutation = useMutation({
+    mutationFn: async ({ name, sourceId }: { name: string; sourceId: string }) => {
+      const res = await apiRequest('POST', `/api/projects/${currentProjectId}/topology-designs`, { name, sourceId });
+      return (await res.json()) as TopologyDesign;
+    },
+    onSuccess: (design) => {
+      queryClient.invalidateQueries({ queryKey: designsQueryKey });
+      handleSelectDesign(design.id);
+      toast({ title: 'Design Created', description: `"${design.name}" is now open.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to clone design', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteDesignMutation = useMutation({
+    mutationFn: async (designId: string) => {
+      await apiRequest('DELETE', `/api/topology-designs/${designId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: designsQueryKey });
+      handleSelectDesign(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to delete design', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const wanCloudsQueryKey = ['/api/topology-designs', activeDesign?.id, 'wan-clouds'];
+
+  const { data: wanClouds = [], isLoading: wanCloudsLoading } = useQuery<WanCloud[]>({
+    queryKey: wanCloudsQueryKey,
+    enabled: !!activeDesign
+  });
+
+  const onWanCloudError = (error: Error) => {
+    toast({ title: 'Failed to update WAN cloud', description: error.message, variant: 'destructive' });
+  };
+
+  const updateWanCloudMutation = useMutation({
+    mutationFn: async ({ cloudId, updates }: { cloudId: string; updates: WANCloudUpdates }) => {
+      await apiRequest('PATCH', `/api/wan-clouds/${cloudId}`, updates);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: wanCloudsQueryKey }),
+    onError: onWanCloudError,
+  });
+
+  const createWanCloudMutation = useMutation({
+    mutationFn: async (cloud: WANCloudUpdates) => {
+      const res = await apiRequest('POST', `/api/topology-designs/${activeDesign?.id}/wan-clouds`, cloud);
+      return (await res.json()) as WanCloud;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: wanCloudsQueryKey }),
+    onError: onWanCloudError,
+  });
+
+  const deleteWanCloudMutation = useMutation({
+    mutationFn: async (cloudId: string) => {
+      await apiRequest('DELETE', `/api/wan-clouds/${cloudId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: wanCloudsQueryKey });
+      // Circuits connected to the cloud lose the link
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', currentProjectId, 'circuits'] });
+    },
+    onError: onWanCloudError,
+  });
 
   // Fetch circuits from the current project's inventory
   const { data: circuits = [], isLoading: circuitsLoading } = useQuery<Circuit[]>({
@@ -73,7 +234,7 @@ const NetworkTopologyPage = () => {
   });
 
   // Fetch sites for geographic data from current project
-  const { data: sitesData = [], isLoading: sitesLoading } = useQuery<any[]>({
+  const { data: sitesData = [], isLoading: sitesLoading } = useQuery<ProjectSite[]>({
     queryKey: ['/api/projects', currentProjectId, 'sites'],
     queryFn: async () => {
       if (!currentProjectId) return [];
@@ -84,31 +245,9 @@ const NetworkTopologyPage = () => {
     enabled: !!currentProjectId
   });
 
-  // Function to convert geographic coordinates to normalized canvas coordinates
-  const convertGeoToCanvas = (latitude: number, longitude: number) => {
-    // US bounds for better positioning
-    const minLat = 24.396308; // Southern tip of Florida
-    const maxLat = 49.384358; // Northern border
-    const minLng = -125.0;    // West coast
-    const maxLng = -66.93457; // East coast
-
-    // Normalize coordinates to 0-1 range with padding
-    const normalizedLng = (longitude - minLng) / (maxLng - minLng);
-    const normalizedLat = 1 - (latitude - minLat) / (maxLat - minLat); // Flip Y axis
-
-    // Add padding and constrain to viewport
-    const padding = 0.1;
-    const x = padding + normalizedLng * (1 - 2 * padding);
-    const y = padding + normalizedLat * (1 - 2 * padding);
-
-    return {
-      x: Math.max(0.05, Math.min(0.95, x)),
-      y: Math.max(0.05, Math.min(0.95, y))
-    };
-  };
-
-  // Convert circuits to sites format for visualization
-  const processedSites = useMemo(() => {
+  // Convert circuits to sites format for visualization. The current design
+  // draws every circuit; proposed designs draw their own connections.
+  const buildSites = useCallback((design: TopologyDesign): Site[] => {
     if (!currentProjectId) {
       return [];
     }
@@ -116,140 +255,128 @@ const NetworkTopologyPage = () => {
     // Filter circuits and sites by project ID to ensure project isolation
     const projectCircuits = circuits.filter(circuit => circuit.projectId === currentProjectId);
     const projectSites = sitesData.filter(site => site.projectId === currentProjectId);
+    const proposedConnections = design.kind === 'proposed' ? design.connections ?? [] : null;
 
     // If no circuits but we have sites data, use sites data
-    if (projectCircuits.length === 0 && projectSites.length > 0) {
+    if (projectCircuits.length === 0 && projectSites.length > 0 && !proposedConnections?.length) {
       return projectSites.map(site => ({
         ...site,
+        category: site.category as Site['category'],
         connections: [],
         coordinates: site.coordinates || { x: 0.5, y: 0.5 }
       }));
     }
 
-    if (projectCircuits.length === 0) {
-      return [];
-    }
-
     const siteMap = new Map<string, Site>();
 
-    projectCircuits.forEach((circuit, index) => {
-      const siteName = circuit.siteName;
-      const siteId = `${currentProjectId}-${circuit.siteName.toLowerCase().replace(/\s+/g, '-')}`;
-
-      if (!siteMap.has(siteId)) {
-        // Find corresponding site data for geographic coordinates
-        const siteData = projectSites.find((s: any) => s.name === siteName);
-
-        let coordinates = { x: 0.5, y: 0.5 }; // Default center position
-
-        if (siteData?.latitude && siteData?.longitude) {
-          // Use actual geographic coordinates
-          coordinates = convertGeoToCanvas(siteData.latitude, siteData.longitude);
-        } else {
-          // Fallback to spread positioning to avoid overlap
-          const hash = siteName.split('').reduce((a, b) => {
-            a = ((a << 5) - a) + b.charCodeAt(0);
-            return a & a;
-          }, 0);
-
-          coordinates = {
-            x: 0.15 + (Math.abs(hash % 100) / 100) * 0.7,
-            y: 0.15 + (Math.abs((hash >> 8) % 100) / 100) * 0.7
-          };
-        }
-
-        siteMap.set(siteId, {
-          id: siteId,
-          name: siteName,
-          location: circuit.locationType || 'Branch',
-          category: circuit.locationType as "Branch" | "Corporate" | "Data Center" | "Cloud" || 'Branch',
-          connections: [],
-          coordinates
-        });
+    const addSite = (siteId: string, siteName: string, category: string | null, siteData?: ProjectSite): Site => {
+      const existing = siteMap.get(siteId);
+      if (existing) return existing;
+
+      let coordinates = { x: 0.5, y: 0.5 }; // Default center position
+
+      if (siteData?.latitude && siteData?.longitude) {
+        // Use actual geographic coordinates
+        coordinates = convertGeoToCanvas(siteData.latitude, siteData.longitude);
+      } else {
+        // Fallback to spread positioning to avoid overlap
+        const hash = siteName.split('').reduce((a, b) => {
+          a = ((a << 5) - a) + b.charCodeAt(0);
+          return a & a;
+        }, 0);
+
+        coordinates = {
+          x: 0.15 + (Math.abs(hash % 100) / 100) * 0.7,
+          y: 0.15 + (Math.abs((hash >> 8) % 100) / 100) * 0.7
+        };
       }
 
-      const site = siteMap.get(siteId)!;
-
-      // Add connection based on circuit data
-      let connectionType = circuit.circuitCategory || 'Internet';
-
-      // Map service types to connection types
-      if (circuit.serviceType === 'MPLS') connectionType = 'mpls';
-      else if (circuit.serviceType === 'VPLS') connectionType = 'vpls';
-      else if (circuit.serviceType === 'Private Line') connectionType = 'point-to-point';
-      else if (circuit.serviceType === 'Dark Fiber') connectionType = 'point-to-point';
-      else if (circuit.serviceType === 'Broadband') connectionType = 'internet';
-      else if (circuit.serviceType === 'Dedicated Internet') connectionType = 'internet';
-      else if (circuit.serviceType === 'LTE') connectionType = 'internet';
-      else if (circuit.serviceType === 'Satellite') connectionType = 'internet';
-      else if (circuit.serviceType === 'Direct Connect') connectionType = 'aws';
-
-      const connection: Connection = {
-        type: connectionType,
-        bandwidth: circuit.bandwidth,
-        provider: circuit.carrier,
+      const site: Site = {
+        id: siteId,
+        name: siteName,
+        location: category || 'Branch',
+        category: category as Site['category'] || 'Branch',
+        connections: [],
+        coordinates,
+        latitude: siteData?.latitude,
+        longitude: siteData?.longitude,
+        state: siteData?.state,
+        nearestMegaportPop: siteData?.nearestMegaportPop
       };
+      siteMap.set(siteId, site);
+      return site;
+    };
 
-      // Handle Point-to-Point connections
-      if (circuit.aLocation && circuit.zLocation) {
-        connection.type = 'point-to-point';
-        connection.pointToPointEndpoint = circuit.zLocation;
+    projectCircuits.forEach(circuit => {
+      // Group circuits by their linked site for geographic data
+      const siteData = circuit.siteId ? projectSites.find(s => s.id === circuit.siteId) : undefined;
+      const siteId: string = siteData?.id ?? nameBasedSiteId(currentProjectId, circuit.siteName);
+      const site = addSite(siteId, siteData?.name ?? circuit.siteName, circuit.locationType, siteData);
+      if (!proposedConnections) {
+        site.connections.push(circuitConnection(circuit, siteId));
       }
+    });
 
-      site.connections.push(connection);
+    // Proposed connections can also reach project sites that have no circuits yet
+    proposedConnections?.forEach(connection => {
+      const siteData = projectSites.find(s => s.id === connection.siteId);
+      const site = siteMap.get(connection.siteId)
+        ?? (siteData ? addSite(siteData.id, siteData.name, siteData.category, siteData) : undefined);
+      site?.connections.push(connection);
     });
 
     return Array.from(siteMap.values());
   }, [circuits, sitesData, currentProjectId]);
 
-  // Load design from localStorage - use a ref to track if we've loaded already
-  const hasLoadedDesign = useRef(false);
+  const processedSites = useMemo(
+    () => activeDesign ? buildSites(activeDesign) : [],
+    [buildSites, activeDesign]
+  );
+
+  const sitesForComparison = useCallback(
+    (design: TopologyDesign) => withSavedPositions(buildSites(design), design),
+    [buildSites]
+  );
+
+  // Apply a design's saved layout when it is opened. Later changes to the
+  // circuits or proposed connections keep the positions on screen.
+  const loadedDesignId = useRef<string | null>(null);
 
   useEffect(() => {
-    // Only run this effect when we have data and haven't loaded design yet
-    if (!currentProjectId || processedSites.length === 0 || hasLoadedDesign.current) {
+    if (!currentProjectId || !activeDesign || processedSites.length === 0) {
       return;
     }
 
-    const savedDesign = localStorage.getItem(`network-topology-design-${currentProjectId}`);
-    if (savedDesign) {
-      try {
-        const designData = JSON.parse(savedDesign);
-        if (designData.sites && Array.isArray(designData.sites)) {
-          // Only restore positions for existing sites, don't override the circuit-based data
-          const savedPositions = new Map(
-            designData.sites.map((site: Site) => [site.id, { 
-              coordinates: site.coordinates,
-              name: site.name,
-              location: site.location,
-              category: site.category
-            }])
-          );
-
-          setSites(processedSites.map(site => {
-            const saved = savedPositions.get(site.id);
-            return saved ? { ...site, ...saved } : site;
-          }));
-
-          hasLoadedDesign.current = true;
-          return;
-        }
-      } catch (error) {
-        console.error('Failed to load saved design:', error);
-      }
+    if (loadedDesignId.current === activeDesign.id) {
+      setSites(prev => withSavedPositions(processedSites, activeDesign).map(site => {
+        const current = prev.find(existing => existing.id === site.id);
+        return current ? { ...site, coordinates: current.coordinates } : site;
+      }));
+      return;
     }
 
-    // No saved design or failed to load, use processed sites directly
-    setSites(processedSites);
-    hasLoadedDesign.current = true;
-  }, [currentProjectId]); // Remove processedSites from dependencies to prevent infinite loop
+    // Only restore positions for existing sites, don't override the circuit-based data
+    setSites(withSavedPositions(processedSites, activeDesign));
+    setSelectedSite(null);
+    loadedDesignId.current = activeDesign.id;
+  }, [currentProjectId, processedSites, activeDesign]);
 
-  // Separate effect to update sites when processedSites changes (but only if we haven't loaded a design)
-  useEffect(() => {
-    if (!hasLoadedDesign.current && processedSites.length > 0) {
-      setSites(processedSites);
-    }
-  }, [processedSites]);
+  const handleSelectDesign = (designId: string | null) => {
+    setActiveDesignId(designId);
+    setPendingCloudMoves({});
+    history.clear();
+  };
+
+  // An imported diagram replaces the open design's layout
+  const handleDiagramImported = (design: TopologyDesign) => {
+    queryClient.setQueryData<TopologyDesign[]>(designsQueryKey, prev =>
+      prev?.map(existing => existing.id === design.id ? design : existing)
+    );
+    loadedDesignId.current = null;
+    setPendingCloudMoves({});
+    history.clear();
+    setLayoutVersion(version => version + 1);
+  };
 
   const handleUpdateSiteCoordinates = (siteId: string, coordinates: { x: number; y: number }) => {
     setSites(prev => 
@@ -268,55 +395,157 @@ const NetworkTopologyPage = () => {
 
   // Handle site deletion
   const handleDeleteSite = (siteId: string) => {
+    const site = sites.find(site => site.id === siteId);
+    if (site) deletedSites.current[siteId] = site;
     setSites(prev => prev.filter(site => site.id !== siteId));
     if (selectedSite?.id === siteId) {
       setSelectedSite(null);
     }
   };
 
-  // Handle WAN cloud updates
-  const handleUpdateWANCloud = (cloudId: string, updates: Partial<WANCloud>) => {
-    // This would update WAN cloud positions and properties
-    // For now, just trigger a save state change
-    setHasUnsavedChanges(true);
+  // Undoing a site deletion
+  const handleRestoreSite = (siteId: string) => {
+    const site = deletedSites.current[siteId];
+    if (!site) return;
+    delete deletedSites.current[siteId];
+    setSites(prev => prev.some(existing => existing.id === siteId) ? prev : [...prev, site]);
+  };
+
+  // Edits from the cloud dialog are saved right away; drags wait for Save Design
+  const handleUpdateWANCloud = (cloudId: string, updates: WANCloudUpdates) => {
+    const { name, type, color, x, y } = updates;
+    if (name === undefined && type === undefined && color === undefined) {
+      if (x !== undefined && y !== undefined) {
+        setPendingCloudMoves(prev => ({ ...prev, [cloudId]: { x, y } }));
+        setHasUnsavedChanges(true);
+      }
+      return;
+    }
+
+    setPendingCloudMoves(({ [cloudId]: _moved, ...rest }) => rest);
+    updateWanCloudMutation.mutate({ cloudId, updates: { name, type, color, x, y } });
   };
 
-  // Handle WAN cloud deletion
   const handleDeleteWANCloud = (cloudId: string) => {
-    // This would remove/hide the WAN cloud
-    // For now, just trigger a save state change
-    setHasUnsavedChanges(true);
+    deletedCloudLinks.current[cloudId] = circuits
+      .filter(circuit => circuit.wanCloudId === cloudId)
+      .map(circuit => circuit.id);
+    setPendingCloudMoves(({ [cloudId]: _moved, ...rest }) => rest);
+    deleteWanCloudMutation.mutate(cloudId);
+  };
+
+  // Adding a cloud, or bringing back a deleted one on undo: the circuits and
+  // proposed connections that used the deleted cloud move to the new one
+  const handleAddWANCloud = async (cloud: WANCloudUpdates, replacesCloudId?: string) => {
+    let created: WanCloud;
+    try {
+      created = await createWanCloudMutation.mutateAsync(cloud);
+    } catch {
+      return undefined; // Reported by the mutation
+    }
+    if (!replacesCloudId) return created.id;
+
+    const circuitIds = deletedCloudLinks.current[replacesCloudId] ?? [];
+    delete deletedCloudLinks.current[replacesCloudId];
+    try {
+      await Promise.all(circuitIds.map(circuitId =>
+        apiRequest('PATCH', `/api/circuits/${circuitId}`, { wanCloudId: created.id })
+      ));
+    } catch (error) {
+      onWanCloudError(error as Error);
+    }
+    if (circuitIds.length > 0) {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', currentProjectId, 'circuits'] });
+    }
+
+    const design = latestActiveDesign();
+    if (design?.connections?.some(connection => connection.cloudId === replacesCloudId)) {
+      // A failed save is reported by the mutation
+      await saveProposedConnections(design.connections.map(connection =>
+        connection.cloudId === replacesCloudId ? { ...connection, cloudId: created.id } : connection
+      )).catch(() => undefined);
+    }
+    return created.id;
   };
 
   // Handle adding connections from topology view
-  const handleAddConnection = (siteId: string, connectionType?: string) => {
+  const handleAddConnection = (siteId: string, connectionType?: string, cloudId?: string) => {
     const site = sites.find(s => s.id === siteId);
     if (site) {
       setSelectedSite(site);
       setConnectionType(connectionType || '');
+      setConnectionCloudId(cloudId);
       setShowAddConnectionDialog(true);
     }
   };
 
-  // Save design to localStorage and show confirmation
-  const handleSaveDesign = () => {
-    if (!currentProjectId) return;
-    
-    try {
-      const designData = {
-        sites: sites,
-        projectId: currentProjectId,
-        timestamp: new Date().toISOString(),
-        version: '1.0'
-      };
-      localStorage.setItem(`network-topology-design-${currentProjectId}`, JSON.stringify(designData));
-    } catch (error) {
-      console.error('Failed to save design:', error);
-    }
+  // History entries run after later renders, so they read the design from the
+  // cache, which already holds any save still in flight
+  const latestActiveDesign = () => {
+    const designId = activeDesign?.id;
+    return queryClient.getQueryData<TopologyDesign[]>(designsQueryKey)?.find(design => design.id === designId);
+  };
+
+  // Proposed connections are saved with the design right away. The promise
+  // rejects when the save fails, so history entries only count once saved.
+  const saveProposedConnections = async (connections: TopologyConnection[]) => {
+    const design = latestActiveDesign() ?? activeDesign;
+    if (!design) return;
+    await saveDesignMutation.mutateAsync({ designId: design.id, design: designPayload(design, { connections }) });
+  };
+
+  const addProposedConnection = async (connection: TopologyConnection) => {
+    const design = latestActiveDesign();
+    if (!design || design.connections?.some(existing => existing.id === connection.id)) return;
+    await saveProposedConnections([...(design.connections ?? []), connection]);
+  };
+
+  const removeProposedConnection = async (connectionId: string) => {
+    const design = latestActiveDesign();
+    if (!design) return;
+    await saveProposedConnections((design.connections ?? []).filter(existing => existing.id !== connectionId));
+  };
+
+  const handleAddProposedConnection = (connection: Omit<TopologyConnection, 'id' | 'siteId'>) => {
+    if (!activeDesign || !selectedSite) return;
+    const added: TopologyConnection = { ...connection, id: crypto.randomUUID(), siteId: selectedSite.id };
+    const siteName = selectedSite.name;
+    addProposedConnection(added).then(() => history.push({
+      label: `Add connection to ${siteName}`,
+      undo: () => removeProposedConnection(added.id),
+      redo: () => addProposedConnection(added),
+    }), () => undefined);
+  };
+
+  const handleRemoveProposedConnection = (site: Site, connection: Connection) => {
+    const removed = latestActiveDesign()?.connections?.find(existing => existing.id === connection.id);
+    if (!removed) return;
+    removeProposedConnection(removed.id).then(() => history.push({
+      label: `Remove connection from ${site.name}`,
+      undo: () => addProposedConnection(removed),
+      redo: () => removeProposedConnection(removed.id),
+    }), () => undefined);
+  };
+
+  // Save the layout together with the viewer's cloud and visibility settings
+  const handleSaveDesign = (settings: TopologyViewSettings) => {
+    if (!currentProjectId || !activeDesign) return;
+
+    saveDesignMutation.mutate({
+      designId: activeDesign.id,
+      design: designPayload(activeDesign, {
+        ...settings,
+        sitePositions: Object.fromEntries(sites.map(site => [site.id, site.coordinates])),
+      }),
+    });
+    Object.entries(pendingCloudMoves).forEach(([cloudId, position]) => {
+      updateWanCloudMutation.mutate({ cloudId, updates: position });
+    });
+    setPendingCloudMoves({});
   };
 
   // Show loading state
-  if (circuitsLoading || sitesLoading) {
+  if (circuitsLoading || sitesLoading || designLoading || wanCloudsLoading) {
     return (
       <div className="flex items-center justify-center h-96">
         <div className="text-center">
@@ -335,17 +564,19 @@ const NetworkTopologyPage = () => {
       <div className="flex-shrink-0 bg-white border-b border-gray-200 px-6 py-4">
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-4">
-            <Button variant="ghost" size="sm" onClick={() => {
-              // If using fallback project, go to project landing
-              if (currentProjectId === 'demo-project-1' && !window.location.pathname.includes('/projects/')) {
-                window.location.href = '/';
-              } else {
-                window.location.href = `/projects/${currentProjectId}/inventory`;
-              }
-            }}>
-              <ArrowLeft className="h-4 w-4 mr-2" />
-              Back to Inventory
-            </Button>
+            {!isClient && (
+              <Button variant="ghost" size="sm" onClick={() => {
+                // If using fallback project, go to project landing
+                if (currentProjectId === 'demo-project-1' && !window.location.pathname.includes('/projects/')) {
+                  window.location.href = '/';
+                } else {
+                  window.location.href = `/projects/${currentProjectId}/inventory`;
+                }
+              }}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Inventory
+              </Button>
+            )}
             <div>
               <h1 className="text-2xl font-semibold text-gray-900">Network Topology</h1>
               <p className="text-sm text-gray-600">
@@ -354,6 +585,37 @@ const NetworkTopologyPage = () => {
             </div>
           </div>
           <div className="flex items-center space-x-2">
+            {activeDesign && (
+              <DesignVersions
+                designs={designs}
+                activeDesign={activeDesign}
+                onSelect={handleSelectDesign}
+                onClone={canEditProject ? (name) => cloneDesignMutation.mutate({ name, sourceId: activeDesign.id }) : undefined}
+                onDelete={canEditProject ? (design) => deleteDesignMutation.mutate(design.id) : undefined}
+              />
+            )}
+            {canEditProject && activeDesign && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowImportDialog(true)}
+                data-testid="button-import-drawio"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import Diagram
+              </Button>
+            )}
+            {designs.length > 1 && (
+              <Button
+                variant={isComparing ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => setIsComparing(!isComparing)}
+                data-testid="button-compare-designs"
+              >
+                <GitCompare className="h-4 w-4 mr-2" />
+                Compare
+              </Button>
+            )}
             <Button 
               variant="outline" 
               size="sm"
@@ -372,7 +634,7 @@ const NetworkTopologyPage = () => {
 
       <div className="flex-1 flex">
         {/* Site List Panel */}
-        {showSiteList && (
+        {showSiteList && !isComparing && (
           <div className="w-64 bg-white border-r border-gray-200 flex-shrink-0">
             <div className="h-full overflow-y-auto p-3">
               <h2 className="text-sm font-medium text-gray-900 mb-3">Network Sites</h2>
@@ -380,6 +642,7 @@ const NetworkTopologyPage = () => {
                 sites={sites}
                 selectedSite={selectedSite}
                 onSelectSite={setSelectedSite}
+                onRemoveConnection={canEditProject && activeDesign?.kind === 'proposed' ? handleRemoveProposedConnection : undefined}
               />
             </div>
           </div>
@@ -387,7 +650,15 @@ const NetworkTopologyPage = () => {
 
         {/* Main Topology View - Full Available Space */}
         <div className="flex-1 relative overflow-hidden">
-          {sites.length === 0 ? (
+          {isComparing && activeDesign && designs.length > 1 ? (
+            <TopologyComparison
+              designs={designs}
+              initialProposedId={activeDesign.id}
+              circuits={circuits}
+              sitesFor={sitesForComparison}
+              onClose={() => setIsComparing(false)}
+            />
+          ) : sites.length === 0 ? (
             <div className="flex items-center justify-center h-full">
               <Card className="w-96">
                 <CardHeader className="text-center">
@@ -396,36 +667,45 @@ const NetworkTopologyPage = () => {
                 </CardHeader>
                 <CardContent className="text-center">
                   <p className="text-gray-600 mb-4">
-                    Import circuits in the Inventory section to visualize your network topology.
+                    {isClient
+                      ? 'No circuits have been added to this project yet.'
+                      : 'Import circuits in the Inventory section to visualize your network topology.'}
                   </p>
-                  <Button onClick={() => window.location.href = currentProjectId ? `/projects/${currentProjectId}/inventory` : '/inventory'}>
-                    Go to Inventory
-                  </Button>
+                  {!isClient && (
+                    <Button onClick={() => window.location.href = currentProjectId ? `/projects/${currentProjectId}/inventory` : '/inventory'}>
+                      Go to Inventory
+                    </Button>
+                  )}
                 </CardContent>
               </Card>
             </div>
           ) : (
             <TopologyViewer
+              key={`${activeDesign?.id}-${layoutVersion}`}
               sites={sites}
               selectedSite={selectedSite}
               onSelectSite={setSelectedSite}
               onUpdateSiteCoordinates={handleUpdateSiteCoordinates}
-              onUpdateSite={handleUpdateSite}
-              onDeleteSite={handleDeleteSite}
-              onSaveDesign={handleSaveDesign}
-              onUpdateWANCloud={handleUpdateWANCloud}
-              onDeleteWANCloud={handleDeleteWANCloud}
-              onAddConnection={handleAddConnection}
-              onAddWANCloud={(cloud) => {
-                const newCloud = {
-                  ...cloud,
-                  id: `custom-${currentProjectId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-                };
-                setCustomClouds(prev => [...prev, newCloud]);
-                setHasUnsavedChanges(true);
-              }}
-              customClouds={customClouds}
+              onUpdateSite={canEditProject ? handleUpdateSite : undefined}
+              onDeleteSite={canEditProject ? handleDeleteSite : undefined}
+              onRestoreSite={canEditProject ? handleRestoreSite : undefined}
+              onSaveDesign={canEditProject ? handleSaveDesign : undefined}
+              onUpdateWANCloud={canEditProject ? handleUpdateWANCloud : undefined}
+              onDeleteWANCloud={canEditProject ? handleDeleteWANCloud : undefined}
+              onAddConnection={canEditProject ? handleAddConnection : undefined}
+              onAddWANCloud={canEditProject ? handleAddWANCloud : undefined}
+              clouds={wanClouds}
+              savedDesign={activeDesign}
               currentProjectId={currentProjectId}
+              readOnly={!canEditProject}
+              exportName={activeDesign ? `network-topology-${activeDesign.name}` : undefined}
+              history={canEditProject ? history : undefined}
+              onOpenResiliencyReport={activeDesign ? () => {
+                const path = window.location.pathname.includes('/projects/')
+                  ? `/projects/${currentProjectId}/resiliency-report`
+                  : '/resiliency-report';
+                window.location.href = `${path}?designId=${activeDesign.id}`;
+              } : undefined}
             />
           )}
         </div>
@@ -455,10 +735,26 @@ const NetworkTopologyPage = () => {
         onClose={() => {
           setShowAddConnectionDialog(false);
           setConnectionType('');
+          setConnectionCloudId(undefined);
         }}
         selectedSite={selectedSite}
         connectionType={connectionType}
+        projectId={currentProjectId}
+        wanCloudId={connectionCloudId}
+        onAddProposedConnection={activeDesign?.kind === 'proposed' ? handleAddProposedConnection : undefined}
       />
+
+      {activeDesign && (
+        <DrawioImportDialog
+          open={showImportDialog}
+          onOpenChange={setShowImportDialog}
+          design={activeDesign}
+          sites={sitesData.filter(site => site.projectId === currentProjectId)}
+          circuits={circuits.filter(circuit => circuit.projectId === currentProjectId)}
+          clouds={wanClouds}
+          onImported={handleDiagramImported}
+        />
+      )}
     </div>
   );
 };
@@ -7,8 +7,13 @@ import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, FolderOpen, Clock, Users, Building2, Trash2, Calendar } from 'lucide-react';
+import { Plus, FolderOpen, Clock, Users, Building2, Trash2, Calendar, Share2 } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { useAuth, type AuthUser } from '@/hooks/use-auth';
+import { usePermissions } from '@/hooks/use-permissions';
+import ProjectMembersDialog from '@/components/projects/project-members-dialog';
+import { canManageProjectMembers } from '@shared/permissions';
+import type { ProjectMemberRole } from '@shared/schema';
 
 interface Project {
   id: string;
@@ -21,6 +26,7 @@ interface Project {
   circuitCount?: number;
   createdBy?: string; // Added to store the assigned user ID
   updatedAt?: string; // Ensure updatedAt is considered for formatting
+  accessRole: ProjectMemberRole; // Caller's role on the project
 }
 
 interface ProjectLandingProps {
@@ -31,10 +37,20 @@ export default function ProjectLanding({ onSelectProject }: ProjectLandingProps)
   const [showNewProjectDialog, setShowNewProjectDialog] = useState(false);
   const [newProjectName, setNewProjectName] = useState("");
   const [clientName, setClientName] = useState("");
-  const [assignedTo, setAssignedTo] = useState("user-1");
+  const { user } = useAuth();
+  const { canDeleteProject, canCreateProject } = usePermissions();
+  const [assignedTo, setAssignedTo] = useState(user?.id ?? "");
+  const [sharingProject, setSharingProject] = useState<Project | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: users = [] } = useQuery<AuthUser[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const getUserName = (userId?: string) =>
+    users.find(u => u.id === userId)?.name ?? 'Unassigned';
+
   const { data: projects = [], isLoading } = useQuery({
     queryKey: ['/api/projects'],
     queryFn: async () => {
@@ -119,18 +135,17 @@ export default function ProjectLanding({ onSelectProject }: ProjectLandingProps)
 
     createProjectMutation.mutate({
       name: newProjectName.trim(),
-      description: newProjectDescription.trim() || undefined,
       assignedTo: assignedTo,
     });
 
     setNewProjectName("");
     setClientName("");
-    setAssignedTo("user-1");
+    setAssignedTo(user?.id ?? "");
     setShowNewProjectDialog(false);
   };
 
   const handleDeleteProject = (projectId: string, projectName: string) => {
-    if (confirm(`Are you sure you want to delete "${projectName}"? This action cannot be undone.`)) {
+    if (confirm(`Are you sure you want to delete "${projectName}"? Its circuits, sites and audit flags are deleted with it. This action cannot be undone.`)) {
       deleteProjectMutation.mutate(projectId);
     }
   };
@@ -176,16 +191,18 @@ export default function ProjectLanding({ onSelectProject }: ProjectLandingProps)
             </p>
           </div>
 
-          <div className="mb-8">
-            <Button
-              onClick={() => setShowNewProjectDialog(true)}
-              size="lg"
-              className="bg-blue-600 hover:bg-blue-700"
-            >
-              <Plus className="h-5 w-5 mr-2" />
-              Start New Project
-            </Button>
-          </div>
+          {canCreateProject && (
+            <div className="mb-8">
+              <Button
+                onClick={() => setShowNewProjectDialog(true)}
+                size="lg"
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                <Plus className="h-5 w-5 mr-2" />
+                Start New Project
+              </Button>
+            </div>
+          )}
 
           {projects.length === 0 ? (
             <motion.div
@@ -197,15 +214,19 @@ export default function ProjectLanding({ onSelectProject }: ProjectLandingProps)
               <FolderOpen className="h-16 w-16 text-gray-400 mx-auto mb-4" />
               <h3 className="text-xl font-semibold text-gray-900 mb-2">No Projects Yet</h3>
               <p className="text-gray-600 mb-6">
-                Get started by creating your first network audit project.
+                {canCreateProject
+                  ? 'Get started by creating your first network audit project.'
+                  : 'No projects have been shared with you yet.'}
               </p>
-              <Button
-                onClick={() => setShowNewProjectDialog(true)}
-                className="bg-blue-600 hover:bg-blue-700"
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Create Your First Project
-              </Button>
+              {canCreateProject && (
+                <Button
+                  onClick={() => setShowNewProjectDialog(true)}
+                  className="bg-blue-600 hover:bg-blue-700"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create Your First Project
+                </Button>
+              )}
             </motion.div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -229,17 +250,34 @@ export default function ProjectLanding({ onSelectProject }: ProjectLandingProps)
                             </CardDescription>
                           )}
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="opacity-0 group-hover:opacity-100 transition-opacity text-red-600 hover:text-red-700 hover:bg-red-50"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleDeleteProject(project.id, project.name);
-                          }}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        {canManageProjectMembers(project.accessRole) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="opacity-0 group-hover:opacity-100 transition-opacity"
+                            title="Share project"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setSharingProject(project);
+                            }}
+                            data-testid={`button-share-project-${project.id}`}
+                          >
+                            <Share2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canDeleteProject && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="opacity-0 group-hover:opacity-100 transition-opacity text-red-600 hover:text-red-700 hover:bg-red-50"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDeleteProject(project.id, project.name);
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </CardHeader>
 
@@ -255,11 +293,14 @@ export default function ProjectLanding({ onSelectProject }: ProjectLandingProps)
                           </div>
                           <div className="flex items-center gap-1">
                             <Users className="h-4 w-4" />
-                            <span>Assigned to {project.createdBy === 'user-1' ? 'Matthew' : 'Tim'}</span>
+                            <span>Assigned to {getUserName(project.createdBy)}</span>
                           </div>
                         </div>
 
                         <div className="flex items-center gap-2 flex-wrap">
+                          <Badge variant="outline" className="text-xs capitalize">
+                            {project.accessRole}
+                          </Badge>
                           {project.customerCount !== undefined && (
                             <Badge variant="secondary" className="text-xs">
                               <Users className="h-3 w-3 mr-1" />
@@ -298,6 +339,16 @@ export default function ProjectLanding({ onSelectProject }: ProjectLandingProps)
         </motion.div>
       </div>
 
+      {sharingProject && (
+        <ProjectMembersDialog
+          projectId={sharingProject.id}
+          projectName={sharingProject.name}
+          assignedTo={sharingProject.createdBy}
+          open={!!sharingProject}
+          onClose={() => setSharingProject(null)}
+        />
+      )}
+
       <Dialog open={showNewProjectDialog} onOpenChange={setShowNewProjectDialog}>
         <DialogContent>
           <DialogHeader>
@@ -334,8 +385,9 @@ export default function ProjectLanding({ onSelectProject }: ProjectLandingProps)
                 onChange={(e) => setAssignedTo(e.target.value)}
                 className="w-full p-2 border border-gray-300 rounded-md"
               >
-                <option value="user-1">Matthew</option>
-                <option value="user-2">Tim</option>
+                {users.map(u => (
+                  <option key={u.id} value={u.id}>{u.name}</option>
+                ))}
               </select>
             </div>
           </div>
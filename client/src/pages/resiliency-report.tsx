@@ -0,0 +1,249 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Printer, ShieldAlert, ShieldCheck, Network, Unplug } from "lucide-react";
+import type { Project, TopologyDesign } from "@shared/schema";
+import { failureKindLabels, type FailureScenario, type ResiliencyReport } from "@shared/resiliency";
+
+interface ResiliencyResponse {
+  designId: string;
+  designName: string;
+  minimumRedundancy: string;
+  report: ResiliencyReport;
+}
+
+const scenarioLabel = (scenario: FailureScenario) => `${failureKindLabels[scenario.kind]}: ${scenario.label}`;
+
+// Single points of failure for a project's topology, laid out to print
+export default function ResiliencyReportPage() {
+  // Get current project ID from URL, then the selected project
+  const currentProjectId = useMemo(() => {
+    const pathParts = window.location.pathname.split('/');
+    const projectIndex = pathParts.indexOf('projects');
+    return projectIndex !== -1 && projectIndex < pathParts.length - 1
+      ? pathParts[projectIndex + 1]
+      : localStorage.getItem('currentProjectId') || 'demo-project-1';
+  }, []);
+  // The topology page links here with the design it has open
+  const [selectedDesignId, setSelectedDesignId] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get('designId')
+  );
+
+  const { data: project } = useQuery<Project>({
+    queryKey: ['/api/projects', currentProjectId],
+    enabled: !!currentProjectId,
+  });
+
+  const { data: designs = [] } = useQuery<TopologyDesign[]>({
+    queryKey: ['/api/projects', currentProjectId, 'topology-designs'],
+    enabled: !!currentProjectId,
+  });
+  const designId = selectedDesignId ?? designs.find(design => design.kind === 'current')?.id ?? designs[0]?.id;
+
+  const { data, isLoading, error } = useQuery<ResiliencyResponse>({
+    queryKey: ['/api/topology-designs', designId, 'resiliency'],
+    enabled: !!designId,
+  });
+
+  const report = data?.report;
+  // Data centers and cloud sites are what the others need to reach, so only
+  // the remaining sites are checked
+  const checkedSites = report?.sites.filter(site => !site.destination) ?? [];
+  const analyzedSites = checkedSites.filter(site => site.destinations.length > 0);
+  const unconnectedSites = checkedSites.filter(site => site.destinations.length === 0);
+  const sitesWithSPOF = analyzedSites.filter(site => site.singlePointsOfFailure.length > 0);
+  const sitesMeetingRedundancy = analyzedSites.filter(site => site.meetsRedundancy);
+
+  return (
+    <div className="min-h-screen bg-gray-50 print:bg-white">
+      <div className="p-6 space-y-6 print:p-0">
+        {/* Header */}
+        <div className="flex justify-between items-start">
+          <div>
+            <h1 className="text-3xl font-bold">Single Point of Failure Report</h1>
+            <p className="text-gray-600 mt-1">
+              {project?.name ?? 'Project'}{data && ` • ${data.designName} design`} • {new Date().toLocaleDateString()}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2 print:hidden">
+            {designs.length > 1 && (
+              <select
+                value={designId ?? ''}
+                onChange={(e) => setSelectedDesignId(e.target.value)}
+                className="rounded border border-gray-300 bg-white px-2 py-2 text-sm"
+                data-testid="select-resiliency-design"
+              >
+                {designs.map(design => (
+                  <option key={design.id} value={design.id}>{design.name}</option>
+                ))}
+              </select>
+            )}
+            <Button onClick={() => window.print()} disabled={!report} data-testid="button-print-report">
+              <Printer className="h-4 w-4 mr-2" />
+              Print
+            </Button>
+          </div>
+        </div>
+
+        {isLoading || !designId ? (
+          <p className="text-gray-600">Analyzing the network...</p>
+        ) : error || !report ? (
+          <p className="text-red-600">The resiliency analysis could not be loaded.</p>
+        ) : (
+          <>
+            {/* Summary Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 print:grid-cols-4">
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm font-medium flex items-center">
+                    <Network className="h-4 w-4 mr-2" />
+                    Sites Analyzed
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{analyzedSites.length}</div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm font-medium flex items-center">
+                    <ShieldCheck className="h-4 w-4 mr-2 text-green-600" />
+                    Meet {data.minimumRedundancy} redundancy
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold text-green-600">{sitesMeetingRedundancy.length}</div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm font-medium flex items-center">
+                    <ShieldAlert className="h-4 w-4 mr-2 text-red-600" />
+                    Single Points of Failure
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold text-red-600">{sitesWithSPOF.length}</div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm font-medium flex items-center">
+                    <Unplug className="h-4 w-4 mr-2 text-amber-600" />
+                    Not Connected
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold text-amber-600">{unconnectedSites.length}</div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Sites */}
+            <Card className="print:break-inside-auto">
+              <CardHeader>
+                <CardTitle>Sites</CardTitle>
+                <CardDescription>
+                  Paths to {report.destinations.join(', ') || 'no data centers or clouds'}.
+                  The benchmark asks for {report.requiredPaths} independent path{report.requiredPaths === 1 ? '' : 's'} per site.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Site</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Paths</TableHead>
+                      <TableHead>Carriers</TableHead>
+                      <TableHead>Redundancy</TableHead>
+                      <TableHead>Single Points of Failure</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.sites.map(site => (
+                      <TableRow key={site.siteId} className="print:break-inside-avoid" data-testid={`row-resiliency-${site.siteId}`}>
+                        <TableCell className="font-medium">{site.siteName}</TableCell>
+                        <TableCell>{site.category}</TableCell>
+                        <TableCell>{site.paths}</TableCell>
+                        <TableCell>{site.carriers.join(', ') || '—'}</TableCell>
+                        <TableCell>
+                          {site.destination ? (
+                            <Badge variant="outline" className="text-gray-600 border-gray-300">Destination</Badge>
+                          ) : site.destinations.length === 0 ? (
+                            <Badge variant="outline" className="text-amber-700 border-amber-300">Not connected</Badge>
+                          ) : site.meetsRedundancy ? (
+                            <Badge variant="outline" className="text-green-700 border-green-300">Meets</Badge>
+                          ) : (
+                            <Badge variant="outline" className="text-red-700 border-red-300">Below</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {site.singlePointsOfFailure.length === 0 ? (
+                            <span className="text-gray-500">{site.destination || site.destinations.length === 0 ? '—' : 'None'}</span>
+                          ) : (
+                            <ul className="space-y-0.5 text-sm">
+                              {site.singlePointsOfFailure.map(scenario => (
+                                <li key={`${scenario.kind}-${scenario.id}`}>{scenarioLabel(scenario)}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Failures */}
+            <Card className="print:break-before-page">
+              <CardHeader>
+                <CardTitle>Failures That Isolate Sites</CardTitle>
+                <CardDescription>
+                  Each circuit, carrier, WAN cloud and Megaport POP whose loss cuts a site off from every data center and cloud
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {report.failures.length === 0 ? (
+                  <p className="text-sm text-gray-600">No single failure isolates a site.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Failure</TableHead>
+                        <TableHead>Isolated Sites</TableHead>
+                        <TableHead>Degraded Sites</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.failures.map(({ scenario, sites }) => {
+                        const names = (status: string) => sites
+                          .filter(site => site.status === status)
+                          .map(site => report.sites.find(s => s.siteId === site.siteId)?.siteName ?? site.siteId)
+                          .join(', ');
+                        return (
+                          <TableRow key={`${scenario.kind}-${scenario.id}`} className="print:break-inside-avoid">
+                            <TableCell className="font-medium">{scenarioLabel(scenario)}</TableCell>
+                            <TableCell className="text-red-700">{names('isolated')}</TableCell>
+                            <TableCell className="text-amber-700">{names('degraded') || '—'}</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { useEffect } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Link2Off } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { AuthUser } from '@/hooks/use-auth';
+
+interface ShareLinkPageProps {
+  token: string;
+  onRedeemed: (user: AuthUser) => void;
+}
+
+// Landing page for client share links (/share/:token)
+export default function ShareLinkPage({ token, onRedeemed }: ShareLinkPageProps) {
+  const redeemMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/share/redeem', { token });
+      return (await res.json()) as AuthUser;
+    },
+    onSuccess: (user) => {
+      // Start from a clean cache so nothing from a previous session leaks into the portal
+      queryClient.clear();
+      queryClient.setQueryData(['/api/user'], user);
+      onRedeemed(user);
+    },
+  });
+
+  useEffect(() => {
+    redeemMutation.mutate();
+  }, [token]);
+
+  if (!redeemMutation.isError) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <div className="w-12 h-12 bg-gray-200 rounded-lg flex items-center justify-center mx-auto mb-3">
+            <Link2Off className="h-6 w-6 text-gray-600" />
+          </div>
+          <CardTitle className="text-xl">Link unavailable</CardTitle>
+          <CardDescription>This share link is invalid or has expired.</CardDescription>
+        </CardHeader>
+        <CardContent className="text-center text-sm text-muted-foreground">
+          Ask your consultant for a new link.
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import { MapPin, Building, Plus, Search, CheckCircle, AlertCircle, Edit } from '
 import { Site, InsertSite } from '@shared/schema';
 import { useToast } from '@/hooks/use-toast';
 import SiteEditDialog from '@/components/network/site-edit-dialog';
+import { usePermissions } from '@/hooks/use-permissions';
 
 export default function SitesPage() {
   const [searchTerm, setSearchTerm] = useState('');
@@ -26,6 +27,7 @@ export default function SitesPage() {
       ? pathParts[projectIndex + 1]
       : 'demo-project-1'; // fallback
   })();
+  const { canEditProject } = usePermissions(currentProjectId);
 
   const { data: sites = [], isLoading, refetch } = useQuery({
     queryKey: ['/api/sites', currentProjectId],
@@ -80,6 +82,9 @@ export default function SitesPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/sites', currentProjectId] });
+      // Renames carry through to the linked circuits
+      queryClient.invalidateQueries({ queryKey: ['/api/circuits'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', currentProjectId] });
       toast({ title: 'Success', description: 'Site updated successfully' });
       setEditingSite(null);
     },
@@ -102,6 +107,8 @@ export default function SitesPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/sites', currentProjectId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/circuits'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', currentProjectId] });
       toast({ title: 'Success', description: 'Site deleted successfully' });
     },
     onError: (error) => {
@@ -182,13 +189,15 @@ export default function SitesPage() {
             Manage site locations and validate addresses for proximity analysis
           </p>
         </div>
-        <Button 
-          onClick={() => setEditingSite({} as Site)} // Empty object to indicate new site
-          data-testid="button-add-site"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Add Site
-        </Button>
+        {canEditProject && (
+          <Button 
+            onClick={() => setEditingSite({} as Site)} // Empty object to indicate new site
+            data-testid="button-add-site"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Site
+          </Button>
+        )}
       </div>
 
       {/* Summary Cards */}
@@ -346,14 +355,16 @@ export default function SitesPage() {
                       {getProximityInfo(site)}
                     </TableCell>
                     <TableCell>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => setEditingSite(site)}
-                        data-testid={`button-edit-site-${site.id}`}
-                      >
-                        <Edit className="h-4 w-4" />
-                      </Button>
+                      {canEditProject && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setEditingSite(site)}
+                          data-testid={`button-edit-site-${site.id}`}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))
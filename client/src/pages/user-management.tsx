@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import TopBar from '@/components/layout/top-bar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2, Edit, ShieldAlert } from 'lucide-react';
+import { userRoles, type UserRole } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth, type AuthUser } from '@/hooks/use-auth';
+import { usePermissions } from '@/hooks/use-permissions';
+
+interface UserForm {
+  username: string;
+  name: string;
+  role: UserRole;
+  password: string;
+}
+
+const emptyForm: UserForm = { username: '', name: '', role: 'consultant', password: '' };
+
+export default function UserManagement() {
+  const { user: currentUser } = useAuth();
+  const { canManageUsers } = usePermissions();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingUser, setEditingUser] = useState<AuthUser | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const [form, setForm] = useState<UserForm>(emptyForm);
+
+  const { data: users = [], isLoading } = useQuery<AuthUser[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const saveUserMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: string; data: Partial<UserForm> }) => {
+      const res = id
+        ? await apiRequest('PATCH', `/api/users/${id}`, data)
+        : await apiRequest('POST', '/api/users', data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      toast({ title: 'Success', description: editingUser ? 'User updated successfully' : 'User created successfully' });
+      closeDialog();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteUserMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/users/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      toast({ title: 'Success', description: 'User deleted successfully' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const openCreate = () => {
+    setEditingUser(null);
+    setForm(emptyForm);
+    setShowDialog(true);
+  };
+
+  const openEdit = (user: AuthUser) => {
+    setEditingUser(user);
+    setForm({ username: user.username, name: user.name, role: user.role as UserRole, password: '' });
+    setShowDialog(true);
+  };
+
+  const closeDialog = () => {
+    setShowDialog(false);
+    setEditingUser(null);
+    setForm(emptyForm);
+  };
+
+  const handleSave = () => {
+    if (editingUser) {
+      // Leave the password unchanged unless a new one was typed
+      const { password, ...rest } = form;
+      saveUserMutation.mutate({ id: editingUser.id, data: password ? form : rest });
+    } else {
+      saveUserMutation.mutate({ data: form });
+    }
+  };
+
+  const handleDelete = (user: AuthUser) => {
+    if (confirm(`Are you sure you want to delete "${user.name}"? This action cannot be undone.`)) {
+      deleteUserMutation.mutate(user.id);
+    }
+  };
+
+  if (!canManageUsers) {
+    return (
+      <div className="flex items-center justify-center h-full p-12">
+        <div className="text-center">
+          <ShieldAlert className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">Only administrators can manage users.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isValid = form.username.trim() && form.name.trim() && (editingUser || form.password.length >= 8);
+
+  return (
+    <div className="h-full flex flex-col">
+      <TopBar title="Users" subtitle="Manage who can sign in and what they can do" />
+
+      <div className="flex-1 p-6 overflow-y-auto">
+        <Card className="border-neutral-200">
+          <CardHeader className="border-b border-neutral-200">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg font-semibold text-foreground">Team Members</CardTitle>
+              <Button onClick={openCreate} data-testid="button-add-user">
+                <Plus className="w-4 h-4 mr-2" />
+                Add User
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader className="bg-neutral-50">
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8">Loading users...</TableCell>
+                  </TableRow>
+                ) : (
+                  users.map((user) => (
+                    <TableRow key={user.id}>
+                      <TableCell className="font-medium">{user.name}</TableCell>
+                      <TableCell>{user.username}</TableCell>
+                      <TableCell>
+                        <Badge variant={user.role === 'admin' ? 'default' : 'secondary'} className="capitalize">
+                          {user.role}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{user.createdAt ? new Date(user.createdAt).toLocaleDateString() : 'Unknown'}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openEdit(user)}
+                            data-testid={`button-edit-user-${user.id}`}
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          {user.id !== currentUser?.id && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                              onClick={() => handleDelete(user)}
+                              data-testid={`button-delete-user-${user.id}`}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={showDialog} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingUser ? 'Edit User' : 'Add User'}</DialogTitle>
+            <DialogDescription>
+              {editingUser ? 'Update account details. Leave the password blank to keep it.' : 'Create a new account for a team member.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="user-name">Name</Label>
+              <Input
+                id="user-name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Full name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="user-username">Username</Label>
+              <Input
+                id="user-username"
+                value={form.username}
+                onChange={(e) => setForm(prev => ({ ...prev, username: e.target.value }))}
+                placeholder="Login name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="user-role">Role</Label>
+              <Select
+                value={form.role}
+                onValueChange={(value) => setForm(prev => ({ ...prev, role: value as UserRole }))}
+                disabled={editingUser?.id === currentUser?.id}
+              >
+                <SelectTrigger id="user-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {userRoles.map(role => (
+                    <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="user-password">{editingUser ? 'New Password' : 'Password'}</Label>
+              <Input
+                id="user-password"
+                type="password"
+                autoComplete="new-password"
+                value={form.password}
+                onChange={(e) => setForm(prev => ({ ...prev, password: e.target.value }))}
+                placeholder="At least 8 characters"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button variant="outline" onClick={closeDialog}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saveUserMutation.isPending || !isValid}>
+              {saveUserMutation.isPending ? 'Saving...' : 'Save User'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+CREATE TABLE "audit_flags" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"circuit_id" varchar,
+	"flag_type" text NOT NULL,
+	"severity" text DEFAULT 'medium' NOT NULL,
+	"title" text NOT NULL,
+	"description" text NOT NULL,
+	"is_resolved" boolean DEFAULT false,
+	"created_by" varchar,
+	"created_at" timestamp DEFAULT now(),
+	"resolved_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "circuits" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"circuit_id" text NOT NULL,
+	"project_id" varchar,
+	"site_name" text NOT NULL,
+	"carrier" text NOT NULL,
+	"location_type" text DEFAULT 'Branch' NOT NULL,
+	"service_type" text NOT NULL,
+	"circuit_category" text DEFAULT 'Internet' NOT NULL,
+	"a_location" text,
+	"z_location" text,
+	"bandwidth" text NOT NULL,
+	"bandwidth_mbps" integer NOT NULL,
+	"monthly_cost" numeric(10, 2) NOT NULL,
+	"cost_per_mbps" numeric(8, 2) NOT NULL,
+	"contract_term" text,
+	"contract_end_date" timestamp,
+	"status" text DEFAULT 'active' NOT NULL,
+	"optimization_status" text DEFAULT 'pending' NOT NULL,
+	"notes" text,
+	"flags" jsonb DEFAULT '[]'::jsonb,
+	"site_features" jsonb DEFAULT '[]'::jsonb,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "circuits_circuit_id_unique" UNIQUE("circuit_id")
+);
+--> statement-breakpoint
+CREATE TABLE "projects" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"client_name" text NOT NULL,
+	"status" text DEFAULT 'active' NOT NULL,
+	"created_by" varchar,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "sites" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"location" text NOT NULL,
+	"category" text NOT NULL,
+	"description" text,
+	"coordinates" jsonb,
+	"street_address" text,
+	"city" text,
+	"state" text,
+	"postal_code" text,
+	"country" text DEFAULT 'United States',
+	"address_validated" boolean DEFAULT false,
+	"latitude" real,
+	"longitude" real,
+	"address_validation_response" jsonb,
+	"nearest_megaport_pop" text,
+	"megaport_distance" real,
+	"megaport_region" text,
+	"project_id" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"name" text NOT NULL,
+	"role" text DEFAULT 'consultant' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "audit_flags" ADD CONSTRAINT "audit_flags_circuit_id_circuits_id_fk" FOREIGN KEY ("circuit_id") REFERENCES "public"."circuits"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "audit_flags" ADD CONSTRAINT "audit_flags_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "circuits" ADD CONSTRAINT "circuits_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "projects" ADD CONSTRAINT "projects_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sites" ADD CONSTRAINT "sites_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,40 @@
+CREATE TABLE "benchmark_settings" (
+	"id" varchar PRIMARY KEY DEFAULT 'default' NOT NULL,
+	"high_cost_threshold" numeric(8, 2) DEFAULT '10.00' NOT NULL,
+	"excellent_value_threshold" numeric(8, 2) DEFAULT '5.00' NOT NULL,
+	"service_benchmarks" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"minimum_redundancy" text DEFAULT 'dual' NOT NULL,
+	"sla_uptime" numeric(5, 2) DEFAULT '99.95' NOT NULL,
+	"diverse_path" text DEFAULT 'required' NOT NULL,
+	"mttr_hours" integer DEFAULT 4 NOT NULL,
+	"contract_alert_days" integer DEFAULT 90 NOT NULL,
+	"updated_by" varchar,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "project_members" (
+	"project_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"role" text DEFAULT 'viewer' NOT NULL,
+	"added_by" varchar,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "project_members_project_id_user_id_pk" PRIMARY KEY("project_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "project_share_links" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" varchar NOT NULL,
+	"label" text,
+	"expires_at" timestamp NOT NULL,
+	"created_by" varchar,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "audit_flags" ADD COLUMN "is_internal" boolean DEFAULT false;--> statement-breakpoint
+ALTER TABLE "benchmark_settings" ADD CONSTRAINT "benchmark_settings_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_members" ADD CONSTRAINT "project_members_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_members" ADD CONSTRAINT "project_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_members" ADD CONSTRAINT "project_members_added_by_users_id_fk" FOREIGN KEY ("added_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_share_links" ADD CONSTRAINT "project_share_links_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_share_links" ADD CONSTRAINT "project_share_links_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
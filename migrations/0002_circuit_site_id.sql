@@ -0,0 +1,2 @@
+ALTER TABLE "circuits" ADD COLUMN "site_id" varchar;--> statement-breakpoint
+ALTER TABLE "circuits" ADD CONSTRAINT "circuits_site_id_sites_id_fk" FOREIGN KEY ("site_id") REFERENCES "public"."sites"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
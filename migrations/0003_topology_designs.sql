@@ -0,0 +1,17 @@
+CREATE TABLE "topology_designs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" varchar NOT NULL,
+	"site_positions" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"cloud_positions" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"custom_clouds" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"hidden_clouds" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"cloud_visibility" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"connection_visibility" jsonb,
+	"custom_onramps" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"updated_by" varchar,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "topology_designs_project_id_unique" UNIQUE("project_id")
+);
+--> statement-breakpoint
+ALTER TABLE "topology_designs" ADD CONSTRAINT "topology_designs_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "topology_designs" ADD CONSTRAINT "topology_designs_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "wan_clouds" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"color" text DEFAULT '#3b82f6' NOT NULL,
+	"x" real DEFAULT 0.5 NOT NULL,
+	"y" real DEFAULT 0.5 NOT NULL,
+	"is_default" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "circuits" ADD COLUMN "wan_cloud_id" varchar;--> statement-breakpoint
+ALTER TABLE "wan_clouds" ADD CONSTRAINT "wan_clouds_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "circuits" ADD CONSTRAINT "circuits_wan_cloud_id_wan_clouds_id_fk" FOREIGN KEY ("wan_cloud_id") REFERENCES "public"."wan_clouds"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
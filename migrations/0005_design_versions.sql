@@ -0,0 +1,8 @@
+ALTER TABLE "topology_designs" DROP CONSTRAINT "topology_designs_project_id_unique";--> statement-breakpoint
+ALTER TABLE "topology_designs" ADD COLUMN "name" text DEFAULT 'Current' NOT NULL;--> statement-breakpoint
+ALTER TABLE "topology_designs" ADD COLUMN "kind" text DEFAULT 'current' NOT NULL;--> statement-breakpoint
+ALTER TABLE "topology_designs" ADD COLUMN "connections" jsonb;--> statement-breakpoint
+ALTER TABLE "topology_designs" ADD COLUMN "created_at" timestamp DEFAULT now();--> statement-breakpoint
+ALTER TABLE "wan_clouds" ADD COLUMN "design_id" varchar;--> statement-breakpoint
+ALTER TABLE "wan_clouds" ADD CONSTRAINT "wan_clouds_design_id_topology_designs_id_fk" FOREIGN KEY ("design_id") REFERENCES "public"."topology_designs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "topology_designs" ADD CONSTRAINT "topology_designs_project_name_unique" UNIQUE("project_id","name");
\ No newline at end of file
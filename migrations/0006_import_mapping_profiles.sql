@@ -0,0 +1,13 @@
+CREATE TABLE "import_mapping_profiles" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"scope" text NOT NULL,
+	"scope_name" text NOT NULL,
+	"mapping" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_by" varchar,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "import_mapping_profiles_scope_name_unique" UNIQUE("scope","scope_name","name")
+);
+--> statement-breakpoint
+ALTER TABLE "import_mapping_profiles" ADD CONSTRAINT "import_mapping_profiles_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
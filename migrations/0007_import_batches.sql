@@ -0,0 +1,18 @@
+CREATE TABLE "import_batches" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" varchar NOT NULL,
+	"file_name" text NOT NULL,
+	"mode" text NOT NULL,
+	"created_circuit_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"updated_circuits" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_site_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"flag_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_by" varchar,
+	"created_at" timestamp DEFAULT now(),
+	"rolled_back_by" varchar,
+	"rolled_back_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "import_batches" ADD CONSTRAINT "import_batches_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "import_batches" ADD CONSTRAINT "import_batches_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "import_batches" ADD CONSTRAINT "import_batches_rolled_back_by_users_id_fk" FOREIGN KEY ("rolled_back_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
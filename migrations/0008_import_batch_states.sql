@@ -0,0 +1 @@
+ALTER TABLE "import_batches" ADD COLUMN "created_circuits" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -1,6 +1,11 @@
 import OpenAI from "openai";
 
-const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+// Created on first use so the server can start without OPENAI_API_KEY
+let client: OpenAI | undefined;
+function getClient(): OpenAI {
+  client ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  return client;
+}
 
 type Plan = { summary: string; next_steps: string[] };
 
@@ -12,7 +17,7 @@ export async function aiAnalyze(
   const max_tokens = Number(opts?.maxTokens ?? process.env.OPENAI_MAX_TOKENS ?? 400);
   const temperature = Number(opts?.temperature ?? process.env.OPENAI_TEMPERATURE ?? 0.2);
 
-  const resp = await client.chat.completions.create({
+  const resp = await getClient().chat.completions.create({
     model,
     temperature,
     max_tokens,
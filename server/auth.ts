@@ -0,0 +1,179 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import type { Express, Request, Response, NextFunction } from "express";
+import { createHmac, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { comparePasswords } from "./passwords";
+import type { SessionUser, ProjectShareLink } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SessionUser {}
+  }
+}
+
+const SHARE_USER_PREFIX = "share:";
+
+function getSessionSecret(): string {
+  return process.env.SESSION_SECRET || "weave-dev-session-secret";
+}
+
+// Never send the password hash to the client
+export function toPublicUser(user: SessionUser): Omit<SessionUser, 'password'> {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+// Share tokens are "<link id>.<signature>". The signature covers the project
+// and expiry stored with the link, so a token cannot be retargeted or extended.
+function signShareLink(link: ProjectShareLink): string {
+  return createHmac("sha256", getSessionSecret())
+    .update(`${link.id}.${link.projectId}.${link.expiresAt.getTime()}`)
+    .digest("base64url");
+}
+
+export function createShareToken(link: ProjectShareLink): string {
+  return `${link.id}.${signShareLink(link)}`;
+}
+
+export function isShareLinkActive(link: ProjectShareLink): boolean {
+  return !link.revokedAt && link.expiresAt.getTime() > Date.now();
+}
+
+async function verifyShareToken(token: string): Promise<ProjectShareLink | undefined> {
+  const [linkId, signature] = token.split(".");
+  if (!linkId || !signature) return undefined;
+
+  const link = await storage.getShareLink(linkId);
+  if (!link || !isShareLinkActive(link)) return undefined;
+
+  const expected = Buffer.from(signShareLink(link));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return undefined;
+  return link;
+}
+
+// Share-link visitors have no account; they act as a client of the linked project
+function toShareUser(link: ProjectShareLink): SessionUser {
+  return {
+    id: `${SHARE_USER_PREFIX}${link.id}`,
+    username: "shared-link",
+    password: "",
+    name: link.label || "Client",
+    role: "client",
+    createdAt: link.createdAt,
+    sharedProjectId: link.projectId,
+  };
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+  next();
+}
+
+export function setupAuth(app: Express) {
+  const sessionSecret = process.env.SESSION_SECRET;
+  if (!sessionSecret && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 1000 * 60 * 60 * 12, // 12 hours
+    },
+  };
+
+  app.set("trust proxy", 1);
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false, { message: "Invalid username or password" });
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      // Share-link sessions end as soon as the link expires or is revoked
+      if (id.startsWith(SHARE_USER_PREFIX)) {
+        const link = await storage.getShareLink(id.slice(SHARE_USER_PREFIX.length));
+        return done(null, link && isShareLinkActive(link) ? toShareUser(link) : false);
+      }
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: SessionUser | false, info?: { message?: string }) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: info?.message || "Invalid username or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.status(200).json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  // Exchange a client share token for a read-only session on its project
+  app.post("/api/share/redeem", async (req, res, next) => {
+    try {
+      const link = typeof req.body?.token === "string" ? await verifyShareToken(req.body.token) : undefined;
+      if (!link) {
+        return res.status(401).json({ message: "This share link is invalid or has expired" });
+      }
+      const shareUser = toShareUser(link);
+      req.login(shareUser, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.status(200).json(toPublicUser(shareUser));
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.sendStatus(200);
+      });
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+
+  // Every /api route registered after this point requires a logged-in user
+  app.use("/api", requireAuth);
+}
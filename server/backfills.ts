@@ -0,0 +1,143 @@
+import { sql } from "drizzle-orm";
+import { defaultWanClouds } from "@shared/schema";
+import type { db } from "./db";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// topology_designs columns read by the 0004 backfill, as stored before WAN
+// clouds had their own table
+interface SavedDesignClouds extends Record<string, unknown> {
+  project_id: string;
+  cloud_positions: Record<string, { x: number; y: number }>;
+  custom_clouds: { id: string; type: string; name: string; x: number; y: number; color: string }[];
+  hidden_clouds: string[];
+  cloud_visibility: Record<string, boolean>;
+}
+
+// Data backfills run once, in order, after the schema migrations have been
+// applied. Each runs in its own transaction together with the row recording
+// it, so a failed backfill leaves no partial changes and is retried on the
+// next run.
+//
+// Changing a column on existing data is done in steps so client data is never
+// at risk: a migration adds the new column as nullable, a backfill here fills
+// it from the old data, and a later migration tightens it (NOT NULL, dropping
+// the old column) once every environment has run the backfill.
+export interface Backfill {
+  // Recorded in drizzle.__data_backfills; never rename a backfill once shipped
+  id: string;
+  description: string;
+  run(tx: Transaction): Promise<void>;
+}
+
+export const backfills: Backfill[] = [
+  {
+    id: "0002-circuit-site-ids",
+    description: "Link circuits to sites by name, creating sites that are missing",
+    run: async (tx) => {
+      // One site per distinct name in each project, matched case-insensitively
+      await tx.execute(sql`
+        insert into sites (name, location, category, project_id)
+        select distinct on (c.project_id, lower(trim(c.site_name)))
+          trim(c.site_name), trim(c.site_name), c.location_type, c.project_id
+        from circuits c
+        where c.site_id is null
+          and c.project_id is not null
+          and trim(c.site_name) <> ''
+          and not exists (
+            select 1 from sites s
+            where s.project_id = c.project_id and lower(trim(s.name)) = lower(trim(c.site_name))
+          )
+        order by c.project_id, lower(trim(c.site_name)), c.created_at
+      `);
+      await tx.execute(sql`
+        update circuits c
+        set site_id = (
+          select s.id from sites s
+          where s.project_id = c.project_id and lower(trim(s.name)) = lower(trim(c.site_name))
+          order by s.created_at
+          limit 1
+        )
+        where c.site_id is null and c.project_id is not null
+      `);
+    },
+  },
+  {
+    id: "0004-wan-clouds",
+    description: "Create each project's WAN clouds from the defaults and its saved topology design",
+    run: async (tx) => {
+      // Projects with a saved design keep their cloud positions and custom
+      // clouds, and their hidden and visible cloud settings are re-keyed from
+      // the old fixed ids to the new cloud ids
+      const designs = await tx.execute<SavedDesignClouds>(sql`
+        select td.project_id, td.cloud_positions, td.custom_clouds, td.hidden_clouds, td.cloud_visibility
+        from topology_designs td
+        where not exists (select 1 from wan_clouds w where w.project_id = td.project_id)
+      `);
+
+      for (const design of designs.rows) {
+        const clouds = [
+          ...defaultWanClouds.map(cloud => ({ ...cloud, isDefault: true })),
+          ...design.custom_clouds.map(({ id, ...cloud }) => ({ ...cloud, key: id, isDefault: false })),
+        ];
+        const ids: Record<string, string> = {};
+        for (const cloud of clouds) {
+          const position = design.cloud_positions[cloud.key] ?? cloud;
+          const inserted = await tx.execute<{ id: string }>(sql`
+            insert into wan_clouds (project_id, name, type, color, x, y, is_default)
+            values (${design.project_id}, ${cloud.name}, ${cloud.type}, ${cloud.color}, ${position.x}, ${position.y}, ${cloud.isDefault})
+            returning id
+          `);
+          ids[cloud.key] = inserted.rows[0].id;
+        }
+
+        const rekey = (key: string) => ids[key] ?? key;
+        const hiddenClouds = design.hidden_clouds.map(rekey);
+        const cloudVisibility = Object.fromEntries(
+          Object.entries(design.cloud_visibility).map(([key, visible]) => [rekey(key), visible])
+        );
+        await tx.execute(sql`
+          update topology_designs
+          set hidden_clouds = ${JSON.stringify(hiddenClouds)}::jsonb,
+            cloud_visibility = ${JSON.stringify(cloudVisibility)}::jsonb
+          where project_id = ${design.project_id}
+        `);
+      }
+
+      // Every other project starts with the defaults
+      const defaults = sql.join(
+        defaultWanClouds.map(cloud =>
+          sql`(${cloud.name}, ${cloud.type}, ${cloud.color}, ${cloud.x}::real, ${cloud.y}::real)`
+        ),
+        sql`, `,
+      );
+      await tx.execute(sql`
+        insert into wan_clouds (project_id, name, type, color, x, y, is_default)
+        select p.id, d.name, d.type, d.color, d.x, d.y, true
+        from projects p
+        cross join (values ${defaults}) as d(name, type, color, x, y)
+        where not exists (select 1 from wan_clouds w where w.project_id = p.id)
+      `);
+    },
+  },
+  {
+    id: "0005-topology-design-versions",
+    description: "Give every project a current design and attach its WAN clouds to it",
+    run: async (tx) => {
+      await tx.execute(sql`
+        insert into topology_designs (project_id, name, kind)
+        select p.id, 'Current', 'current'
+        from projects p
+        where not exists (select 1 from topology_designs td where td.project_id = p.id)
+      `);
+
+      // Before versions there was one design per project
+      await tx.execute(sql`
+        update wan_clouds w
+        set design_id = td.id
+        from topology_designs td
+        where w.design_id is null and td.project_id = w.project_id and td.kind = 'current'
+      `);
+    },
+  },
+];
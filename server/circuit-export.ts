@@ -0,0 +1,112 @@
+import type { Circuit } from "@shared/schema";
+import { circuitImportFields, type CircuitImportFieldKey } from "@shared/circuit-import";
+import type { CircuitExportFormat } from "@shared/circuit-export";
+import { writeCsv, writeWorkbook, type SheetCell, type WorkbookSheet } from "./spreadsheets";
+
+// Circuit inventory exports. The circuit columns carry the importer's field
+// labels in its field order, so an exported file maps itself when imported
+// again; Cost per Mbps is derived and ignored on the way back in.
+
+interface ExportColumn {
+  header: string;
+  width: number;
+  value: (circuit: Circuit) => SheetCell;
+  format?: string; // Excel number format
+}
+
+const CURRENCY_FORMAT = '"$"#,##0.00';
+const NUMBER_FORMAT = '#,##0';
+
+const columnWidths: Partial<Record<CircuitImportFieldKey, number>> = {
+  circuitId: 20,
+  siteName: 24,
+  carrier: 16,
+  serviceType: 18,
+  notes: 40,
+};
+
+const exportColumns: ExportColumn[] = circuitImportFields.flatMap((field): ExportColumn[] => {
+  const key: CircuitImportFieldKey = field.key;
+  const column: ExportColumn = {
+    header: field.label,
+    width: columnWidths[key] ?? Math.max(field.label.length + 2, 12),
+    value: circuit => circuit[key] ?? null,
+  };
+
+  if (key === 'bandwidthMbps') return [{ ...column, format: NUMBER_FORMAT }];
+  if (key === 'contractEndDate') return [{ ...column, value: circuit => circuit.contractEndDate ? new Date(circuit.contractEndDate) : null }];
+  if (key === 'monthlyCost') {
+    return [
+      { ...column, value: circuit => parseFloat(circuit.monthlyCost), format: CURRENCY_FORMAT },
+      { header: 'Cost per Mbps', width: 14, value: circuit => parseFloat(circuit.costPerMbps), format: CURRENCY_FORMAT },
+    ];
+  }
+  return [column];
+});
+
+const circuitRows = (circuits: Circuit[]): SheetCell[][] => [
+  exportColumns.map(column => column.header),
+  ...circuits.map(circuit => exportColumns.map(column => column.value(circuit))),
+];
+
+// Circuit count, monthly cost and bandwidth for the whole export, then per
+// carrier, service type and site, biggest spend first within each group
+function summaryRows(circuits: Circuit[]): SheetCell[][] {
+  const totals = (group: string, name: string, members: Circuit[]): SheetCell[] => [
+    group,
+    name,
+    members.length,
+    members.reduce((sum, circuit) => sum + parseFloat(circuit.monthlyCost), 0),
+    members.reduce((sum, circuit) => sum + circuit.bandwidthMbps, 0),
+  ];
+  const groupBy = (group: string, key: (circuit: Circuit) => string) => {
+    const members = new Map<string, Circuit[]>();
+    circuits.forEach(circuit => {
+      const name = key(circuit) || '(none)';
+      members.set(name, [...(members.get(name) ?? []), circuit]);
+    });
+    return Array.from(members.entries())
+      .map(([name, groupCircuits]) => totals(group, name, groupCircuits))
+      .sort((a, b) => (b[3] as number) - (a[3] as number));
+  };
+
+  return [
+    ['Group', 'Name', 'Circuits', 'Monthly Cost', 'Bandwidth (Mbps)'],
+    totals('Total', 'All circuits', circuits),
+    ...groupBy('Carrier', circuit => circuit.carrier),
+    ...groupBy('Service Type', circuit => circuit.serviceType),
+    ...groupBy('Site', circuit => circuit.siteName),
+  ];
+}
+
+export const circuitExportContentTypes: Record<CircuitExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// CSV holds just the circuits. The workbook puts them on its first sheet,
+// where the importer looks, with the summary on a second sheet.
+export function buildCircuitExport(circuits: Circuit[], format: CircuitExportFormat): string | Buffer {
+  if (format === 'csv') return writeCsv(circuitRows(circuits));
+
+  const formats = Object.fromEntries(
+    exportColumns.flatMap((column, index) => (column.format ? [[index, column.format]] : []))
+  );
+  const sheets: WorkbookSheet[] = [
+    {
+      name: 'Circuits',
+      rows: circuitRows(circuits),
+      widths: exportColumns.map(column => column.width),
+      formats,
+      autofilter: true,
+    },
+    {
+      name: 'Summary',
+      rows: summaryRows(circuits),
+      widths: [14, 28, 10, 16, 18],
+      formats: { 2: NUMBER_FORMAT, 3: CURRENCY_FORMAT, 4: NUMBER_FORMAT },
+      autofilter: true,
+    },
+  ];
+  return writeWorkbook(sheets);
+}
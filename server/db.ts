@@ -5,11 +5,9 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
-}
+// Without DATABASE_URL the server runs on in-memory storage (see storage.ts).
+// The pool only connects on first query, so it is never used in that case.
+export const isDatabaseConfigured = !!process.env.DATABASE_URL;
 
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+export const db = drizzle({ client: pool, schema });
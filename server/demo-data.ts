@@ -0,0 +1,44 @@
+import type { Circuit, Project, Site } from "@shared/schema";
+
+// Demo project used by MemStorage so the app can be explored without a database.
+// The id matches the client's fallback project id.
+export const DEMO_PROJECT_ID = "demo-project-1";
+
+export const demoProject: Omit<Project, 'createdAt' | 'updatedAt'> = {
+  id: DEMO_PROJECT_ID,
+  name: "Enterprise Network Audit",
+  clientName: "Acme Corporation",
+  status: "active",
+  createdBy: "user-1",
+};
+
+type DemoSite = Pick<Site, 'name' | 'location' | 'category' | 'city' | 'state' | 'latitude' | 'longitude'>;
+
+export const demoSites: DemoSite[] = [
+  { name: "New York HQ", location: "New York, NY", category: "Corporate", city: "New York", state: "NY", latitude: 40.7128, longitude: -74.0060 },
+  { name: "Chicago Data Center", location: "Chicago, IL", category: "Data Center", city: "Chicago", state: "IL", latitude: 41.8781, longitude: -87.6298 },
+  { name: "Dallas Branch", location: "Dallas, TX", category: "Branch", city: "Dallas", state: "TX", latitude: 32.7767, longitude: -96.7970 },
+  { name: "Denver Branch", location: "Denver, CO", category: "Branch", city: "Denver", state: "CO", latitude: 39.7392, longitude: -104.9903 },
+  { name: "Los Angeles Branch", location: "Los Angeles, CA", category: "Branch", city: "Los Angeles", state: "CA", latitude: 34.0522, longitude: -118.2437 },
+  { name: "Miami Branch", location: "Miami, FL", category: "Branch", city: "Miami", state: "FL", latitude: 25.7617, longitude: -80.1918 },
+  { name: "AWS US-East", location: "Ashburn, VA", category: "Cloud", city: "Ashburn", state: "VA", latitude: 39.0438, longitude: -77.4874 },
+];
+
+type DemoCircuit = Pick<Circuit,
+  'circuitId' | 'siteName' | 'carrier' | 'locationType' | 'serviceType' | 'circuitCategory' |
+  'bandwidth' | 'bandwidthMbps' | 'monthlyCost' | 'contractTerm' | 'notes'
+> & Partial<Pick<Circuit, 'aLocation' | 'zLocation'>>;
+
+export const demoCircuits: DemoCircuit[] = [
+  { circuitId: "CIR-ATT-100201", siteName: "New York HQ", carrier: "AT&T", locationType: "Corporate", serviceType: "MPLS", circuitCategory: "Private", bandwidth: "500 Mbps", bandwidthMbps: 500, monthlyCost: "4850.00", contractTerm: "36 months", notes: "Renewal negotiation due next quarter" },
+  { circuitId: "CIR-LUM-100202", siteName: "New York HQ", carrier: "Lumen", locationType: "Corporate", serviceType: "Dedicated Internet", circuitCategory: "Internet", bandwidth: "1 Gbps", bandwidthMbps: 1000, monthlyCost: "2100.00", contractTerm: "36 months", notes: null },
+  { circuitId: "CIR-ATT-100301", siteName: "Chicago Data Center", carrier: "AT&T", locationType: "Data Center", serviceType: "MPLS", circuitCategory: "Private", bandwidth: "1 Gbps", bandwidthMbps: 1000, monthlyCost: "7200.00", contractTerm: "36 months", notes: null },
+  { circuitId: "CIR-ZAY-100302", siteName: "Chicago Data Center", carrier: "Zayo", locationType: "Data Center", serviceType: "Private Line", circuitCategory: "Point-to-Point", aLocation: "Chicago Data Center", zLocation: "New York HQ", bandwidth: "10 Gbps", bandwidthMbps: 10000, monthlyCost: "6500.00", contractTerm: "60 months", notes: "Primary DC interconnect" },
+  { circuitId: "CIR-ATT-100401", siteName: "Dallas Branch", carrier: "AT&T", locationType: "Branch", serviceType: "MPLS", circuitCategory: "Private", bandwidth: "50 Mbps", bandwidthMbps: 50, monthlyCost: "1650.00", contractTerm: "36 months", notes: "Well above market rate" },
+  { circuitId: "CIR-CMC-100402", siteName: "Dallas Branch", carrier: "Comcast", locationType: "Branch", serviceType: "Broadband", circuitCategory: "Internet", bandwidth: "300 Mbps", bandwidthMbps: 300, monthlyCost: "299.00", contractTerm: "24 months", notes: null },
+  { circuitId: "CIR-ATT-100501", siteName: "Denver Branch", carrier: "AT&T", locationType: "Branch", serviceType: "MPLS", circuitCategory: "Private", bandwidth: "20 Mbps", bandwidthMbps: 20, monthlyCost: "1250.00", contractTerm: "36 months", notes: null },
+  { circuitId: "CIR-VZN-100601", siteName: "Los Angeles Branch", carrier: "Verizon", locationType: "Branch", serviceType: "Dedicated Internet", circuitCategory: "Internet", bandwidth: "200 Mbps", bandwidthMbps: 200, monthlyCost: "850.00", contractTerm: "36 months", notes: null },
+  { circuitId: "CIR-VZN-100602", siteName: "Los Angeles Branch", carrier: "Verizon", locationType: "Branch", serviceType: "LTE", circuitCategory: "Internet", bandwidth: "50 Mbps", bandwidthMbps: 50, monthlyCost: "150.00", contractTerm: "24 months", notes: "Backup only" },
+  { circuitId: "CIR-ATT-100701", siteName: "Miami Branch", carrier: "AT&T", locationType: "Branch", serviceType: "MPLS", circuitCategory: "Private", bandwidth: "100 Mbps", bandwidthMbps: 100, monthlyCost: "1850.00", contractTerm: "36 months", notes: null },
+  { circuitId: "CIR-AMZ-100801", siteName: "AWS US-East", carrier: "Amazon", locationType: "Cloud", serviceType: "Direct Connect", circuitCategory: "Private", bandwidth: "1 Gbps", bandwidthMbps: 1000, monthlyCost: "950.00", contractTerm: "12 months", notes: null },
+];
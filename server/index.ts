@@ -2,6 +2,11 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import advisor from "./routes/advisor";
+import { setupAuth } from "./auth";
+import { requireStaff } from "./permissions";
+import { isDatabaseConfigured } from "./db";
+import { storage } from "./storage";
+import { runMigrations } from "./migrate";
 
 import path from "path";
 import { fileURLToPath } from "url";
@@ -10,6 +15,8 @@ const app = express();
 app.use(express.json());
 app.use(express.static("public"));
 app.get("/optimize-flat", (_req, res) => res.sendFile(path.join(__dirname, "../public/optimize-flat.html")));
+setupAuth(app);
+app.use("/api/advisor", requireStaff);
 app.use("/api", advisor);
 app.use(express.urlencoded({ extended: false }));
 
@@ -44,6 +51,12 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Set RUN_MIGRATIONS_ON_STARTUP=false to run them with `npm run db:migrate` instead
+  if (isDatabaseConfigured && process.env.RUN_MIGRATIONS_ON_STARTUP !== "false") {
+    await runMigrations();
+  }
+  await storage.initialize();
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
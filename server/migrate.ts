@@ -0,0 +1,68 @@
+import path from "path";
+import { sql } from "drizzle-orm";
+import { migrate } from "drizzle-orm/neon-serverless/migrator";
+import { readMigrationFiles } from "drizzle-orm/migrator";
+import { db } from "./db";
+import { backfills } from "./backfills";
+
+// Checked-in SQL migrations generated by `npm run db:generate`
+const migrationsFolder = path.resolve(process.cwd(), "migrations");
+
+async function tableExists(name: string): Promise<boolean> {
+  const result = await db.execute(sql`select to_regclass(${name}) as "table"`);
+  return !!result.rows[0]?.table;
+}
+
+// Databases created with `drizzle-kit push` already have the baseline schema
+// but no migration history. Record the baseline as applied so the migrator
+// only runs what came after it instead of failing on existing tables.
+async function adoptPushedDatabase(): Promise<void> {
+  if (!(await tableExists("public.users"))) return;
+  if (await tableExists("drizzle.__drizzle_migrations")) {
+    const applied = await db.execute(sql`select 1 from drizzle.__drizzle_migrations limit 1`);
+    if (applied.rows.length > 0) return;
+  }
+
+  const [baseline] = readMigrationFiles({ migrationsFolder });
+  await db.execute(sql`create schema if not exists drizzle`);
+  await db.execute(sql`
+    create table if not exists drizzle.__drizzle_migrations (
+      id serial primary key,
+      hash text not null,
+      created_at bigint
+    )
+  `);
+  await db.execute(sql`
+    insert into drizzle.__drizzle_migrations (hash, created_at)
+    values (${baseline.hash}, ${baseline.folderMillis})
+  `);
+  console.log("Existing database adopted at the baseline migration");
+}
+
+async function runBackfills(): Promise<void> {
+  await db.execute(sql`
+    create table if not exists drizzle.__data_backfills (
+      id text primary key,
+      applied_at timestamp default now()
+    )
+  `);
+  const result = await db.execute(sql`select id from drizzle.__data_backfills`);
+  const applied = new Set(result.rows.map(row => String(row.id)));
+
+  for (const backfill of backfills) {
+    if (applied.has(backfill.id)) continue;
+    console.log(`Running backfill ${backfill.id}: ${backfill.description}`);
+    await db.transaction(async (tx) => {
+      await backfill.run(tx);
+      await tx.execute(sql`insert into drizzle.__data_backfills (id) values (${backfill.id})`);
+    });
+  }
+}
+
+// Apply pending schema migrations, then pending data backfills
+export async function runMigrations(): Promise<void> {
+  await adoptPushedDatabase();
+  await migrate(db, { migrationsFolder });
+  await runBackfills();
+  console.log("Database migrations are up to date");
+}
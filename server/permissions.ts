@@ -0,0 +1,183 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import type { UserRole, Project, ProjectMemberRole, ProjectWithAccess, Circuit, AuditFlag } from "@shared/schema";
+import { isAdmin, hasProjectAccess, resolveProjectRole, canViewInternalData, type ProjectAccessLevel } from "@shared/permissions";
+import { storage } from "./storage";
+
+// Resolves the project(s) a request touches. Return undefined when the
+// target resource does not exist so the route handler can answer 404 itself,
+// and null when the resource is not attached to any project (admin only).
+type ProjectResolver = (req: Request) => Promise<string | string[] | null | undefined>;
+
+export function requireRole(...roles: UserRole[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    if (!roles.includes(req.user.role as UserRole)) {
+      return res.status(403).json({ message: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
+
+// Consultants and admins; keeps clients out of internal tooling
+export const requireStaff = requireRole('consultant', 'admin');
+
+// Effective role of the user on a project, taking membership into account
+export async function getProjectRole(user: Express.User, project: Project): Promise<ProjectMemberRole | null> {
+  const member = await storage.getProjectMember(project.id, user.id);
+  return resolveProjectRole(user, project, member?.role);
+}
+
+export async function withAccessRole(user: Express.User, project: Project): Promise<ProjectWithAccess | null> {
+  const accessRole = await getProjectRole(user, project);
+  return accessRole ? { ...project, accessRole } : null;
+}
+
+// Ids of every project the user can at least view
+export async function getAccessibleProjectIds(user: Express.User): Promise<Set<string> | 'all'> {
+  if (isAdmin(user)) return 'all';
+  const accessible = await getAccessibleProjects(user);
+  return new Set(accessible.map(project => project.id));
+}
+
+export function requireProjectAccess(level: ProjectAccessLevel, resolveProjectId: ProjectResolver): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    try {
+      const resolved = await resolveProjectId(req);
+      if (resolved === undefined) return next();
+
+      const projectIds = resolved === null ? [null] : Array.isArray(resolved) ? resolved : [resolved];
+      for (const projectId of Array.from(new Set(projectIds))) {
+        if (!projectId) {
+          if (!isAdmin(req.user)) {
+            return res.status(403).json({ message: "You do not have access to this project" });
+          }
+          continue;
+        }
+        // Unknown projects are left to the route handler to report
+        const project = await storage.getProject(projectId);
+        if (!project) continue;
+        if (!hasProjectAccess(await getProjectRole(req.user, project), level)) {
+          return res.status(403).json({ message: "You do not have access to this project" });
+        }
+      }
+      next();
+    } catch (error) {
+      console.error("Permission check error:", error);
+      res.status(500).json({ message: "Failed to check permissions" });
+    }
+  };
+}
+
+export const requireProjectViewer = (resolveProjectId: ProjectResolver) =>
+  requireProjectAccess('view', resolveProjectId);
+
+export const requireProjectEditor = (resolveProjectId: ProjectResolver) =>
+  requireProjectAccess('edit', resolveProjectId);
+
+export const requireProjectManager = (resolveProjectId: ProjectResolver) =>
+  requireProjectAccess('manage', resolveProjectId);
+
+// Projects the user can at least view, for listing
+export async function getAccessibleProjects(user: Express.User): Promise<Project[]> {
+  if (isAdmin(user)) return await storage.getAllProjects();
+  if (user.sharedProjectId) {
+    const project = await storage.getProject(user.sharedProjectId);
+    return project ? [project] : [];
+  }
+  return await storage.getProjectsForUser(user.id);
+}
+
+// Clients never see internal consultant notes or flags marked internal
+export function redactCircuit<T extends Pick<Circuit, 'notes'>>(user: Express.User, circuit: T): T {
+  return canViewInternalData(user) ? circuit : { ...circuit, notes: null };
+}
+
+export function filterInternalFlags(user: Express.User, flags: AuditFlag[]): AuditFlag[] {
+  return canViewInternalData(user) ? flags : flags.filter(flag => !flag.isInternal);
+}
+
+// Project resolvers for the routes in routes.ts
+export const projectFromParam = (param: string): ProjectResolver =>
+  async (req) => req.params[param];
+
+export const projectFromQuery = (param: string): ProjectResolver =>
+  async (req) => (typeof req.query[param] === 'string' ? req.query[param] as string : undefined);
+
+export const projectFromBody: ProjectResolver = async (req) =>
+  req.body?.projectId ?? null;
+
+// Moving a record to another project needs edit rights on both projects
+const withTargetProject = (projectId: string | null, targetProjectId: unknown): string | string[] | null =>
+  projectId && targetProjectId && targetProjectId !== projectId
+    ? [projectId, String(targetProjectId)]
+    : projectId;
+
+export const projectFromCircuitParam: ProjectResolver = async (req) => {
+  const circuit = await storage.getCircuit(req.params.id);
+  return circuit ? withTargetProject(circuit.projectId, req.body?.projectId) : undefined;
+};
+
+export const projectFromCircuitIds: ProjectResolver = async (req) => {
+  const ids: unknown = req.body?.ids;
+  if (!Array.isArray(ids)) return undefined;
+  const projectIds: string[] = [];
+  for (const id of ids) {
+    const circuit = await storage.getCircuit(String(id));
+    if (!circuit?.projectId) return null;
+    projectIds.push(circuit.projectId);
+  }
+  // Moving the circuits needs edit rights on the project they move to as well
+  const targetProjectId: unknown = req.body?.updates?.projectId;
+  if (targetProjectId) projectIds.push(String(targetProjectId));
+  return projectIds;
+};
+
+export const projectFromSiteParam: ProjectResolver = async (req) => {
+  const site = await storage.getSite(req.params.id);
+  return site ? withTargetProject(site.projectId, req.body?.projectId) : undefined;
+};
+
+export const projectFromWanCloudParam: ProjectResolver = async (req) => {
+  const cloud = await storage.getWanCloud(req.params.id);
+  return cloud ? cloud.projectId : undefined;
+};
+
+export const projectFromTopologyDesignParam: ProjectResolver = async (req) => {
+  const design = await storage.getTopologyDesign(req.params.id);
+  return design ? design.projectId : undefined;
+};
+
+export const projectFromCircuitQuery: ProjectResolver = async (req) => {
+  if (typeof req.query.circuitId !== 'string') return undefined;
+  const circuit = await storage.getCircuit(req.query.circuitId);
+  return circuit ? circuit.projectId : undefined;
+};
+
+export const projectFromAuditFlagBody: ProjectResolver = async (req) => {
+  if (!req.body?.circuitId) return null;
+  const circuit = await storage.getCircuit(req.body.circuitId);
+  return circuit?.projectId ?? null;
+};
+
+export const projectFromAuditFlagParam: ProjectResolver = async (req) => {
+  const flag = await storage.getAuditFlag(req.params.id);
+  if (!flag) return undefined;
+  if (!flag.circuitId) return null;
+  const circuit = await storage.getCircuit(flag.circuitId);
+  // Moving the flag to another circuit needs edit rights on that circuit's project too
+  const targetCircuit = req.body?.circuitId && req.body.circuitId !== flag.circuitId
+    ? await storage.getCircuit(String(req.body.circuitId))
+    : undefined;
+  return withTargetProject(circuit?.projectId ?? null, targetCircuit?.projectId);
+};
+
+export const projectFromImportBatchParam: ProjectResolver = async (req) => {
+  const batch = await storage.getImportBatch(req.params.id);
+  return batch ? batch.projectId : undefined;
+};
@@ -1,14 +1,453 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertProjectSchema, insertCircuitSchema, insertAuditFlagSchema } from "@shared/schema";
+import { storage, circuitChangedSinceImport, type CircuitImportBatch, type CircuitUpdateBatch } from "./storage";
+import { insertProjectSchema, insertCircuitSchema, insertAuditFlagSchema, updateAuditFlagSchema } from "@shared/schema";
 import { z } from "zod";
 import multer from "multer";
-import csv from "csv-parser";
-import { Readable } from "stream";
-import { db } from "./db"; // Assuming db is imported from './db'
-import { eq } from "drizzle-orm"; // Assuming eq is imported from 'drizzle-orm'
-import { sites, circuits } from "@shared/schema";
+import crypto from "crypto";
+import { insertUserSchema, updateUserSchema, insertBenchmarkSettingsSchema, insertProjectMemberSchema, insertProjectShareLinkSchema, insertTopologyDesignSchema, cloneTopologyDesignSchema, topologyImportSchema, insertWanCloudSchema, updateWanCloudSchema, insertImportMappingProfileSchema, projectMemberRoles, type ProjectWithAccess, type ProjectShareLink, type Circuit, type Site, type TopologyDesign, type TopologyConnection, type TopologyImport } from "@shared/schema";
+import { isClient } from "@shared/permissions";
+import { circuitConnection, connectionTypeForCloud } from "@shared/topology";
+import { analyzeResiliency, redundancyLevels, resiliencyNetworkFor } from "@shared/resiliency";
+import { circuitImportFields, suggestColumnMapping, mapImportRow, validateImportRow, normalizeCircuitId, importModes, type ColumnMapping, type CircuitImportFieldKey, type MappedImportRow, type ImportMode, type ImportPreview, type ImportPreviewRow, type ImportRowAction, type ImportFieldChange } from "@shared/circuit-import";
+import { readSpreadsheet, SpreadsheetError } from "./spreadsheets";
+import { buildCircuitExport, circuitExportContentTypes } from "./circuit-export";
+import { applyCircuitView, matchesCircuitSearch, circuitExportFormats, circuitSortFields } from "@shared/circuit-export";
+import { toPublicUser, createShareToken } from "./auth";
+import { hashPassword } from "./passwords";
+import {
+  requireRole,
+  requireStaff,
+  requireProjectViewer,
+  requireProjectEditor,
+  requireProjectManager,
+  withAccessRole,
+  getAccessibleProjectIds,
+  getAccessibleProjects,
+  redactCircuit,
+  filterInternalFlags,
+  projectFromParam,
+  projectFromQuery,
+  projectFromBody,
+  projectFromCircuitQuery,
+  projectFromCircuitParam,
+  projectFromCircuitIds,
+  projectFromSiteParam,
+  projectFromWanCloudParam,
+  projectFromTopologyDesignParam,
+  projectFromAuditFlagBody,
+  projectFromAuditFlagParam,
+  projectFromImportBatchParam,
+} from "./permissions";
+
+// Site record for a site known only by name, from circuits or imported diagrams
+function newSiteRecord(projectId: string, name: string, category: string): Omit<Site, 'id' | 'createdAt' | 'updatedAt'> {
+  return {
+    name,
+    location: name,
+    category,
+    projectId,
+    description: null,
+    coordinates: null,
+    streetAddress: null,
+    city: null,
+    state: null,
+    postalCode: null,
+    country: "United States",
+    addressValidated: false,
+    latitude: null,
+    longitude: null,
+    addressValidationResponse: null,
+    nearestMegaportPop: null,
+    megaportDistance: null,
+    megaportRegion: null,
+  };
+}
+
+// Links circuit data to its site, either by siteId or by matching siteName
+// within the circuit's project, creating the site when there is no match.
+// Given plannedSites, a new site is added there to be written later instead.
+// Returns null when siteId does not belong to the circuit's project.
+type CircuitSiteFields = Partial<Pick<Circuit, 'projectId' | 'siteId' | 'siteName' | 'locationType'>>;
+type PlannedSites = Map<string, Omit<Site, 'createdAt' | 'updatedAt'>>; // By project and lowercased name
+
+async function linkCircuitToSite<T extends CircuitSiteFields>(data: T, current?: Circuit, plannedSites?: PlannedSites): Promise<T | null> {
+  const projectId = data.projectId ?? current?.projectId;
+  if (!projectId) return data;
+
+  if (data.siteId) {
+    const site = await storage.getSite(data.siteId);
+    if (!site || site.projectId !== projectId) return null;
+    return { ...data, siteName: site.name };
+  }
+
+  // Moving a circuit to another project relinks it to a site there
+  const movedProject = !!current && !!data.projectId && data.projectId !== current.projectId;
+  const siteName = (data.siteName ?? (movedProject ? current.siteName : undefined))?.trim();
+  if (!siteName) return data;
+  // Unchanged name on an already linked circuit keeps its current site
+  if (current?.siteId && !movedProject && siteName.toLowerCase() === current.siteName.trim().toLowerCase()) {
+    return { ...data, siteName: current.siteName };
+  }
+
+  const category = data.locationType ?? current?.locationType ?? 'Branch';
+  const plannedKey = `${projectId}:${siteName.toLowerCase()}`;
+  let site = plannedSites?.get(plannedKey) ?? await storage.findSiteByName(projectId, siteName);
+  if (!site && plannedSites) {
+    site = { id: crypto.randomUUID(), ...newSiteRecord(projectId, siteName, category) };
+    plannedSites.set(plannedKey, site);
+  }
+  site ??= await storage.createSite(newSiteRecord(projectId, siteName, category));
+  return { ...data, siteId: site.id, siteName: site.name };
+}
+
+// A circuit can only connect to a WAN cloud on its own project's current design
+async function isWanCloudInProject(wanCloudId: string | null | undefined, projectId: string | null | undefined): Promise<boolean> {
+  if (!wanCloudId) return true;
+  const cloud = await storage.getWanCloud(wanCloudId);
+  if (!cloud || cloud.projectId !== projectId || !cloud.designId) return false;
+  const design = await storage.getTopologyDesign(cloud.designId);
+  return design?.kind === 'current';
+}
+
+// A circuit moved to another project without a new cloud leaves the old
+// project's WAN cloud behind
+function unlinkCloudOnMove<T extends Partial<Pick<Circuit, 'projectId' | 'wanCloudId'>>>(data: T, current: Circuit): T {
+  const moved = !!data.projectId && data.projectId !== current.projectId;
+  return moved && data.wanCloudId === undefined ? { ...data, wanCloudId: null } : data;
+}
+
+async function isDesignNameTaken(projectId: string, name: string, exceptId?: string): Promise<boolean> {
+  const designs = await storage.getTopologyDesignsByProject(projectId);
+  return designs.some(design => design.id !== exceptId && design.name.toLowerCase() === name.toLowerCase());
+}
+
+// Checks that every existing site, cloud and circuit an import refers to
+// belongs to the design's project; returns the problem, if any
+async function validateTopologyImport(design: TopologyDesign, data: TopologyImport): Promise<string | null> {
+  for (const site of data.sites) {
+    if (!site.siteId) continue;
+    const existing = await storage.getSite(site.siteId);
+    if (!existing || existing.projectId !== design.projectId) return "Site not found in this project";
+  }
+  for (const cloud of data.clouds) {
+    if (!cloud.cloudId) continue;
+    const existing = await storage.getWanCloud(cloud.cloudId);
+    if (!existing || existing.designId !== design.id) return "WAN cloud not found in this design";
+  }
+  for (const connection of data.connections) {
+    if (!connection.circuitId) continue;
+    const circuit = await storage.getCircuit(connection.circuitId);
+    if (!circuit || circuit.projectId !== design.projectId) return "Circuit not found in this project";
+  }
+  return null;
+}
+
+// Loads a mapped diagram into a design: links or creates its sites and WAN
+// clouds at the diagram's positions, then adds its connections. Circuits are
+// never created. On the current design a connection can only link an
+// existing circuit to its cloud; proposed designs take every connection.
+async function importIntoDesign(design: TopologyDesign, data: TopologyImport, userId: string) {
+  const siteIds = new Map<string, string>();
+  const siteNames = new Map<string, string>();
+  const sitePositions = { ...design.sitePositions };
+  let createdSites = 0;
+
+  for (const site of data.sites) {
+    let existing = site.siteId ? await storage.getSite(site.siteId) : await storage.findSiteByName(design.projectId, site.name);
+    if (!existing) {
+      existing = await storage.createSite(newSiteRecord(design.projectId, site.name, site.category));
+      createdSites++;
+    }
+    siteIds.set(site.ref, existing.id);
+    siteNames.set(site.ref, existing.name);
+    sitePositions[existing.id] = { x: site.x, y: site.y };
+  }
+
+  const cloudIds = new Map<string, string>();
+  const cloudTypes = new Map<string, string>();
+  let createdClouds = 0;
+
+  for (const cloud of data.clouds) {
+    const saved = cloud.cloudId
+      ? await storage.updateWanCloud(cloud.cloudId, { x: cloud.x, y: cloud.y })
+      : await storage.createWanCloud({
+          name: cloud.name,
+          type: cloud.type,
+          color: cloud.color ?? '#3b82f6',
+          x: cloud.x,
+          y: cloud.y,
+          projectId: design.projectId,
+          designId: design.id,
+          isDefault: false,
+        });
+    if (!saved) continue;
+    if (!cloud.cloudId) createdClouds++;
+    cloudIds.set(cloud.ref, saved.id);
+    cloudTypes.set(cloud.ref, saved.type);
+  }
+
+  const connections: TopologyConnection[] = [...(design.connections ?? [])];
+  let importedConnections = 0;
+  let skippedConnections = 0;
+
+  for (const connection of data.connections) {
+    const siteId = siteIds.get(connection.siteRef);
+    const cloudId = connection.cloudRef ? cloudIds.get(connection.cloudRef) : undefined;
+    const endpoint = connection.endpointSiteRef ? siteNames.get(connection.endpointSiteRef) : undefined;
+    if (!siteId || (!cloudId && !endpoint)) {
+      skippedConnections++;
+      continue;
+    }
+
+    if (design.kind === 'current') {
+      if (connection.circuitId && cloudId) {
+        await storage.updateCircuit(connection.circuitId, { wanCloudId: cloudId });
+        importedConnections++;
+      } else if (connection.circuitId) {
+        importedConnections++;
+      } else {
+        skippedConnections++;
+      }
+      continue;
+    }
+
+    const circuit = connection.circuitId ? await storage.getCircuit(connection.circuitId) : undefined;
+    const imported: TopologyConnection = circuit
+      ? { ...circuitConnection(circuit, siteId), cloudId }
+      : {
+          id: crypto.randomUUID(),
+          siteId,
+          type: endpoint ? 'point-to-point' : connectionTypeForCloud(cloudTypes.get(connection.cloudRef!) ?? ''),
+          bandwidth: connection.bandwidth,
+          provider: connection.provider,
+          pointToPointEndpoint: endpoint,
+          cloudId,
+        };
+    const index = connections.findIndex(existing => existing.id === imported.id);
+    if (index === -1) connections.push(imported);
+    else connections[index] = imported;
+    importedConnections++;
+  }
+
+  // Imported clouds are shown even if a cloud of theirs was hidden before
+  const importedCloudIds = new Set(cloudIds.values());
+  const updated = await storage.updateTopologyDesign(design.id, {
+    name: design.name,
+    connections: design.kind === 'current' ? null : connections,
+    sitePositions,
+    hiddenClouds: design.hiddenClouds.filter(id => !importedCloudIds.has(id)),
+    cloudVisibility: {
+      ...design.cloudVisibility,
+      ...Object.fromEntries(Array.from(importedCloudIds).map(id => [id, true])),
+    },
+    connectionVisibility: design.connectionVisibility,
+    customOnramps: design.customOnramps,
+  }, userId);
+
+  return { design: updated, createdSites, createdClouds, importedConnections, skippedConnections };
+}
+
+// Fields a re-imported row would set on its circuit: the ones the row has
+// values for, keeping the circuit's own values for the rest. Cost per Mbps
+// follows whichever of cost and bandwidth is set.
+function importedCircuitChanges(values: MappedImportRow, data: Omit<Circuit, 'id' | 'createdAt' | 'updatedAt'>, current: Circuit): Partial<Circuit> {
+  const changes: Partial<Circuit> = {};
+  for (const key of Object.keys(values) as CircuitImportFieldKey[]) {
+    if (key === 'bandwidth' || key === 'bandwidthMbps') {
+      Object.assign(changes, { bandwidth: data.bandwidth, bandwidthMbps: data.bandwidthMbps });
+    } else if (key === 'siteName') {
+      Object.assign(changes, { siteId: data.siteId, siteName: data.siteName });
+    } else {
+      Object.assign(changes, { [key]: data[key] });
+    }
+  }
+  if (changes.bandwidthMbps !== undefined || changes.monthlyCost !== undefined) {
+    const mbps = changes.bandwidthMbps ?? current.bandwidthMbps;
+    const cost = parseFloat(changes.monthlyCost ?? current.monthlyCost);
+    changes.costPerMbps = (mbps > 0 ? cost / mbps : 0).toFixed(2);
+  }
+  return changes;
+}
+
+const importChangeLabels: Record<string, string> = {
+  ...Object.fromEntries(circuitImportFields.map(field => [field.key, field.label])),
+  costPerMbps: 'Cost per Mbps',
+};
+
+const importDisplayValue = (value: unknown) =>
+  value instanceof Date ? value.toISOString().slice(0, 10) : value == null ? '' : String(value);
+
+// The fields whose values the changes would actually alter, old and new
+function diffCircuitChanges(current: Circuit, changes: Partial<Circuit>): ImportFieldChange[] {
+  return (Object.keys(changes) as (keyof Circuit)[])
+    .filter(field => field !== 'siteId')
+    .map(field => ({
+      field,
+      label: importChangeLabels[field] ?? field,
+      from: importDisplayValue(current[field]),
+      to: importDisplayValue(changes[field]),
+    }))
+    .filter(change => change.from !== change.to);
+}
+
+// Works out what importing the rows into a project would do, without saving
+// anything. A row creates a circuit or, depending on the mode, updates or
+// skips the project's circuit with the same circuit ID; rows with errors are
+// left out. Sites are matched by name and added when missing. A full sync
+// also raises an audit flag on each project circuit the file doesn't list.
+async function planCircuitImport(
+  projectId: string,
+  rows: MappedImportRow[],
+  mode: ImportMode,
+  source: { fileName: string; userId: string },
+): Promise<{ preview: ImportPreview; batch: CircuitImportBatch }> {
+  const settings = await storage.getBenchmarkSettings();
+  const serviceTypes = Object.keys(settings.serviceBenchmarks);
+  const allCircuits = await storage.getAllCircuits();
+  const existingCircuits = new Map(allCircuits.map(circuit => [circuit.circuitId, circuit]));
+  const projectCircuits = allCircuits.filter(circuit => circuit.projectId === projectId);
+  const similarCircuits = new Map(projectCircuits.map(circuit => [normalizeCircuitId(circuit.circuitId, circuit.carrier), circuit]));
+  const siteKey = (name: string) => name.trim().toLowerCase();
+  const projectSites = new Map((await storage.getSitesByProject(projectId)).map(site => [siteKey(site.name), site]));
+
+  const batch: CircuitImportBatch = { sites: [], creates: [], updates: [], flags: [] };
+  const newSites = new Map<string, CircuitImportBatch['sites'][number]>();
+  const firstRows = new Map<string, number>(); // Circuit ID -> row it first appears on
+  const similarRows = new Map<string, { row: number; circuitId: string }>(); // Normalized circuit ID -> first row with it
+
+  const previewRows = rows.map((values, index): ImportPreviewRow => {
+    const row = index + 1;
+    const { circuit, errors } = validateImportRow(values, serviceTypes);
+    const current = existingCircuits.get(circuit.circuitId);
+    const warnings: string[] = [];
+
+    if (circuit.circuitId) {
+      const firstRow = firstRows.get(circuit.circuitId);
+      if (firstRow) errors.push(`Circuit ID "${circuit.circuitId}" is also on row ${firstRow}`);
+      else firstRows.set(circuit.circuitId, row);
+
+      const similarKey = normalizeCircuitId(circuit.circuitId, circuit.carrier);
+      const similarCircuit = similarCircuits.get(similarKey);
+      if (!current && similarCircuit) {
+        warnings.push(`Looks like circuit "${similarCircuit.circuitId}" already in the project`);
+      }
+      const similarRow = similarRows.get(similarKey);
+      if (similarRow && similarRow.circuitId !== circuit.circuitId) {
+        warnings.push(`Looks like circuit "${similarRow.circuitId}" on row ${similarRow.row}`);
+      } else if (!similarRow) {
+        similarRows.set(similarKey, { row, circuitId: circuit.circuitId });
+      }
+    }
+    if (current && current.projectId !== projectId) {
+      errors.push(`Circuit ID "${circuit.circuitId}" belongs to another project`);
+    }
+
+    const summary = {
+      row,
+      circuitId: circuit.circuitId,
+      siteName: circuit.siteName,
+      carrier: circuit.carrier,
+      serviceType: circuit.serviceType,
+      bandwidth: circuit.bandwidth,
+      monthlyCost: circuit.monthlyCost,
+      newSite: false,
+      changes: [],
+      warnings,
+      errors,
+    };
+    if (errors.length > 0) return { ...summary, action: 'error' };
+    if (current && mode === 'create') return { ...summary, action: 'skip' };
+
+    // A site for the row's name, added to the batch only if the row needs it
+    const key = siteKey(circuit.siteName);
+    const site = projectSites.get(key) ?? newSites.get(key)
+      ?? { id: crypto.randomUUID(), ...newSiteRecord(projectId, circuit.siteName.trim(), circuit.locationType) };
+    const useSite = () => {
+      if (!projectSites.has(key) && !newSites.has(key)) {
+        newSites.set(key, site);
+        batch.sites.push(site);
+      }
+      return { newSite: !projectSites.has(key) };
+    };
+
+    const data = {
+      ...circuit,
+      contractEndDate: circuit.contractEndDate ? new Date(circuit.contractEndDate) : null,
+      projectId,
+      siteId: site.id,
+      siteName: site.name,
+      wanCloudId: current?.wanCloudId ?? null,
+      flags: [],
+      siteFeatures: [],
+    };
+    if (!current) {
+      batch.creates.push(data);
+      return { ...summary, ...useSite(), action: 'create' };
+    }
+
+    const changes = importedCircuitChanges(values, data, current);
+    const diff = diffCircuitChanges(current, changes);
+    const relinked = changes.siteId !== undefined && changes.siteId !== current.siteId;
+    if (diff.length === 0 && !relinked) return { ...summary, action: 'unchanged' };
+
+    const changed = new Set<string>(diff.map(change => change.field));
+    const fields = (Object.keys(changes) as (keyof Circuit)[]).filter(field =>
+      changed.has(field) || (relinked && (field === 'siteId' || field === 'siteName'))
+    );
+    batch.updates.push({
+      id: current.id,
+      changes: Object.fromEntries(fields.map(field => [field, changes[field]])),
+      before: Object.fromEntries(fields.map(field => [field, current[field]])),
+    });
+    return { ...summary, ...(relinked ? useSite() : {}), action: 'update', changes: diff };
+  });
+
+  // Circuits already flagged and not yet resolved aren't flagged again
+  const listed = new Set(rows.map(values => values.circuitId).filter(Boolean));
+  const missing = mode === 'sync' ? projectCircuits.filter(circuit => !listed.has(circuit.circuitId)) : [];
+  if (missing.length > 0) {
+    const flagged = new Set((await storage.getAllAuditFlags())
+      .filter(flag => flag.flagType === 'missing-from-import' && !flag.isResolved)
+      .map(flag => flag.circuitId));
+    const importedOn = new Date().toISOString().slice(0, 10);
+    missing.filter(circuit => !flagged.has(circuit.id)).forEach(circuit => batch.flags.push({
+      circuitId: circuit.id,
+      flagType: 'missing-from-import',
+      severity: 'medium',
+      title: 'Missing from import',
+      description: `Circuit ${circuit.circuitId} was not listed in ${source.fileName}, synced on ${importedOn}. Confirm whether it has been disconnected.`,
+      isResolved: false,
+      isInternal: true,
+      createdBy: source.userId,
+      resolvedAt: null,
+    }));
+  }
+
+  const count = (action: ImportRowAction) => previewRows.filter(row => row.action === action).length;
+  return {
+    preview: {
+      mode,
+      rows: previewRows,
+      missing: missing.map(circuit => ({
+        id: circuit.id,
+        circuitId: circuit.circuitId,
+        siteName: circuit.siteName,
+        carrier: circuit.carrier,
+      })),
+      summary: {
+        create: count('create'),
+        update: count('update'),
+        unchanged: count('unchanged'),
+        skip: count('skip'),
+        error: count('error'),
+        newSites: batch.sites.length,
+        missing: missing.length,
+      },
+    },
+    batch,
+  };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Configure multer for file uploads
@@ -16,45 +455,342 @@ export async function registerRoutes(app: Express): Promise<Server> {
     storage: multer.memoryStorage(),
     limits: { fileSize: 10 * 1024 * 1024 } // 10MB limit
   });
+  // Users
+  app.get("/api/users", requireStaff, async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", requireRole('admin'), async (req, res) => {
+    try {
+      const userData = insertUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(userData.username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+      const user = await storage.createUser({
+        ...userData,
+        password: await hashPassword(userData.password),
+      });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid user data", errors: error.errors });
+      }
+      console.error("User creation error:", error);
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+
+  app.patch("/api/users/:id", requireRole('admin'), async (req, res) => {
+    try {
+      const updates = updateUserSchema.parse(req.body);
+      if (updates.password) {
+        updates.password = await hashPassword(updates.password);
+      }
+      if (req.params.id === req.user!.id && updates.role && updates.role !== 'admin') {
+        return res.status(400).json({ message: "You cannot remove your own admin role" });
+      }
+      const user = await storage.updateUser(req.params.id, updates);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid user data", errors: error.errors });
+      }
+      console.error("User update error:", error);
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  app.delete("/api/users/:id", requireRole('admin'), async (req, res) => {
+    try {
+      if (req.params.id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot delete your own account" });
+      }
+      const owned = (await storage.getAllProjects()).filter(project => project.createdBy === req.params.id);
+      if (owned.length > 0) {
+        return res.status(409).json({
+          message: `This user is the assigned consultant on ${owned.length} project${owned.length === 1 ? "" : "s"}; assign ${owned.length === 1 ? "it" : "them"} to someone else first`,
+        });
+      }
+      const deleted = await storage.deleteUser(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete user error:", error);
+      res.status(500).json({ message: "Failed to delete user" });
+    }
+  });
+
+  // Benchmark settings
+  app.get("/api/benchmark-settings", requireStaff, async (req, res) => {
+    try {
+      const settings = await storage.getBenchmarkSettings();
+      res.json(settings);
+    } catch (error) {
+      console.error("Benchmark settings fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch benchmark settings" });
+    }
+  });
+
+  app.put("/api/benchmark-settings", requireRole('admin'), async (req, res) => {
+    try {
+      const settingsData = insertBenchmarkSettingsSchema.partial().parse(req.body);
+      const settings = await storage.updateBenchmarkSettings(settingsData, req.user!.id);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid benchmark settings", errors: error.errors });
+      }
+      console.error("Benchmark settings update error:", error);
+      res.status(500).json({ message: "Failed to update benchmark settings" });
+    }
+  });
+
   // Projects
   app.get("/api/projects", async (req, res) => {
     try {
-      const projects = await storage.getAllProjects();
-      res.json(projects);
+      const user = req.user!;
+      const projects = await getAccessibleProjects(user);
+      const withAccess = await Promise.all(projects.map(project => withAccessRole(user, project)));
+      res.json(withAccess.filter((project): project is ProjectWithAccess => project !== null));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch projects" });
     }
   });
 
-  app.get("/api/projects/:id", async (req, res) => {
+  app.get("/api/projects/:id", requireProjectViewer(projectFromParam("id")), async (req, res) => {
     try {
       const project = await storage.getProject(req.params.id);
       if (!project) {
         return res.status(404).json({ message: "Project not found" });
       }
-      res.json(project);
+      res.json(await withAccessRole(req.user!, project));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch project" });
     }
   });
 
-  app.post("/api/projects", async (req, res) => {
+  app.post("/api/projects", requireStaff, async (req, res) => {
     try {
       const projectData = {
         name: req.body.name,
         clientName: req.body.clientName || req.body.name, // Use name as clientName if not provided
         status: req.body.status || 'active',
-        createdBy: req.body.createdBy || null,
+        // Only admins assign a project to someone else, as on update
+        createdBy: (req.user!.role === 'admin' && req.body.createdBy) || req.user!.id,
       };
       const project = await storage.createProject(projectData);
-      res.status(201).json(project);
+
+      // The assignee owns the project
+      const user = req.user!;
+      if (project.createdBy) {
+        await storage.upsertProjectMember({ projectId: project.id, userId: project.createdBy, role: 'owner', addedBy: user.id });
+      }
+      await storage.createCurrentTopologyDesign(project.id, user.id);
+
+      res.status(201).json(await withAccessRole(user, project));
     } catch (error) {
       console.error("Project creation error:", error);
       res.status(500).json({ message: "Failed to create project" });
     }
   });
 
-  app.delete("/api/projects/:id", async (req, res) => {
+  app.patch("/api/projects/:id", requireProjectEditor(projectFromParam("id")), async (req, res) => {
+    try {
+      const { name, clientName, status, createdBy } = req.body;
+      const updates: Record<string, unknown> = { name, clientName, status };
+      // Only admins can reassign a project
+      if (createdBy !== undefined && req.user!.role === 'admin') {
+        updates.createdBy = createdBy;
+      }
+      const project = await storage.updateProject(
+        req.params.id,
+        Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)),
+      );
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(project);
+    } catch (error) {
+      console.error("Project update error:", error);
+      res.status(500).json({ message: "Failed to update project" });
+    }
+  });
+
+  // Project members
+  app.get("/api/projects/:id/members", requireStaff, requireProjectViewer(projectFromParam("id")), async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const members = await storage.getProjectMembers(project.id);
+      const users = await storage.getAllUsers();
+      const usersById = new Map(users.map(user => [user.id, user]));
+
+      // The assigned consultant always shows up as an owner
+      if (project.createdBy && !members.some(member => member.userId === project.createdBy)) {
+        members.unshift({ projectId: project.id, userId: project.createdBy, role: 'owner', addedBy: null, createdAt: project.createdAt });
+      }
+
+      res.json(members
+        .filter(member => usersById.has(member.userId))
+        .map(member => {
+          const { name, username } = usersById.get(member.userId)!;
+          return { ...member, name, username };
+        }));
+    } catch (error) {
+      console.error("Project members fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch project members" });
+    }
+  });
+
+  app.post("/api/projects/:id/members", requireProjectManager(projectFromParam("id")), async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      // Members can be invited by user id or username
+      const invitee = req.body.userId
+        ? await storage.getUser(req.body.userId)
+        : req.body.username ? await storage.getUserByUsername(req.body.username) : undefined;
+      if (!invitee) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { role } = insertProjectMemberSchema.parse({ ...req.body, userId: invitee.id });
+      if (isClient(invitee) && role !== 'viewer') {
+        return res.status(400).json({ message: "Client users can only be added as viewers" });
+      }
+      const member = await storage.upsertProjectMember({
+        projectId: project.id,
+        userId: invitee.id,
+        role,
+        addedBy: req.user!.id,
+      });
+      res.status(201).json({ ...member, name: invitee.name, username: invitee.username });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid member data", errors: error.errors });
+      }
+      console.error("Add project member error:", error);
+      res.status(500).json({ message: "Failed to add project member" });
+    }
+  });
+
+  app.patch("/api/projects/:id/members/:userId", requireProjectManager(projectFromParam("id")), async (req, res) => {
+    try {
+      const role = z.enum(projectMemberRoles).parse(req.body.role);
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (project.createdBy === req.params.userId) {
+        return res.status(400).json({ message: "The assigned consultant is always an owner" });
+      }
+      const existing = await storage.getProjectMember(project.id, req.params.userId);
+      if (!existing) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (role !== 'viewer' && isClient(await storage.getUser(existing.userId))) {
+        return res.status(400).json({ message: "Client users can only be viewers" });
+      }
+      const member = await storage.upsertProjectMember({ ...existing, role });
+      res.json(member);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid member role", errors: error.errors });
+      }
+      console.error("Update project member error:", error);
+      res.status(500).json({ message: "Failed to update project member" });
+    }
+  });
+
+  app.delete("/api/projects/:id/members/:userId", requireProjectManager(projectFromParam("id")), async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (project.createdBy === req.params.userId) {
+        return res.status(400).json({ message: "Reassign the project before removing its assigned consultant" });
+      }
+      const removed = await storage.removeProjectMember(project.id, req.params.userId);
+      if (!removed) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Remove project member error:", error);
+      res.status(500).json({ message: "Failed to remove project member" });
+    }
+  });
+
+  // Client share links
+  const toShareLinkResponse = (link: ProjectShareLink) => {
+    const token = createShareToken(link);
+    return { ...link, token, url: `/share/${token}` };
+  };
+
+  app.get("/api/projects/:id/share-links", requireProjectManager(projectFromParam("id")), async (req, res) => {
+    try {
+      const links = await storage.getShareLinksByProject(req.params.id);
+      res.json(links.filter(link => !link.revokedAt).map(toShareLinkResponse));
+    } catch (error) {
+      console.error("Share links fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch share links" });
+    }
+  });
+
+  app.post("/api/projects/:id/share-links", requireProjectManager(projectFromParam("id")), async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const { label, expiresInDays } = insertProjectShareLinkSchema.parse(req.body);
+      const link = await storage.createShareLink({
+        projectId: project.id,
+        label: label || null,
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+        createdBy: req.user!.id,
+      });
+      res.status(201).json(toShareLinkResponse(link));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid share link", errors: error.errors });
+      }
+      console.error("Share link creation error:", error);
+      res.status(500).json({ message: "Failed to create share link" });
+    }
+  });
+
+  app.delete("/api/projects/:id/share-links/:linkId", requireProjectManager(projectFromParam("id")), async (req, res) => {
+    try {
+      const link = await storage.getShareLink(req.params.linkId);
+      if (!link || link.projectId !== req.params.id) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+      await storage.revokeShareLink(link.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Share link revoke error:", error);
+      res.status(500).json({ message: "Failed to revoke share link" });
+    }
+  });
+
+  app.delete("/api/projects/:id", requireRole('admin'), async (req, res) => {
     try {
       const deleted = await storage.deleteProject(req.params.id);
       if (!deleted) {
@@ -68,7 +804,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Circuits
-  app.get("/api/circuits", async (req, res) => {
+  app.get("/api/circuits", requireProjectViewer(projectFromQuery("projectId")), async (req, res) => {
     try {
       const projectId = req.query.projectId as string;
       
@@ -80,34 +816,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Apply search filter if provided
       if (req.query.search && typeof req.query.search === 'string') {
-        const searchLower = req.query.search.toLowerCase();
-        circuits = circuits.filter(circuit =>
-          circuit.siteName?.toLowerCase().includes(searchLower) ||
-          circuit.circuitId?.toLowerCase().includes(searchLower) ||
-          circuit.carrier?.toLowerCase().includes(searchLower)
-        );
+        const search = req.query.search;
+        circuits = circuits.filter(circuit => matchesCircuitSearch(circuit, search));
       }
 
-      res.json(circuits);
+      res.json(circuits.map(circuit => redactCircuit(req.user!, circuit)));
     } catch (error) {
       console.error("Circuits fetch error:", error);
       res.status(500).json({ message: "Failed to fetch circuits" });
     }
   });
 
-  app.get("/api/circuits/:id", async (req, res) => {
+  app.get("/api/circuits/:id", requireProjectViewer(projectFromCircuitParam), async (req, res) => {
     try {
       const circuit = await storage.getCircuit(req.params.id);
       if (!circuit) {
         return res.status(404).json({ message: "Circuit not found" });
       }
-      res.json(circuit);
+      res.json(redactCircuit(req.user!, circuit));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch circuit" });
     }
   });
 
-  app.post("/api/circuits", async (req, res) => {
+  app.post("/api/circuits", requireProjectEditor(projectFromBody), async (req, res) => {
     try {
       console.log('Creating circuit with data:', req.body);
       
@@ -129,8 +861,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         flags: req.body.flags || [],
         siteFeatures: req.body.siteFeatures || [],
       };
+
+      const linkedCircuitData = await linkCircuitToSite(circuitData);
+      if (!linkedCircuitData) {
+        return res.status(400).json({ message: "Site not found in this project" });
+      }
+      if (!(await isWanCloudInProject(circuitData.wanCloudId, circuitData.projectId))) {
+        return res.status(400).json({ message: "WAN cloud not found in this project" });
+      }
       
-      const circuit = await storage.createCircuit(circuitData);
+      const circuit = await storage.createCircuit(linkedCircuitData);
       console.log('Circuit created successfully:', circuit.id);
       res.status(201).json(circuit);
     } catch (error) {
@@ -142,9 +882,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/circuits/:id", async (req, res) => {
+  // Fields a bulk edit can set. Circuit IDs are unique, so they are never set in bulk.
+  const bulkCircuitUpdateSchema = z.object({
+    ids: z.array(z.string()).min(1),
+    updates: insertCircuitSchema.omit({ circuitId: true }).partial().extend({
+      contractEndDate: z.coerce.date().nullable().optional(),
+    }),
+  });
+
+  // Registered before /api/circuits/:id, which would otherwise match "bulk".
+  // Every circuit is resolved first, then all of them and any new sites are
+  // written in one transaction.
+  app.patch("/api/circuits/bulk", requireProjectEditor(projectFromCircuitIds), async (req, res) => {
     try {
-      const circuit = await storage.updateCircuit(req.params.id, req.body);
+      const { ids, updates } = bulkCircuitUpdateSchema.parse(req.body);
+      if (updates.projectId && !(await storage.getProject(updates.projectId))) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      // Site changes are resolved per circuit since the circuits may span projects
+      const relink = 'siteId' in updates || 'siteName' in updates || 'projectId' in updates;
+      const plannedSites: PlannedSites = new Map();
+      const batch: CircuitUpdateBatch = { sites: [], updates: [] };
+      for (const id of ids) {
+        const existing = await storage.getCircuit(id);
+        if (!existing) continue;
+        const moved = unlinkCloudOnMove(updates, existing);
+        const changes = relink ? await linkCircuitToSite(moved, existing, plannedSites) : moved;
+        if (!changes) {
+          return res.status(400).json({ message: "Site not found in this project" });
+        }
+        if (!(await isWanCloudInProject(changes.wanCloudId, changes.projectId ?? existing.projectId))) {
+          return res.status(400).json({ message: "WAN cloud not found in this project" });
+        }
+        batch.updates.push({ id, changes });
+      }
+      batch.sites = Array.from(plannedSites.values());
+
+      res.json(await storage.bulkUpdateCircuits(batch));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid circuit data", errors: error.errors });
+      }
+      console.error("Bulk circuit update error:", error);
+      res.status(500).json({ message: "Failed to bulk update circuits" });
+    }
+  });
+
+  app.patch("/api/circuits/:id", requireProjectEditor(projectFromCircuitParam), async (req, res) => {
+    try {
+      const existing = await storage.getCircuit(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Circuit not found" });
+      }
+      const updates = await linkCircuitToSite(unlinkCloudOnMove(req.body, existing), existing);
+      if (!updates) {
+        return res.status(400).json({ message: "Site not found in this project" });
+      }
+      if (!(await isWanCloudInProject(updates.wanCloudId, updates.projectId ?? existing.projectId))) {
+        return res.status(400).json({ message: "WAN cloud not found in this project" });
+      }
+      const circuit = await storage.updateCircuit(req.params.id, updates);
       if (!circuit) {
         return res.status(404).json({ message: "Circuit not found" });
       }
@@ -155,7 +953,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/circuits/:id", async (req, res) => {
+  app.delete("/api/circuits/:id", requireProjectEditor(projectFromCircuitParam), async (req, res) => {
     try {
       await storage.deleteCircuit(req.params.id);
       res.status(204).send();
@@ -164,118 +962,267 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/circuits/bulk", async (req, res) => {
+  // Circuit Import. The file's sheets and columns, so they can be matched to
+  // circuit fields before importing.
+  app.post("/api/circuits/import/inspect", upload.single("file"), requireProjectEditor(projectFromBody), async (req, res) => {
     try {
-      const { ids, updates } = req.body;
-      if (!Array.isArray(ids) || !updates) {
-        return res.status(400).json({ message: "Invalid bulk update data" });
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
       }
 
-      const updateData = updates;
-      const circuits = await storage.bulkUpdateCircuits(ids, updateData);
-      res.json(circuits);
+      const spreadsheet = await readSpreadsheet(req.file, req.body.sheet || undefined);
+      res.json({
+        fileName: req.file.originalname,
+        sheets: spreadsheet.sheets,
+        sheet: spreadsheet.sheet,
+        headers: spreadsheet.headers,
+        rowCount: spreadsheet.rows.length,
+        sampleRows: spreadsheet.rows.slice(0, 5),
+      });
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid circuit data", errors: error.errors });
+      if (error instanceof SpreadsheetError) {
+        return res.status(400).json({ message: error.message });
       }
-      res.status(500).json({ message: "Failed to bulk update circuits" });
+      console.error("Import inspect error:", error);
+      res.status(500).json({ message: "Failed to read the import file" });
     }
   });
 
-  // Circuit Import
-  app.post("/api/circuits/import", upload.single("file"), async (req, res) => {
+  // Columns are matched to circuit fields by the mapping sent with the file,
+  // or by their headers when there is none, and existing circuit IDs are
+  // handled by the mode (create, update or sync; update by default). With
+  // dryRun the rows are only checked and the preview returned. Otherwise the
+  // rows are saved in one transaction, and a file with errors is refused
+  // unless skipErrors is set.
+  app.post("/api/circuits/import", upload.single("file"), requireProjectEditor(projectFromBody), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
       const projectId = req.body.projectId || "demo-project-1";
-      const results: Array<any> = [];
-      const errors: Array<{ row: number; message: string; data: any }> = [];
-      let rowCount = 0;
-
-      // Parse CSV data
-      const csvStream = Readable.from(req.file.buffer.toString());
-
-      await new Promise((resolve, reject) => {
-        csvStream
-          .pipe(csv())
-          .on("data", (data) => {
-            rowCount++;
-            results.push({ ...data, rowNumber: rowCount });
-          })
-          .on("end", resolve)
-          .on("error", reject);
-      });
 
-      // Process each row
-      const successfulImports = [];
-
-      for (const row of results) {
-        try {
-          // Map CSV columns to our schema
-          const bandwidthMbps = parseInt(row["Bandwidth Mbps"] || row["bandwidth_mbps"] || "0");
-          const monthlyCost = parseFloat(row["Monthly Cost"] || row["monthly_cost"] || "0");
-
-          const circuitData = {
-            circuitId: row["Circuit ID"] || row["circuit_id"] || "",
-            projectId,
-            siteName: row["Site Name"] || row["site_name"] || "",
-            carrier: row["Carrier"] || row["carrier"] || "",
-            locationType: row["Location Type"] || row["location_type"] || "Branch",
-            serviceType: row["Service Type"] || row["service_type"] || "",
-            circuitCategory: row["Circuit Category"] || row["circuit_category"] || "Internet",
-            aLocation: row["A Location"] || row["a_location"] || null,
-            zLocation: row["Z Location"] || row["z_location"] || null,
-            bandwidth: row["Bandwidth"] || row["bandwidth"] || "",
-            bandwidthMbps,
-            monthlyCost,
-            costPerMbps: bandwidthMbps > 0 ? monthlyCost / bandwidthMbps : 0,
-            contractTerm: row["Contract Term"] || row["contract_term"] || null,
-            contractEndDate: row["Contract End Date"] ? new Date(row["Contract End Date"]) : null,
-            status: row["Status"] || row["status"] || "active",
-            optimizationStatus: row["Optimization Status"] || row["optimization_status"] || "pending",
-            notes: row["Notes"] || row["notes"] || null,
-            flags: [],
-            siteFeatures: [],
-          };
-
-          // Save to database
-          const circuit = await storage.createCircuit(circuitData);
-          successfulImports.push(circuit);
-
-        } catch (error) {
-          errors.push({
-            row: row.rowNumber,
-            message: error instanceof Error ? error.message : "Unknown error",
-            data: row
-          });
-        }
+      const spreadsheet = await readSpreadsheet(req.file, req.body.sheet || undefined);
+      let mapping: ColumnMapping;
+      try {
+        mapping = req.body.mapping
+          ? z.record(z.string()).parse(JSON.parse(req.body.mapping))
+          : suggestColumnMapping(spreadsheet.headers);
+      } catch {
+        return res.status(400).json({ message: "Invalid column mapping" });
+      }
+      const mode = z.enum(importModes).safeParse(req.body.mode || "update");
+      if (!mode.success) {
+        return res.status(400).json({ message: "Invalid import mode" });
       }
 
+      const { preview, batch } = await planCircuitImport(
+        projectId,
+        spreadsheet.rows.map(row => mapImportRow(row, mapping)),
+        mode.data,
+        { fileName: req.file.originalname, userId: req.user!.id },
+      );
+      if (req.body.dryRun === "true") {
+        return res.json(preview);
+      }
+      if (preview.summary.error > 0 && req.body.skipErrors !== "true") {
+        return res.status(400).json({
+          message: `${preview.summary.error} rows have errors; fix them or import without them`,
+          preview,
+        });
+      }
+
+      const result = await storage.importCircuits(projectId, batch, {
+        fileName: req.file.originalname,
+        mode: mode.data,
+        createdBy: req.user!.id,
+      });
       res.json({
-        success: successfulImports.length,
-        errors: errors
+        batchId: result.importBatch.id,
+        success: result.created.length + result.updated.length,
+        created: result.created.length,
+        updated: result.updated.length,
+        sitesCreated: result.sites.length,
+        flagged: result.flags.length,
+        errors: preview.rows
+          .filter(row => row.action === "error")
+          .map(row => ({ row: row.row, message: row.errors.join("; "), data: spreadsheet.rows[row.row - 1] })),
       });
-
     } catch (error) {
+      if (error instanceof SpreadsheetError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Import error:", error);
       res.status(500).json({ message: "Failed to process import" });
     }
   });
 
+  // Import history. A batch can be rolled back once, and only after any later
+  // import that touched the same circuits has been rolled back.
+  app.get("/api/projects/:id/import-batches", requireProjectEditor(projectFromParam("id")), async (req, res) => {
+    try {
+      const batches = await storage.getImportBatchesByProject(req.params.id);
+      const usersById = new Map((await storage.getAllUsers()).map(user => [user.id, user]));
+      res.json(batches.map(batch => ({
+        ...batch,
+        createdByName: batch.createdBy ? usersById.get(batch.createdBy)?.name ?? null : null,
+        rolledBackByName: batch.rolledBackBy ? usersById.get(batch.rolledBackBy)?.name ?? null : null,
+      })));
+    } catch (error) {
+      console.error("Import batches fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch import history" });
+    }
+  });
+
+  app.post("/api/import-batches/:id/rollback", requireProjectEditor(projectFromImportBatchParam), async (req, res) => {
+    try {
+      const batch = await storage.getImportBatch(req.params.id);
+      if (!batch) {
+        return res.status(404).json({ message: "Import not found" });
+      }
+      if (batch.rolledBackAt) {
+        return res.status(409).json({ message: "This import has already been rolled back" });
+      }
+
+      const touched = (candidate: typeof batch) =>
+        new Set([...candidate.createdCircuitIds, ...candidate.updatedCircuits.map(update => update.id)]);
+      const circuitIds = touched(batch);
+      const later = (await storage.getImportBatchesByProject(batch.projectId)).find(candidate =>
+        candidate.id !== batch.id &&
+        !candidate.rolledBackAt &&
+        (candidate.createdAt?.getTime() ?? 0) > (batch.createdAt?.getTime() ?? 0) &&
+        Array.from(touched(candidate)).some(id => circuitIds.has(id))
+      );
+      if (later) {
+        return res.status(409).json({ message: `Roll back the later import of ${later.fileName} first` });
+      }
+
+      // Circuits edited or moved since the import would lose those changes
+      const recorded = [
+        ...batch.createdCircuits.map(({ id, imported }) => ({ id, fields: imported })),
+        ...batch.updatedCircuits.map(({ id, after }) => ({ id, fields: after })),
+      ];
+      const changed: string[] = [];
+      for (const { id, fields } of recorded) {
+        const circuit = await storage.getCircuit(id);
+        if (circuit && circuitChangedSinceImport(circuit, fields)) changed.push(circuit.circuitId);
+      }
+      if (changed.length > 0) {
+        return res.status(409).json({
+          message: `These circuits have changed since the import: ${changed.join(", ")}`,
+          circuitIds: changed,
+        });
+      }
+
+      const rolledBack = await storage.rollbackImportBatch(batch, req.user!.id);
+      res.json(rolledBack);
+    } catch (error) {
+      console.error("Import rollback error:", error);
+      res.status(500).json({ message: "Failed to roll back the import" });
+    }
+  });
+
+  // Circuit export, of the circuit table's current view: its search and sort,
+  // or just the selected rows
+  const circuitExportSchema = z.object({
+    format: z.enum(circuitExportFormats).default("xlsx"),
+    search: z.string().optional(),
+    sortField: z.enum(circuitSortFields).optional(),
+    sortDirection: z.enum(["asc", "desc"]).optional(),
+    ids: z.array(z.string()).optional(),
+  });
+
+  app.post("/api/projects/:id/circuits/export", requireProjectViewer(projectFromParam("id")), async (req, res) => {
+    try {
+      const { format, ...view } = circuitExportSchema.parse(req.body ?? {});
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      // Redacted first, so hidden notes play no part in the view
+      const circuits = applyCircuitView(
+        (await storage.getCircuitsByProject(project.id)).map(circuit => redactCircuit(req.user!, circuit)),
+        view
+      );
+      const slug = project.name.trim().replace(/[^a-z0-9-_]+/gi, "-").replace(/^-+|-+$/g, "").toLowerCase() || "project";
+      const fileName = `${slug}-circuits-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+      res.setHeader("Content-Type", circuitExportContentTypes[format]);
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.send(buildCircuitExport(circuits, format));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid export options", errors: error.errors });
+      }
+      console.error("Circuit export error:", error);
+      res.status(500).json({ message: "Failed to export circuits" });
+    }
+  });
+
+  // Import mapping profiles
+  app.get("/api/import-mapping-profiles", requireStaff, async (req, res) => {
+    try {
+      const profiles = await storage.getImportMappingProfiles();
+      res.json(profiles);
+    } catch (error) {
+      console.error("Mapping profiles fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch mapping profiles" });
+    }
+  });
+
+  app.post("/api/import-mapping-profiles", requireStaff, async (req, res) => {
+    try {
+      const profileData = insertImportMappingProfileSchema.parse(req.body);
+      const profile = await storage.saveImportMappingProfile(profileData, req.user!.id);
+      res.status(201).json(profile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid mapping profile", errors: error.errors });
+      }
+      console.error("Mapping profile save error:", error);
+      res.status(500).json({ message: "Failed to save mapping profile" });
+    }
+  });
+
+  app.delete("/api/import-mapping-profiles/:id", requireStaff, async (req, res) => {
+    try {
+      const deleted = await storage.deleteImportMappingProfile(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Mapping profile not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Mapping profile delete error:", error);
+      res.status(500).json({ message: "Failed to delete mapping profile" });
+    }
+  });
+
   // Audit Flags
-  app.get("/api/audit-flags", async (req, res) => {
+  app.get("/api/audit-flags", requireProjectViewer(projectFromCircuitQuery), async (req, res) => {
     try {
       const { circuitId } = req.query;
-      const flags = await storage.getAuditFlags(circuitId as string | undefined);
-      res.json(flags);
+      let flags = await storage.getAuditFlags(circuitId as string | undefined);
+
+      // Without a circuit filter, only return flags from projects the caller can see
+      const accessible = await getAccessibleProjectIds(req.user!);
+      if (!circuitId && accessible !== 'all') {
+        const circuitProjects = new Map(
+          (await storage.getAllCircuits()).map(circuit => [circuit.id, circuit.projectId])
+        );
+        flags = flags.filter(flag => {
+          const projectId = flag.circuitId ? circuitProjects.get(flag.circuitId) : null;
+          return !!projectId && accessible.has(projectId);
+        });
+      }
+
+      res.json(filterInternalFlags(req.user!, flags));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch audit flags" });
     }
   });
 
-  app.post("/api/audit-flags", async (req, res) => {
+  app.post("/api/audit-flags", requireProjectEditor(projectFromAuditFlagBody), async (req, res) => {
     try {
       const flagData = {
         ...req.body,
@@ -293,10 +1240,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/audit-flags/:id", async (req, res) => {
+  app.patch("/api/audit-flags/:id", requireProjectEditor(projectFromAuditFlagParam), async (req, res) => {
     try {
-      const updateData = req.body;
-      const flag = await storage.updateAuditFlag(req.params.id, updateData);
+      const { isResolved, ...updates } = updateAuditFlagSchema.parse(req.body);
+      if (updates.circuitId && !(await storage.getCircuit(updates.circuitId))) {
+        return res.status(400).json({ message: "Circuit not found" });
+      }
+      const flag = await storage.updateAuditFlag(req.params.id, {
+        ...updates,
+        ...(isResolved !== undefined && { isResolved, resolvedAt: isResolved ? new Date() : null }),
+      });
+      if (!flag) {
+        return res.status(404).json({ message: "Audit flag not found" });
+      }
       res.json(flag);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -306,7 +1262,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/audit-flags/:id", async (req, res) => {
+  app.delete("/api/audit-flags/:id", requireProjectEditor(projectFromAuditFlagParam), async (req, res) => {
     try {
       await storage.deleteAuditFlag(req.params.id);
       res.status(204).send();
@@ -316,7 +1272,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Analytics
-  app.get("/api/projects/:id/metrics", async (req, res) => {
+  app.get("/api/projects/:id/metrics", requireProjectViewer(projectFromParam("id")), async (req, res) => {
     try {
       const metrics = await storage.getProjectMetrics(req.params.id);
       res.json(metrics);
@@ -327,7 +1283,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Site management endpoints
-  app.get("/api/sites", async (req, res) => {
+  app.get("/api/sites", requireProjectViewer(projectFromQuery("projectId")), async (req, res) => {
     try {
       const { projectId } = req.query;
       let sites;
@@ -335,7 +1291,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (projectId) {
         sites = await storage.getSitesByProject(projectId as string);
       } else {
-        sites = await storage.getAllSites();
+        const accessible = await getAccessibleProjectIds(req.user!);
+        sites = (await storage.getAllSites())
+          .filter(site => accessible === 'all' || accessible.has(site.projectId));
       }
 
       res.json(sites);
@@ -345,7 +1303,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/sites", async (req, res) => {
+  app.post("/api/sites", requireProjectEditor(projectFromBody), async (req, res) => {
     try {
       console.log('Creating site with data:', req.body);
       const site = await storage.createSite(req.body);
@@ -357,7 +1315,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/sites/:id", async (req, res) => {
+  app.patch("/api/sites/:id", requireProjectEditor(projectFromSiteParam), async (req, res) => {
     try {
       const site = await storage.updateSite(req.params.id, req.body);
       if (!site) {
@@ -370,7 +1328,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/sites/:id", async (req, res) => {
+  app.delete("/api/sites/:id", requireProjectEditor(projectFromSiteParam), async (req, res) => {
     try {
       const deleted = await storage.deleteSite(req.params.id);
       if (!deleted) {
@@ -384,10 +1342,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get project sites
-  app.get('/api/projects/:projectId/sites', async (req, res) => {
+  app.get('/api/projects/:projectId/sites', requireProjectViewer(projectFromParam("projectId")), async (req, res) => {
     try {
       const { projectId } = req.params;
-      const projectSites = await db.select().from(sites).where(eq(sites.projectId, projectId));
+      const projectSites = await storage.getSitesByProject(projectId);
       res.json(projectSites);
     } catch (error) {
       console.error('Error fetching sites:', error);
@@ -396,17 +1354,210 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get project circuits
-  app.get('/api/projects/:projectId/circuits', async (req, res) => {
+  app.get('/api/projects/:projectId/circuits', requireProjectViewer(projectFromParam("projectId")), async (req, res) => {
     try {
       const { projectId } = req.params;
-      const projectCircuits = await db.select().from(circuits).where(eq(circuits.projectId, projectId));
-      res.json(projectCircuits);
+      const projectCircuits = await storage.getCircuitsByProject(projectId);
+      res.json(projectCircuits.map(circuit => redactCircuit(req.user!, circuit)));
     } catch (error) {
       console.error('Error fetching circuits:', error);
       res.status(500).json({ error: 'Failed to fetch circuits' });
     }
   });
 
+  // Topology design versions; the current design comes first
+  app.get('/api/projects/:projectId/topology-designs', requireProjectViewer(projectFromParam("projectId")), async (req, res) => {
+    try {
+      const designs = await storage.getTopologyDesignsByProject(req.params.projectId);
+      res.json(designs.sort((a, b) => (a.kind === 'current' ? -1 : b.kind === 'current' ? 1 : 0)));
+    } catch (error) {
+      console.error("Topology designs fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch topology designs" });
+    }
+  });
+
+  // New proposed design, cloned from an existing one. Cloning the current
+  // design snapshots the circuit inventory as the proposal's connections.
+  app.post('/api/projects/:projectId/topology-designs', requireProjectEditor(projectFromParam("projectId")), async (req, res) => {
+    try {
+      const { name, sourceId } = cloneTopologyDesignSchema.parse(req.body);
+      const source = await storage.getTopologyDesign(sourceId);
+      if (!source || source.projectId !== req.params.projectId) {
+        return res.status(404).json({ message: "Topology design not found" });
+      }
+      if (await isDesignNameTaken(source.projectId, name)) {
+        return res.status(409).json({ message: "A design with this name already exists" });
+      }
+      const connections = source.kind === 'current'
+        ? (await storage.getCircuitsByProject(source.projectId)).map(circuit => circuitConnection(circuit))
+        : source.connections ?? [];
+      const design = await storage.cloneTopologyDesign(source, name, connections, req.user!.id);
+      res.status(201).json(design);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid topology design", errors: error.errors });
+      }
+      console.error("Topology design clone error:", error);
+      res.status(500).json({ message: "Failed to create topology design" });
+    }
+  });
+
+  app.put('/api/topology-designs/:id', requireProjectEditor(projectFromTopologyDesignParam), async (req, res) => {
+    try {
+      const existing = await storage.getTopologyDesign(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Topology design not found" });
+      }
+      const designData = insertTopologyDesignSchema.parse(req.body);
+      if (await isDesignNameTaken(existing.projectId, designData.name, existing.id)) {
+        return res.status(409).json({ message: "A design with this name already exists" });
+      }
+      // The current design always shows the circuit inventory
+      if (existing.kind === 'current') {
+        designData.connections = null;
+      }
+      const design = await storage.updateTopologyDesign(existing.id, designData, req.user!.id);
+      res.json(design);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid topology design", errors: error.errors });
+      }
+      console.error("Topology design save error:", error);
+      res.status(500).json({ message: "Failed to save topology design" });
+    }
+  });
+
+  app.delete('/api/topology-designs/:id', requireProjectEditor(projectFromTopologyDesignParam), async (req, res) => {
+    try {
+      const design = await storage.getTopologyDesign(req.params.id);
+      if (!design) {
+        return res.status(404).json({ message: "Topology design not found" });
+      }
+      if (design.kind === 'current') {
+        return res.status(400).json({ message: "The current design cannot be deleted" });
+      }
+      await storage.deleteTopologyDesign(design.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Topology design delete error:", error);
+      res.status(500).json({ message: "Failed to delete topology design" });
+    }
+  });
+
+  // Load a diagram mapped in the draw.io importer into a design
+  app.post('/api/topology-designs/:id/import', requireProjectEditor(projectFromTopologyDesignParam), async (req, res) => {
+    try {
+      const design = await storage.getTopologyDesign(req.params.id);
+      if (!design) {
+        return res.status(404).json({ message: "Topology design not found" });
+      }
+      const importData = topologyImportSchema.parse(req.body);
+      const problem = await validateTopologyImport(design, importData);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      const result = await importIntoDesign(design, importData, req.user!.id);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid topology import", errors: error.errors });
+      }
+      console.error("Topology import error:", error);
+      res.status(500).json({ message: "Failed to import topology diagram" });
+    }
+  });
+
+  // Single points of failure in a design, judged against the benchmark redundancy level
+  app.get('/api/topology-designs/:id/resiliency', requireProjectViewer(projectFromTopologyDesignParam), async (req, res) => {
+    try {
+      const design = await storage.getTopologyDesign(req.params.id);
+      if (!design) {
+        return res.status(404).json({ message: "Topology design not found" });
+      }
+      const [circuits, sites, clouds, settings] = await Promise.all([
+        storage.getCircuitsByProject(design.projectId),
+        storage.getSitesByProject(design.projectId),
+        storage.getWanCloudsByDesign(design.id),
+        storage.getBenchmarkSettings(),
+      ]);
+      const network = resiliencyNetworkFor(design, circuits, sites, clouds);
+      res.json({
+        designId: design.id,
+        designName: design.name,
+        minimumRedundancy: settings.minimumRedundancy,
+        report: analyzeResiliency(network, redundancyLevels[settings.minimumRedundancy] ?? redundancyLevels.dual),
+      });
+    } catch (error) {
+      console.error("Resiliency analysis error:", error);
+      res.status(500).json({ message: "Failed to analyze resiliency" });
+    }
+  });
+
+  // WAN clouds
+  app.get('/api/topology-designs/:id/wan-clouds', requireProjectViewer(projectFromTopologyDesignParam), async (req, res) => {
+    try {
+      const clouds = await storage.getWanCloudsByDesign(req.params.id);
+      res.json(clouds);
+    } catch (error) {
+      console.error("WAN clouds fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch WAN clouds" });
+    }
+  });
+
+  app.post('/api/topology-designs/:id/wan-clouds', requireProjectEditor(projectFromTopologyDesignParam), async (req, res) => {
+    try {
+      const design = await storage.getTopologyDesign(req.params.id);
+      if (!design) {
+        return res.status(404).json({ message: "Topology design not found" });
+      }
+      const cloudData = insertWanCloudSchema.parse(req.body);
+      const cloud = await storage.createWanCloud({
+        ...cloudData,
+        color: cloudData.color ?? '#3b82f6',
+        projectId: design.projectId,
+        designId: design.id,
+        isDefault: false,
+      });
+      res.status(201).json(cloud);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid WAN cloud", errors: error.errors });
+      }
+      console.error("WAN cloud creation error:", error);
+      res.status(500).json({ message: "Failed to create WAN cloud" });
+    }
+  });
+
+  app.patch('/api/wan-clouds/:id', requireProjectEditor(projectFromWanCloudParam), async (req, res) => {
+    try {
+      const updates = updateWanCloudSchema.parse(req.body);
+      const cloud = await storage.updateWanCloud(req.params.id, updates);
+      if (!cloud) {
+        return res.status(404).json({ message: "WAN cloud not found" });
+      }
+      res.json(cloud);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid WAN cloud", errors: error.errors });
+      }
+      console.error("WAN cloud update error:", error);
+      res.status(500).json({ message: "Failed to update WAN cloud" });
+    }
+  });
+
+  app.delete('/api/wan-clouds/:id', requireProjectEditor(projectFromWanCloudParam), async (req, res) => {
+    try {
+      const deleted = await storage.deleteWanCloud(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "WAN cloud not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("WAN cloud delete error:", error);
+      res.status(500).json({ message: "Failed to delete WAN cloud" });
+    }
+  });
+
   // Address validation endpoint
   app.post("/api/addresses/validate", async (req, res) => {
     try {
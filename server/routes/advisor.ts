@@ -2,7 +2,7 @@ import { Router } from "express";
 import { aiAnalyze } from "../ai";
 
 const r = Router();
-r.use((req, _res, next) => { if (!req.is('application/json')) req.headers['content-type'] = 'application/json'; next(); });
+r.use("/advisor", (req, _res, next) => { if (!req.is('application/json')) req.headers['content-type'] = 'application/json'; next(); });
 
 r.post("/advisor/run", async (req, res) => {
   try {
@@ -0,0 +1,15 @@
+import { isDatabaseConfigured, pool } from "../db";
+import { runMigrations } from "../migrate";
+
+// `npm run db:migrate`: apply migrations without starting the server
+if (!isDatabaseConfigured) {
+  console.error("DATABASE_URL is not set; nothing to migrate");
+  process.exit(1);
+}
+
+runMigrations()
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,130 @@
+import * as XLSX from "xlsx";
+import csv from "csv-parser";
+import { Readable } from "stream";
+
+// Circuit import files: CSV, or an Excel workbook (.xlsx, .xls) read one sheet at a time
+
+export interface SpreadsheetData {
+  sheets: string[]; // Sheet names, in workbook order; empty for CSV
+  sheet: string | null; // The sheet read
+  headers: string[];
+  rows: Record<string, string>[]; // Cell text by header
+}
+
+// The uploaded file is not a CSV or Excel file, or can't be read
+export class SpreadsheetError extends Error {}
+
+const isWorkbook = (fileName: string) => /\.xlsx?$/i.test(fileName);
+
+// Text a spreadsheet app would run as a formula when opening a CSV is written
+// with a leading apostrophe, which readCsv takes off again
+const FORMULA_START = /^[=+\-@\t\r]/;
+const ESCAPED_FORMULA = /^'(?=[=+\-@\t\r])/;
+
+async function readCsv(buffer: Buffer): Promise<SpreadsheetData> {
+  const rows: Record<string, string>[] = [];
+  let headers: string[] = [];
+  await new Promise((resolve, reject) => {
+    Readable.from(buffer.toString())
+      .pipe(csv())
+      .on("headers", (names: string[]) => { headers = names; })
+      .on("data", (row: Record<string, string>) => rows.push(
+        Object.fromEntries(Object.entries(row).map(([header, value]) => [header, value.replace(ESCAPED_FORMULA, "")]))
+      ))
+      .on("end", resolve)
+      .on("error", reject);
+  });
+  return { sheets: [], sheet: null, headers, rows };
+}
+
+// Dates come out as yyyy-mm-dd; other cells as their value, not their display format
+function cellText(value: unknown): string {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return value == null ? "" : String(value).trim();
+}
+
+// The first row with anything in it holds the headers; blank rows are skipped
+function readSheet(worksheet: XLSX.WorkSheet): Pick<SpreadsheetData, "headers" | "rows"> {
+  const cells = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, defval: "", blankrows: false })
+    .map(row => row.map(cellText));
+  const headerIndex = cells.findIndex(row => row.some(Boolean));
+  if (headerIndex === -1) return { headers: [], rows: [] };
+
+  const headers = cells[headerIndex].map((header, index) => header || `Column ${index + 1}`);
+  const rows = cells.slice(headerIndex + 1)
+    .filter(row => row.some(Boolean))
+    .map(row => Object.fromEntries(headers.map((header, index) => [header, row[index] ?? ""])));
+  return { headers, rows };
+}
+
+// Reads the named sheet, or else the first one with rows under its headers
+function readWorkbook(buffer: Buffer, sheetName?: string): SpreadsheetData {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(buffer, { type: "buffer", cellDates: true });
+  } catch {
+    throw new SpreadsheetError("The file is not a readable Excel workbook");
+  }
+
+  const sheets = workbook.SheetNames;
+  if (sheets.length === 0) throw new SpreadsheetError("The workbook has no sheets");
+  if (sheetName && !sheets.includes(sheetName)) {
+    throw new SpreadsheetError(`The workbook has no sheet named "${sheetName}"`);
+  }
+
+  const candidates = sheetName ? [sheetName] : sheets;
+  let first: SpreadsheetData | null = null;
+  for (const sheet of candidates) {
+    const data = { sheets, sheet, ...readSheet(workbook.Sheets[sheet]) };
+    if (data.rows.length > 0) return data;
+    first ??= data;
+  }
+  return first!;
+}
+
+export async function readSpreadsheet(file: { buffer: Buffer; originalname: string }, sheetName?: string): Promise<SpreadsheetData> {
+  if (isWorkbook(file.originalname)) return readWorkbook(file.buffer, sheetName);
+  if (/\.csv$/i.test(file.originalname) || !/\.\w+$/.test(file.originalname)) return readCsv(file.buffer);
+  throw new SpreadsheetError("Upload a CSV or Excel (.xlsx, .xls) file");
+}
+
+// Writing circuit exports. Cells are plain values: numbers stay numbers and
+// dates are Date cells, so the files read back through readSpreadsheet.
+
+export type SheetCell = string | number | Date | null;
+
+export interface WorkbookSheet {
+  name: string;
+  rows: SheetCell[][]; // The first row is the headers
+  widths?: number[]; // Column widths in characters
+  formats?: Record<number, string>; // Number format by column index
+  autofilter?: boolean;
+}
+
+const csvField = (value: SheetCell) => {
+  let text = value instanceof Date ? value.toISOString().slice(0, 10) : value == null ? "" : String(value);
+  if (typeof value === "string" && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function writeCsv(rows: SheetCell[][]): string {
+  return rows.map(row => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+export function writeWorkbook(sheets: WorkbookSheet[]): Buffer {
+  const workbook = XLSX.utils.book_new();
+  for (const sheet of sheets) {
+    const worksheet = XLSX.utils.aoa_to_sheet(sheet.rows, { cellDates: true, dateNF: "yyyy-mm-dd" });
+    const range = XLSX.utils.decode_range(worksheet["!ref"] ?? "A1");
+    for (const [column, format] of Object.entries(sheet.formats ?? {})) {
+      for (let row = 1; row <= range.e.r; row++) {
+        const cell = worksheet[XLSX.utils.encode_cell({ r: row, c: Number(column) })];
+        if (cell?.t === "n") cell.z = format;
+      }
+    }
+    if (sheet.widths) worksheet["!cols"] = sheet.widths.map(wch => ({ wch }));
+    if (sheet.autofilter) worksheet["!autofilter"] = { ref: worksheet["!ref"] ?? "A1" };
+    XLSX.utils.book_append_sheet(workbook, worksheet, sheet.name);
+  }
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
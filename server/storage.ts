@@ -1,10 +1,225 @@
-import { users, projects, circuits, auditFlags, sites, type User, type Project, type Circuit, type AuditFlag, type Site, type InsertSite, type InsertProject } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { users, projects, projectMembers, projectShareLinks, circuits, auditFlags, sites, benchmarkSettings, topologyDesigns, wanClouds, importMappingProfiles, importBatches, defaultWanClouds, type User, type Project, type ProjectMember, type ProjectShareLink, type Circuit, type AuditFlag, type Site, type InsertSite, type InsertProject, type BenchmarkSettings, type InsertBenchmarkSettings, type TopologyDesign, type InsertTopologyDesign, type TopologyConnection, type WanCloud, type ImportMappingProfile, type InsertImportMappingProfile, type ImportBatch } from "@shared/schema";
+import { eq, and, or, inArray, desc, sql } from "drizzle-orm";
 import crypto from "crypto";
-import { db } from "./db";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { db, pool, isDatabaseConfigured } from "./db";
+import { hashPassword, isPasswordHashed } from "./passwords";
+import { DEMO_PROJECT_ID, demoProject, demoSites, demoCircuits } from "./demo-data";
+
+const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
+
+// Industry $/Mbps benchmarks used until an admin changes them
+export const DEFAULT_SERVICE_BENCHMARKS: Record<string, number> = {
+  "MPLS": 8.50,
+  "Ethernet": 6.75,
+  "Private Backbone": 4.25,
+  "Fiber": 3.50,
+  "Dark Fiber": 1.25,
+};
+
+// Consultant accounts a new database (or the in-memory store) starts with
+async function defaultUserRecords(): Promise<Omit<User, 'createdAt'>[]> {
+  const defaultPassword = await hashPassword(process.env.DEFAULT_USER_PASSWORD || "password123");
+  return [
+    { id: "user-1", username: "matthew", password: defaultPassword, name: "Matthew", role: "consultant" },
+    { id: "user-2", username: "tim", password: defaultPassword, name: "Tim", role: "consultant" },
+  ];
+}
+
+// The admin account only ever gets its own password, from ADMIN_PASSWORD (and
+// ADMIN_USERNAME), never the shared default. Production refuses to start
+// without one rather than run with no way to administer it.
+async function adminUserRecord(): Promise<Omit<User, 'createdAt'> | null> {
+  const adminPassword = process.env.ADMIN_PASSWORD;
+  if (!adminPassword) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("ADMIN_PASSWORD must be set in production to create the admin account");
+    }
+    console.warn("ADMIN_PASSWORD is not set; starting without an admin account");
+    return null;
+  }
+  return {
+    id: "user-admin",
+    username: process.env.ADMIN_USERNAME || "admin",
+    password: await hashPassword(adminPassword),
+    name: "Admin",
+    role: "admin",
+  };
+}
+
+// Nearest Megaport POP to a point
+function calculateNearestMegaportPOP(latitude: number, longitude: number): { popName: string; distance: number } {
+  // Megaport POP locations (approximate coordinates)
+  const megaportPOPs = [
+    { name: "NYC1 - New York", lat: 40.7128, lng: -74.0060 },
+    { name: "CHI1 - Chicago", lat: 41.8781, lng: -87.6298 },
+    { name: "DFW1 - Dallas", lat: 32.7767, lng: -96.7970 },
+    { name: "LAX1 - Los Angeles", lat: 34.0522, lng: -118.2437 },
+    { name: "SJC1 - San Jose", lat: 37.3382, lng: -121.8863 },
+    { name: "MIA1 - Miami", lat: 25.7617, lng: -80.1918 },
+    { name: "HOU1 - Houston", lat: 29.7604, lng: -95.3698 },
+    { name: "RES1 - Reston", lat: 38.9587, lng: -77.3570 }
+  ];
+
+  let nearestPOP = megaportPOPs[0];
+  let minDistance = calculateDistance(latitude, longitude, nearestPOP.lat, nearestPOP.lng);
+
+  for (const pop of megaportPOPs) {
+    const distance = calculateDistance(latitude, longitude, pop.lat, pop.lng);
+    if (distance < minDistance) {
+      minDistance = distance;
+      nearestPOP = pop;
+    }
+  }
+
+  return {
+    popName: nearestPOP.name,
+    distance: Math.round(minDistance * 10) / 10 // Round to 1 decimal place
+  };
+}
+
+// Distance in miles between two points using the Haversine formula
+function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const R = 3959; // Earth's radius in miles
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLng = (lng2 - lng1) * Math.PI / 180;
+
+  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+            Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+            Math.sin(dLng / 2) * Math.sin(dLng / 2);
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+// Applies a site update, recalculating Megaport proximity when the address changes
+function buildSiteUpdate(currentSite: Site, siteData: Partial<Site>): Partial<Site> {
+  // Check if address-related fields are being updated
+  const addressFieldsUpdated = !!(
+    siteData.streetAddress || 
+    siteData.city || 
+    siteData.state || 
+    siteData.postalCode || 
+    siteData.latitude || 
+    siteData.longitude
+  );
+
+  const updateData: Partial<Site> = { 
+    ...siteData, 
+    updatedAt: new Date() 
+  };
+
+  // Recalculate Megaport proximity if address changed and we have coordinates
+  if (addressFieldsUpdated) {
+    const latitude = siteData.latitude ?? currentSite.latitude;
+    const longitude = siteData.longitude ?? currentSite.longitude;
+
+    if (latitude !== null && longitude !== null) {
+      const megaportProximity = calculateNearestMegaportPOP(latitude, longitude);
+      updateData.nearestMegaportPop = megaportProximity.popName;
+      updateData.megaportDistance = megaportProximity.distance;
+    } else {
+      // Clear Megaport data if address fields are updated but coordinates are missing
+      updateData.nearestMegaportPop = null;
+      updateData.megaportDistance = null;
+    }
+  }
+
+  return updateData;
+}
+
+function normalizeSiteName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+// Dashboard metrics derived from a project's circuit inventory
+function calculateProjectMetrics(projectCircuits: Circuit[]) {
+  const totalCircuits = projectCircuits.length;
+  
+  // Calculate total monthly cost ONLY from circuit inventory
+  const totalMonthlyCost = projectCircuits.reduce((sum, circuit) => {
+    const cost = typeof circuit.monthlyCost === 'string' 
+      ? parseFloat(circuit.monthlyCost) 
+      : circuit.monthlyCost;
+    return sum + (isNaN(cost) ? 0 : cost);
+  }, 0);
+  
+  // Calculate average cost per Mbps from circuits only
+  const averageCostPerMbps = projectCircuits.length > 0 
+    ? projectCircuits.reduce((sum, circuit) => {
+        const costPerMbps = typeof circuit.costPerMbps === 'string' 
+          ? parseFloat(circuit.costPerMbps) 
+          : circuit.costPerMbps;
+        return sum + (isNaN(costPerMbps) ? 0 : costPerMbps);
+      }, 0) / projectCircuits.length 
+    : 0;
+
+  // Calculate optimization opportunities based on high cost per Mbps circuits (above $30/Mbps)
+  const highCostCircuits = projectCircuits.filter(circuit => {
+    const costPerMbps = typeof circuit.costPerMbps === 'string' 
+      ? parseFloat(circuit.costPerMbps) 
+      : circuit.costPerMbps;
+    return !isNaN(costPerMbps) && costPerMbps > 30;
+  }).length;
+  
+  const optimizationOpportunities = Math.max(highCostCircuits, Math.floor(totalCircuits * 0.15));
+
+  const linkedCircuits = projectCircuits.filter(circuit => circuit.siteId);
+
+  return {
+    totalCircuits,
+    totalSites: new Set(linkedCircuits.map(circuit => circuit.siteId)).size,
+    unlinkedCircuits: totalCircuits - linkedCircuits.length,
+    totalMonthlyCost: Math.round(totalMonthlyCost * 100) / 100,
+    averageCostPerMbps: Math.round(averageCostPerMbps * 100) / 100,
+    optimizationOpportunities,
+    highCostCircuits,
+    circuitTypes: projectCircuits.reduce((acc, circuit) => {
+      const serviceType = circuit.serviceType || 'Unknown';
+      acc[serviceType] = (acc[serviceType] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>)
+  };
+}
+
+// Changes a circuit import makes to a project. New sites have their ids
+// chosen up front so the new circuits can link to them; updates carry the
+// values they replace so the import can be rolled back.
+export interface CircuitImportBatch {
+  sites: Omit<Site, 'createdAt' | 'updatedAt'>[];
+  creates: Omit<Circuit, 'id' | 'createdAt' | 'updatedAt'>[];
+  updates: { id: string; changes: Partial<Circuit>; before: Partial<Circuit> }[];
+  flags: Omit<AuditFlag, 'id' | 'createdAt'>[];
+}
+
+// A bulk edit: circuit changes and the sites they link to that don't exist
+// yet, written together
+export interface CircuitUpdateBatch {
+  sites: Omit<Site, 'createdAt' | 'updatedAt'>[];
+  updates: { id: string; changes: Partial<Circuit> }[];
+}
+
+export type ImportBatchRecord = Pick<ImportBatch, 'fileName' | 'mode' | 'createdBy'>;
+
+export interface CircuitImportResult {
+  sites: Site[];
+  created: Circuit[];
+  updated: Circuit[];
+  flags: AuditFlag[];
+  importBatch: ImportBatch;
+}
 
 // Storage interface definition
 export interface IStorage {
+  // Session store used by express-session
+  sessionStore: session.Store;
+
+  // Seed default data; called once at startup after migrations have run
+  initialize(): Promise<void>;
+
   // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -19,6 +234,19 @@ export interface IStorage {
   createProject(project: Omit<Project, 'id' | 'createdAt' | 'updatedAt'>): Promise<Project>;
   updateProject(id: string, project: Partial<Project>): Promise<Project | undefined>;
   deleteProject(id: string): Promise<boolean>;
+  getProjectsForUser(userId: string): Promise<Project[]>;
+
+  // Project membership
+  getProjectMembers(projectId: string): Promise<ProjectMember[]>;
+  getProjectMember(projectId: string, userId: string): Promise<ProjectMember | undefined>;
+  upsertProjectMember(member: Omit<ProjectMember, 'createdAt'>): Promise<ProjectMember>;
+  removeProjectMember(projectId: string, userId: string): Promise<boolean>;
+
+  // Client share links
+  getShareLink(id: string): Promise<ProjectShareLink | undefined>;
+  getShareLinksByProject(projectId: string): Promise<ProjectShareLink[]>;
+  createShareLink(link: Omit<ProjectShareLink, 'id' | 'createdAt' | 'revokedAt'>): Promise<ProjectShareLink>;
+  revokeShareLink(id: string): Promise<ProjectShareLink | undefined>;
 
   // Circuit operations
   getCircuit(id: string): Promise<Circuit | undefined>;
@@ -27,7 +255,9 @@ export interface IStorage {
   createCircuit(circuit: Omit<Circuit, 'id' | 'createdAt' | 'updatedAt'>): Promise<Circuit>;
   updateCircuit(id: string, circuit: Partial<Circuit>): Promise<Circuit | undefined>;
   deleteCircuit(id: string): Promise<boolean>;
-  bulkUpdateCircuits(ids: string[], updates: Partial<Circuit>): Promise<Circuit[]>;
+  bulkUpdateCircuits(batch: CircuitUpdateBatch): Promise<Circuit[]>;
+  // Applies all of an import's changes, or none of them, and records them as an import batch
+  importCircuits(projectId: string, batch: CircuitImportBatch, record: ImportBatchRecord): Promise<CircuitImportResult>;
 
   // Audit flag operations
   getAuditFlag(id: string): Promise<AuditFlag | undefined>;
@@ -45,38 +275,175 @@ export interface IStorage {
   getSite(id: string): Promise<Site | undefined>;
   getAllSites(): Promise<Site[]>;
   getSitesByProject(projectId: string): Promise<Site[]>;
+  // Case-insensitive match on the trimmed name within a project
+  findSiteByName(projectId: string, name: string): Promise<Site | undefined>;
   createSite(site: Omit<Site, 'id' | 'createdAt' | 'updatedAt'>): Promise<Site>;
+  // Renaming a site also renames it on its linked circuits
   updateSite(id: string, site: Partial<Site>): Promise<Site | undefined>;
+  // Circuits linked to the site keep their site name but lose the link
   deleteSite(id: string): Promise<boolean>;
+
+  // Benchmark settings
+  getBenchmarkSettings(): Promise<BenchmarkSettings>;
+  updateBenchmarkSettings(settings: Partial<InsertBenchmarkSettings>, updatedBy: string): Promise<BenchmarkSettings>;
+
+  // Topology designs
+  getTopologyDesign(id: string): Promise<TopologyDesign | undefined>;
+  getTopologyDesignsByProject(projectId: string): Promise<TopologyDesign[]>;
+  // The project's current-state design, with the default WAN clouds
+  createCurrentTopologyDesign(projectId: string, createdBy: string | null): Promise<TopologyDesign>;
+  // Copies the design and its WAN clouds as a proposed design with the given connections
+  cloneTopologyDesign(source: TopologyDesign, name: string, connections: TopologyConnection[], createdBy: string): Promise<TopologyDesign>;
+  updateTopologyDesign(id: string, design: InsertTopologyDesign, updatedBy: string): Promise<TopologyDesign | undefined>;
+  // The design's WAN clouds are deleted with it
+  deleteTopologyDesign(id: string): Promise<boolean>;
+
+  // WAN clouds
+  getWanCloud(id: string): Promise<WanCloud | undefined>;
+  getWanCloudsByDesign(designId: string): Promise<WanCloud[]>;
+  createWanCloud(cloud: Omit<WanCloud, 'id' | 'createdAt' | 'updatedAt'>): Promise<WanCloud>;
+  updateWanCloud(id: string, cloud: Partial<WanCloud>): Promise<WanCloud | undefined>;
+  // Circuits connected to the cloud lose the link
+  deleteWanCloud(id: string): Promise<boolean>;
+
+  // Circuit import mapping profiles
+  getImportMappingProfiles(): Promise<ImportMappingProfile[]>;
+  // Replaces the profile with the same name for the same client or carrier
+  saveImportMappingProfile(profile: InsertImportMappingProfile, createdBy: string): Promise<ImportMappingProfile>;
+  deleteImportMappingProfile(id: string): Promise<boolean>;
+
+  // Circuit import batches, newest first
+  getImportBatch(id: string): Promise<ImportBatch | undefined>;
+  getImportBatchesByProject(projectId: string): Promise<ImportBatch[]>;
+  // Deletes the circuits, flags and still unused sites the batch added and
+  // restores the fields it changed, in one transaction
+  rollbackImportBatch(batch: ImportBatch, rolledBackBy: string): Promise<ImportBatch>;
+}
+
+// Field values saved with an import batch, with dates revived from JSON
+function restoredCircuitFields(before: Record<string, unknown>): Partial<Circuit> {
+  const fields = { ...before } as Partial<Circuit>;
+  if (typeof before.contractEndDate === 'string') fields.contractEndDate = new Date(before.contractEndDate);
+  return fields;
+}
+
+// A circuit's fields as an import batch records them: the given ones, or all
+// but its id and timestamps
+function recordedCircuitFields(circuit: Circuit, keys?: string[]): Record<string, unknown> {
+  const { id, createdAt, updatedAt, ...fields } = circuit;
+  return keys ? Object.fromEntries(keys.map(key => [key, circuit[key as keyof Circuit]])) : fields;
+}
+
+// Whether a circuit no longer has the field values an import batch recorded
+// for it. Values are compared as JSON, the way the batch stores them.
+export function circuitChangedSinceImport(circuit: Circuit, recorded: Record<string, unknown>): boolean {
+  return Object.entries(recorded).some(([key, value]) =>
+    JSON.stringify(circuit[key as keyof Circuit] ?? null) !== JSON.stringify(value ?? null)
+  );
+}
+
+// The record of a committed import, from what it did
+function importBatchRecord(projectId: string, record: ImportBatchRecord, batch: CircuitImportBatch, created: Circuit[], updated: Circuit[], flags: AuditFlag[]) {
+  const updatedById = new Map(updated.map(circuit => [circuit.id, circuit]));
+  return {
+    ...record,
+    projectId,
+    createdCircuitIds: created.map(circuit => circuit.id),
+    createdCircuits: created.map(circuit => ({ id: circuit.id, imported: recordedCircuitFields(circuit) })),
+    updatedCircuits: batch.updates.flatMap(({ id, changes, before }) => {
+      const circuit = updatedById.get(id);
+      return circuit ? [{ id, before, after: recordedCircuitFields(circuit, Object.keys(changes)) }] : [];
+    }),
+    createdSiteIds: batch.sites.map(site => site.id),
+    flagIds: flags.map(flag => flag.id),
+  };
+}
+
+// Every project's current design starts with the default WAN clouds
+function defaultWanCloudsFor(design: Pick<TopologyDesign, 'id' | 'projectId'>): Omit<WanCloud, 'id' | 'createdAt' | 'updatedAt'>[] {
+  return defaultWanClouds.map(({ key, ...cloud }) => ({ ...cloud, projectId: design.projectId, designId: design.id, isDefault: true }));
+}
+
+// Copy of a design as a new proposed design. Clouds get new ids, and the
+// connections and cloud settings are pointed at the copies.
+function cloneDesign(source: TopologyDesign, sourceClouds: WanCloud[], name: string, connections: TopologyConnection[], createdBy: string) {
+  const now = new Date();
+  const designId = crypto.randomUUID();
+  const cloudIds = new Map(sourceClouds.map(cloud => [cloud.id, crypto.randomUUID()]));
+  const cloneId = (cloudId: string) => cloudIds.get(cloudId) ?? cloudId;
+
+  const design: TopologyDesign = {
+    ...source,
+    id: designId,
+    name,
+    kind: 'proposed',
+    connections: connections.map(connection =>
+      connection.cloudId ? { ...connection, cloudId: cloneId(connection.cloudId) } : connection
+    ),
+    hiddenClouds: source.hiddenClouds.map(cloneId),
+    cloudVisibility: Object.fromEntries(
+      Object.entries(source.cloudVisibility).map(([cloudId, visible]) => [cloneId(cloudId), visible])
+    ),
+    createdAt: now,
+    updatedBy: createdBy,
+    updatedAt: now,
+  };
+  const clouds: WanCloud[] = sourceClouds.map(cloud => ({
+    ...cloud,
+    id: cloneId(cloud.id),
+    designId,
+    createdAt: now,
+    updatedAt: now,
+  }));
+  return { design, clouds };
 }
 
 // Database storage implementation
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
   // Seed some default users if none exist
   private async seedDefaultUsers(): Promise<void> {
     const existingUsers = await db.select().from(users).limit(1);
     if (existingUsers.length === 0) {
-      await db.insert(users).values([
-        {
-          id: "user-1",
-          username: "matthew",
-          password: "password123",
-          name: "Matthew",
-          role: "consultant"
-        },
-        {
-          id: "user-2",
-          username: "tim",
-          password: "password123",
-          name: "Tim",
-          role: "consultant"
-        }
-      ]);
+      await db.insert(users).values(await defaultUserRecords());
+    }
+  }
+
+  // New databases, and ones seeded before there was an admin role, get an
+  // admin so user management, benchmark settings and project deletion can be reached
+  private async ensureAdminUser(): Promise<void> {
+    const [admin] = await db.select().from(users).where(eq(users.role, "admin")).limit(1);
+    if (admin) return;
+    const record = await adminUserRecord();
+    if (!record) return;
+    const [created] = await db.insert(users).values(record).onConflictDoNothing().returning();
+    if (!created) {
+      console.warn(`No admin user exists and the username "${record.username}" is taken; set ADMIN_USERNAME to create one`);
+    }
+  }
+
+  // Hash any passwords that were stored in plaintext before login existed
+  private async upgradePlaintextPasswords(): Promise<void> {
+    const allUsers = await db.select().from(users);
+    for (const user of allUsers) {
+      if (!isPasswordHashed(user.password)) {
+        await db
+          .update(users)
+          .set({ password: await hashPassword(user.password) })
+          .where(eq(users.id, user.id));
+      }
     }
   }
 
   constructor() {
-    this.seedDefaultUsers().catch(console.error);
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
+  async initialize(): Promise<void> {
+    await this.seedDefaultUsers();
+    await this.ensureAdminUser();
+    await this.upgradePlaintextPasswords();
     console.log('Storage initialized');
   }
 
@@ -116,9 +483,22 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  // The user's memberships go with them; the records they created or last
+  // changed stay, with the reference cleared. Projects they own are not
+  // touched here, so the caller must reassign those first.
   async deleteUser(id: string): Promise<boolean> {
-    const result = await db.delete(users).where(eq(users.id, id));
-    return (result.rowCount ?? 0) > 0;
+    return await db.transaction(async (tx) => {
+      await tx.update(projectMembers).set({ addedBy: null }).where(eq(projectMembers.addedBy, id));
+      await tx.update(auditFlags).set({ createdBy: null }).where(eq(auditFlags.createdBy, id));
+      await tx.update(projectShareLinks).set({ createdBy: null }).where(eq(projectShareLinks.createdBy, id));
+      await tx.update(topologyDesigns).set({ updatedBy: null }).where(eq(topologyDesigns.updatedBy, id));
+      await tx.update(benchmarkSettings).set({ updatedBy: null }).where(eq(benchmarkSettings.updatedBy, id));
+      await tx.update(importMappingProfiles).set({ createdBy: null }).where(eq(importMappingProfiles.createdBy, id));
+      await tx.update(importBatches).set({ createdBy: null }).where(eq(importBatches.createdBy, id));
+      await tx.update(importBatches).set({ rolledBackBy: null }).where(eq(importBatches.rolledBackBy, id));
+      const result = await tx.delete(users).where(eq(users.id, id));
+      return (result.rowCount ?? 0) > 0;
+    });
   }
 
   // Project operations
@@ -153,11 +533,90 @@ export class DatabaseStorage implements IStorage {
     return project || undefined;
   }
 
+  // Takes the project's circuits, their audit flags and its sites with it;
+  // members, share links, designs, clouds and import batches cascade
   async deleteProject(id: string): Promise<boolean> {
-    const result = await db.delete(projects).where(eq(projects.id, id));
+    return await db.transaction(async (tx) => {
+      const projectCircuits = tx.select({ id: circuits.id }).from(circuits).where(eq(circuits.projectId, id));
+      await tx.delete(auditFlags).where(inArray(auditFlags.circuitId, projectCircuits));
+      await tx.delete(circuits).where(eq(circuits.projectId, id));
+      await tx.delete(sites).where(eq(sites.projectId, id));
+      const result = await tx.delete(projects).where(eq(projects.id, id));
+      return (result.rowCount ?? 0) > 0;
+    });
+  }
+
+  // Projects the user is assigned to or a member of
+  async getProjectsForUser(userId: string): Promise<Project[]> {
+    const memberProjectIds = db
+      .select({ projectId: projectMembers.projectId })
+      .from(projectMembers)
+      .where(eq(projectMembers.userId, userId));
+    return await db
+      .select()
+      .from(projects)
+      .where(or(eq(projects.createdBy, userId), inArray(projects.id, memberProjectIds)));
+  }
+
+  // Project membership
+  async getProjectMembers(projectId: string): Promise<ProjectMember[]> {
+    return await db.select().from(projectMembers).where(eq(projectMembers.projectId, projectId));
+  }
+
+  async getProjectMember(projectId: string, userId: string): Promise<ProjectMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(projectMembers)
+      .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)));
+    return member || undefined;
+  }
+
+  async upsertProjectMember(memberData: Omit<ProjectMember, 'createdAt'>): Promise<ProjectMember> {
+    const [member] = await db
+      .insert(projectMembers)
+      .values({ ...memberData, createdAt: new Date() })
+      .onConflictDoUpdate({
+        target: [projectMembers.projectId, projectMembers.userId],
+        set: { role: memberData.role },
+      })
+      .returning();
+    return member;
+  }
+
+  async removeProjectMember(projectId: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(projectMembers)
+      .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)));
     return (result.rowCount ?? 0) > 0;
   }
 
+  // Client share links
+  async getShareLink(id: string): Promise<ProjectShareLink | undefined> {
+    const [link] = await db.select().from(projectShareLinks).where(eq(projectShareLinks.id, id));
+    return link || undefined;
+  }
+
+  async getShareLinksByProject(projectId: string): Promise<ProjectShareLink[]> {
+    return await db.select().from(projectShareLinks).where(eq(projectShareLinks.projectId, projectId));
+  }
+
+  async createShareLink(linkData: Omit<ProjectShareLink, 'id' | 'createdAt' | 'revokedAt'>): Promise<ProjectShareLink> {
+    const [link] = await db
+      .insert(projectShareLinks)
+      .values({ ...linkData, id: crypto.randomUUID(), createdAt: new Date() })
+      .returning();
+    return link;
+  }
+
+  async revokeShareLink(id: string): Promise<ProjectShareLink | undefined> {
+    const [link] = await db
+      .update(projectShareLinks)
+      .set({ revokedAt: new Date() })
+      .where(eq(projectShareLinks.id, id))
+      .returning();
+    return link || undefined;
+  }
+
   // Circuit operations
   async getCircuit(id: string): Promise<Circuit | undefined> {
     const [circuit] = await db.select().from(circuits).where(eq(circuits.id, id));
@@ -224,13 +683,68 @@ export class DatabaseStorage implements IStorage {
     return success;
   }
 
-  async bulkUpdateCircuits(ids: string[], updates: Partial<Circuit>): Promise<Circuit[]> {
-    const updatedCircuits: Circuit[] = [];
-    for (const id of ids) {
-      const circuit = await this.updateCircuit(id, updates);
-      if (circuit) updatedCircuits.push(circuit);
-    }
-    return updatedCircuits;
+  async bulkUpdateCircuits(batch: CircuitUpdateBatch): Promise<Circuit[]> {
+    const now = new Date();
+    return await db.transaction(async (tx) => {
+      if (batch.sites.length > 0) {
+        await tx.insert(sites).values(batch.sites.map(site => ({ ...site, createdAt: now, updatedAt: now })));
+      }
+
+      const updated: Circuit[] = [];
+      const projectIds = new Set<string>();
+      for (const { id, changes } of batch.updates) {
+        const [existing] = await tx.select({ projectId: circuits.projectId }).from(circuits).where(eq(circuits.id, id));
+        if (!existing) continue;
+        const [circuit] = await tx
+          .update(circuits)
+          .set({ ...changes, updatedAt: now })
+          .where(eq(circuits.id, id))
+          .returning();
+        updated.push(circuit);
+        [existing.projectId, circuit.projectId].forEach(projectId => projectId && projectIds.add(projectId));
+      }
+
+      if (projectIds.size > 0) {
+        await tx.update(projects).set({ updatedAt: now }).where(inArray(projects.id, Array.from(projectIds)));
+      }
+      return updated;
+    });
+  }
+
+  async importCircuits(projectId: string, batch: CircuitImportBatch, record: ImportBatchRecord): Promise<CircuitImportResult> {
+    const now = new Date();
+    return await db.transaction(async (tx) => {
+      const createdSites = batch.sites.length > 0
+        ? await tx.insert(sites).values(batch.sites.map(site => ({ ...site, createdAt: now, updatedAt: now }))).returning()
+        : [];
+      const created = batch.creates.length > 0
+        ? await tx
+            .insert(circuits)
+            .values(batch.creates.map(circuit => ({ ...circuit, id: crypto.randomUUID(), createdAt: now, updatedAt: now })))
+            .returning()
+        : [];
+
+      const updated: Circuit[] = [];
+      for (const { id, changes } of batch.updates) {
+        const [circuit] = await tx
+          .update(circuits)
+          .set({ ...changes, updatedAt: now })
+          .where(eq(circuits.id, id))
+          .returning();
+        if (circuit) updated.push(circuit);
+      }
+      const flags = batch.flags.length > 0
+        ? await tx.insert(auditFlags).values(batch.flags.map(flag => ({ ...flag, createdAt: now }))).returning()
+        : [];
+
+      const [importBatch] = await tx
+        .insert(importBatches)
+        .values({ ...importBatchRecord(projectId, record, batch, created, updated, flags), createdAt: now })
+        .returning();
+
+      await tx.update(projects).set({ updatedAt: now }).where(eq(projects.id, projectId));
+      return { sites: createdSites, created, updated, flags, importBatch };
+    });
   }
 
   // Audit flag operations
@@ -281,49 +795,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getProjectMetrics(projectId: string): Promise<any> {
-    const projectCircuits = await this.getCircuitsByProject(projectId);
-    const totalCircuits = projectCircuits.length;
-    
-    // Calculate total monthly cost ONLY from circuit inventory
-    const totalMonthlyCost = projectCircuits.reduce((sum, circuit) => {
-      const cost = typeof circuit.monthlyCost === 'string' 
-        ? parseFloat(circuit.monthlyCost) 
-        : circuit.monthlyCost;
-      return sum + (isNaN(cost) ? 0 : cost);
-    }, 0);
-    
-    // Calculate average cost per Mbps from circuits only
-    const averageCostPerMbps = projectCircuits.length > 0 
-      ? projectCircuits.reduce((sum, circuit) => {
-          const costPerMbps = typeof circuit.costPerMbps === 'string' 
-            ? parseFloat(circuit.costPerMbps) 
-            : circuit.costPerMbps;
-          return sum + (isNaN(costPerMbps) ? 0 : costPerMbps);
-        }, 0) / projectCircuits.length 
-      : 0;
-
-    // Calculate optimization opportunities based on high cost per Mbps circuits (above $30/Mbps)
-    const highCostCircuits = projectCircuits.filter(circuit => {
-      const costPerMbps = typeof circuit.costPerMbps === 'string' 
-        ? parseFloat(circuit.costPerMbps) 
-        : circuit.costPerMbps;
-      return !isNaN(costPerMbps) && costPerMbps > 30;
-    }).length;
-    
-    const optimizationOpportunities = Math.max(highCostCircuits, Math.floor(totalCircuits * 0.15));
-
-    return {
-      totalCircuits,
-      totalMonthlyCost: Math.round(totalMonthlyCost * 100) / 100,
-      averageCostPerMbps: Math.round(averageCostPerMbps * 100) / 100,
-      optimizationOpportunities,
-      highCostCircuits,
-      circuitTypes: projectCircuits.reduce((acc, circuit) => {
-        const serviceType = circuit.serviceType || 'Unknown';
-        acc[serviceType] = (acc[serviceType] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>)
-    };
+    return calculateProjectMetrics(await this.getCircuitsByProject(projectId));
   }
 
   // Site operations
@@ -350,6 +822,16 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async findSiteByName(projectId: string, name: string): Promise<Site | undefined> {
+    const [site] = await db
+      .select()
+      .from(sites)
+      .where(and(eq(sites.projectId, projectId), sql`lower(trim(${sites.name})) = ${normalizeSiteName(name)}`))
+      .orderBy(sites.createdAt)
+      .limit(1);
+    return site || undefined;
+  }
+
   async createSite(siteData: Omit<Site, 'id' | 'createdAt' | 'updatedAt'>): Promise<Site> {
     try {
       const site = {
@@ -367,49 +849,29 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateSite(id: string, siteData: Partial<Site>): Promise<Site | undefined> {
-    // Check if address-related fields are being updated
-    const addressFieldsUpdated = !!(
-      siteData.streetAddress || 
-      siteData.city || 
-      siteData.state || 
-      siteData.postalCode || 
-      siteData.latitude || 
-      siteData.longitude
-    );
-
-    const updateData: Partial<Site> = { 
-      ...siteData, 
-      updatedAt: new Date() 
-    };
-
     // Get current site for calculations
     const currentSite = await this.getSite(id);
     if (!currentSite) {
       console.warn(`Site with id ${id} not found for update.`);
       return undefined;
     }
+    const updateData = buildSiteUpdate(currentSite, siteData);
 
-    // Recalculate Megaport proximity if address changed and we have coordinates
-    if (addressFieldsUpdated) {
-      const latitude = siteData.latitude ?? currentSite.latitude;
-      const longitude = siteData.longitude ?? currentSite.longitude;
+    const site = await db.transaction(async (tx) => {
+      const [updatedSite] = await tx
+        .update(sites)
+        .set(updateData)
+        .where(eq(sites.id, id))
+        .returning();
 
-      if (latitude !== null && longitude !== null) {
-        const megaportProximity = this.calculateNearestMegaportPOP(latitude, longitude);
-        updateData.nearestMegaportPop = megaportProximity.popName;
-        updateData.megaportDistance = megaportProximity.distance;
-      } else {
-        // Clear Megaport data if address fields are updated but coordinates are missing
-        updateData.nearestMegaportPop = null;
-        updateData.megaportDistance = null;
+      if (updatedSite && updatedSite.name !== currentSite.name) {
+        await tx
+          .update(circuits)
+          .set({ siteName: updatedSite.name, updatedAt: new Date() })
+          .where(eq(circuits.siteId, id));
       }
-    }
-
-    const [site] = await db
-      .update(sites)
-      .set(updateData)
-      .where(eq(sites.id, id))
-      .returning();
+      return updatedSite;
+    });
       
     if (!site) {
       console.warn(`Site with id ${id} not found for update, or no changes were made.`);
@@ -428,50 +890,921 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  // Helper method to calculate nearest Megaport POP
-  private calculateNearestMegaportPOP(latitude: number, longitude: number): { popName: string; distance: number } {
-    // Megaport POP locations (approximate coordinates)
-    const megaportPOPs = [
-      { name: "NYC1 - New York", lat: 40.7128, lng: -74.0060 },
-      { name: "CHI1 - Chicago", lat: 41.8781, lng: -87.6298 },
-      { name: "DFW1 - Dallas", lat: 32.7767, lng: -96.7970 },
-      { name: "LAX1 - Los Angeles", lat: 34.0522, lng: -118.2437 },
-      { name: "SJC1 - San Jose", lat: 37.3382, lng: -121.8863 },
-      { name: "MIA1 - Miami", lat: 25.7617, lng: -80.1918 },
-      { name: "HOU1 - Houston", lat: 29.7604, lng: -95.3698 },
-      { name: "RES1 - Reston", lat: 38.9587, lng: -77.3570 }
-    ];
-
-    let nearestPOP = megaportPOPs[0];
-    let minDistance = this.calculateDistance(latitude, longitude, nearestPOP.lat, nearestPOP.lng);
-
-    for (const pop of megaportPOPs) {
-      const distance = this.calculateDistance(latitude, longitude, pop.lat, pop.lng);
-      if (distance < minDistance) {
-        minDistance = distance;
-        nearestPOP = pop;
+  // Benchmark settings
+  async getBenchmarkSettings(): Promise<BenchmarkSettings> {
+    const [settings] = await db.select().from(benchmarkSettings).where(eq(benchmarkSettings.id, 'default'));
+    if (settings) return settings;
+
+    const [created] = await db
+      .insert(benchmarkSettings)
+      .values({ id: 'default', serviceBenchmarks: DEFAULT_SERVICE_BENCHMARKS })
+      .onConflictDoNothing()
+      .returning();
+    return created ?? (await db.select().from(benchmarkSettings).where(eq(benchmarkSettings.id, 'default')))[0];
+  }
+
+  async updateBenchmarkSettings(settingsData: Partial<InsertBenchmarkSettings>, updatedBy: string): Promise<BenchmarkSettings> {
+    await this.getBenchmarkSettings();
+    const [settings] = await db
+      .update(benchmarkSettings)
+      .set({ ...settingsData, updatedBy, updatedAt: new Date() })
+      .where(eq(benchmarkSettings.id, 'default'))
+      .returning();
+    return settings;
+  }
+
+  // Topology designs
+  async getTopologyDesign(id: string): Promise<TopologyDesign | undefined> {
+    const [design] = await db.select().from(topologyDesigns).where(eq(topologyDesigns.id, id));
+    return design || undefined;
+  }
+
+  async getTopologyDesignsByProject(projectId: string): Promise<TopologyDesign[]> {
+    return await db.select().from(topologyDesigns).where(eq(topologyDesigns.projectId, projectId)).orderBy(topologyDesigns.createdAt);
+  }
+
+  async createCurrentTopologyDesign(projectId: string, createdBy: string | null): Promise<TopologyDesign> {
+    return await db.transaction(async (tx) => {
+      const [design] = await tx
+        .insert(topologyDesigns)
+        .values({ projectId, name: 'Current', kind: 'current', updatedBy: createdBy })
+        .returning();
+      await tx.insert(wanClouds).values(defaultWanCloudsFor(design));
+      return design;
+    });
+  }
+
+  async cloneTopologyDesign(source: TopologyDesign, name: string, connections: TopologyConnection[], createdBy: string): Promise<TopologyDesign> {
+    const sourceClouds = await this.getWanCloudsByDesign(source.id);
+    const { design, clouds } = cloneDesign(source, sourceClouds, name, connections, createdBy);
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(topologyDesigns).values(design).returning();
+      if (clouds.length > 0) {
+        await tx.insert(wanClouds).values(clouds);
+      }
+      return created;
+    });
+  }
+
+  async updateTopologyDesign(id: string, designData: InsertTopologyDesign, updatedBy: string): Promise<TopologyDesign | undefined> {
+    const [design] = await db
+      .update(topologyDesigns)
+      .set({ ...designData, updatedBy, updatedAt: new Date() })
+      .where(eq(topologyDesigns.id, id))
+      .returning();
+    return design || undefined;
+  }
+
+  async deleteTopologyDesign(id: string): Promise<boolean> {
+    const result = await db.delete(topologyDesigns).where(eq(topologyDesigns.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // WAN clouds
+  async getWanCloud(id: string): Promise<WanCloud | undefined> {
+    const [cloud] = await db.select().from(wanClouds).where(eq(wanClouds.id, id));
+    return cloud || undefined;
+  }
+
+  async getWanCloudsByDesign(designId: string): Promise<WanCloud[]> {
+    return await db.select().from(wanClouds).where(eq(wanClouds.designId, designId)).orderBy(wanClouds.createdAt);
+  }
+
+  async createWanCloud(cloudData: Omit<WanCloud, 'id' | 'createdAt' | 'updatedAt'>): Promise<WanCloud> {
+    const [cloud] = await db
+      .insert(wanClouds)
+      .values({ ...cloudData, id: crypto.randomUUID(), createdAt: new Date(), updatedAt: new Date() })
+      .returning();
+    return cloud;
+  }
+
+  async updateWanCloud(id: string, cloudData: Partial<WanCloud>): Promise<WanCloud | undefined> {
+    const [cloud] = await db
+      .update(wanClouds)
+      .set({ ...cloudData, updatedAt: new Date() })
+      .where(eq(wanClouds.id, id))
+      .returning();
+    return cloud || undefined;
+  }
+
+  async deleteWanCloud(id: string): Promise<boolean> {
+    const result = await db.delete(wanClouds).where(eq(wanClouds.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Circuit import mapping profiles
+  async getImportMappingProfiles(): Promise<ImportMappingProfile[]> {
+    return await db.select().from(importMappingProfiles).orderBy(importMappingProfiles.scopeName, importMappingProfiles.name);
+  }
+
+  async saveImportMappingProfile(profileData: InsertImportMappingProfile, createdBy: string): Promise<ImportMappingProfile> {
+    const [profile] = await db
+      .insert(importMappingProfiles)
+      .values({ ...profileData, createdBy })
+      .onConflictDoUpdate({
+        target: [importMappingProfiles.scope, importMappingProfiles.scopeName, importMappingProfiles.name],
+        set: { mapping: profileData.mapping, updatedAt: new Date() },
+      })
+      .returning();
+    return profile;
+  }
+
+  async deleteImportMappingProfile(id: string): Promise<boolean> {
+    const result = await db.delete(importMappingProfiles).where(eq(importMappingProfiles.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Circuit import batches
+  async getImportBatch(id: string): Promise<ImportBatch | undefined> {
+    const [batch] = await db.select().from(importBatches).where(eq(importBatches.id, id));
+    return batch || undefined;
+  }
+
+  async getImportBatchesByProject(projectId: string): Promise<ImportBatch[]> {
+    return await db
+      .select()
+      .from(importBatches)
+      .where(eq(importBatches.projectId, projectId))
+      .orderBy(desc(importBatches.createdAt));
+  }
+
+  async rollbackImportBatch(batch: ImportBatch, rolledBackBy: string): Promise<ImportBatch> {
+    const now = new Date();
+    return await db.transaction(async (tx) => {
+      // Flags raised on the new circuits since would block deleting them
+      if (batch.createdCircuitIds.length > 0) {
+        await tx.delete(auditFlags).where(inArray(auditFlags.circuitId, batch.createdCircuitIds));
+        await tx.delete(circuits).where(inArray(circuits.id, batch.createdCircuitIds));
+      }
+      if (batch.flagIds.length > 0) {
+        await tx.delete(auditFlags).where(inArray(auditFlags.id, batch.flagIds));
+      }
+      for (const { id, before } of batch.updatedCircuits) {
+        await tx
+          .update(circuits)
+          .set({ ...restoredCircuitFields(before), updatedAt: now })
+          .where(eq(circuits.id, id));
+      }
+      if (batch.createdSiteIds.length > 0) {
+        const inUse = new Set((await tx
+          .select({ siteId: circuits.siteId })
+          .from(circuits)
+          .where(inArray(circuits.siteId, batch.createdSiteIds))).map(circuit => circuit.siteId));
+        const unused = batch.createdSiteIds.filter(id => !inUse.has(id));
+        if (unused.length > 0) {
+          await tx.delete(sites).where(inArray(sites.id, unused));
+        }
       }
+
+      const [rolledBack] = await tx
+        .update(importBatches)
+        .set({ rolledBackBy, rolledBackAt: now })
+        .where(eq(importBatches.id, batch.id))
+        .returning();
+      await tx.update(projects).set({ updatedAt: now }).where(eq(projects.id, batch.projectId));
+      return rolledBack;
+    });
+  }
+}
+
+// Column defaults from shared/schema.ts, applied by MemStorage since route
+// handlers pass request bodies that may omit them
+const userDefaults: Partial<User> = { role: 'consultant' };
+const projectDefaults: Partial<Project> = { status: 'active', createdBy: null };
+const circuitDefaults: Partial<Circuit> = {
+  projectId: null,
+  siteId: null,
+  wanCloudId: null,
+  locationType: 'Branch',
+  circuitCategory: 'Internet',
+  aLocation: null,
+  zLocation: null,
+  contractTerm: null,
+  contractEndDate: null,
+  status: 'active',
+  optimizationStatus: 'pending',
+  notes: null,
+  flags: [],
+  siteFeatures: [],
+};
+const auditFlagDefaults: Partial<AuditFlag> = {
+  circuitId: null,
+  severity: 'medium',
+  isResolved: false,
+  isInternal: false,
+  createdBy: null,
+  resolvedAt: null,
+};
+const siteDefaults: Partial<Site> = {
+  description: null,
+  coordinates: null,
+  streetAddress: null,
+  city: null,
+  state: null,
+  postalCode: null,
+  country: "United States",
+  addressValidated: false,
+  latitude: null,
+  longitude: null,
+  addressValidationResponse: null,
+  nearestMegaportPop: null,
+  megaportDistance: null,
+  megaportRegion: null,
+};
+
+// In-memory storage for local development and tests, used when no database
+// is configured. Mirrors the database defaults, unique constraints and
+// cascades that the rest of the server relies on.
+export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+
+  private users = new Map<string, User>();
+  private projects = new Map<string, Project>();
+  private projectMembers = new Map<string, ProjectMember>();
+  private shareLinks = new Map<string, ProjectShareLink>();
+  private circuits = new Map<string, Circuit>();
+  private auditFlags = new Map<string, AuditFlag>();
+  private sites = new Map<string, Site>();
+  private topologyDesigns = new Map<string, TopologyDesign>();
+  private wanClouds = new Map<string, WanCloud>();
+  private importMappingProfiles = new Map<string, ImportMappingProfile>();
+  private importBatches = new Map<string, ImportBatch>();
+  private benchmarkSettings?: BenchmarkSettings;
+
+  constructor() {
+    this.sessionStore = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+  }
+
+  async initialize(): Promise<void> {
+    await this.seedDemoData();
+    console.log('Storage initialized (in-memory, DATABASE_URL not set)');
+  }
+
+  // Same accounts as the database seed, and a demo project
+  private async seedDemoData(): Promise<void> {
+    const admin = await adminUserRecord();
+    for (const user of [...await defaultUserRecords(), ...(admin ? [admin] : [])]) {
+      this.users.set(user.id, { ...user, createdAt: new Date() });
+    }
+
+    const now = new Date();
+    this.projects.set(DEMO_PROJECT_ID, { ...demoProject, createdAt: now, updatedAt: now });
+    await this.createCurrentTopologyDesign(DEMO_PROJECT_ID, null);
+
+    for (const site of demoSites) {
+      const proximity = site.latitude !== null && site.longitude !== null
+        ? calculateNearestMegaportPOP(site.latitude, site.longitude)
+        : null;
+      await this.createSite({
+        ...site,
+        description: null,
+        coordinates: null,
+        streetAddress: null,
+        postalCode: null,
+        country: "United States",
+        addressValidated: false,
+        addressValidationResponse: null,
+        nearestMegaportPop: proximity?.popName ?? null,
+        megaportDistance: proximity?.distance ?? null,
+        megaportRegion: null,
+        projectId: DEMO_PROJECT_ID,
+      });
+    }
+
+    for (const circuit of demoCircuits) {
+      const monthlyCost = parseFloat(circuit.monthlyCost);
+      const site = await this.findSiteByName(DEMO_PROJECT_ID, circuit.siteName);
+      await this.createCircuit({
+        aLocation: null,
+        zLocation: null,
+        ...circuit,
+        projectId: DEMO_PROJECT_ID,
+        siteId: site?.id ?? null,
+        wanCloudId: null,
+        costPerMbps: (monthlyCost / circuit.bandwidthMbps).toFixed(2),
+        contractEndDate: null,
+        status: 'active',
+        optimizationStatus: 'pending',
+        flags: [],
+        siteFeatures: [],
+      });
     }
+  }
+
+  // Decimal columns come back from Postgres as strings; keep the same shape
+  private toDecimal(value: unknown, scale = 2): string {
+    const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? 0));
+    return (isNaN(parsed) ? 0 : parsed).toFixed(scale);
+  }
 
-    return {
-      popName: nearestPOP.name,
-      distance: Math.round(minDistance * 10) / 10 // Round to 1 decimal place
+  private memberKey(projectId: string, userId: string): string {
+    return `${projectId}:${userId}`;
+  }
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+
+  async createUser(userData: Omit<User, 'id' | 'createdAt'>): Promise<User> {
+    if (await this.getUserByUsername(userData.username)) {
+      throw new Error(`Username "${userData.username}" already exists`);
+    }
+    const user: User = { ...userDefaults, ...userData, id: crypto.randomUUID(), createdAt: new Date() };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
+  async updateUser(id: string, userData: Partial<User>): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+    const user = { ...existing, ...userData, id };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    if (!this.users.has(id)) return false;
+    for (const [key, member] of Array.from(this.projectMembers.entries())) {
+      if (member.userId === id) this.projectMembers.delete(key);
+      else if (member.addedBy === id) member.addedBy = null;
+    }
+    this.auditFlags.forEach(flag => { if (flag.createdBy === id) flag.createdBy = null; });
+    this.shareLinks.forEach(link => { if (link.createdBy === id) link.createdBy = null; });
+    this.topologyDesigns.forEach(design => { if (design.updatedBy === id) design.updatedBy = null; });
+    if (this.benchmarkSettings?.updatedBy === id) this.benchmarkSettings.updatedBy = null;
+    this.importMappingProfiles.forEach(profile => { if (profile.createdBy === id) profile.createdBy = null; });
+    this.importBatches.forEach(batch => {
+      if (batch.createdBy === id) batch.createdBy = null;
+      if (batch.rolledBackBy === id) batch.rolledBackBy = null;
+    });
+    return this.users.delete(id);
+  }
+
+  // Project operations
+  async getProject(id: string): Promise<Project | undefined> {
+    return this.projects.get(id);
+  }
+
+  async getAllProjects(): Promise<Project[]> {
+    return Array.from(this.projects.values());
+  }
+
+  async createProject(projectData: Omit<Project, 'id' | 'createdAt' | 'updatedAt'>): Promise<Project> {
+    const project: Project = {
+      ...projectDefaults,
+      ...projectData,
+      id: crypto.randomUUID(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.projects.set(project.id, project);
+    return project;
+  }
+
+  async updateProject(id: string, projectData: Partial<Project>): Promise<Project | undefined> {
+    const existing = this.projects.get(id);
+    if (!existing) return undefined;
+    const project = { ...existing, ...projectData, id, updatedAt: new Date() };
+    this.projects.set(id, project);
+    return project;
+  }
+
+  async deleteProject(id: string): Promise<boolean> {
+    if (!this.projects.has(id)) return false;
+    for (const [key, member] of Array.from(this.projectMembers.entries())) {
+      if (member.projectId === id) this.projectMembers.delete(key);
+    }
+    for (const [linkId, link] of Array.from(this.shareLinks.entries())) {
+      if (link.projectId === id) this.shareLinks.delete(linkId);
+    }
+    for (const [designId, design] of Array.from(this.topologyDesigns.entries())) {
+      if (design.projectId === id) this.topologyDesigns.delete(designId);
+    }
+    for (const [cloudId, cloud] of Array.from(this.wanClouds.entries())) {
+      if (cloud.projectId === id) this.wanClouds.delete(cloudId);
+    }
+    for (const [batchId, batch] of Array.from(this.importBatches.entries())) {
+      if (batch.projectId === id) this.importBatches.delete(batchId);
+    }
+    for (const [circuitId, circuit] of Array.from(this.circuits.entries())) {
+      if (circuit.projectId !== id) continue;
+      for (const [flagId, flag] of Array.from(this.auditFlags.entries())) {
+        if (flag.circuitId === circuitId) this.auditFlags.delete(flagId);
+      }
+      this.circuits.delete(circuitId);
+    }
+    for (const [siteId, site] of Array.from(this.sites.entries())) {
+      if (site.projectId === id) this.sites.delete(siteId);
+    }
+    return this.projects.delete(id);
+  }
+
+  async getProjectsForUser(userId: string): Promise<Project[]> {
+    return Array.from(this.projects.values()).filter(project =>
+      project.createdBy === userId || this.projectMembers.has(this.memberKey(project.id, userId))
+    );
+  }
+
+  // Project membership
+  async getProjectMembers(projectId: string): Promise<ProjectMember[]> {
+    return Array.from(this.projectMembers.values()).filter(member => member.projectId === projectId);
+  }
+
+  async getProjectMember(projectId: string, userId: string): Promise<ProjectMember | undefined> {
+    return this.projectMembers.get(this.memberKey(projectId, userId));
+  }
+
+  async upsertProjectMember(memberData: Omit<ProjectMember, 'createdAt'>): Promise<ProjectMember> {
+    const key = this.memberKey(memberData.projectId, memberData.userId);
+    const existing = this.projectMembers.get(key);
+    const member = existing
+      ? { ...existing, role: memberData.role }
+      : { ...memberData, createdAt: new Date() };
+    this.projectMembers.set(key, member);
+    return member;
+  }
+
+  async removeProjectMember(projectId: string, userId: string): Promise<boolean> {
+    return this.projectMembers.delete(this.memberKey(projectId, userId));
+  }
+
+  // Client share links
+  async getShareLink(id: string): Promise<ProjectShareLink | undefined> {
+    return this.shareLinks.get(id);
+  }
+
+  async getShareLinksByProject(projectId: string): Promise<ProjectShareLink[]> {
+    return Array.from(this.shareLinks.values()).filter(link => link.projectId === projectId);
+  }
+
+  async createShareLink(linkData: Omit<ProjectShareLink, 'id' | 'createdAt' | 'revokedAt'>): Promise<ProjectShareLink> {
+    const link: ProjectShareLink = { ...linkData, id: crypto.randomUUID(), revokedAt: null, createdAt: new Date() };
+    this.shareLinks.set(link.id, link);
+    return link;
+  }
+
+  async revokeShareLink(id: string): Promise<ProjectShareLink | undefined> {
+    const existing = this.shareLinks.get(id);
+    if (!existing) return undefined;
+    const link = { ...existing, revokedAt: new Date() };
+    this.shareLinks.set(id, link);
+    return link;
+  }
+
+  // Circuit operations
+  async getCircuit(id: string): Promise<Circuit | undefined> {
+    return this.circuits.get(id);
+  }
+
+  async getAllCircuits(): Promise<Circuit[]> {
+    return Array.from(this.circuits.values());
+  }
+
+  async getCircuitsByProject(projectId: string): Promise<Circuit[]> {
+    return Array.from(this.circuits.values()).filter(circuit => circuit.projectId === projectId);
+  }
+
+  private assertUniqueCircuitId(circuitId: string, exceptId?: string): void {
+    const duplicate = Array.from(this.circuits.values())
+      .some(circuit => circuit.circuitId === circuitId && circuit.id !== exceptId);
+    if (duplicate) {
+      throw new Error(`Circuit ID "${circuitId}" already exists`);
+    }
+  }
+
+  async createCircuit(circuitData: Omit<Circuit, 'id' | 'createdAt' | 'updatedAt'>): Promise<Circuit> {
+    this.assertUniqueCircuitId(circuitData.circuitId);
+    const circuit: Circuit = {
+      ...circuitDefaults,
+      ...circuitData,
+      monthlyCost: this.toDecimal(circuitData.monthlyCost),
+      costPerMbps: this.toDecimal(circuitData.costPerMbps),
+      id: crypto.randomUUID(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.circuits.set(circuit.id, circuit);
+
+    // Update project's lastModified when a circuit is added
+    if (circuit.projectId) {
+      await this.updateProject(circuit.projectId, { updatedAt: new Date() });
+    }
+
+    return circuit;
+  }
+
+  async updateCircuit(id: string, circuitData: Partial<Circuit>): Promise<Circuit | undefined> {
+    const existing = this.circuits.get(id);
+    if (!existing) return undefined;
+    if (circuitData.circuitId) {
+      this.assertUniqueCircuitId(circuitData.circuitId, id);
+    }
+
+    const circuit: Circuit = { ...existing, ...circuitData, id, updatedAt: new Date() };
+    if (circuitData.monthlyCost !== undefined) circuit.monthlyCost = this.toDecimal(circuitData.monthlyCost);
+    if (circuitData.costPerMbps !== undefined) circuit.costPerMbps = this.toDecimal(circuitData.costPerMbps);
+    this.circuits.set(id, circuit);
+
+    if (existing.projectId) {
+      await this.updateProject(existing.projectId, { updatedAt: new Date() });
+    }
+
+    return circuit;
+  }
+
+  async deleteCircuit(id: string): Promise<boolean> {
+    const existing = this.circuits.get(id);
+    if (!existing) return false;
+    this.circuits.delete(id);
+
+    if (existing.projectId) {
+      await this.updateProject(existing.projectId, { updatedAt: new Date() });
+    }
+
+    return true;
+  }
+
+  async bulkUpdateCircuits(batch: CircuitUpdateBatch): Promise<Circuit[]> {
+    // Check every change before writing any of them
+    const updates = batch.updates.filter(({ id }) => this.circuits.has(id));
+    updates.forEach(({ id, changes }) => {
+      if (changes.circuitId) this.assertUniqueCircuitId(changes.circuitId, id);
+    });
+
+    const now = new Date();
+    batch.sites.forEach(siteData => this.sites.set(siteData.id, { ...siteDefaults, ...siteData, createdAt: now, updatedAt: now }));
+    const projectIds = new Set<string>();
+    const updated = updates.map(({ id, changes }) => {
+      const existing = this.circuits.get(id)!;
+      const circuit: Circuit = { ...existing, ...changes, id, updatedAt: now };
+      if (changes.monthlyCost !== undefined) circuit.monthlyCost = this.toDecimal(changes.monthlyCost);
+      if (changes.costPerMbps !== undefined) circuit.costPerMbps = this.toDecimal(changes.costPerMbps);
+      this.circuits.set(id, circuit);
+      [existing.projectId, circuit.projectId].forEach(projectId => projectId && projectIds.add(projectId));
+      return circuit;
+    });
+
+    for (const projectId of Array.from(projectIds)) {
+      await this.updateProject(projectId, { updatedAt: now });
+    }
+    return updated;
+  }
+
+  async importCircuits(projectId: string, batch: CircuitImportBatch, record: ImportBatchRecord): Promise<CircuitImportResult> {
+    // Check every new circuit ID before changing anything
+    const circuitIds = new Set<string>();
+    for (const { circuitId } of batch.creates) {
+      this.assertUniqueCircuitId(circuitId);
+      if (circuitIds.has(circuitId)) {
+        throw new Error(`Circuit ID "${circuitId}" already exists`);
+      }
+      circuitIds.add(circuitId);
+    }
+
+    const now = new Date();
+    const createdSites = batch.sites.map(siteData => {
+      const site: Site = { ...siteDefaults, ...siteData, createdAt: now, updatedAt: now };
+      this.sites.set(site.id, site);
+      return site;
+    });
+    const created = batch.creates.map(circuitData => {
+      const circuit: Circuit = {
+        ...circuitDefaults,
+        ...circuitData,
+        monthlyCost: this.toDecimal(circuitData.monthlyCost),
+        costPerMbps: this.toDecimal(circuitData.costPerMbps),
+        id: crypto.randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.circuits.set(circuit.id, circuit);
+      return circuit;
+    });
+
+    const updated: Circuit[] = [];
+    for (const { id, changes } of batch.updates) {
+      const existing = this.circuits.get(id);
+      if (!existing) continue;
+      const circuit: Circuit = { ...existing, ...changes, id, updatedAt: now };
+      if (changes.monthlyCost !== undefined) circuit.monthlyCost = this.toDecimal(changes.monthlyCost);
+      if (changes.costPerMbps !== undefined) circuit.costPerMbps = this.toDecimal(changes.costPerMbps);
+      this.circuits.set(id, circuit);
+      updated.push(circuit);
+    }
+    const flags = batch.flags.map(flagData => {
+      const flag: AuditFlag = { ...flagData, id: crypto.randomUUID(), createdAt: now };
+      this.auditFlags.set(flag.id, flag);
+      return flag;
+    });
+
+    const importBatch: ImportBatch = {
+      ...importBatchRecord(projectId, record, batch, created, updated, flags),
+      id: crypto.randomUUID(),
+      createdAt: now,
+      rolledBackBy: null,
+      rolledBackAt: null,
     };
+    this.importBatches.set(importBatch.id, importBatch);
+
+    await this.updateProject(projectId, { updatedAt: now });
+    return { sites: createdSites, created, updated, flags, importBatch };
+  }
+
+  // Audit flag operations
+  async getAuditFlag(id: string): Promise<AuditFlag | undefined> {
+    return this.auditFlags.get(id);
   }
 
-  // Helper method to calculate distance between two points using Haversine formula
-  private calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    const R = 3959; // Earth's radius in miles
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLng = (lng2 - lng1) * Math.PI / 180;
+  async getAllAuditFlags(): Promise<AuditFlag[]> {
+    return Array.from(this.auditFlags.values());
+  }
+
+  async getAuditFlags(circuitId?: string): Promise<AuditFlag[]> {
+    return circuitId ? this.getAuditFlagsByCircuit(circuitId) : this.getAllAuditFlags();
+  }
+
+  async getAuditFlagsByCircuit(circuitId: string): Promise<AuditFlag[]> {
+    return Array.from(this.auditFlags.values()).filter(flag => flag.circuitId === circuitId);
+  }
+
+  async createAuditFlag(flagData: Omit<AuditFlag, 'id' | 'createdAt'>): Promise<AuditFlag> {
+    const flag: AuditFlag = {
+      ...auditFlagDefaults,
+      ...flagData,
+      id: crypto.randomUUID(),
+      createdAt: new Date(),
+    };
+    this.auditFlags.set(flag.id, flag);
+    return flag;
+  }
+
+  async updateAuditFlag(id: string, flagData: Partial<AuditFlag>): Promise<AuditFlag | undefined> {
+    const existing = this.auditFlags.get(id);
+    if (!existing) return undefined;
+    const flag = { ...existing, ...flagData, id };
+    this.auditFlags.set(id, flag);
+    return flag;
+  }
+
+  async deleteAuditFlag(id: string): Promise<boolean> {
+    return this.auditFlags.delete(id);
+  }
+
+  async getProjectMetrics(projectId: string): Promise<any> {
+    return calculateProjectMetrics(await this.getCircuitsByProject(projectId));
+  }
+
+  // Site operations
+  async getSite(id: string): Promise<Site | undefined> {
+    return this.sites.get(id);
+  }
+
+  async getAllSites(): Promise<Site[]> {
+    return Array.from(this.sites.values());
+  }
+
+  async getSitesByProject(projectId: string): Promise<Site[]> {
+    return Array.from(this.sites.values()).filter(site => site.projectId === projectId);
+  }
+
+  async findSiteByName(projectId: string, name: string): Promise<Site | undefined> {
+    const normalized = normalizeSiteName(name);
+    return Array.from(this.sites.values())
+      .find(site => site.projectId === projectId && normalizeSiteName(site.name) === normalized);
+  }
+
+  async createSite(siteData: Omit<Site, 'id' | 'createdAt' | 'updatedAt'>): Promise<Site> {
+    const site: Site = {
+      ...siteDefaults,
+      ...siteData,
+      id: crypto.randomUUID(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.sites.set(site.id, site);
+    return site;
+  }
+
+  async updateSite(id: string, siteData: Partial<Site>): Promise<Site | undefined> {
+    const currentSite = this.sites.get(id);
+    if (!currentSite) {
+      console.warn(`Site with id ${id} not found for update.`);
+      return undefined;
+    }
+    const site = { ...currentSite, ...buildSiteUpdate(currentSite, siteData), id };
+    this.sites.set(id, site);
+
+    if (site.name !== currentSite.name) {
+      for (const circuit of Array.from(this.circuits.values())) {
+        if (circuit.siteId === id) {
+          this.circuits.set(circuit.id, { ...circuit, siteName: site.name, updatedAt: new Date() });
+        }
+      }
+    }
+    return site;
+  }
+
+  async deleteSite(id: string): Promise<boolean> {
+    if (!this.sites.delete(id)) return false;
+    for (const circuit of Array.from(this.circuits.values())) {
+      if (circuit.siteId === id) {
+        this.circuits.set(circuit.id, { ...circuit, siteId: null });
+      }
+    }
+    return true;
+  }
+
+  // Benchmark settings
+  async getBenchmarkSettings(): Promise<BenchmarkSettings> {
+    if (!this.benchmarkSettings) {
+      this.benchmarkSettings = {
+        id: 'default',
+        highCostThreshold: '10.00',
+        excellentValueThreshold: '5.00',
+        serviceBenchmarks: DEFAULT_SERVICE_BENCHMARKS,
+        minimumRedundancy: 'dual',
+        slaUptime: '99.95',
+        diversePath: 'required',
+        mttrHours: 4,
+        contractAlertDays: 90,
+        updatedBy: null,
+        updatedAt: new Date(),
+      };
+    }
+    return this.benchmarkSettings;
+  }
+
+  async updateBenchmarkSettings(settingsData: Partial<InsertBenchmarkSettings>, updatedBy: string): Promise<BenchmarkSettings> {
+    const current = await this.getBenchmarkSettings();
+    this.benchmarkSettings = { ...current, ...settingsData, updatedBy, updatedAt: new Date() };
+    return this.benchmarkSettings;
+  }
+
+  // Topology designs
+  async getTopologyDesign(id: string): Promise<TopologyDesign | undefined> {
+    return this.topologyDesigns.get(id);
+  }
+
+  async getTopologyDesignsByProject(projectId: string): Promise<TopologyDesign[]> {
+    return Array.from(this.topologyDesigns.values()).filter(design => design.projectId === projectId);
+  }
+
+  async createCurrentTopologyDesign(projectId: string, createdBy: string | null): Promise<TopologyDesign> {
+    const now = new Date();
+    const design: TopologyDesign = {
+      id: crypto.randomUUID(),
+      projectId,
+      name: 'Current',
+      kind: 'current',
+      connections: null,
+      sitePositions: {},
+      cloudPositions: {},
+      customClouds: [],
+      hiddenClouds: [],
+      cloudVisibility: {},
+      connectionVisibility: null,
+      customOnramps: [],
+      createdAt: now,
+      updatedBy: createdBy,
+      updatedAt: now,
+    };
+    this.topologyDesigns.set(design.id, design);
+    for (const cloud of defaultWanCloudsFor(design)) {
+      await this.createWanCloud(cloud);
+    }
+    return design;
+  }
+
+  async cloneTopologyDesign(source: TopologyDesign, name: string, connections: TopologyConnection[], createdBy: string): Promise<TopologyDesign> {
+    const { design, clouds } = cloneDesign(source, await this.getWanCloudsByDesign(source.id), name, connections, createdBy);
+    this.topologyDesigns.set(design.id, design);
+    clouds.forEach(cloud => this.wanClouds.set(cloud.id, cloud));
+    return design;
+  }
+
+  async updateTopologyDesign(id: string, designData: InsertTopologyDesign, updatedBy: string): Promise<TopologyDesign | undefined> {
+    const existing = this.topologyDesigns.get(id);
+    if (!existing) return undefined;
+    const design = { ...existing, ...designData, updatedBy, updatedAt: new Date() };
+    this.topologyDesigns.set(id, design);
+    return design;
+  }
+
+  async deleteTopologyDesign(id: string): Promise<boolean> {
+    if (!this.topologyDesigns.delete(id)) return false;
+    for (const [cloudId, cloud] of Array.from(this.wanClouds.entries())) {
+      if (cloud.designId === id) this.wanClouds.delete(cloudId);
+    }
+    return true;
+  }
+
+  // WAN clouds
+  async getWanCloud(id: string): Promise<WanCloud | undefined> {
+    return this.wanClouds.get(id);
+  }
+
+  async getWanCloudsByDesign(designId: string): Promise<WanCloud[]> {
+    return Array.from(this.wanClouds.values()).filter(cloud => cloud.designId === designId);
+  }
+
+  async createWanCloud(cloudData: Omit<WanCloud, 'id' | 'createdAt' | 'updatedAt'>): Promise<WanCloud> {
+    const cloud: WanCloud = {
+      ...cloudData,
+      id: crypto.randomUUID(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.wanClouds.set(cloud.id, cloud);
+    return cloud;
+  }
+
+  async updateWanCloud(id: string, cloudData: Partial<WanCloud>): Promise<WanCloud | undefined> {
+    const existing = this.wanClouds.get(id);
+    if (!existing) return undefined;
+    const cloud = { ...existing, ...cloudData, id, updatedAt: new Date() };
+    this.wanClouds.set(id, cloud);
+    return cloud;
+  }
+
+  async deleteWanCloud(id: string): Promise<boolean> {
+    if (!this.wanClouds.delete(id)) return false;
+    for (const circuit of Array.from(this.circuits.values())) {
+      if (circuit.wanCloudId === id) {
+        this.circuits.set(circuit.id, { ...circuit, wanCloudId: null });
+      }
+    }
+    return true;
+  }
+
+  // Circuit import mapping profiles
+  async getImportMappingProfiles(): Promise<ImportMappingProfile[]> {
+    return Array.from(this.importMappingProfiles.values())
+      .sort((a, b) => a.scopeName.localeCompare(b.scopeName) || a.name.localeCompare(b.name));
+  }
+
+  async saveImportMappingProfile(profileData: InsertImportMappingProfile, createdBy: string): Promise<ImportMappingProfile> {
+    const existing = Array.from(this.importMappingProfiles.values()).find(profile =>
+      profile.scope === profileData.scope && profile.scopeName === profileData.scopeName && profile.name === profileData.name
+    );
+    const now = new Date();
+    const profile: ImportMappingProfile = existing
+      ? { ...existing, mapping: profileData.mapping, updatedAt: now }
+      : { ...profileData, id: crypto.randomUUID(), createdBy, createdAt: now, updatedAt: now };
+    this.importMappingProfiles.set(profile.id, profile);
+    return profile;
+  }
+
+  async deleteImportMappingProfile(id: string): Promise<boolean> {
+    return this.importMappingProfiles.delete(id);
+  }
+
+  // Circuit import batches
+  async getImportBatch(id: string): Promise<ImportBatch | undefined> {
+    return this.importBatches.get(id);
+  }
+
+  async getImportBatchesByProject(projectId: string): Promise<ImportBatch[]> {
+    return Array.from(this.importBatches.values())
+      .filter(batch => batch.projectId === projectId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async rollbackImportBatch(batch: ImportBatch, rolledBackBy: string): Promise<ImportBatch> {
+    const now = new Date();
+    const createdCircuitIds = new Set(batch.createdCircuitIds);
+    const flagIds = new Set(batch.flagIds);
+    for (const flag of Array.from(this.auditFlags.values())) {
+      if (flagIds.has(flag.id) || (flag.circuitId && createdCircuitIds.has(flag.circuitId))) {
+        this.auditFlags.delete(flag.id);
+      }
+    }
+    createdCircuitIds.forEach(id => this.circuits.delete(id));
+
+    for (const { id, before } of batch.updatedCircuits) {
+      const existing = this.circuits.get(id);
+      if (existing) {
+        this.circuits.set(id, { ...existing, ...restoredCircuitFields(before), updatedAt: now });
+      }
+    }
 
-    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-              Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-              Math.sin(dLng / 2) * Math.sin(dLng / 2);
+    const inUse = new Set(Array.from(this.circuits.values()).map(circuit => circuit.siteId));
+    batch.createdSiteIds.filter(id => !inUse.has(id)).forEach(id => this.sites.delete(id));
 
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
+    const rolledBack: ImportBatch = { ...batch, rolledBackBy, rolledBackAt: now };
+    this.importBatches.set(batch.id, rolledBack);
+    await this.updateProject(batch.projectId, { updatedAt: now });
+    return rolledBack;
   }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+// Use Postgres when it is configured, otherwise run entirely in memory
+export const storage: IStorage = isDatabaseConfigured ? new DatabaseStorage() : new MemStorage();
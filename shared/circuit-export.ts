@@ -0,0 +1,60 @@
+import type { Circuit } from "./schema";
+
+// What the circuit table is showing: its search and sort, and the rows
+// picked with the checkboxes. Exports use the same view so the file matches
+// the screen.
+
+export const circuitExportFormats = ['csv', 'xlsx'] as const;
+export type CircuitExportFormat = typeof circuitExportFormats[number];
+
+export type CircuitSortDirection = 'asc' | 'desc';
+
+// The circuit table's sortable columns
+export const circuitSortFields = [
+  'siteName', 'carrier', 'locationType', 'serviceType', 'circuitCategory', 'bandwidth', 'monthlyCost', 'costPerMbps', 'circuitId',
+] as const;
+export type CircuitSortField = typeof circuitSortFields[number];
+
+export interface CircuitView {
+  search?: string;
+  sortField?: CircuitSortField;
+  sortDirection?: CircuitSortDirection;
+  ids?: string[]; // Only these circuits, when any are selected
+}
+
+// Sorted by value rather than by their text
+const numericSortFields: Partial<Record<CircuitSortField, (circuit: Circuit) => number>> = {
+  bandwidth: circuit => circuit.bandwidthMbps,
+  monthlyCost: circuit => parseFloat(circuit.monthlyCost),
+  costPerMbps: circuit => parseFloat(circuit.costPerMbps),
+};
+
+// The circuit table's search: any of these fields containing it, ignoring case
+const searchFields = ['siteName', 'carrier', 'locationType', 'serviceType', 'circuitCategory', 'circuitId', 'bandwidth'] as const;
+
+export function matchesCircuitSearch(circuit: Pick<Circuit, typeof searchFields[number]>, search: string): boolean {
+  const searchLower = search.toLowerCase();
+  return searchFields.some(field => circuit[field]?.toLowerCase().includes(searchLower) ?? false);
+}
+
+export function sortCircuits(circuits: Circuit[], sortField?: CircuitSortField, sortDirection: CircuitSortDirection = 'asc'): Circuit[] {
+  if (!sortField) return circuits;
+  const numeric = numericSortFields[sortField];
+  const direction = sortDirection === 'asc' ? 1 : -1;
+  return [...circuits].sort((a, b) => {
+    if (numeric) return (numeric(a) - numeric(b)) * direction;
+    const aValue = String(a[sortField] || '').toLowerCase();
+    const bValue = String(b[sortField] || '').toLowerCase();
+    return aValue < bValue ? -direction : aValue > bValue ? direction : 0;
+  });
+}
+
+export function applyCircuitView(circuits: Circuit[], view: CircuitView): Circuit[] {
+  const ids = view.ids?.length ? new Set(view.ids) : null;
+  const search = view.search?.trim();
+  return sortCircuits(
+    circuits.filter(circuit => (!ids || ids.has(circuit.id)) && (!search || matchesCircuitSearch(circuit, search))),
+    view.sortField,
+    view.sortDirection,
+  );
+}
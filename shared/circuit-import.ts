@@ -0,0 +1,336 @@
+// Matching spreadsheet columns to circuit fields for the circuit import.
+// Carrier and client exports all name their columns differently, so each
+// field lists the headers it is commonly found under.
+
+export interface CircuitImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  aliases: string[]; // Compared after normalizeHeader
+}
+
+export const circuitImportFields = [
+  { key: 'circuitId', label: 'Circuit ID', required: true, aliases: ['circuit id', 'circuit', 'circuit number', 'circuit no', 'ckt id', 'ckt', 'service id'] },
+  { key: 'siteName', label: 'Site Name', required: true, aliases: ['site name', 'site', 'location name', 'location', 'site location'] },
+  { key: 'carrier', label: 'Carrier', required: true, aliases: ['carrier', 'carrier name', 'provider', 'vendor'] },
+  { key: 'locationType', label: 'Location Type', aliases: ['location type', 'site type', 'site category'] },
+  { key: 'serviceType', label: 'Service Type', aliases: ['service type', 'service', 'product', 'circuit type'] },
+  { key: 'circuitCategory', label: 'Circuit Category', aliases: ['circuit category', 'category'] },
+  { key: 'aLocation', label: 'A Location', aliases: ['a location', 'a end', 'a side', 'a loc'] },
+  { key: 'zLocation', label: 'Z Location', aliases: ['z location', 'z end', 'z side', 'z loc'] },
+  { key: 'bandwidth', label: 'Bandwidth', aliases: ['bandwidth', 'speed', 'circuit speed', 'port speed'] },
+  { key: 'bandwidthMbps', label: 'Bandwidth (Mbps)', aliases: ['bandwidth mbps', 'mbps', 'speed mbps'] },
+  { key: 'monthlyCost', label: 'Monthly Cost', aliases: ['monthly cost', 'mrc', 'monthly recurring charge', 'monthly charge', 'cost'] },
+  { key: 'contractTerm', label: 'Contract Term', aliases: ['contract term', 'term', 'term months'] },
+  { key: 'contractEndDate', label: 'Contract End Date', aliases: ['contract end date', 'contract end', 'end date', 'expiration date', 'contract expiration'] },
+  { key: 'status', label: 'Status', aliases: ['status', 'circuit status'] },
+  { key: 'optimizationStatus', label: 'Optimization Status', aliases: ['optimization status'] },
+  { key: 'notes', label: 'Notes', aliases: ['notes', 'comments', 'remarks'] },
+] as const satisfies readonly CircuitImportField[];
+
+export type CircuitImportFieldKey = typeof circuitImportFields[number]['key'];
+
+// Circuit field -> source column header
+export type ColumnMapping = Partial<Record<CircuitImportFieldKey, string>>;
+
+// Values of one row by circuit field, trimmed; unmapped and empty cells are left out
+export type MappedImportRow = Partial<Record<CircuitImportFieldKey, string>>;
+
+// "Circuit_ID", "circuit-id" and "Circuit ID " all compare as "circuit id"
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[_\-.#()]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// Mapping for a file's headers: the profile's columns where the file has
+// them, then columns whose header matches a field's known names. Each column
+// is mapped to at most one field.
+export function suggestColumnMapping(headers: string[], profile?: Record<string, string>): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  circuitImportFields.forEach(field => {
+    const column = profile?.[field.key];
+    if (column && headers.includes(column) && !used.has(column)) {
+      mapping[field.key] = column;
+      used.add(column);
+    }
+  });
+
+  circuitImportFields.forEach(field => {
+    if (mapping[field.key]) return;
+    const aliases = [normalizeHeader(field.label), ...field.aliases];
+    const column = headers.find(header => !used.has(header) && aliases.includes(normalizeHeader(header)));
+    if (column) {
+      mapping[field.key] = column;
+      used.add(column);
+    }
+  });
+
+  return mapping;
+}
+
+// Required fields the mapping leaves without a column
+export function missingRequiredFields(mapping: ColumnMapping): CircuitImportField[] {
+  return circuitImportFields.filter((field: CircuitImportField) => field.required && !mapping[field.key as CircuitImportFieldKey]);
+}
+
+export function mapImportRow(row: Record<string, string>, mapping: ColumnMapping): MappedImportRow {
+  const mapped: MappedImportRow = {};
+  (Object.keys(mapping) as CircuitImportFieldKey[]).forEach(key => {
+    const column = mapping[key];
+    const value = column ? row[column]?.trim() : undefined;
+    if (value) mapped[key] = value;
+  });
+  return mapped;
+}
+
+// Row validation. Values are matched to the ones the circuit forms offer,
+// ignoring case and punctuation; optional cells left empty get the same
+// defaults as a circuit added by hand.
+
+export const circuitServiceTypes = [
+  'Broadband', 'Dedicated Internet', 'LTE', 'Satellite', 'MPLS', 'VPLS', 'Private Line', 'Wavelength',
+  'Dark Fiber', 'Direct Connect', 'AWS Direct Connect', 'Azure ExpressRoute', 'SD-WAN', 'NaaS', 'Other',
+];
+
+export const circuitLocationTypes = ['Branch', 'Corporate', 'Data Center', 'Cloud'];
+
+export const circuitCategories = ['Internet', 'Private', 'Point-to-Point', 'Cloud Connect', 'Backup'];
+
+export const optimizationStatuses = ['pending', 'opportunity', 'optimized'];
+
+// Names carrier exports use for the service types, compared after matchKey
+const serviceTypeAliases: Record<string, string> = {
+  dia: 'Dedicated Internet',
+  cable: 'Broadband',
+  dsl: 'Broadband',
+  '4g': 'LTE',
+  '5g': 'LTE',
+  wireless: 'LTE',
+  epl: 'Private Line',
+  ethernetprivateline: 'Private Line',
+  expressroute: 'Azure ExpressRoute',
+};
+
+// "SD-WAN", "sd wan" and "SDWAN" all compare as "sdwan"
+const matchKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const matchValue = (value: string, options: string[]) => options.find(option => matchKey(option) === matchKey(value));
+
+const bandwidthUnits: Record<string, number> = { k: 0.001, m: 1, g: 1000, t: 1000000 };
+
+// "100 Mbps", "1.5M", "10 Gig" and "512 Kbps" as whole Mbps; a bare number is Mbps
+export function parseBandwidthMbps(text: string): number | null {
+  const match = text.replace(/,/g, '').trim()
+    .match(/^(\d+(?:\.\d+)?)\s*(?:([kmgt])(?:b(?:ps|\/s)?|bit\/s|ig|eg)?)?$/i);
+  if (!match) return null;
+  const mbps = parseFloat(match[1]) * bandwidthUnits[(match[2] ?? 'm').toLowerCase()];
+  return mbps > 0 ? Math.max(1, Math.round(mbps)) : null;
+}
+
+export function formatBandwidth(mbps: number): string {
+  return mbps >= 1000 && mbps % 1000 === 0 ? `${mbps / 1000} Gbps` : `${mbps} Mbps`;
+}
+
+// "$1,250.00" as 1250
+export function parseCost(text: string): number | null {
+  const cleaned = text.replace(/[$,\s]/g, '');
+  return /^\d+(\.\d+)?$/.test(cleaned) ? parseFloat(cleaned) : null;
+}
+
+// yyyy-mm-dd, or US-style m/d/yyyy and m/d/yy, as yyyy-mm-dd
+export function parseImportDate(text: string): string | null {
+  let year: number, month: number, day: number;
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+    if (us[3].length === 2) year += 2000;
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+// A row's circuit fields after validation, as they will be saved. Decimals
+// are strings like the circuit record's; the end date is yyyy-mm-dd.
+export interface ImportCircuitValues {
+  circuitId: string;
+  siteName: string;
+  carrier: string;
+  locationType: string;
+  serviceType: string;
+  circuitCategory: string;
+  aLocation: string | null;
+  zLocation: string | null;
+  bandwidth: string;
+  bandwidthMbps: number;
+  monthlyCost: string;
+  costPerMbps: string;
+  contractTerm: string | null;
+  contractEndDate: string | null;
+  status: string;
+  optimizationStatus: string;
+  notes: string | null;
+}
+
+export interface ValidatedImportRow {
+  circuit: ImportCircuitValues;
+  errors: string[];
+}
+
+// Checks one mapped row. serviceTypes adds to the known service types, for
+// the ones an admin has set benchmarks for.
+export function validateImportRow(values: MappedImportRow, serviceTypes: string[] = []): ValidatedImportRow {
+  const errors: string[] = [];
+
+  circuitImportFields.forEach((field: CircuitImportField) => {
+    if (field.required && !values[field.key as CircuitImportFieldKey]) errors.push(`${field.label} is missing`);
+  });
+
+  const choose = (value: string | undefined, options: string[], fallback: string, label: string) => {
+    if (!value) return fallback;
+    const match = matchValue(value, options);
+    if (!match) errors.push(`${label} "${value}" is not one of ${options.join(', ')}`);
+    return match ?? value;
+  };
+
+  let serviceType = values.serviceType ?? '';
+  if (serviceType) {
+    const known = [...circuitServiceTypes, ...serviceTypes];
+    const match = matchValue(serviceType, known) ?? serviceTypeAliases[matchKey(serviceType)];
+    if (match) serviceType = match;
+    else errors.push(`Service type "${serviceType}" is not a known service type`);
+  }
+
+  // Either bandwidth column will do; with both, each must read as a speed
+  let bandwidthMbps = 0;
+  let bandwidth = values.bandwidth ?? '';
+  if (values.bandwidthMbps) {
+    const mbps = parseBandwidthMbps(values.bandwidthMbps);
+    if (mbps === null) errors.push(`Bandwidth (Mbps) "${values.bandwidthMbps}" is not a number of Mbps`);
+    bandwidthMbps = mbps ?? 0;
+    bandwidth ||= mbps ? formatBandwidth(mbps) : '';
+  }
+  if (values.bandwidth) {
+    const mbps = parseBandwidthMbps(values.bandwidth);
+    if (mbps === null) errors.push(`Bandwidth "${values.bandwidth}" is not a speed like 100 Mbps or 1 Gbps`);
+    if (!values.bandwidthMbps) bandwidthMbps = mbps ?? 0;
+  }
+
+  let monthlyCost = 0;
+  if (values.monthlyCost) {
+    const cost = parseCost(values.monthlyCost);
+    if (cost === null) errors.push(`Monthly cost "${values.monthlyCost}" is not an amount`);
+    monthlyCost = cost ?? 0;
+  }
+
+  let contractEndDate: string | null = null;
+  if (values.contractEndDate) {
+    contractEndDate = parseImportDate(values.contractEndDate);
+    if (!contractEndDate) errors.push(`Contract end date "${values.contractEndDate}" is not a date like 2026-12-31 or 12/31/2026`);
+  }
+
+  const circuit: ImportCircuitValues = {
+    circuitId: values.circuitId ?? '',
+    siteName: values.siteName ?? '',
+    carrier: values.carrier ?? '',
+    locationType: choose(values.locationType, circuitLocationTypes, 'Branch', 'Location type'),
+    serviceType,
+    circuitCategory: choose(values.circuitCategory, circuitCategories, 'Internet', 'Circuit category'),
+    aLocation: values.aLocation ?? null,
+    zLocation: values.zLocation ?? null,
+    bandwidth,
+    bandwidthMbps,
+    monthlyCost: monthlyCost.toFixed(2),
+    costPerMbps: (bandwidthMbps > 0 ? monthlyCost / bandwidthMbps : 0).toFixed(2),
+    contractTerm: values.contractTerm ?? null,
+    contractEndDate,
+    status: values.status?.toLowerCase() ?? 'active',
+    optimizationStatus: choose(values.optimizationStatus, optimizationStatuses, 'pending', 'Optimization status'),
+    notes: values.notes ?? null,
+  };
+  return { circuit, errors };
+}
+
+// How an import treats circuit IDs already in the project: create-only
+// leaves those circuits alone, update brings them in line with the file, and
+// sync also flags the project's circuits the file no longer lists
+export const importModes = ['create', 'update', 'sync'] as const;
+export type ImportMode = typeof importModes[number];
+
+export const importModeLabels: Record<ImportMode, string> = {
+  create: 'Create only',
+  update: 'Create and update',
+  sync: 'Full sync',
+};
+
+// Carrier and circuit prefixes seen on circuit IDs, compared after matchKey
+const carrierPrefixes = [
+  'att', 'vz', 'vzn', 'verizon', 'lumen', 'lvlt', 'ctl', 'centurylink', 'comcast', 'cmcst',
+  'zayo', 'chtr', 'spectrum', 'cox', 'windstream', 'frontier', 'cir', 'ckt', 'cid', 'circuit',
+];
+
+// "CIR-ATT-12.345 67", "att1234567" and "12345-67" all compare as
+// "1234567". Leading prefixes are dropped, whether they're words of their own
+// or run into the digits; the row's carrier counts as one.
+export function normalizeCircuitId(circuitId: string, carrier?: string): string {
+  const prefixes = [...carrierPrefixes, ...(carrier ? [matchKey(carrier)] : [])].filter(Boolean);
+  const parts = circuitId.split(/[\s\-_./:#]+/).map(matchKey).filter(Boolean);
+  while (parts.length > 0) {
+    const prefix = prefixes.find(prefix => parts[0] === prefix
+      ? parts.length > 1
+      : parts[0].startsWith(prefix) && /^\d/.test(parts[0].slice(prefix.length)));
+    if (!prefix) break;
+    if (parts[0] === prefix) parts.shift();
+    else parts[0] = parts[0].slice(prefix.length);
+  }
+  return parts.join('');
+}
+
+// Import preview, one entry per file row. Rows whose circuit is already in
+// the project and matches the file are unchanged; in create-only mode
+// they're skipped.
+export type ImportRowAction = 'create' | 'update' | 'unchanged' | 'skip' | 'error';
+
+export interface ImportFieldChange {
+  field: string;
+  label: string;
+  from: string;
+  to: string;
+}
+
+export interface ImportPreviewRow {
+  row: number; // 1-based, not counting the header row
+  action: ImportRowAction;
+  circuitId: string;
+  siteName: string;
+  carrier: string;
+  serviceType: string;
+  bandwidth: string;
+  monthlyCost: string;
+  newSite: boolean; // The row's site doesn't exist yet and will be added
+  changes: ImportFieldChange[]; // What an update changes on the circuit
+  warnings: string[]; // Likely duplicates; they don't stop the row importing
+  errors: string[];
+}
+
+// A project circuit a full sync didn't find in the file
+export interface ImportMissingCircuit {
+  id: string;
+  circuitId: string;
+  siteName: string;
+  carrier: string;
+}
+
+export interface ImportPreview {
+  mode: ImportMode;
+  rows: ImportPreviewRow[];
+  missing: ImportMissingCircuit[];
+  summary: Record<ImportRowAction, number> & { newSites: number; missing: number };
+}
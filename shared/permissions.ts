@@ -0,0 +1,70 @@
+import type { SessionUser, Project, ProjectMemberRole } from "./schema";
+
+type Actor = Pick<SessionUser, 'id' | 'role' | 'sharedProjectId'> | null | undefined;
+
+// view: read the project; edit: change its data; manage: change who can access it
+export type ProjectAccessLevel = 'view' | 'edit' | 'manage';
+
+const accessByRole: Record<ProjectMemberRole, ProjectAccessLevel[]> = {
+  owner: ['view', 'edit', 'manage'],
+  editor: ['view', 'edit'],
+  viewer: ['view'],
+};
+
+export function isAdmin(user: Actor): boolean {
+  return user?.role === 'admin';
+}
+
+export function isClient(user: Actor): boolean {
+  return user?.role === 'client';
+}
+
+// Effective role of a user on a project. Admins act as owners everywhere, and
+// the assigned consultant (createdBy) owns the project even without a
+// membership row, which covers projects created before membership existed.
+// Clients are capped at viewer, and a share-link session only sees its project.
+export function resolveProjectRole(
+  user: Actor,
+  project: Pick<Project, 'id' | 'createdBy'> | null | undefined,
+  memberRole?: string | null,
+): ProjectMemberRole | null {
+  if (!user || !project) return null;
+  if (user.sharedProjectId) return user.sharedProjectId === project.id ? 'viewer' : null;
+  if (isClient(user)) return memberRole && memberRole in accessByRole ? 'viewer' : null;
+  if (isAdmin(user) || project.createdBy === user.id) return 'owner';
+  if (memberRole && memberRole in accessByRole) return memberRole as ProjectMemberRole;
+  return null;
+}
+
+export function hasProjectAccess(role: ProjectMemberRole | null | undefined, level: ProjectAccessLevel): boolean {
+  return !!role && accessByRole[role].includes(level);
+}
+
+export function canEditProject(role: ProjectMemberRole | null | undefined): boolean {
+  return hasProjectAccess(role, 'edit');
+}
+
+export function canManageProjectMembers(role: ProjectMemberRole | null | undefined): boolean {
+  return hasProjectAccess(role, 'manage');
+}
+
+export function canCreateProject(user: Actor): boolean {
+  return !!user && !isClient(user);
+}
+
+// Internal notes and flags marked internal stay with the consulting team
+export function canViewInternalData(user: Actor): boolean {
+  return !!user && !isClient(user);
+}
+
+export function canDeleteProject(user: Actor): boolean {
+  return isAdmin(user);
+}
+
+export function canManageUsers(user: Actor): boolean {
+  return isAdmin(user);
+}
+
+export function canEditBenchmarkSettings(user: Actor): boolean {
+  return isAdmin(user);
+}
@@ -0,0 +1,353 @@
+import type { Circuit, Site, TopologyConnection, TopologyDesign, WanCloud } from "./schema";
+import { circuitConnection, circuitNodeId, targetCloudFor } from "./topology";
+
+// Something that can fail: one circuit, every circuit of a carrier, a WAN
+// cloud, or a Megaport POP and the NaaS circuits homed on it
+export type FailureKind = 'circuit' | 'carrier' | 'cloud' | 'pop';
+
+export const failureKindLabels: Record<FailureKind, string> = {
+  circuit: 'Circuit',
+  carrier: 'Carrier',
+  cloud: 'WAN cloud',
+  pop: 'Megaport POP',
+};
+
+export interface FailureScenario {
+  kind: FailureKind;
+  id: string;
+  label: string;
+}
+
+export type ResiliencyConnection = Pick<TopologyConnection, 'type' | 'bandwidth' | 'provider' | 'cloudId' | 'pointToPointEndpoint'> & { id?: string };
+
+export interface ResiliencySite {
+  id: string;
+  name: string;
+  category: string;
+  nearestMegaportPop?: string | null;
+  connections: ResiliencyConnection[];
+}
+
+export interface ResiliencyNetwork {
+  sites: ResiliencySite[];
+  clouds: Pick<WanCloud, 'id' | 'type' | 'name'>[];
+}
+
+export type SiteImpactStatus = 'isolated' | 'degraded';
+
+export interface SiteImpact {
+  siteId: string;
+  status: SiteImpactStatus;
+  lostDestinations: string[]; // Names of the data centers and clouds the site can no longer reach
+}
+
+export interface FailureImpact {
+  scenario: FailureScenario;
+  sites: SiteImpact[];
+}
+
+export interface SiteResiliency {
+  siteId: string;
+  siteName: string;
+  category: string;
+  destination: boolean; // A data center or cloud site; what other sites need to reach, so not checked itself
+  destinations: string[]; // Names of the data centers and clouds reachable with everything up
+  paths: number; // The site's own connections that reach a destination on their own
+  carriers: string[]; // Carriers behind those connections
+  meetsRedundancy: boolean;
+  singlePointsOfFailure: FailureScenario[]; // Failures that isolate the site
+}
+
+export interface ResiliencyReport {
+  requiredPaths: number;
+  destinations: string[];
+  sites: SiteResiliency[];
+  failures: FailureImpact[]; // Failures that isolate at least one site, worst first
+}
+
+// Independent paths each site needs for each benchmark redundancy level
+export const redundancyLevels: Record<string, number> = {
+  single: 1,
+  dual: 2,
+  triple: 3,
+};
+
+// Categories of sites other sites need to reach, and that carry traffic on
+// for sites connected to them
+const destinationCategories = ['Data Center', 'Cloud'];
+const hubCategories = ['Corporate', 'Data Center', 'Cloud'];
+// Cloud types that only carry traffic between sites; any other cloud is a destination
+const transportCloudTypes = ['Internet', 'MPLS', 'NaaS', 'VPLS', 'SD-WAN'];
+
+interface Edge {
+  id: string;
+  from: string;
+  to: string;
+  siteId: string;
+  carrier: string;
+  cloudId?: string;
+  pop?: string;
+}
+
+interface Graph {
+  nodes: Map<string, { name: string; transit: boolean }>;
+  edges: Edge[];
+  destinations: string[];
+}
+
+const siteNode = (siteId: string) => `site:${siteId}`;
+const cloudNode = (cloudId: string) => `cloud:${cloudId}`;
+
+export const connectionKey = (siteId: string, connection: ResiliencyConnection, index: number) =>
+  connection.id ?? `${siteId}-${index}`;
+
+function buildGraph(network: ResiliencyNetwork): Graph {
+  const nodes = new Map<string, { name: string; transit: boolean }>();
+  const siteIds = new Map<string, string>();
+  network.sites.forEach(site => {
+    nodes.set(siteNode(site.id), { name: site.name, transit: hubCategories.includes(site.category) });
+    siteIds.set(site.id.toLowerCase(), site.id);
+    siteIds.set(site.name.toLowerCase(), site.id);
+  });
+  network.clouds.forEach(cloud => nodes.set(cloudNode(cloud.id), { name: cloud.name, transit: true }));
+
+  const edges: Edge[] = [];
+  network.sites.forEach(site => site.connections.forEach((connection, index) => {
+    const edge = {
+      id: connectionKey(site.id, connection, index),
+      from: siteNode(site.id),
+      siteId: site.id,
+      carrier: connection.provider?.trim() ?? '',
+    };
+    const endpointId = connection.type === 'point-to-point' && connection.pointToPointEndpoint
+      ? siteIds.get(connection.pointToPointEndpoint.trim().toLowerCase())
+      : undefined;
+    if (endpointId) {
+      if (endpointId !== site.id) edges.push({ ...edge, to: siteNode(endpointId) });
+      return;
+    }
+    const cloud = targetCloudFor(connection, network.clouds);
+    if (!cloud) return;
+    edges.push({
+      ...edge,
+      to: cloudNode(cloud.id),
+      cloudId: cloud.id,
+      pop: cloud.type === 'NaaS' ? site.nearestMegaportPop ?? undefined : undefined,
+    });
+  }));
+
+  // Data centers and cloud sites, and clouds such as AWS that hold workloads.
+  // A network without any is judged on reaching its WAN clouds instead.
+  const connectedClouds = new Set(edges.map(edge => edge.to));
+  const destinationClouds = network.clouds.filter(cloud => connectedClouds.has(cloudNode(cloud.id)));
+  let destinations = [
+    ...network.sites.filter(site => destinationCategories.includes(site.category)).map(site => siteNode(site.id)),
+    ...destinationClouds.filter(cloud => !transportCloudTypes.includes(cloud.type)).map(cloud => cloudNode(cloud.id)),
+  ];
+  if (destinations.length === 0) {
+    destinations = destinationClouds.map(cloud => cloudNode(cloud.id));
+  }
+
+  return { nodes, edges, destinations };
+}
+
+const failsEdge = (scenario: FailureScenario, edge: Edge) => {
+  switch (scenario.kind) {
+    case 'circuit': return edge.id === scenario.id;
+    case 'carrier': return edge.carrier.toLowerCase() === scenario.id.toLowerCase();
+    case 'cloud': return edge.cloudId === scenario.id;
+    case 'pop': return edge.pop === scenario.id;
+  }
+};
+
+// Whether the scenario takes down one of a site's connections, for drawing it as failed
+export function failsConnection(
+  scenario: FailureScenario,
+  site: Pick<ResiliencySite, 'id' | 'nearestMegaportPop'>,
+  connection: ResiliencyConnection,
+  index: number,
+  clouds: Pick<WanCloud, 'id' | 'type'>[]
+): boolean {
+  const cloud = connection.type === 'point-to-point' && connection.pointToPointEndpoint ? null : targetCloudFor(connection, clouds);
+  return failsEdge(scenario, {
+    id: connectionKey(site.id, connection, index),
+    from: siteNode(site.id),
+    to: '',
+    siteId: site.id,
+    carrier: connection.provider?.trim() ?? '',
+    cloudId: cloud?.id,
+    pop: cloud?.type === 'NaaS' ? site.nearestMegaportPop ?? undefined : undefined,
+  });
+}
+
+// Destinations each site reaches over the given edges. Traffic passes through
+// clouds and hub sites, not through branches.
+function reachability(graph: Graph, edges: Edge[], removedNode?: string): Map<string, Set<string>> {
+  const neighbours = new Map<string, string[]>();
+  edges.forEach(({ from, to }) => {
+    if (from === removedNode || to === removedNode) return;
+    if (!neighbours.has(from)) neighbours.set(from, []);
+    if (!neighbours.has(to)) neighbours.set(to, []);
+    neighbours.get(from)!.push(to);
+    neighbours.get(to)!.push(from);
+  });
+
+  // Paths are symmetric, so each destination is searched from once
+  const reached = new Map<string, Set<string>>();
+  graph.destinations.forEach(destination => {
+    if (destination === removedNode) return;
+    const seen = new Set([destination]);
+    const queue = [destination];
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      if (node !== destination && !graph.nodes.get(node)?.transit) continue;
+      (neighbours.get(node) ?? []).forEach(next => {
+        if (seen.has(next)) return;
+        seen.add(next);
+        queue.push(next);
+      });
+    }
+    seen.forEach(node => {
+      if (node === destination) return;
+      reached.set(node, (reached.get(node) ?? new Set()).add(destination));
+    });
+  });
+  return reached;
+}
+
+function impactOf(graph: Graph, baseline: Map<string, Set<string>>, network: ResiliencyNetwork, scenario: FailureScenario): FailureImpact {
+  const removedNode = scenario.kind === 'cloud' ? cloudNode(scenario.id) : undefined;
+  const after = reachability(graph, graph.edges.filter(edge => !failsEdge(scenario, edge)), removedNode);
+  const sites: SiteImpact[] = [];
+  network.sites.forEach(site => {
+    const before = baseline.get(siteNode(site.id));
+    if (!before) return;
+    const still = after.get(siteNode(site.id)) ?? new Set<string>();
+    const lost = Array.from(before).filter(destination => !still.has(destination));
+    if (lost.length === 0) return;
+    sites.push({
+      siteId: site.id,
+      status: still.size === 0 ? 'isolated' : 'degraded',
+      lostDestinations: lost.map(destination => graph.nodes.get(destination)?.name ?? destination),
+    });
+  });
+  return { scenario, sites };
+}
+
+// Every circuit, carrier, cloud and POP in the network that could fail
+export function failureScenarios(network: ResiliencyNetwork): FailureScenario[] {
+  const graph = buildGraph(network);
+  const scenarios: FailureScenario[] = [];
+
+  network.sites.forEach(site => site.connections.forEach((connection, index) => {
+    const carrier = connection.provider?.trim() || connection.type;
+    scenarios.push({
+      kind: 'circuit',
+      id: connectionKey(site.id, connection, index),
+      label: `${site.name}: ${carrier} ${connection.bandwidth}`,
+    });
+  }));
+
+  const carriers = new Map<string, string>();
+  graph.edges.forEach(edge => {
+    if (edge.carrier && !carriers.has(edge.carrier.toLowerCase())) carriers.set(edge.carrier.toLowerCase(), edge.carrier);
+  });
+  Array.from(carriers.values()).sort().forEach(carrier => scenarios.push({ kind: 'carrier', id: carrier, label: carrier }));
+
+  const usedClouds = new Set(graph.edges.map(edge => edge.cloudId));
+  network.clouds
+    .filter(cloud => usedClouds.has(cloud.id))
+    .forEach(cloud => scenarios.push({ kind: 'cloud', id: cloud.id, label: cloud.name }));
+
+  const pops = new Set(graph.edges.map(edge => edge.pop).filter((pop): pop is string => !!pop));
+  Array.from(pops).sort().forEach(pop => scenarios.push({ kind: 'pop', id: pop, label: `Megaport ${pop}` }));
+
+  return scenarios;
+}
+
+// Sites that lose some or all of their data centers and clouds when the scenario's element fails
+export function simulateFailure(network: ResiliencyNetwork, scenario: FailureScenario): FailureImpact {
+  const graph = buildGraph(network);
+  return impactOf(graph, reachability(graph, graph.edges), network, scenario);
+}
+
+// Single points of failure for every site, and whether each site has the
+// paths the benchmark redundancy level asks for
+export function analyzeResiliency(network: ResiliencyNetwork, requiredPaths: number): ResiliencyReport {
+  const graph = buildGraph(network);
+  const baseline = reachability(graph, graph.edges);
+  const failures = failureScenarios(network)
+    .map(scenario => impactOf(graph, baseline, network, scenario))
+    .filter(impact => impact.sites.some(site => site.status === 'isolated'))
+    .sort((a, b) =>
+      b.sites.filter(site => site.status === 'isolated').length - a.sites.filter(site => site.status === 'isolated').length);
+
+  const sites = network.sites.map((site): SiteResiliency => {
+    const node = siteNode(site.id);
+    const destination = graph.destinations.includes(node);
+    const destinations = Array.from(baseline.get(node) ?? []);
+    const otherEdges = graph.edges.filter(edge => edge.from !== node && edge.to !== node);
+
+    // A connection is a path when the site still reaches a destination with
+    // only that one of its own connections up
+    const pathEdges = graph.edges.filter(edge => (edge.from === node || edge.to === node) &&
+      (reachability(graph, [...otherEdges, edge]).get(node)?.size ?? 0) > 0);
+    const carriers = Array.from(new Set(pathEdges.map(edge => edge.carrier).filter(Boolean)));
+    const singlePointsOfFailure = failures
+      .filter(impact => impact.sites.some(impacted => impacted.siteId === site.id && impacted.status === 'isolated'))
+      .map(impact => impact.scenario);
+
+    return {
+      siteId: site.id,
+      siteName: site.name,
+      category: site.category,
+      destination,
+      destinations: destinations.map(destination => graph.nodes.get(destination)?.name ?? destination),
+      paths: pathEdges.length,
+      carriers,
+      // Paths that share a carrier or cloud are not independent, so any
+      // redundancy beyond a single path also rules out single points of failure
+      meetsRedundancy: !destination && destinations.length > 0 && pathEdges.length >= requiredPaths &&
+        (requiredPaths < 2 || singlePointsOfFailure.length === 0),
+      singlePointsOfFailure,
+    };
+  });
+
+  return {
+    requiredPaths,
+    destinations: graph.destinations.map(destination => graph.nodes.get(destination)?.name ?? destination),
+    sites,
+    failures,
+  };
+}
+
+// The network a design draws: every circuit for the current design, the
+// design's own connections for a proposal
+export function resiliencyNetworkFor(
+  design: Pick<TopologyDesign, 'kind' | 'connections' | 'projectId'>,
+  circuits: Circuit[],
+  sites: Site[],
+  clouds: WanCloud[]
+): ResiliencyNetwork {
+  const networkSites = new Map<string, ResiliencySite>(sites.map(site => [site.id, {
+    id: site.id,
+    name: site.name,
+    category: site.category,
+    nearestMegaportPop: site.nearestMegaportPop,
+    connections: [],
+  }]));
+
+  circuits.forEach(circuit => {
+    const siteId = circuitNodeId(circuit);
+    if (!networkSites.has(siteId)) {
+      networkSites.set(siteId, { id: siteId, name: circuit.siteName, category: circuit.locationType, connections: [] });
+    }
+    if (design.kind !== 'proposed') networkSites.get(siteId)!.connections.push(circuitConnection(circuit, siteId));
+  });
+
+  if (design.kind === 'proposed') {
+    (design.connections ?? []).forEach(connection => networkSites.get(connection.siteId)?.connections.push(connection));
+  }
+
+  return { sites: Array.from(networkSites.values()), clouds };
+}
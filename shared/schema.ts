@@ -1,9 +1,25 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, timestamp, boolean, jsonb, real } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, decimal, timestamp, boolean, jsonb, real, primaryKey, unique } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Clients get read-only access to the projects shared with them
+export const userRoles = ['consultant', 'admin', 'client'] as const;
+export type UserRole = typeof userRoles[number];
+
+export const projectMemberRoles = ['owner', 'editor', 'viewer'] as const;
+export type ProjectMemberRole = typeof projectMemberRoles[number];
+
+// Each project has one current-state topology, drawn from its circuit
+// inventory, and any number of proposed designs with their own connections
+export const topologyDesignKinds = ['current', 'proposed'] as const;
+export type TopologyDesignKind = typeof topologyDesignKinds[number];
+
+// Import mapping profiles are saved for a client or for a carrier
+export const importMappingScopes = ['client', 'carrier'] as const;
+export type ImportMappingScope = typeof importMappingScopes[number];
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
@@ -23,11 +39,23 @@ export const projects = pgTable("projects", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const projectMembers = pgTable("project_members", {
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  role: text("role").notNull().default('viewer'), // owner, editor, viewer
+  addedBy: varchar("added_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.projectId, table.userId] }),
+}));
+
 export const circuits = pgTable("circuits", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   circuitId: text("circuit_id").notNull().unique(),
   projectId: varchar("project_id").references(() => projects.id),
-  siteName: text("site_name").notNull(),
+  siteId: varchar("site_id").references(() => sites.id, { onDelete: 'set null' }),
+  siteName: text("site_name").notNull(), // Kept in sync with the linked site's name
+  wanCloudId: varchar("wan_cloud_id").references(() => wanClouds.id, { onDelete: 'set null' }), // Topology cloud the circuit connects to
   carrier: text("carrier").notNull(),
   locationType: text("location_type").notNull().default('Branch'), // Branch, Corporate, Data Center, Cloud
   serviceType: text("service_type").notNull(),
@@ -42,7 +70,7 @@ export const circuits = pgTable("circuits", {
   contractEndDate: timestamp("contract_end_date"),
   status: text("status").notNull().default('active'),
   optimizationStatus: text("optimization_status").notNull().default('pending'),
-  notes: text("notes"),
+  notes: text("notes"), // Internal consultant notes, never shown to clients
   flags: jsonb("flags").default([]),
   siteFeatures: jsonb("site_features").default([]), // Array of features like ['redundant_circuits', 'sdwan_enabled', 'vpn_concentrator', 'hub_site']
   createdAt: timestamp("created_at").defaultNow(),
@@ -84,14 +112,141 @@ export const auditFlags = pgTable("audit_flags", {
   title: text("title").notNull(),
   description: text("description").notNull(),
   isResolved: boolean("is_resolved").default(false),
+  isInternal: boolean("is_internal").default(false), // Hidden from clients
   createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   resolvedAt: timestamp("resolved_at"),
 });
 
+// Signed, expiring links that give a client read-only access to one project
+export const projectShareLinks = pgTable("project_share_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  label: text("label"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdBy: varchar("created_by").references(() => users.id),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// WAN clouds on a topology design. Designs start with the default clouds
+// below; x and y are normalized (0-1) canvas coordinates.
+export const wanClouds = pgTable("wan_clouds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  // Filled in by the 0005 backfill for clouds created before design versions
+  designId: varchar("design_id").references(() => topologyDesigns.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  type: text("type").notNull(), // Internet, MPLS, AWS, Azure, GCP, NaaS or a custom type
+  color: text("color").notNull().default('#3b82f6'),
+  x: real("x").notNull().default(0.5),
+  y: real("y").notNull().default(0.5),
+  isDefault: boolean("is_default").notNull().default(false), // Default clouds are only drawn once something connects to them
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// key is the id these clouds had before they were stored per project
+export const defaultWanClouds = [
+  { key: 'internet', type: 'Internet', name: 'Internet WAN', x: 0.35, y: 0.5, color: '#3b82f6' },
+  { key: 'mpls', type: 'MPLS', name: 'MPLS WAN', x: 0.65, y: 0.5, color: '#8b5cf6' },
+  { key: 'azure-hub', type: 'Azure', name: 'Azure ExpressRoute', x: 0.25, y: 0.15, color: '#0078d4' },
+  { key: 'aws-hub', type: 'AWS', name: 'AWS Direct Connect', x: 0.1, y: 0.15, color: '#ff9900' },
+  { key: 'gcp-hub', type: 'GCP', name: 'Google Cloud', x: 0.5, y: 0.15, color: '#4285f4' },
+  { key: 'megaport', type: 'NaaS', name: 'Megaport NaaS', x: 0.5, y: 0.5, color: '#f97316' },
+] as const;
+
+// Named versions of a project's network topology ("Current", "Proposal A"),
+// each with its own layout, clouds, onramps and view settings.
+// Positions are normalized (0-1) canvas coordinates.
+export const topologyDesigns = pgTable("topology_designs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  name: text("name").notNull().default('Current'),
+  kind: text("kind").notNull().default('current'), // current, proposed
+  // Proposed designs only; the current design's connections come from the circuits
+  connections: jsonb("connections").$type<TopologyConnection[]>(),
+  sitePositions: jsonb("site_positions").$type<Record<string, TopologyPoint>>().notNull().default({}),
+  // Superseded by wan_clouds (copied over by the 0004 backfill); drop once it has run everywhere
+  cloudPositions: jsonb("cloud_positions").$type<Record<string, TopologyPoint>>().notNull().default({}),
+  customClouds: jsonb("custom_clouds").$type<TopologyCloud[]>().notNull().default([]),
+  hiddenClouds: jsonb("hidden_clouds").$type<string[]>().notNull().default([]),
+  cloudVisibility: jsonb("cloud_visibility").$type<Record<string, boolean>>().notNull().default({}),
+  connectionVisibility: jsonb("connection_visibility").$type<ConnectionVisibility>(),
+  customOnramps: jsonb("custom_onramps").$type<TopologyOnramp[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  projectName: unique("topology_designs_project_name_unique").on(table.projectId, table.name),
+}));
+
+// Global benchmark thresholds used by the audit (single row, id = 'default')
+export const benchmarkSettings = pgTable("benchmark_settings", {
+  id: varchar("id").primaryKey().default('default'),
+  highCostThreshold: decimal("high_cost_threshold", { precision: 8, scale: 2 }).notNull().default('10.00'),
+  excellentValueThreshold: decimal("excellent_value_threshold", { precision: 8, scale: 2 }).notNull().default('5.00'),
+  serviceBenchmarks: jsonb("service_benchmarks").$type<Record<string, number>>().notNull().default({}),
+  minimumRedundancy: text("minimum_redundancy").notNull().default('dual'), // single, dual, triple
+  slaUptime: decimal("sla_uptime", { precision: 5, scale: 2 }).notNull().default('99.95'),
+  diversePath: text("diverse_path").notNull().default('required'), // none, preferred, required
+  mttrHours: integer("mttr_hours").notNull().default(4),
+  contractAlertDays: integer("contract_alert_days").notNull().default(90),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Spreadsheet column mappings saved from the circuit import, so the next
+// file from the same client or carrier maps itself
+export const importMappingProfiles = pgTable("import_mapping_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  scope: text("scope").notNull(), // client, carrier
+  scopeName: text("scope_name").notNull(), // The client or carrier the profile is for
+  mapping: jsonb("mapping").$type<Record<string, string>>().notNull().default({}), // Circuit field -> column header
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  scopeName: unique("import_mapping_profiles_scope_name_unique").on(table.scope, table.scopeName, table.name),
+}));
+
+// A circuit's fields as they were before an import changed them, and as the
+// import left them
+export interface ImportBatchUpdate {
+  id: string; // Circuit id
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+// A circuit an import created, as it was created
+export interface ImportBatchCircuit {
+  id: string;
+  imported: Record<string, unknown>;
+}
+
+// Each committed circuit import, with everything it added and changed so
+// that it can be rolled back as a whole
+export const importBatches = pgTable("import_batches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  fileName: text("file_name").notNull(),
+  mode: text("mode").notNull(), // create, update, sync
+  createdCircuitIds: jsonb("created_circuit_ids").$type<string[]>().notNull().default([]),
+  createdCircuits: jsonb("created_circuits").$type<ImportBatchCircuit[]>().notNull().default([]),
+  updatedCircuits: jsonb("updated_circuits").$type<ImportBatchUpdate[]>().notNull().default([]),
+  createdSiteIds: jsonb("created_site_ids").$type<string[]>().notNull().default([]),
+  flagIds: jsonb("flag_ids").$type<string[]>().notNull().default([]), // Missing-from-import flags a sync raised
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  rolledBackBy: varchar("rolled_back_by").references(() => users.id),
+  rolledBackAt: timestamp("rolled_back_at"),
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   projects: many(projects),
+  projectMemberships: many(projectMembers),
   auditFlags: many(auditFlags),
 }));
 
@@ -102,13 +257,56 @@ export const projectsRelations = relations(projects, ({ one, many }) => ({
   }),
   circuits: many(circuits),
   sites: many(sites),
+  members: many(projectMembers),
+  shareLinks: many(projectShareLinks),
+  topologyDesigns: many(topologyDesigns),
+  wanClouds: many(wanClouds),
 }));
 
-export const sitesRelations = relations(sites, ({ one }) => ({
+export const wanCloudsRelations = relations(wanClouds, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [wanClouds.projectId],
+    references: [projects.id],
+  }),
+  design: one(topologyDesigns, {
+    fields: [wanClouds.designId],
+    references: [topologyDesigns.id],
+  }),
+  circuits: many(circuits),
+}));
+
+export const topologyDesignsRelations = relations(topologyDesigns, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [topologyDesigns.projectId],
+    references: [projects.id],
+  }),
+  wanClouds: many(wanClouds),
+}));
+
+export const projectShareLinksRelations = relations(projectShareLinks, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectShareLinks.projectId],
+    references: [projects.id],
+  }),
+}));
+
+export const projectMembersRelations = relations(projectMembers, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectMembers.projectId],
+    references: [projects.id],
+  }),
+  user: one(users, {
+    fields: [projectMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const sitesRelations = relations(sites, ({ one, many }) => ({
   project: one(projects, {
     fields: [sites.projectId],
     references: [projects.id],
   }),
+  circuits: many(circuits),
 }));
 
 export const circuitsRelations = relations(circuits, ({ one, many }) => ({
@@ -116,6 +314,14 @@ export const circuitsRelations = relations(circuits, ({ one, many }) => ({
     fields: [circuits.projectId],
     references: [projects.id],
   }),
+  site: one(sites, {
+    fields: [circuits.siteId],
+    references: [sites.id],
+  }),
+  wanCloud: one(wanClouds, {
+    fields: [circuits.wanCloudId],
+    references: [wanClouds.id],
+  }),
   auditFlags: many(auditFlags),
 }));
 
@@ -136,8 +342,13 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
   name: true,
   role: true,
+}).extend({
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  role: z.enum(userRoles).default('consultant'),
 });
 
+export const updateUserSchema = insertUserSchema.partial();
+
 export const insertProjectSchema = createInsertSchema(projects).pick({
   name: true,
   clientName: true,
@@ -145,10 +356,25 @@ export const insertProjectSchema = createInsertSchema(projects).pick({
   createdBy: true,
 });
 
+export const insertProjectMemberSchema = createInsertSchema(projectMembers).pick({
+  userId: true,
+  role: true,
+}).extend({
+  role: z.enum(projectMemberRoles).default('viewer'),
+});
+
+export const insertProjectShareLinkSchema = createInsertSchema(projectShareLinks).pick({
+  label: true,
+}).extend({
+  expiresInDays: z.number().int().min(1).max(365).default(30),
+});
+
 export const insertCircuitSchema = createInsertSchema(circuits).pick({
   circuitId: true,
   projectId: true,
+  siteId: true,
   siteName: true,
+  wanCloudId: true,
   carrier: true,
   locationType: true,
   serviceType: true,
@@ -182,27 +408,189 @@ export const insertSiteSchema = createInsertSchema(sites).pick({
   projectId: true,
 });
 
+const topologyPointSchema = z.object({ x: z.number(), y: z.number() });
+
+const topologyCloudSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  name: z.string(),
+  x: z.number(),
+  y: z.number(),
+  color: z.string(),
+});
+
+const topologyOnrampSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  address: z.string().optional(),
+  x: z.number(),
+  y: z.number(),
+});
+
+// A connection drawn on a proposed design. circuitId and monthlyCost carry
+// over from the circuit it was copied from, if any.
+const topologyConnectionSchema = z.object({
+  id: z.string(),
+  siteId: z.string(),
+  type: z.string(),
+  bandwidth: z.string(),
+  provider: z.string().optional(),
+  pointToPointEndpoint: z.string().optional(),
+  cloudId: z.string().optional(),
+  circuitId: z.string().optional(),
+  monthlyCost: z.number().optional(),
+});
+
+const connectionVisibilitySchema = z.object({
+  siteToCloud: z.boolean(),
+  mplsMesh: z.boolean(),
+  bandwidthLabels: z.boolean(),
+  pointToPoint: z.boolean(),
+});
+
+export const insertTopologyDesignSchema = z.object({
+  name: z.string().trim().min(1, 'Design name is required'),
+  connections: z.array(topologyConnectionSchema).nullable().default(null),
+  sitePositions: z.record(topologyPointSchema).default({}),
+  hiddenClouds: z.array(z.string()).default([]),
+  cloudVisibility: z.record(z.boolean()).default({}),
+  connectionVisibility: connectionVisibilitySchema.nullable().default(null),
+  customOnramps: z.array(topologyOnrampSchema).default([]),
+});
+
+export const insertWanCloudSchema = createInsertSchema(wanClouds).pick({
+  name: true,
+  type: true,
+  color: true,
+  x: true,
+  y: true,
+}).extend({
+  name: z.string().trim().min(1, 'Cloud name is required'),
+  type: z.string().trim().min(1, 'Cloud type is required'),
+  x: z.number().min(0).max(1).default(0.5),
+  y: z.number().min(0).max(1).default(0.5),
+});
+
+export const updateWanCloudSchema = insertWanCloudSchema.partial();
+
+// A new design version, copied from an existing one
+export const cloneTopologyDesignSchema = z.object({
+  name: z.string().trim().min(1, 'Design name is required'),
+  sourceId: z.string(),
+});
+
+const importedPositionSchema = {
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+};
+
+// A diagram from another tool, mapped onto a design. Shapes are referenced by
+// their id in the source diagram; sites and clouds without an id are created.
+export const topologyImportSchema = z.object({
+  sites: z.array(z.object({
+    ref: z.string(),
+    siteId: z.string().optional(),
+    name: z.string().trim().min(1, 'Site name is required'),
+    category: z.string().default('Branch'),
+    ...importedPositionSchema,
+  })).default([]),
+  clouds: z.array(z.object({
+    ref: z.string(),
+    cloudId: z.string().optional(),
+    name: z.string().trim().min(1, 'Cloud name is required'),
+    type: z.string().trim().min(1, 'Cloud type is required'),
+    color: z.string().optional(),
+    ...importedPositionSchema,
+  })).default([]),
+  connections: z.array(z.object({
+    siteRef: z.string(),
+    cloudRef: z.string().optional(),
+    endpointSiteRef: z.string().optional(),
+    circuitId: z.string().optional(),
+    bandwidth: z.string().default(''),
+    provider: z.string().optional(),
+  })).default([]),
+});
+
+// Saving a profile under an existing name for the same client or carrier replaces it
+export const insertImportMappingProfileSchema = z.object({
+  name: z.string().trim().min(1, 'Profile name is required'),
+  scope: z.enum(importMappingScopes),
+  scopeName: z.string().trim().min(1, 'Client or carrier name is required'),
+  mapping: z.record(z.string()),
+});
+
+export const insertBenchmarkSettingsSchema = createInsertSchema(benchmarkSettings).pick({
+  highCostThreshold: true,
+  excellentValueThreshold: true,
+  serviceBenchmarks: true,
+  minimumRedundancy: true,
+  slaUptime: true,
+  diversePath: true,
+  mttrHours: true,
+  contractAlertDays: true,
+});
+
 export const insertAuditFlagSchema = createInsertSchema(auditFlags).pick({
   circuitId: true,
   flagType: true,
   severity: true,
   title: true,
   description: true,
+  isInternal: true,
   createdBy: true,
 });
 
+// Who raised a flag stays fixed; it can be resolved, or moved to another circuit
+export const updateAuditFlagSchema = insertAuditFlagSchema.omit({ createdBy: true }).partial().extend({
+  circuitId: z.string().optional(),
+  isResolved: z.boolean().optional(),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+// The signed-in principal. Share-link sessions act as a client scoped to one project.
+export type SessionUser = User & { sharedProjectId?: string };
+
 export type Project = typeof projects.$inferSelect;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 
+export type ProjectMember = typeof projectMembers.$inferSelect;
+export type InsertProjectMember = z.infer<typeof insertProjectMemberSchema>;
+
+export type ProjectShareLink = typeof projectShareLinks.$inferSelect;
+export type InsertProjectShareLink = z.infer<typeof insertProjectShareLinkSchema>;
+
+// Project as returned by the API, with the caller's effective role on it
+export type ProjectWithAccess = Project & { accessRole: ProjectMemberRole };
+
 export type Circuit = typeof circuits.$inferSelect;
 export type InsertCircuit = z.infer<typeof insertCircuitSchema>;
 
 export type Site = typeof sites.$inferSelect;
 export type InsertSite = z.infer<typeof insertSiteSchema>;
 
+export type TopologyPoint = z.infer<typeof topologyPointSchema>;
+export type TopologyCloud = z.infer<typeof topologyCloudSchema>;
+export type TopologyOnramp = z.infer<typeof topologyOnrampSchema>;
+export type TopologyConnection = z.infer<typeof topologyConnectionSchema>;
+export type ConnectionVisibility = z.infer<typeof connectionVisibilitySchema>;
+export type WanCloud = typeof wanClouds.$inferSelect;
+export type InsertWanCloud = z.infer<typeof insertWanCloudSchema>;
+export type TopologyImport = z.infer<typeof topologyImportSchema>;
+
+export type TopologyDesign = typeof topologyDesigns.$inferSelect;
+export type InsertTopologyDesign = z.infer<typeof insertTopologyDesignSchema>;
+
+export type BenchmarkSettings = typeof benchmarkSettings.$inferSelect;
+export type InsertBenchmarkSettings = z.infer<typeof insertBenchmarkSettingsSchema>;
+
 export type AuditFlag = typeof auditFlags.$inferSelect;
-export type InsertAuditFlag = z.infer<typeof insertAuditFlagSchema>;
\ No newline at end of file
+export type InsertAuditFlag = z.infer<typeof insertAuditFlagSchema>;
+
+export type ImportMappingProfile = typeof importMappingProfiles.$inferSelect;
+export type InsertImportMappingProfile = z.infer<typeof insertImportMappingProfileSchema>;
+
+export type ImportBatch = typeof importBatches.$inferSelect;
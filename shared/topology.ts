@@ -0,0 +1,218 @@
+import type { Circuit, TopologyConnection, WanCloud } from "./schema";
+
+// Node id used before circuits were linked to sites, still used for circuits
+// without a site so their saved positions keep working
+export const nameBasedSiteId = (projectId: string, siteName: string) =>
+  `${projectId}-${siteName.toLowerCase().replace(/\s+/g, '-')}`;
+
+// Topology node a circuit is drawn from
+export const circuitNodeId = (circuit: Pick<Circuit, 'siteId' | 'projectId' | 'siteName'>) =>
+  circuit.siteId ?? nameBasedSiteId(circuit.projectId ?? '', circuit.siteName);
+
+const connectionTypesByService: Record<string, string> = {
+  'MPLS': 'mpls',
+  'VPLS': 'vpls',
+  'Private Line': 'point-to-point',
+  'Dark Fiber': 'point-to-point',
+  'Broadband': 'internet',
+  'Dedicated Internet': 'internet',
+  'LTE': 'internet',
+  'Satellite': 'internet',
+  'Direct Connect': 'aws',
+  'AWS Direct Connect': 'aws',
+  'Azure ExpressRoute': 'azure',
+  'SD-WAN': 'sd-wan',
+  'NaaS': 'naas',
+};
+
+// Connection type the topology viewer uses to pick a circuit's WAN cloud
+export function connectionTypeForService(serviceType: string, circuitCategory?: string | null): string {
+  return connectionTypesByService[serviceType] ?? (circuitCategory || 'Internet');
+}
+
+// How a circuit is drawn on the current-state topology
+export function circuitConnection(circuit: Circuit, siteId: string = circuitNodeId(circuit)): TopologyConnection {
+  const connection: TopologyConnection = {
+    id: circuit.id,
+    siteId,
+    type: connectionTypeForService(circuit.serviceType, circuit.circuitCategory),
+    bandwidth: circuit.bandwidth,
+    provider: circuit.carrier,
+    cloudId: circuit.wanCloudId ?? undefined,
+    circuitId: circuit.id,
+    monthlyCost: parseFloat(circuit.monthlyCost),
+  };
+
+  if (circuit.aLocation && circuit.zLocation) {
+    connection.type = 'point-to-point';
+    connection.pointToPointEndpoint = circuit.zLocation;
+  }
+
+  return connection;
+}
+
+const connectionTypesByCloud: Record<string, string> = {
+  'Internet': 'internet',
+  'MPLS': 'mpls',
+  'AWS': 'aws',
+  'Azure': 'azure',
+  'GCP': 'gcp',
+  'NaaS': 'naas',
+};
+
+// Connection type for a connection drawn to a cloud, the inverse of targetCloudFor
+export function connectionTypeForCloud(cloudType: string): string {
+  return connectionTypesByCloud[cloudType] ?? 'internet';
+}
+
+type ConnectionTarget = Pick<TopologyConnection, 'type' | 'provider' | 'cloudId'>;
+
+// WAN cloud a connection is drawn to: the cloud it is linked to, otherwise
+// the first cloud of the type its service implies
+export function targetCloudFor<T extends Pick<WanCloud, 'id' | 'type'>>(connection: ConnectionTarget, clouds: T[]): T | null {
+  const linkedCloud = connection.cloudId && clouds.find(c => c.id === connection.cloudId);
+  if (linkedCloud) return linkedCloud;
+
+  const type = connection.type.toLowerCase();
+  const provider = connection.provider?.toLowerCase() || '';
+  const cloudOfType = (cloudType: string) => clouds.find(c => c.type === cloudType) || null;
+
+  // AWS Direct Connect connections
+  if (type.includes('aws') || type.includes('direct connect') || provider.includes('aws')) {
+    return cloudOfType('AWS');
+  }
+
+  // Azure ExpressRoute connections
+  if (type.includes('azure') || type.includes('expressroute') || provider.includes('azure')) {
+    return cloudOfType('Azure');
+  }
+
+  // Google Cloud connections
+  if (type.includes('gcp') || type.includes('google') || provider.includes('google')) {
+    return cloudOfType('GCP');
+  }
+
+  // MPLS connections - primary hub
+  if (type.includes('mpls') || type.includes('vpls')) {
+    return cloudOfType('MPLS');
+  }
+
+  // Internet connections - primary hub
+  if (type.includes('internet') || type.includes('broadband') || type.includes('lte') ||
+      type.includes('satellite') || type.includes('dedicated internet')) {
+    return cloudOfType('Internet');
+  }
+
+  // Megaport/SD-WAN connections
+  if (type.includes('megaport') || type.includes('sd-wan') || type.includes('naas')) {
+    return cloudOfType('NaaS');
+  }
+
+  // Default to Internet for unknown types
+  return cloudOfType('Internet');
+}
+
+export type TopologyChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+// One side of a design comparison
+export interface TopologySnapshot {
+  siteIds: string[];
+  connections: TopologyConnection[];
+  clouds: Pick<WanCloud, 'id' | 'type' | 'name'>[];
+}
+
+export interface ConnectionDiff {
+  change: TopologyChange;
+  siteId: string;
+  base?: TopologyConnection;
+  proposed?: TopologyConnection;
+  changedFields: string[];
+  costDelta: number;
+}
+
+export interface TopologyDiff {
+  connections: ConnectionDiff[];
+  sites: Record<string, TopologyChange>;
+  baseMonthlyCost: number;
+  proposedMonthlyCost: number;
+}
+
+// Monthly cost of a connection, taken from the circuit behind it when the
+// circuit still exists so both sides price it the same way
+export function connectionMonthlyCost(connection: TopologyConnection, circuitsById: Map<string, Pick<Circuit, 'monthlyCost'>>): number {
+  const circuit = connection.circuitId ? circuitsById.get(connection.circuitId) : undefined;
+  const cost = circuit ? parseFloat(circuit.monthlyCost) : connection.monthlyCost ?? 0;
+  return Number.isFinite(cost) ? cost : 0;
+}
+
+// Fields compared between the two sides of a connection. Clouds are compared
+// by name since every design has its own copies of the clouds.
+const comparedFields = (connection: TopologyConnection, snapshot: TopologySnapshot, cost: number) => ({
+  type: connection.type,
+  bandwidth: connection.bandwidth,
+  provider: connection.provider ?? '',
+  endpoint: connection.pointToPointEndpoint ?? '',
+  cloud: connection.type === 'point-to-point' ? '' : targetCloudFor(connection, snapshot.clouds)?.name ?? '',
+  cost: cost.toFixed(2),
+});
+
+// Added, removed and changed connections and sites between two designs.
+// Connections match by id, which cloned designs keep, so a proposal shows
+// exactly what was added to or removed from the design it was cloned from.
+export function diffTopologies(base: TopologySnapshot, proposed: TopologySnapshot, circuits: Pick<Circuit, 'id' | 'monthlyCost'>[]): TopologyDiff {
+  const circuitsById = new Map(circuits.map(circuit => [circuit.id, circuit]));
+  const proposedById = new Map(proposed.connections.map(connection => [connection.id, connection]));
+  const diffs: ConnectionDiff[] = [];
+
+  for (const baseConnection of base.connections) {
+    const baseCost = connectionMonthlyCost(baseConnection, circuitsById);
+    const proposedConnection = proposedById.get(baseConnection.id);
+    if (!proposedConnection) {
+      diffs.push({ change: 'removed', siteId: baseConnection.siteId, base: baseConnection, changedFields: [], costDelta: -baseCost });
+      continue;
+    }
+    proposedById.delete(baseConnection.id);
+
+    const proposedCost = connectionMonthlyCost(proposedConnection, circuitsById);
+    const before = comparedFields(baseConnection, base, baseCost);
+    const after = comparedFields(proposedConnection, proposed, proposedCost);
+    const changedFields = (Object.keys(before) as (keyof typeof before)[]).filter(field => before[field] !== after[field]);
+    diffs.push({
+      change: changedFields.length > 0 || baseConnection.siteId !== proposedConnection.siteId ? 'changed' : 'unchanged',
+      siteId: proposedConnection.siteId,
+      base: baseConnection,
+      proposed: proposedConnection,
+      changedFields,
+      costDelta: proposedCost - baseCost,
+    });
+  }
+
+  proposedById.forEach(connection => {
+    diffs.push({
+      change: 'added',
+      siteId: connection.siteId,
+      proposed: connection,
+      changedFields: [],
+      costDelta: connectionMonthlyCost(connection, circuitsById),
+    });
+  });
+
+  const baseSites = new Set(base.siteIds);
+  const proposedSites = new Set(proposed.siteIds);
+  const sites: Record<string, TopologyChange> = {};
+  Array.from(new Set([...base.siteIds, ...proposed.siteIds])).forEach(siteId => {
+    if (!baseSites.has(siteId)) sites[siteId] = 'added';
+    else if (!proposedSites.has(siteId)) sites[siteId] = 'removed';
+    else sites[siteId] = diffs.some(diff => diff.siteId === siteId && diff.change !== 'unchanged') ? 'changed' : 'unchanged';
+  });
+
+  const total = (snapshot: TopologySnapshot) =>
+    snapshot.connections.reduce((sum, connection) => sum + connectionMonthlyCost(connection, circuitsById), 0);
+
+  return {
+    connections: diffs,
+    sites,
+    baseMonthlyCost: total(base),
+    proposedMonthlyCost: total(proposed),
+  };
+}